@@ -17,11 +17,15 @@ import marketDataRoutes from './src/routes/marketData.routes';
 import signalRoutes from './src/routes/signal.routes';
 import orderRoutes from './src/routes/order.routes';
 import adminRoutes from './src/routes/admin.routes';
+import strategyRoutes from './src/routes/strategy.routes';
+import backtestRoutes from './src/routes/backtest.routes';
 
 // Import services
-import * as KiteService from './src/services/kite.service';
+import { getMarketDataBroker } from './src/brokers';
 import * as TelegramService from './src/services/telegram.service';
 import * as SchedulerService from './src/services/scheduler.service';
+import { startOrderUpdates } from './src/services/orderUpdates.service';
+import { warmStartCandles } from './src/services/candleStore.service';
 
 const app = express();
 const PORT = process.env.PORT || 5000;
@@ -36,6 +40,8 @@ app.use('/api/market-data', marketDataRoutes);
 app.use('/api/signals', signalRoutes);
 app.use('/api/orders', orderRoutes);
 app.use('/api/admin', adminRoutes);
+app.use('/api/strategies', strategyRoutes);
+app.use('/api/backtests', backtestRoutes);
 
 // Health check endpoint
 app.get('/health', (req, res) => {
@@ -76,9 +82,13 @@ wss.on('connection', (ws) => {
 });
 
 // Initialize services
-KiteService.initializeKiteService()
-  .then(() => console.log('Kite Service initialized'))
-  .catch(err => console.error('Failed to initialize Kite Service:', err));
+const marketDataBroker = getMarketDataBroker();
+marketDataBroker.connect()
+  .then(() => console.log(`${marketDataBroker.name} broker initialized`))
+  .then(() => warmStartCandles())
+  .catch(err => console.error(`Failed to initialize ${marketDataBroker.name} broker:`, err));
+
+startOrderUpdates();
 
 TelegramService.initializeTelegramBot()
   .then(() => console.log('Telegram Bot initialized'))
@@ -88,6 +98,7 @@ TelegramService.initializeTelegramBot()
 if (process.env.NODE_ENV !== 'development') {
   SchedulerService.initializeSchedulers();
   SchedulerService.scheduleTokenRefresh();
+  SchedulerService.scheduleSquareOff();
 }
 
 // Start the server
@@ -0,0 +1,61 @@
+import type { IUser } from '../models/user.model';
+import type { IOrder } from '../models/order.model';
+import kiteBroker from './kite.broker';
+import mockBroker from './mock.broker';
+import { createPaperBroker } from './paper.broker';
+import type { Broker, BrokerName } from './types';
+
+// Registry of all brokers orders can be routed to
+const brokers: Partial<Record<BrokerName, Broker>> = {};
+
+/**
+ * Register a broker so users and orders can reference it by name
+ */
+export const registerBroker = (broker: Broker) => {
+  brokers[broker.name] = broker;
+};
+
+/**
+ * Get a registered broker by name
+ */
+export const getBroker = (name: BrokerName): Broker => {
+  const broker = brokers[name];
+
+  if (!broker) {
+    throw new Error(`Broker ${name} is not registered`);
+  }
+
+  return broker;
+};
+
+/**
+ * All registered brokers
+ */
+export const getBrokers = (): Broker[] => Object.values(brokers);
+
+/**
+ * Broker supplying quotes, ticks, instruments and history to the whole system
+ * Set with the MARKET_DATA_BROKER environment variable (defaults to KITE)
+ */
+export const getMarketDataBroker = (): Broker => {
+  return getBroker((process.env.MARKET_DATA_BROKER as BrokerName) || 'KITE');
+};
+
+// Paper trading simulates fills against the market data broker
+export const paperBroker = createPaperBroker('PAPER', getMarketDataBroker);
+
+[kiteBroker, mockBroker, paperBroker].forEach(registerBroker);
+
+/**
+ * Broker new orders of a user are placed with
+ */
+export const getBrokerForUser = (user: Pick<IUser, 'tradingMode' | 'broker'>): Broker => {
+  return getBroker(user.tradingMode === 'PAPER' ? 'PAPER' : user.broker || 'KITE');
+};
+
+/**
+ * Broker an existing order was placed with
+ */
+export const getBrokerForOrder = (order: Pick<IOrder, 'isPaper' | 'broker'>): Broker => {
+  return getBroker(order.broker || (order.isPaper ? 'PAPER' : 'KITE'));
+};
@@ -0,0 +1,451 @@
+import * as KiteService from '../services/kite.service';
+import {
+  getInstrumentKey,
+  type Broker,
+  type BrokerCandle,
+  type BrokerHolding,
+  type BrokerOcoTrigger,
+  type BrokerOrder,
+  type BrokerOrderStatus,
+  type BrokerPosition,
+  type BrokerQuote,
+  type BrokerTick,
+  type BrokerTrade,
+  type BrokerTransactionType,
+} from './types';
+
+// GTT orders are limit orders, the stop loss leg is priced below its trigger so it fills on a fast fall
+const GTT_STOP_LOSS_LIMIT_BUFFER_PERCENT = 2;
+
+// Kite Connect response shapes, only the fields mapped below
+
+interface KiteOhlc {
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+}
+
+interface KiteOrder {
+  order_id: string;
+  exchange: string;
+  tradingsymbol: string;
+  transaction_type: BrokerTransactionType;
+  order_type: string;
+  product: string;
+  status: string;
+  status_message?: string | null;
+  quantity?: number;
+  price?: number;
+  trigger_price?: number;
+  average_price?: number;
+  filled_quantity?: number;
+  pending_quantity?: number;
+  cancelled_quantity?: number;
+  tag?: string | null;
+  order_timestamp?: string | Date | null;
+  exchange_timestamp?: string | Date | null;
+}
+
+interface KiteQuote {
+  last_price?: number;
+  volume?: number;
+  oi?: number;
+  ohlc?: KiteOhlc;
+  timestamp?: string | Date | null;
+}
+
+interface KiteTick {
+  instrument_token: number;
+  last_price: number;
+  volume_traded?: number;
+  volume?: number;
+  average_traded_price?: number;
+  oi?: number;
+  ohlc?: KiteOhlc;
+  exchange_timestamp?: string | Date | null;
+}
+
+interface KiteGTT {
+  id: number;
+  status: string;
+  orders?: Array<{ result?: { order_result?: { order_id?: string } } | null }>;
+}
+
+interface KiteCandle {
+  date: string | Date;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume?: number;
+  oi?: number;
+}
+
+interface KitePosition {
+  exchange: string;
+  tradingsymbol: string;
+  product: string;
+  quantity: number;
+  average_price: number;
+  last_price: number;
+  pnl: number;
+}
+
+interface KiteTrade {
+  trade_id: string | number;
+  order_id: string;
+  exchange: string;
+  tradingsymbol: string;
+  transaction_type: BrokerTransactionType;
+  product: string;
+  quantity: number;
+  average_price: number;
+  fill_timestamp?: string | Date | null;
+}
+
+interface KiteHolding {
+  exchange: string;
+  tradingsymbol: string;
+  quantity: number;
+  t1_quantity?: number;
+  average_price: number;
+  last_price: number;
+  pnl: number;
+}
+
+/**
+ * Map a Kite order status to the broker-neutral status
+ * Intermediate states ("PUT ORDER REQ RECEIVED", "VALIDATION PENDING", ...) count as open
+ */
+const mapOrderStatus = (status: string): BrokerOrderStatus => {
+  switch (status) {
+    case 'COMPLETE':
+    case 'CANCELLED':
+    case 'REJECTED':
+      return status;
+    case 'TRIGGER PENDING':
+      return 'TRIGGER_PENDING';
+    default:
+      return 'OPEN';
+  }
+};
+
+/**
+ * Map an entry of the Kite order book or order history
+ */
+export const mapKiteOrder = (order: KiteOrder): BrokerOrder => ({
+  orderId: order.order_id,
+  exchange: order.exchange,
+  tradingSymbol: order.tradingsymbol,
+  transactionType: order.transaction_type,
+  orderType: order.order_type,
+  product: order.product,
+  quantity: order.quantity || 0,
+  price: order.price || 0,
+  triggerPrice: order.trigger_price || 0,
+  status: mapOrderStatus(order.status),
+  statusMessage: order.status_message || undefined,
+  averagePrice: order.average_price || 0,
+  filledQuantity: order.filled_quantity || 0,
+  pendingQuantity: order.pending_quantity || 0,
+  cancelledQuantity: order.cancelled_quantity || 0,
+  tag: order.tag || undefined,
+  orderTimestamp: order.order_timestamp ? new Date(order.order_timestamp) : undefined,
+  exchangeTimestamp: order.exchange_timestamp ? new Date(order.exchange_timestamp) : undefined,
+});
+
+/**
+ * Map a Kite quote
+ */
+const mapKiteQuote = (exchange: string, tradingSymbol: string, quote: KiteQuote): BrokerQuote => ({
+  exchange,
+  tradingSymbol,
+  lastPrice: quote.last_price || 0,
+  volume: quote.volume || 0,
+  openInterest: quote.oi || 0,
+  ohlc: quote.ohlc,
+  timestamp: quote.timestamp ? new Date(quote.timestamp) : new Date(),
+});
+
+/**
+ * Map a Kite WebSocket tick
+ */
+export const mapKiteTick = (tick: KiteTick): BrokerTick => ({
+  instrumentToken: tick.instrument_token,
+  lastPrice: tick.last_price,
+  volume: tick.volume_traded ?? tick.volume,
+  averagePrice: tick.average_traded_price,
+  openInterest: tick.oi,
+  ohlc: tick.ohlc,
+  timestamp: tick.exchange_timestamp ? new Date(tick.exchange_timestamp) : new Date(),
+});
+
+/**
+ * Map a Kite GTT trigger
+ * The first leg of an OCO trigger is the stop loss (lower trigger value), the second the target
+ */
+const mapKiteGTT = (trigger: KiteGTT): BrokerOcoTrigger => {
+  const legs = trigger.orders || [];
+  const legIndex = legs.findIndex(order => order.result);
+  const result = legs[legIndex]?.result;
+
+  let status: BrokerOcoTrigger['status'];
+  switch (trigger.status) {
+    case 'active':
+      status = 'ACTIVE';
+      break;
+    case 'triggered':
+      status = 'TRIGGERED';
+      break;
+    case 'expired':
+      status = 'EXPIRED';
+      break;
+    case 'rejected':
+      status = 'REJECTED';
+      break;
+    default:
+      status = 'CANCELLED';
+  }
+
+  return {
+    triggerId: String(trigger.id),
+    status,
+    triggeredLeg: legIndex === 0 ? 'STOP_LOSS' : legIndex === 1 ? 'TARGET' : undefined,
+    orderId: result?.order_result?.order_id || undefined,
+  };
+};
+
+const roundToTick = (price: number): number => Number((Math.round(price * 20) / 20).toFixed(2));
+
+/**
+ * Zerodha Kite Connect adapter
+ */
+const kiteBroker: Broker = {
+  name: 'KITE',
+
+  connect: () => KiteService.initializeKiteService(),
+
+  getLoginURL: apiKey => KiteService.getLoginURL(apiKey),
+
+  generateSession: async (apiKey, apiSecret, requestToken) => {
+    const session = await KiteService.generateSession(apiKey, apiSecret, requestToken);
+
+    return {
+      accessToken: session.access_token,
+      refreshToken: session.refresh_token || undefined,
+    };
+  },
+
+  getStatus: () => {
+    const status = KiteService.getKiteStatus();
+
+    return {
+      ...status,
+      name: 'KITE',
+      isTickerConnected: status.isWebSocketConnected,
+      subscribedInstruments: status.instrumentTokensCount,
+    };
+  },
+
+  syncInstruments: () => KiteService.fetchInstruments(),
+
+  getHistoricalData: async (symbol, interval, from, to) => {
+    const candles = await KiteService.fetchHistoricalData(symbol, interval, from, to);
+
+    if (!candles) {
+      return null;
+    }
+
+    return candles.map((candle: KiteCandle): BrokerCandle => ({
+      timestamp: new Date(candle.date),
+      open: candle.open,
+      high: candle.high,
+      low: candle.low,
+      close: candle.close,
+      volume: candle.volume || 0,
+      openInterest: candle.oi,
+    }));
+  },
+
+  getQuote: async (exchange, tradingSymbol) => {
+    const quote = await KiteService.getQuote(exchange, tradingSymbol);
+    return quote ? mapKiteQuote(exchange, tradingSymbol, quote) : null;
+  },
+
+  getQuotes: async instruments => {
+    const quotes = await KiteService.getQuotes(
+      instruments.map(instrument => getInstrumentKey(instrument.exchange, instrument.tradingSymbol))
+    );
+
+    const result: Record<string, BrokerQuote> = {};
+    for (const instrument of instruments) {
+      const key = getInstrumentKey(instrument.exchange, instrument.tradingSymbol);
+      const quote = quotes[key];
+
+      if (quote) {
+        result[key] = mapKiteQuote(instrument.exchange, instrument.tradingSymbol, quote);
+      }
+    }
+
+    return result;
+  },
+
+  subscribe: instrumentTokens => KiteService.subscribeInstruments(instrumentTokens),
+
+  onTicks: listener => {
+    KiteService.addTickListener(ticks => listener(ticks.map(mapKiteTick)));
+  },
+
+  placeOrder: async (userId, params) => {
+    const response = await KiteService.placeOrder(
+      userId,
+      params.exchange,
+      params.tradingSymbol,
+      params.transactionType,
+      params.quantity,
+      params.price ?? null,
+      params.product,
+      params.orderType,
+      params.validity || 'DAY',
+      0, // Disclosed quantity
+      params.triggerPrice || 0,
+      null, // Squareoff
+      null, // Stoploss
+      null, // Trailing stoploss
+      params.tag || null
+    );
+
+    return response?.order_id ? { orderId: response.order_id } : null;
+  },
+
+  getOrderHistory: async (userId, orderId) => {
+    const history = await KiteService.getOrderHistory(userId, orderId);
+    return history ? history.map(mapKiteOrder) : null;
+  },
+
+  getOrders: async userId => {
+    const orders = await KiteService.getOrderHistory(userId);
+    return orders ? orders.map(mapKiteOrder) : null;
+  },
+
+  modifyOrder: async (userId, orderId, params) => {
+    const response = await KiteService.modifyOrder(
+      userId,
+      orderId,
+      {
+        quantity: params.quantity,
+        price: params.price,
+        trigger_price: params.triggerPrice,
+      },
+      params.variety || 'regular'
+    );
+
+    return response?.order_id ? { orderId: response.order_id } : null;
+  },
+
+  cancelOrder: async (userId, orderId, variety = 'regular') => {
+    const response = await KiteService.cancelOrder(userId, orderId, variety);
+    return response?.order_id ? { orderId: response.order_id } : null;
+  },
+
+  getPositions: async userId => {
+    const positions = await KiteService.getPositions(userId);
+
+    if (!positions) {
+      return null;
+    }
+
+    return (positions.net || []).map((position: KitePosition): BrokerPosition => ({
+      exchange: position.exchange,
+      tradingSymbol: position.tradingsymbol,
+      product: position.product,
+      quantity: position.quantity,
+      averagePrice: position.average_price,
+      lastPrice: position.last_price,
+      profitLoss: position.pnl,
+    }));
+  },
+
+  getTrades: async userId => {
+    const trades = await KiteService.getTrades(userId);
+
+    if (!trades) {
+      return null;
+    }
+
+    return trades.map((trade: KiteTrade): BrokerTrade => ({
+      tradeId: String(trade.trade_id),
+      orderId: trade.order_id,
+      exchange: trade.exchange,
+      tradingSymbol: trade.tradingsymbol,
+      transactionType: trade.transaction_type,
+      product: trade.product,
+      quantity: trade.quantity,
+      averagePrice: trade.average_price,
+      fillTimestamp: trade.fill_timestamp ? new Date(trade.fill_timestamp) : undefined,
+    }));
+  },
+
+  getHoldings: async userId => {
+    const holdings = await KiteService.getHoldings(userId);
+
+    if (!holdings) {
+      return null;
+    }
+
+    return holdings.map((holding: KiteHolding): BrokerHolding => ({
+      exchange: holding.exchange,
+      tradingSymbol: holding.tradingsymbol,
+      quantity: holding.quantity + (holding.t1_quantity || 0),
+      averagePrice: holding.average_price,
+      lastPrice: holding.last_price,
+      profitLoss: holding.pnl,
+    }));
+  },
+
+  onOrderUpdate: listener => {
+    KiteService.addOrderUpdateListener(order => listener(mapKiteOrder(order)));
+  },
+
+  // Kite GTTs are not available for intraday (MIS) positions
+  ocoTriggerProducts: ['CNC', 'NRML'],
+
+  placeOcoTrigger: async (userId, params) => {
+    const stopLossLimit = roundToTick(params.stopLoss * (1 - GTT_STOP_LOSS_LIMIT_BUFFER_PERCENT / 100));
+    const exitOrder = {
+      exchange: params.exchange,
+      tradingsymbol: params.tradingSymbol,
+      transaction_type: params.transactionType,
+      quantity: params.quantity,
+      product: params.product,
+      order_type: 'LIMIT',
+    };
+
+    const response = await KiteService.placeGTT(userId, {
+      trigger_type: 'two-leg',
+      exchange: params.exchange,
+      tradingsymbol: params.tradingSymbol,
+      trigger_values: [params.stopLoss, params.target],
+      last_price: params.lastPrice,
+      orders: [
+        { ...exitOrder, price: stopLossLimit },
+        { ...exitOrder, price: params.target },
+      ],
+    });
+
+    return response?.trigger_id ? { triggerId: String(response.trigger_id) } : null;
+  },
+
+  getOcoTrigger: async (userId, triggerId) => {
+    const trigger = await KiteService.getGTT(userId, triggerId);
+    return trigger ? mapKiteGTT(trigger) : null;
+  },
+
+  cancelOcoTrigger: async (userId, triggerId) => {
+    const response = await KiteService.deleteGTT(userId, triggerId);
+    return response?.trigger_id ? { triggerId: String(response.trigger_id) } : null;
+  },
+};
+
+export default kiteBroker;
@@ -0,0 +1,176 @@
+import MarketData from '../models/marketData.model';
+import StockUniverse from '../models/stockUniverse.model';
+import OptionInstrument from '../models/optionInstrument.model';
+import HistoricalCandle from '../models/historicalCandle.model';
+import * as CandleStore from '../services/candleStore.service';
+import { KITE_INTERVAL_MINUTES } from '../utils/candle.util';
+import { calculateOptionPrice, getTimeToExpiry, DEFAULT_VOLATILITY } from '../utils/optionPricing.util';
+import { createPaperBroker } from './paper.broker';
+import { getInstrumentKey, type Broker, type BrokerQuote, type BrokerTick } from './types';
+
+/**
+ * A local broker for development without a broker account. Prices come from
+ * the stored market data (options are priced with Black-Scholes off their
+ * underlying), ticks are pushed in by the caller and orders fill instantly.
+ */
+export interface MockBroker extends Broker {
+  setPrice(exchange: string, tradingSymbol: string, price: number): void;
+  emitTicks(ticks: BrokerTick[]): void;
+}
+
+const priceOverrides = new Map<string, number>();
+const tickListeners: Array<(ticks: BrokerTick[]) => void> = [];
+const subscribedTokens = new Set<number>();
+
+/**
+ * Last price of an instrument from the overrides or the stored market data
+ */
+const getMockPrice = async (exchange: string, tradingSymbol: string): Promise<number | null> => {
+  const override = priceOverrides.get(getInstrumentKey(exchange, tradingSymbol));
+
+  if (override !== undefined) {
+    return override;
+  }
+
+  if (exchange === 'NFO') {
+    // Option contracts are priced off their underlying
+    const contract = await OptionInstrument.findOne({ tradingSymbol, exchange });
+
+    if (contract) {
+      const underlying = await MarketData.findOne({ symbol: contract.underlying });
+
+      if (!underlying) {
+        return null;
+      }
+
+      const premium = calculateOptionPrice(
+        underlying.lastPrice,
+        contract.strike,
+        getTimeToExpiry(contract.expiry),
+        DEFAULT_VOLATILITY,
+        contract.instrumentType
+      );
+
+      return Number(Math.max(premium, contract.tickSize || 0.05).toFixed(2));
+    }
+
+    // Futures track their underlying
+    const stock = await StockUniverse.findOne({ 'futures.tradingSymbol': tradingSymbol });
+    const underlying = stock ? await MarketData.findOne({ symbol: stock.symbol }) : null;
+    return underlying ? underlying.lastPrice : null;
+  }
+
+  const marketData = await MarketData.findOne({ symbol: tradingSymbol });
+  return marketData ? marketData.lastPrice : null;
+};
+
+const getQuote = async (exchange: string, tradingSymbol: string): Promise<BrokerQuote | null> => {
+  const lastPrice = await getMockPrice(exchange, tradingSymbol);
+
+  if (lastPrice === null) {
+    return null;
+  }
+
+  return {
+    exchange,
+    tradingSymbol,
+    lastPrice,
+    volume: 0,
+    openInterest: 0,
+    timestamp: new Date(),
+  };
+};
+
+const mockBroker: MockBroker = {
+  name: 'MOCK',
+
+  connect: async () => {
+    console.log('Mock broker ready. Prices come from stored market data.');
+  },
+  getLoginURL: () => '',
+  generateSession: async () => ({ accessToken: 'mock-access-token' }),
+  getStatus: () => ({
+    name: 'MOCK',
+    isInitialized: true,
+    isTickerConnected: true,
+    subscribedInstruments: subscribedTokens.size,
+  }),
+
+  // Instruments are loaded by another broker or imported, nothing to sync
+  syncInstruments: async () => {},
+
+  getHistoricalData: async (symbol, interval, from, to) => {
+    const candles = await HistoricalCandle.find({
+      symbol,
+      interval,
+      timestamp: { $gte: from, $lte: to },
+    }).sort({ timestamp: 1 });
+
+    // Intraday candles not cached for backtests come from the candle store
+    const intervalMinutes = KITE_INTERVAL_MINUTES[interval];
+    if (candles.length === 0 && intervalMinutes) {
+      return CandleStore.getCandles(symbol, intervalMinutes, { from, to });
+    }
+
+    return candles.map(candle => ({
+      timestamp: candle.timestamp,
+      open: candle.open,
+      high: candle.high,
+      low: candle.low,
+      close: candle.close,
+      volume: candle.volume,
+    }));
+  },
+
+  getQuote,
+
+  getQuotes: async instruments => {
+    const quotes: Record<string, BrokerQuote> = {};
+
+    for (const instrument of instruments) {
+      const quote = await getQuote(instrument.exchange, instrument.tradingSymbol);
+
+      if (quote) {
+        quotes[getInstrumentKey(instrument.exchange, instrument.tradingSymbol)] = quote;
+      }
+    }
+
+    return quotes;
+  },
+
+  subscribe: instrumentTokens => {
+    for (const token of instrumentTokens) {
+      subscribedTokens.add(token);
+    }
+  },
+
+  onTicks: listener => {
+    tickListeners.push(listener);
+  },
+
+  // Orders fill immediately at the mock price
+  placeOrder: (userId, params) => mockOrders.placeOrder(userId, params),
+  getOrderHistory: (userId, orderId) => mockOrders.getOrderHistory(userId, orderId),
+  getOrders: userId => mockOrders.getOrders(userId),
+  modifyOrder: (userId, orderId, params) => mockOrders.modifyOrder(userId, orderId, params),
+  cancelOrder: (userId, orderId) => mockOrders.cancelOrder(userId, orderId),
+  getPositions: userId => mockOrders.getPositions(userId),
+  getTrades: userId => mockOrders.getTrades(userId),
+  getHoldings: userId => mockOrders.getHoldings(userId),
+  onOrderUpdate: listener => mockOrders.onOrderUpdate(listener),
+  restoreOrders: () => mockOrders.restoreOrders(),
+
+  setPrice: (exchange, tradingSymbol, price) => {
+    priceOverrides.set(getInstrumentKey(exchange, tradingSymbol), price);
+  },
+
+  emitTicks: ticks => {
+    for (const listener of tickListeners) {
+      listener(ticks);
+    }
+  },
+};
+
+const mockOrders = createPaperBroker('MOCK', () => mockBroker, { slippagePercent: 0, latencyMs: 0 });
+
+export default mockBroker;
@@ -0,0 +1,578 @@
+import User from '../models/user.model';
+import OptionInstrument from '../models/optionInstrument.model';
+import PaperOrderModel from '../models/paperOrder.model';
+import { getCurrentTime } from '../utils/clock.util';
+import { getISTStartOfDay } from '../utils/date.util';
+import {
+  getInstrumentKey,
+  type Broker,
+  type BrokerModifyOrderParams,
+  type BrokerName,
+  type BrokerOrder,
+  type BrokerOrderParams,
+  type BrokerPosition,
+  type BrokerTick,
+  type BrokerTrade,
+} from './types';
+
+// Defaults for users without paper trading settings
+export const DEFAULT_SLIPPAGE_PERCENT = 0.1;
+export const DEFAULT_LATENCY_MS = 500;
+const STALE_PRICE_MS = 30 * 1000; // Refresh prices from a quote when no tick arrived for 30 seconds
+
+export interface PaperTradingSettings {
+  slippagePercent: number;
+  latencyMs: number;
+}
+
+/**
+ * A simulated broker. Resting orders fill on the ticks of its market data
+ * broker, live or replayed.
+ * Its order book is written to the PaperOrder collection and rebuilt from it after a restart.
+ */
+export interface PaperBroker extends Broker {
+  restoreOrders(): Promise<number>;
+  reset(): void;
+}
+
+interface PaperOrder extends BrokerOrder {
+  userId: string;
+  instrumentToken?: number;
+  slippagePercent: number;
+  eligibleAt: number; // Epoch ms before which the order cannot fill (simulated latency)
+  history: BrokerOrder[];
+}
+
+const isOrderOpen = (order: PaperOrder): boolean => order.status === 'OPEN' || order.status === 'TRIGGER_PENDING';
+
+/**
+ * Snapshot of an order without the simulator's bookkeeping
+ */
+const toBrokerOrder = (order: PaperOrder): BrokerOrder => {
+  const { userId, instrumentToken, slippagePercent, eligibleAt, history, ...brokerOrder } = order;
+  return { ...brokerOrder };
+};
+
+/**
+ * Apply adverse slippage to a fill price
+ */
+const applySlippage = (price: number, order: PaperOrder): number => {
+  const slippage = price * (order.slippagePercent / 100);
+  const fillPrice = order.transactionType === 'BUY' ? price + slippage : price - slippage;
+  return Number(Math.max(fillPrice, 0.05).toFixed(2));
+};
+
+/**
+ * Fill price of an order at the given market price, or null if it does not fill
+ */
+const getFillPrice = (order: PaperOrder, marketPrice: number): number | null => {
+  const isBuy = order.transactionType === 'BUY';
+  const isTriggered = isBuy ? marketPrice >= order.triggerPrice : marketPrice <= order.triggerPrice;
+  const isWithinLimit = isBuy ? marketPrice <= order.price : marketPrice >= order.price;
+
+  switch (order.orderType) {
+    case 'MARKET':
+      return applySlippage(marketPrice, order);
+    case 'LIMIT':
+      return isWithinLimit ? marketPrice : null;
+    case 'SL-M':
+      return isTriggered ? applySlippage(marketPrice, order) : null;
+    case 'SL':
+      // Triggered, then rests as a limit order
+      return isTriggered && isWithinLimit ? marketPrice : null;
+    default:
+      return null;
+  }
+};
+
+/**
+ * Create a paper broker that simulates fills against another broker's market data
+ * @param name Name the broker reports
+ * @param getMarketDataBroker Broker providing quotes and ticks
+ * @param fixedSettings Slippage and latency for every user (optional, defaults to each user's paper settings)
+ * @returns Simulated broker
+ */
+export const createPaperBroker = (
+  name: BrokerName,
+  getMarketDataBroker: () => Broker,
+  fixedSettings?: PaperTradingSettings
+): PaperBroker => {
+  // Order book of every paper account, keyed by order ID
+  const orders = new Map<string, PaperOrder>();
+
+  // Last traded prices keyed by "EXCHANGE:TRADINGSYMBOL"
+  const lastPrices = new Map<string, { price: number; timestamp: Date; updatedAt: number }>();
+  const tokenInstruments = new Map<number, string>();
+
+  const orderUpdateListeners: Array<(order: BrokerOrder) => void> = [];
+
+  let orderSequence = 0;
+  let isTickListenerRegistered = false;
+
+  // Writes of the order book run one after another, so a later state is never overwritten by an earlier one
+  let persistQueue: Promise<void> = Promise.resolve();
+
+  /**
+   * Write the current state of an order to the database
+   */
+  const persistOrder = (order: PaperOrder): void => {
+    const state = { ...order, history: [...order.history], broker: name };
+
+    persistQueue = persistQueue
+      .then(async () => {
+        await PaperOrderModel.updateOne({ broker: name, orderId: order.orderId }, { $set: state }, { upsert: true });
+      })
+      .catch(error => console.error(`Error saving ${name.toLowerCase()} order ${order.orderId}:`, error));
+  };
+
+  /**
+   * Record an order state change and notify order update listeners
+   * Listeners run synchronously so an OCO sibling can be cancelled before the next tick is matched
+   */
+  const recordHistory = (order: PaperOrder): void => {
+    const snapshot = toBrokerOrder(order);
+    order.history.push(snapshot);
+    persistOrder(order);
+
+    for (const listener of orderUpdateListeners) {
+      listener({ ...snapshot });
+    }
+  };
+
+  /**
+   * Try to fill an open order at the given market price
+   * The timestamp and the order's eligibility are both on the system clock, virtual during a replay
+   */
+  const matchOrder = (order: PaperOrder, marketPrice: number, timestamp: Date): void => {
+    if (!isOrderOpen(order) || timestamp.getTime() < order.eligibleAt) {
+      return;
+    }
+
+    const fillPrice = getFillPrice(order, marketPrice);
+
+    if (fillPrice === null) {
+      return;
+    }
+
+    order.status = 'COMPLETE';
+    order.averagePrice = fillPrice;
+    order.filledQuantity = order.quantity;
+    order.pendingQuantity = 0;
+    order.exchangeTimestamp = timestamp;
+    recordHistory(order);
+
+    console.log(`[${name}] ${order.transactionType} ${order.quantity} ${order.tradingSymbol} filled at ${fillPrice}`);
+  };
+
+  /**
+   * Match the resting orders of an instrument against a tick
+   * Ticks are timed on arrival by the system clock, the exchange time may be skewed or delayed
+   */
+  const processTick = (tick: BrokerTick): void => {
+    const instrument = tokenInstruments.get(tick.instrumentToken);
+
+    if (!instrument) {
+      return;
+    }
+
+    const receivedAt = getCurrentTime();
+    lastPrices.set(instrument, { price: tick.lastPrice, timestamp: receivedAt, updatedAt: Date.now() });
+
+    for (const order of orders.values()) {
+      if (order.instrumentToken === tick.instrumentToken) {
+        matchOrder(order, tick.lastPrice, receivedAt);
+      }
+    }
+  };
+
+  /**
+   * Listen to the tick stream of the market data broker once so resting orders fill on ticks
+   */
+  const ensureTickListener = (): void => {
+    if (isTickListenerRegistered) {
+      return;
+    }
+
+    getMarketDataBroker().onTicks(ticks => {
+      for (const tick of ticks) {
+        processTick(tick);
+      }
+    });
+    isTickListenerRegistered = true;
+  };
+
+  /**
+   * Last price of an instrument from the tick stream, falling back to a quote
+   */
+  const getMarketPrice = async (exchange: string, tradingSymbol: string): Promise<{ price: number; timestamp: Date } | null> => {
+    const instrument = getInstrumentKey(exchange, tradingSymbol);
+    const cached = lastPrices.get(instrument);
+
+    if (cached && Date.now() - cached.updatedAt < STALE_PRICE_MS) {
+      return cached;
+    }
+
+    const quote = await getMarketDataBroker().getQuote(exchange, tradingSymbol);
+
+    if (!quote?.lastPrice) {
+      return cached || null;
+    }
+
+    const price = { price: quote.lastPrice, timestamp: getCurrentTime(), updatedAt: Date.now() };
+    lastPrices.set(instrument, price);
+    return price;
+  };
+
+  /**
+   * Re-check open orders of a user against the latest prices
+   */
+  const refreshOpenOrders = async (userId: string): Promise<void> => {
+    for (const order of orders.values()) {
+      if (order.userId !== userId || !isOrderOpen(order)) {
+        continue;
+      }
+
+      const market = await getMarketPrice(order.exchange, order.tradingSymbol);
+
+      if (market) {
+        matchOrder(order, market.price, new Date(Math.max(market.timestamp.getTime(), getCurrentTime().getTime())));
+      }
+    }
+  };
+
+  const getSettings = async (userId: string): Promise<PaperTradingSettings | null> => {
+    if (fixedSettings) {
+      return fixedSettings;
+    }
+
+    const user = await User.findById(userId);
+
+    if (!user) {
+      return null;
+    }
+
+    return {
+      slippagePercent: user.paperTrading?.slippagePercent ?? DEFAULT_SLIPPAGE_PERCENT,
+      latencyMs: user.paperTrading?.latencyMs ?? DEFAULT_LATENCY_MS,
+    };
+  };
+
+  const placeOrder = async (userId: string, params: BrokerOrderParams) => {
+    try {
+      const settings = await getSettings(userId);
+
+      if (!settings) {
+        console.warn(`User ${userId} not found. Cannot place ${name.toLowerCase()} order.`);
+        return null;
+      }
+
+      ensureTickListener();
+
+      // Subscribe to the instrument so the order fills on live ticks
+      const contract = await OptionInstrument.findOne({ tradingSymbol: params.tradingSymbol, exchange: params.exchange });
+
+      if (contract) {
+        tokenInstruments.set(contract.instrumentToken, getInstrumentKey(params.exchange, params.tradingSymbol));
+        getMarketDataBroker().subscribe([contract.instrumentToken]);
+      }
+
+      orderSequence++;
+      const now = getCurrentTime();
+      const isStopOrder = params.orderType === 'SL' || params.orderType === 'SL-M';
+
+      const order: PaperOrder = {
+        orderId: `${name}-${now.getTime()}-${orderSequence}`,
+        userId: userId.toString(),
+        exchange: params.exchange,
+        tradingSymbol: params.tradingSymbol,
+        instrumentToken: contract?.instrumentToken,
+        transactionType: params.transactionType,
+        orderType: params.orderType,
+        product: params.product,
+        quantity: params.quantity,
+        price: params.price || 0,
+        triggerPrice: params.triggerPrice || 0,
+        status: isStopOrder ? 'TRIGGER_PENDING' : 'OPEN',
+        averagePrice: 0,
+        filledQuantity: 0,
+        pendingQuantity: params.quantity,
+        cancelledQuantity: 0,
+        tag: params.tag,
+        orderTimestamp: now,
+        slippagePercent: settings.slippagePercent,
+        eligibleAt: now.getTime() + settings.latencyMs,
+        history: [],
+      };
+
+      if (params.quantity <= 0 || (params.orderType !== 'MARKET' && params.orderType !== 'SL-M' && !params.price) || (isStopOrder && !params.triggerPrice)) {
+        order.status = 'REJECTED';
+        order.statusMessage = 'Invalid order parameters';
+      }
+
+      orders.set(order.orderId, order);
+      recordHistory(order);
+
+      // Market orders fill after the simulated latency at the then-current price
+      if (order.status === 'OPEN' && params.orderType === 'MARKET') {
+        setTimeout(async () => {
+          const market = await getMarketPrice(params.exchange, params.tradingSymbol);
+
+          if (market) {
+            matchOrder(order, market.price, new Date(Math.max(market.timestamp.getTime(), order.eligibleAt)));
+          }
+        }, settings.latencyMs);
+      }
+
+      return { orderId: order.orderId };
+    } catch (error) {
+      console.error(`Error placing ${name.toLowerCase()} order:`, error);
+      return null;
+    }
+  };
+
+  const getOrders = async (userId: string) => {
+    await refreshOpenOrders(userId.toString());
+
+    return [...orders.values()]
+      .filter(order => order.userId === userId.toString())
+      .map(toBrokerOrder);
+  };
+
+  const getOrderHistory = async (userId: string, orderId: string) => {
+    await refreshOpenOrders(userId.toString());
+
+    const order = orders.get(orderId);
+
+    if (!order || order.userId !== userId.toString()) {
+      return null;
+    }
+
+    return order.history;
+  };
+
+  const modifyOrder = async (userId: string, orderId: string, params: BrokerModifyOrderParams) => {
+    const order = orders.get(orderId);
+
+    if (!order || order.userId !== userId.toString()) {
+      console.warn(`${name} order ${orderId} not found for user ${userId}.`);
+      return null;
+    }
+
+    if (!isOrderOpen(order)) {
+      console.warn(`${name} order ${orderId} is ${order.status} and cannot be modified.`);
+      return null;
+    }
+
+    if (params.quantity !== undefined) {
+      order.quantity = params.quantity;
+      order.pendingQuantity = params.quantity - order.filledQuantity;
+    }
+    if (params.price !== undefined) order.price = params.price;
+    if (params.triggerPrice !== undefined) order.triggerPrice = params.triggerPrice;
+    recordHistory(order);
+
+    return { orderId: order.orderId };
+  };
+
+  const cancelOrder = async (userId: string, orderId: string) => {
+    const order = orders.get(orderId);
+
+    if (!order || order.userId !== userId.toString()) {
+      console.warn(`${name} order ${orderId} not found for user ${userId}.`);
+      return null;
+    }
+
+    if (!isOrderOpen(order)) {
+      console.warn(`${name} order ${orderId} is ${order.status} and cannot be cancelled.`);
+      return null;
+    }
+
+    order.status = 'CANCELLED';
+    order.cancelledQuantity = order.pendingQuantity;
+    order.pendingQuantity = 0;
+    recordHistory(order);
+
+    return { orderId: order.orderId };
+  };
+
+  /**
+   * Rebuild the order book after a restart: resting orders of any day and today's other orders
+   * @returns Number of orders restored
+   */
+  const restoreOrders = async (): Promise<number> => {
+    // Called on startup, orders placed from here on fill on ticks without waiting for the next placement
+    ensureTickListener();
+
+    try {
+      const saved = await PaperOrderModel.find({
+        broker: name,
+        $or: [
+          { status: { $in: ['OPEN', 'TRIGGER_PENDING'] } },
+          { orderTimestamp: { $gte: getISTStartOfDay(getCurrentTime()) } },
+        ],
+      })
+        .select('-_id -__v -broker -createdAt -updatedAt')
+        .lean<PaperOrder[]>();
+
+      let restored = 0;
+
+      for (const order of saved) {
+        if (orders.has(order.orderId)) {
+          continue;
+        }
+
+        orders.set(order.orderId, order);
+        restored++;
+
+        // Resting orders fill on live ticks again
+        if (isOrderOpen(order) && order.instrumentToken) {
+          tokenInstruments.set(order.instrumentToken, getInstrumentKey(order.exchange, order.tradingSymbol));
+          getMarketDataBroker().subscribe([order.instrumentToken]);
+        }
+      }
+
+      if (restored > 0) {
+        console.log(`[${name}] Restored ${restored} orders.`);
+      }
+
+      return restored;
+    } catch (error) {
+      console.error(`Error restoring ${name.toLowerCase()} orders:`, error);
+      return 0;
+    }
+  };
+
+  /**
+   * Net positions from the filled orders of a user
+   */
+  const getPositions = async (userId: string) => {
+    const positions = new Map<string, BrokerPosition & { buyValue: number; sellValue: number; buyQuantity: number }>();
+
+    for (const order of orders.values()) {
+      if (order.userId !== userId.toString() || order.status !== 'COMPLETE') {
+        continue;
+      }
+
+      const key = getInstrumentKey(order.exchange, order.tradingSymbol);
+      const position = positions.get(key) || {
+        exchange: order.exchange,
+        tradingSymbol: order.tradingSymbol,
+        product: order.product,
+        quantity: 0,
+        averagePrice: 0,
+        lastPrice: 0,
+        profitLoss: 0,
+        buyValue: 0,
+        sellValue: 0,
+        buyQuantity: 0,
+      };
+
+      if (order.transactionType === 'BUY') {
+        position.quantity += order.filledQuantity;
+        position.buyQuantity += order.filledQuantity;
+        position.buyValue += order.averagePrice * order.filledQuantity;
+      } else {
+        position.quantity -= order.filledQuantity;
+        position.sellValue += order.averagePrice * order.filledQuantity;
+      }
+
+      positions.set(key, position);
+    }
+
+    const result: BrokerPosition[] = [];
+    for (const position of positions.values()) {
+      const market = await getMarketPrice(position.exchange, position.tradingSymbol);
+      const lastPrice = market?.price || 0;
+
+      result.push({
+        exchange: position.exchange,
+        tradingSymbol: position.tradingSymbol,
+        product: position.product,
+        quantity: position.quantity,
+        averagePrice: position.buyQuantity > 0 ? Number((position.buyValue / position.buyQuantity).toFixed(2)) : 0,
+        lastPrice,
+        profitLoss: Number((position.sellValue - position.buyValue + position.quantity * lastPrice).toFixed(2)),
+      });
+    }
+
+    return result;
+  };
+
+  /**
+   * One trade per filled order of a user
+   */
+  const getTrades = async (userId: string) => {
+    return [...orders.values()]
+      .filter(order => order.userId === userId.toString() && order.filledQuantity > 0)
+      .map((order): BrokerTrade => ({
+        tradeId: `${order.orderId}-1`,
+        orderId: order.orderId,
+        exchange: order.exchange,
+        tradingSymbol: order.tradingSymbol,
+        transactionType: order.transactionType,
+        product: order.product,
+        quantity: order.filledQuantity,
+        averagePrice: order.averagePrice,
+        fillTimestamp: order.exchangeTimestamp,
+      }));
+  };
+
+  return {
+    name,
+
+    // Market data comes from the underlying broker
+    connect: async () => {},
+    getLoginURL: () => '',
+    generateSession: async () => ({ accessToken: '' }),
+    getStatus: () => ({
+      name,
+      isInitialized: true,
+      isTickerConnected: getMarketDataBroker().getStatus().isTickerConnected,
+      subscribedInstruments: tokenInstruments.size,
+      openOrders: [...orders.values()].filter(isOrderOpen).length,
+    }),
+    syncInstruments: () => getMarketDataBroker().syncInstruments(),
+    getHistoricalData: (symbol, interval, from, to) => getMarketDataBroker().getHistoricalData(symbol, interval, from, to),
+
+    getQuote: async (exchange, tradingSymbol) => {
+      // Quote the price the simulator fills against
+      const cached = lastPrices.get(getInstrumentKey(exchange, tradingSymbol));
+
+      if (cached && Date.now() - cached.updatedAt < STALE_PRICE_MS) {
+        return {
+          exchange,
+          tradingSymbol,
+          lastPrice: cached.price,
+          volume: 0,
+          openInterest: 0,
+          timestamp: cached.timestamp,
+        };
+      }
+
+      return getMarketDataBroker().getQuote(exchange, tradingSymbol);
+    },
+    getQuotes: instruments => getMarketDataBroker().getQuotes(instruments),
+    subscribe: instrumentTokens => getMarketDataBroker().subscribe(instrumentTokens),
+    onTicks: listener => getMarketDataBroker().onTicks(listener),
+
+    placeOrder,
+    getOrderHistory,
+    getOrders,
+    modifyOrder,
+    cancelOrder,
+    getPositions,
+    getTrades,
+    // Simulated trading is intraday only, nothing is delivered to holdings
+    getHoldings: async () => [],
+    onOrderUpdate: listener => {
+      orderUpdateListeners.push(listener);
+    },
+
+    restoreOrders,
+    reset: () => {
+      orders.clear();
+      lastPrices.clear();
+      tokenInstruments.clear();
+    },
+  };
+};
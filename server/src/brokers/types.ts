@@ -0,0 +1,208 @@
+/**
+ * Broker-neutral types. Every broker adapter (Kite, paper, mock, ...) maps its
+ * API responses into these shapes so that signal generation and order
+ * execution never see broker-specific field names.
+ */
+
+export type BrokerName = 'KITE' | 'PAPER' | 'MOCK';
+
+export type BrokerTransactionType = 'BUY' | 'SELL';
+export type BrokerOrderType = 'MARKET' | 'LIMIT' | 'SL' | 'SL-M';
+export type BrokerProduct = 'MIS' | 'CNC' | 'NRML';
+export type BrokerOrderStatus = 'OPEN' | 'TRIGGER_PENDING' | 'COMPLETE' | 'CANCELLED' | 'REJECTED';
+
+export interface BrokerSession {
+  accessToken: string;
+  refreshToken?: string;
+}
+
+export interface BrokerStatus {
+  name: BrokerName;
+  isInitialized: boolean;
+  isTickerConnected: boolean;
+  subscribedInstruments: number;
+  [key: string]: unknown;
+}
+
+export interface BrokerQuote {
+  exchange: string;
+  tradingSymbol: string;
+  lastPrice: number;
+  volume: number;
+  openInterest: number;
+  ohlc?: {
+    open: number;
+    high: number;
+    low: number;
+    close: number;
+  };
+  timestamp: Date;
+}
+
+export interface BrokerTick {
+  instrumentToken: number;
+  lastPrice: number;
+  volume?: number;
+  averagePrice?: number;
+  openInterest?: number;
+  ohlc?: {
+    open: number;
+    high: number;
+    low: number;
+    close: number;
+  };
+  timestamp: Date;
+}
+
+export interface BrokerCandle {
+  timestamp: Date;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  openInterest?: number;
+}
+
+export interface BrokerOrderParams {
+  exchange: string;
+  tradingSymbol: string;
+  transactionType: BrokerTransactionType;
+  quantity: number;
+  orderType: BrokerOrderType;
+  product: BrokerProduct;
+  price?: number | null; // Limit price (LIMIT and SL orders)
+  triggerPrice?: number; // Trigger price (SL and SL-M orders)
+  validity?: 'DAY' | 'IOC' | 'TTL';
+  variety?: string;
+  tag?: string;
+}
+
+export interface BrokerModifyOrderParams {
+  quantity?: number;
+  price?: number;
+  triggerPrice?: number;
+  variety?: string;
+}
+
+export interface BrokerOrder {
+  orderId: string;
+  exchange: string;
+  tradingSymbol: string;
+  transactionType: BrokerTransactionType;
+  orderType: string;
+  product: string;
+  quantity: number;
+  price: number;
+  triggerPrice: number;
+  status: BrokerOrderStatus;
+  statusMessage?: string;
+  averagePrice: number;
+  filledQuantity: number;
+  pendingQuantity: number;
+  cancelledQuantity: number;
+  tag?: string;
+  orderTimestamp?: Date;
+  exchangeTimestamp?: Date;
+}
+
+export type BrokerOcoTriggerStatus = 'ACTIVE' | 'TRIGGERED' | 'CANCELLED' | 'EXPIRED' | 'REJECTED';
+
+export interface BrokerOcoTriggerParams {
+  exchange: string;
+  tradingSymbol: string;
+  transactionType: BrokerTransactionType; // Side of the exit orders
+  product: BrokerProduct;
+  quantity: number;
+  lastPrice: number;
+  stopLoss: number;
+  target: number;
+}
+
+export interface BrokerOcoTrigger {
+  triggerId: string;
+  status: BrokerOcoTriggerStatus;
+  triggeredLeg?: 'STOP_LOSS' | 'TARGET';
+  orderId?: string; // Order placed by the triggered leg
+}
+
+export interface BrokerPosition {
+  exchange: string;
+  tradingSymbol: string;
+  product: string;
+  quantity: number; // Net quantity, negative for short positions
+  averagePrice: number;
+  lastPrice: number;
+  profitLoss: number;
+}
+
+export interface BrokerTrade {
+  tradeId: string;
+  orderId: string;
+  exchange: string;
+  tradingSymbol: string;
+  transactionType: BrokerTransactionType;
+  product: string;
+  quantity: number;
+  averagePrice: number;
+  fillTimestamp?: Date;
+}
+
+export interface BrokerHolding {
+  exchange: string;
+  tradingSymbol: string;
+  quantity: number;
+  averagePrice: number;
+  lastPrice: number;
+  profitLoss: number;
+}
+
+/**
+ * A broker the system can trade through. Market data calls (quotes, ticks,
+ * instruments, history) use the broker's system session, order and position
+ * calls act on behalf of a user.
+ */
+export interface Broker {
+  name: BrokerName;
+
+  // Auth
+  connect(): Promise<void>;
+  getLoginURL(apiKey: string): string;
+  generateSession(apiKey: string, apiSecret: string, requestToken: string): Promise<BrokerSession>;
+  getStatus(): BrokerStatus;
+
+  // Instruments and market data
+  syncInstruments(): Promise<void>;
+  getHistoricalData(symbol: string, interval: string, from: Date, to: Date): Promise<BrokerCandle[] | null>;
+  getQuote(exchange: string, tradingSymbol: string): Promise<BrokerQuote | null>;
+  getQuotes(instruments: Array<{ exchange: string; tradingSymbol: string }>): Promise<Record<string, BrokerQuote>>;
+
+  // Ticks
+  subscribe(instrumentTokens: number[]): void;
+  onTicks(listener: (ticks: BrokerTick[]) => void): void;
+
+  // Orders and positions
+  placeOrder(userId: string, params: BrokerOrderParams): Promise<{ orderId: string } | null>;
+  getOrderHistory(userId: string, orderId: string): Promise<BrokerOrder[] | null>;
+  getOrders(userId: string): Promise<BrokerOrder[] | null>;
+  modifyOrder(userId: string, orderId: string, params: BrokerModifyOrderParams): Promise<{ orderId: string } | null>;
+  cancelOrder(userId: string, orderId: string, variety?: string): Promise<{ orderId: string } | null>;
+  getPositions(userId: string): Promise<BrokerPosition[] | null>;
+  getTrades(userId: string): Promise<BrokerTrade[] | null>;
+  getHoldings(userId: string): Promise<BrokerHolding[] | null>;
+  onOrderUpdate(listener: (order: BrokerOrder) => void): void;
+
+  // Simulated brokers rebuild their order book after a restart (optional)
+  restoreOrders?(): Promise<number>;
+
+  // Broker-side one-cancels-other exits (optional, only for the listed products)
+  ocoTriggerProducts?: BrokerProduct[];
+  placeOcoTrigger?(userId: string, params: BrokerOcoTriggerParams): Promise<{ triggerId: string } | null>;
+  getOcoTrigger?(userId: string, triggerId: string): Promise<BrokerOcoTrigger | null>;
+  cancelOcoTrigger?(userId: string, triggerId: string): Promise<{ triggerId: string } | null>;
+}
+
+/**
+ * Key of a quote in a getQuotes() result
+ */
+export const getInstrumentKey = (exchange: string, tradingSymbol: string): string => `${exchange}:${tradingSymbol}`;
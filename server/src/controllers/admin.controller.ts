@@ -1,11 +1,21 @@
 import type { Request, Response } from 'express';
 import User from '../models/user.model';
-import Signal from '../models/signal.model';
+import Signal, { ReplaySignal } from '../models/signal.model';
 import Order from '../models/order.model';
 import { DailyAnalytics, PeriodAnalytics } from '../models/analytics.model';
-import * as KiteService from '../services/kite.service';
+import { getMarketDataBroker } from '../brokers';
 import * as TelegramService from '../services/telegram.service';
 import * as SchedulerService from '../services/scheduler.service';
+import { getOcoStatus } from '../services/ocoManager.service';
+import { getOrderUpdatesStatus } from '../services/orderUpdates.service';
+import { getSquareOffStatus, squareOffPositions } from '../services/squareOff.service';
+import { getReconciliationReport, getReconciliationStatus, runReconciliation } from '../services/reconciliation.service';
+import * as RiskManager from '../services/riskManager.service';
+import { getTickAggregatorStatus } from '../services/tickAggregator.service';
+import { getCandleStoreStatus, warmStartCandles } from '../services/candleStore.service';
+import { getTickRecorderStatus, listRecordings } from '../services/tickRecorder.service';
+import * as MarketReplay from '../services/marketReplay.service';
+import { getExecutionQualityReport } from '../services/executionQuality.service';
 import { getStartOfDay, getEndOfDay, getStartOfWeek, getEndOfWeek, getStartOfMonth, getEndOfMonth } from '../utils/date.util';
 
 /**
@@ -13,10 +23,10 @@ import { getStartOfDay, getEndOfDay, getStartOfWeek, getEndOfWeek, getStartOfMon
  * @route GET /api/admin/status
  * @access Private (Admin only)
  */
-export const getSystemStatus = async (req: Request, res: Response) => {
+export const getSystemStatus = async (req: Request, res: Response): Promise<void> => {
   try {
-    // Get Kite status
-    const kiteStatus = KiteService.getKiteStatus();
+    // Get market data broker status
+    const brokerStatus = getMarketDataBroker().getStatus();
 
     // Get Telegram status
     const telegramStatus = TelegramService.getTelegramStatus();
@@ -47,7 +57,16 @@ export const getSystemStatus = async (req: Request, res: Response) => {
     res.json({
       status: 'ok',
       uptime: uptimeFormatted,
-      kite: kiteStatus,
+      kite: brokerStatus,
+      oco: getOcoStatus(),
+      orderUpdates: getOrderUpdatesStatus(),
+      squareOff: getSquareOffStatus(),
+      reconciliation: getReconciliationStatus(),
+      circuitBreaker: RiskManager.getCircuitBreakerStatus(),
+      tickAggregator: getTickAggregatorStatus(),
+      candleStore: getCandleStoreStatus(),
+      tickRecorder: getTickRecorderStatus(),
+      replay: MarketReplay.getReplayStatus(),
       telegram: telegramStatus,
       users: {
         total: totalUsers,
@@ -73,7 +92,7 @@ export const getSystemStatus = async (req: Request, res: Response) => {
  * @route GET /api/admin/users
  * @access Private (Admin only)
  */
-export const getAllUsers = async (req: Request, res: Response) => {
+export const getAllUsers = async (req: Request, res: Response): Promise<void> => {
   try {
     const users = await User.find().select('-password');
 
@@ -89,14 +108,15 @@ export const getAllUsers = async (req: Request, res: Response) => {
  * @route GET /api/admin/users/:id
  * @access Private (Admin only)
  */
-export const getUserById = async (req: Request, res: Response) => {
+export const getUserById = async (req: Request<{ id: string }>, res: Response): Promise<void> => {
   try {
     const { id } = req.params;
 
     const user = await User.findById(id).select('-password');
 
     if (!user) {
-      return res.status(404).json({ message: 'User not found' });
+      res.status(404).json({ message: 'User not found' });
+      return;
     }
 
     res.json({ user });
@@ -111,7 +131,7 @@ export const getUserById = async (req: Request, res: Response) => {
  * @route PUT /api/admin/users/:id
  * @access Private (Admin only)
  */
-export const updateUser = async (req: Request, res: Response) => {
+export const updateUser = async (req: Request<{ id: string }>, res: Response): Promise<void> => {
   try {
     const { id } = req.params;
     const { username, email, role, isAutoTradingEnabled, maxTradesPerDay, maxCapitalPerTrade } = req.body;
@@ -119,7 +139,8 @@ export const updateUser = async (req: Request, res: Response) => {
     const user = await User.findById(id);
 
     if (!user) {
-      return res.status(404).json({ message: 'User not found' });
+      res.status(404).json({ message: 'User not found' });
+      return;
     }
 
     // Update fields if provided
@@ -155,7 +176,7 @@ export const updateUser = async (req: Request, res: Response) => {
  * @route DELETE /api/admin/users/:id
  * @access Private (Admin only)
  */
-export const deleteUser = async (req: Request, res: Response) => {
+export const deleteUser = async (req: Request<{ id: string }>, res: Response): Promise<void> => {
   try {
     const { id } = req.params;
 
@@ -166,14 +187,16 @@ export const deleteUser = async (req: Request, res: Response) => {
       const adminCount = await User.countDocuments({ role: 'admin' });
 
       if (adminCount <= 1) {
-        return res.status(400).json({ message: 'Cannot delete the last admin user' });
+        res.status(400).json({ message: 'Cannot delete the last admin user' });
+        return;
       }
     }
 
     const user = await User.findByIdAndDelete(id);
 
     if (!user) {
-      return res.status(404).json({ message: 'User not found' });
+      res.status(404).json({ message: 'User not found' });
+      return;
     }
 
     res.json({ message: 'User deleted successfully' });
@@ -188,7 +211,7 @@ export const deleteUser = async (req: Request, res: Response) => {
  * @route GET /api/admin/analytics
  * @access Private (Admin only)
  */
-export const getAnalytics = async (req: Request, res: Response) => {
+export const getAnalytics = async (req: Request, res: Response): Promise<void> => {
   try {
     const period = req.query.period as string || 'day';
     const date = req.query.date ? new Date(req.query.date as string) : new Date();
@@ -207,7 +230,8 @@ export const getAnalytics = async (req: Request, res: Response) => {
       startDate = getStartOfMonth(date);
       endDate = getEndOfMonth(date);
     } else {
-      return res.status(400).json({ message: 'Invalid period. Must be day, week, or month' });
+      res.status(400).json({ message: 'Invalid period. Must be day, week, or month' });
+      return;
     }
 
     // Get analytics data
@@ -284,12 +308,13 @@ export const getAnalytics = async (req: Request, res: Response) => {
  * @route POST /api/admin/send-notification
  * @access Private (Admin only)
  */
-export const sendNotification = async (req: Request, res: Response) => {
+export const sendNotification = async (req: Request, res: Response): Promise<void> => {
   try {
     const { message, type = 'info' } = req.body;
 
     if (!message) {
-      return res.status(400).json({ message: 'Message is required' });
+      res.status(400).json({ message: 'Message is required' });
+      return;
     }
 
     // Send notification via Telegram
@@ -299,7 +324,8 @@ export const sendNotification = async (req: Request, res: Response) => {
     );
 
     if (!sent) {
-      return res.status(500).json({ message: 'Failed to send notification' });
+      res.status(500).json({ message: 'Failed to send notification' });
+      return;
     }
 
     res.json({ message: 'Notification sent successfully' });
@@ -314,7 +340,7 @@ export const sendNotification = async (req: Request, res: Response) => {
  * @route POST /api/admin/scheduler
  * @access Private (Admin only)
  */
-export const controlScheduler = async (req: Request, res: Response) => {
+export const controlScheduler = async (req: Request, res: Response): Promise<void> => {
   try {
     const { action } = req.body;
 
@@ -333,12 +359,255 @@ export const controlScheduler = async (req: Request, res: Response) => {
   }
 };
 
+/**
+ * Square off all open intraday positions now (admin only)
+ * @route POST /api/admin/square-off
+ * @access Private (Admin only)
+ */
+export const squareOff = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const summary = await squareOffPositions();
+
+    if (!summary) {
+      res.status(409).json({ message: 'Square-off already running' });
+      return;
+    }
+
+    res.json({ message: 'Square-off complete', summary });
+  } catch (error) {
+    console.error('Square-off error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+/**
+ * Get the last broker reconciliation report (admin only)
+ * @route GET /api/admin/reconciliation
+ * @access Private (Admin only)
+ */
+export const getReconciliation = async (req: Request, res: Response): Promise<void> => {
+  try {
+    res.json(getReconciliationReport());
+  } catch (error) {
+    console.error('Get reconciliation error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+/**
+ * Reconcile orders and positions with the broker now (admin only)
+ * @route POST /api/admin/reconciliation
+ * @access Private (Admin only)
+ */
+export const reconcile = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const report = await runReconciliation();
+
+    if (!report) {
+      res.status(409).json({ message: 'Reconciliation already running' });
+      return;
+    }
+
+    res.json({ message: 'Reconciliation complete', report });
+  } catch (error) {
+    console.error('Reconciliation error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+/**
+ * Backfill the candle history from the broker (admin only)
+ * @route POST /api/admin/candles/warm-start
+ * @access Private (Admin only)
+ */
+export const warmStartCandleHistory = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (getCandleStoreStatus().isWarmingUp) {
+      res.status(409).json({ message: 'Candle warm start already running' });
+      return;
+    }
+
+    // Backfilling every series takes minutes, progress is reported in the system status
+    warmStartCandles();
+
+    res.status(202).json({ message: 'Candle warm start started' });
+  } catch (error) {
+    console.error('Candle warm start error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+/**
+ * Get the market replay status, the signals of the last replay and the recorded trading days (admin only)
+ * @route GET /api/admin/replay
+ * @access Private (Admin only)
+ */
+export const getReplay = async (req: Request, res: Response): Promise<void> => {
+  try {
+    res.json({
+      ...MarketReplay.getReplayStatus(),
+      signals: await ReplaySignal.find().sort({ generatedAt: 1 }),
+      recordings: listRecordings(),
+    });
+  } catch (error) {
+    console.error('Get replay error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+/**
+ * Replay the recorded ticks of a trading day on a virtual clock (admin only)
+ * @route POST /api/admin/replay/start
+ * @access Private (Admin only)
+ */
+export const startReplay = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { date, speed = 1 } = req.body;
+
+    const result = await MarketReplay.startReplay(date, Number(speed));
+
+    if (!result.started) {
+      res.status(409).json({ message: result.message });
+      return;
+    }
+
+    res.status(202).json({ message: result.message });
+  } catch (error) {
+    console.error('Start replay error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+/**
+ * Stop the running market replay (admin only)
+ * @route POST /api/admin/replay/stop
+ * @access Private (Admin only)
+ */
+export const stopReplay = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!MarketReplay.stopReplay()) {
+      res.status(409).json({ message: 'No replay running' });
+      return;
+    }
+
+    res.json({ message: 'Replay stopping' });
+  } catch (error) {
+    console.error('Stop replay error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+/**
+ * Get the global risk limits and the tripped circuit breakers (admin only)
+ * @route GET /api/admin/circuit-breaker
+ * @access Private (Admin only)
+ */
+export const getCircuitBreaker = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const settings = await RiskManager.getGlobalRiskSettings();
+    const trippedUsers = await User.find({ 'circuitBreaker.isTripped': true })
+      .select('username tradingMode riskLimits circuitBreaker');
+
+    res.json({
+      limits: settings.limits,
+      circuitBreaker: settings.circuitBreaker,
+      trippedUsers,
+    });
+  } catch (error) {
+    console.error('Get circuit breaker error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+/**
+ * Update the global risk limits (admin only)
+ * @route PUT /api/admin/circuit-breaker
+ * @access Private (Admin only)
+ */
+export const updateCircuitBreaker = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const settings = await RiskManager.updateGlobalRiskLimits(req.body.limits);
+
+    res.json({
+      message: 'Risk limits updated successfully',
+      limits: settings.limits,
+    });
+  } catch (error) {
+    console.error('Update circuit breaker error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+/**
+ * Trip the circuit breaker of a user, or the global kill switch without a user (admin only)
+ * @route POST /api/admin/circuit-breaker/trip
+ * @access Private (Admin only)
+ */
+export const tripCircuitBreaker = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { userId, reason } = req.body;
+
+    const tripped = await RiskManager.tripCircuitBreaker(userId, `Tripped by ${req.user.username}: ${reason}`);
+
+    if (!tripped) {
+      res.status(409).json({ message: 'Circuit breaker already tripped or user not found' });
+      return;
+    }
+
+    res.json({ message: 'Circuit breaker tripped' });
+  } catch (error) {
+    console.error('Trip circuit breaker error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+/**
+ * Re-arm the circuit breaker of a user, or the global kill switch without a user (admin only)
+ * @route POST /api/admin/circuit-breaker/rearm
+ * @access Private (Admin only)
+ */
+export const rearmCircuitBreaker = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const rearmed = await RiskManager.rearmCircuitBreaker(req.body.userId, req.user.username);
+
+    if (!rearmed) {
+      res.status(409).json({ message: 'Circuit breaker is not tripped' });
+      return;
+    }
+
+    res.json({ message: 'Circuit breaker re-armed' });
+  } catch (error) {
+    console.error('Re-arm circuit breaker error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+/**
+ * Get slippage and latency of all filled entries per underlying, time of day and order type (admin only)
+ * @route GET /api/admin/execution-quality?paper=true|false&from=&to=
+ * @access Private (Admin only)
+ */
+export const getExecutionQuality = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const report = await getExecutionQualityReport({
+      isPaper: req.query.paper === 'true',
+      from: req.query.from ? new Date(String(req.query.from)) : undefined,
+      to: req.query.to ? new Date(String(req.query.to)) : undefined,
+    });
+
+    res.json(report);
+  } catch (error) {
+    console.error('Get execution quality error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
 /**
  * Get order history with filtering and pagination
  * @route GET /api/admin/orders
  * @access Private (Admin only)
  */
-export const getOrderHistory = async (req: Request, res: Response) => {
+export const getOrderHistory = async (req: Request, res: Response): Promise<void> => {
   try {
     const page = Number.parseInt(req.query.page as string) || 1;
     const limit = Number.parseInt(req.query.limit as string) || 10;
@@ -1,7 +1,7 @@
 import type { Request, Response } from 'express';
 import jwt from 'jsonwebtoken';
 import User from '../models/user.model';
-import * as KiteService from '../services/kite.service';
+import { getBroker } from '../brokers';
 import { encrypt, decrypt, generateApiKey, generateApiSecret } from '../utils/encryption.util';
 
 /**
@@ -130,6 +130,13 @@ export const getProfile = async (req: Request, res: Response) => {
         isAutoTradingEnabled: user.isAutoTradingEnabled,
         maxTradesPerDay: user.maxTradesPerDay,
         maxCapitalPerTrade: user.maxCapitalPerTrade,
+        maxLots: user.maxLots,
+        positionSizing: user.positionSizing,
+        broker: user.broker,
+        tradingMode: user.tradingMode,
+        paperTrading: user.paperTrading,
+        riskLimits: user.riskLimits,
+        circuitBreaker: user.circuitBreaker,
       }
     });
   } catch (error) {
@@ -145,7 +152,7 @@ export const getProfile = async (req: Request, res: Response) => {
  */
 export const updateProfile = async (req: Request, res: Response) => {
   try {
-    const { username, email, maxTradesPerDay, maxCapitalPerTrade } = req.body;
+    const { username, email, maxTradesPerDay, maxCapitalPerTrade, maxLots, positionSizing, broker, tradingMode, paperTrading, riskLimits } = req.body;
 
     // Find user
     const user = await User.findById(req.user.id);
@@ -159,6 +166,22 @@ export const updateProfile = async (req: Request, res: Response) => {
     if (email) user.email = email;
     if (maxTradesPerDay) user.maxTradesPerDay = maxTradesPerDay;
     if (maxCapitalPerTrade) user.maxCapitalPerTrade = maxCapitalPerTrade;
+    if (maxLots) user.maxLots = maxLots;
+    if (positionSizing?.mode) user.positionSizing.mode = positionSizing.mode;
+    if (positionSizing?.accountCapital !== undefined) user.positionSizing.accountCapital = positionSizing.accountCapital;
+    if (positionSizing?.riskAmount !== undefined) user.positionSizing.riskAmount = positionSizing.riskAmount;
+    if (positionSizing?.riskPercent !== undefined) user.positionSizing.riskPercent = positionSizing.riskPercent;
+    if (positionSizing?.kellyFraction !== undefined) user.positionSizing.kellyFraction = positionSizing.kellyFraction;
+    if (broker) user.broker = broker;
+    if (tradingMode) user.tradingMode = tradingMode;
+    if (paperTrading?.slippagePercent !== undefined) user.paperTrading.slippagePercent = paperTrading.slippagePercent;
+    if (paperTrading?.latencyMs !== undefined) user.paperTrading.latencyMs = paperTrading.latencyMs;
+    if (riskLimits?.maxDailyLoss !== undefined) user.riskLimits.maxDailyLoss = riskLimits.maxDailyLoss;
+    if (riskLimits?.maxDailyLossPercent !== undefined) user.riskLimits.maxDailyLossPercent = riskLimits.maxDailyLossPercent;
+    if (riskLimits?.maxConsecutiveLosses !== undefined) user.riskLimits.maxConsecutiveLosses = riskLimits.maxConsecutiveLosses;
+    if (riskLimits?.maxOpenPositions !== undefined) user.riskLimits.maxOpenPositions = riskLimits.maxOpenPositions;
+    if (riskLimits?.maxExposurePerUnderlying !== undefined) user.riskLimits.maxExposurePerUnderlying = riskLimits.maxExposurePerUnderlying;
+    if (riskLimits?.flattenOnBreach !== undefined) user.riskLimits.flattenOnBreach = riskLimits.flattenOnBreach;
 
     await user.save();
 
@@ -174,6 +197,13 @@ export const updateProfile = async (req: Request, res: Response) => {
         isAutoTradingEnabled: user.isAutoTradingEnabled,
         maxTradesPerDay: user.maxTradesPerDay,
         maxCapitalPerTrade: user.maxCapitalPerTrade,
+        maxLots: user.maxLots,
+        positionSizing: user.positionSizing,
+        broker: user.broker,
+        tradingMode: user.tradingMode,
+        paperTrading: user.paperTrading,
+        riskLimits: user.riskLimits,
+        circuitBreaker: user.circuitBreaker,
       }
     });
   } catch (error) {
@@ -239,7 +269,7 @@ export const setZerodhaCredentials = async (req: Request, res: Response) => {
     await user.save();
 
     // Generate login URL
-    const loginUrl = KiteService.getLoginURL(apiKey);
+    const loginUrl = getBroker('KITE').getLoginURL(apiKey);
 
     res.json({
       message: 'Zerodha API credentials updated successfully',
@@ -272,17 +302,17 @@ export const generateZerodhaSession = async (req: Request, res: Response) => {
     }
 
     // Generate session
-    const session = await KiteService.generateSession(
+    const session = await getBroker('KITE').generateSession(
       user.zerodhaApiKey,
       user.zerodhaApiSecret,
       requestToken
     );
 
     // Store tokens
-    user.zerodhaAccessToken = encrypt(session.access_token);
+    user.zerodhaAccessToken = encrypt(session.accessToken);
 
-    if (session.refresh_token) {
-      user.zerodhaRefreshToken = encrypt(session.refresh_token);
+    if (session.refreshToken) {
+      user.zerodhaRefreshToken = encrypt(session.refreshToken);
     }
 
     // Set expiry time (usually 1 day)
@@ -318,11 +348,16 @@ export const toggleAutoTrading = async (req: Request, res: Response) => {
       return res.status(404).json({ message: 'User not found' });
     }
 
-    // Check if Zerodha credentials are set
-    if (!user.zerodhaApiKey || !user.zerodhaAccessToken) {
+    // Check if Zerodha credentials are set (not needed for paper trading or the mock broker)
+    if (user.tradingMode !== 'PAPER' && user.broker === 'KITE' && (!user.zerodhaApiKey || !user.zerodhaAccessToken)) {
       return res.status(400).json({ message: 'Zerodha API credentials not set or login required' });
     }
 
+    // A tripped circuit breaker keeps auto-trading off until an admin re-arms it
+    if (enabled && user.circuitBreaker?.isTripped) {
+      return res.status(403).json({ message: `Circuit breaker is tripped: ${user.circuitBreaker.reason}. An admin must re-arm it.` });
+    }
+
     // Toggle auto-trading
     user.isAutoTradingEnabled = enabled;
     await user.save();
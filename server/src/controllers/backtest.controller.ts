@@ -0,0 +1,76 @@
+import type { Request, Response } from 'express';
+import * as BacktestService from '../services/backtest.service';
+
+/**
+ * Run a backtest of a strategy on stored candles
+ * @route POST /api/backtests/run
+ * @access Private (Admin only)
+ */
+export const runBacktest = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { strategy, from, to, symbols, lookbackCandles } = req.body;
+
+    const report = await BacktestService.runBacktest({
+      strategyName: strategy,
+      from: new Date(from),
+      to: new Date(to),
+      symbols,
+      lookbackCandles,
+    });
+
+    if (!report) {
+      res.status(404).json({ message: 'Strategy not found' });
+      return;
+    }
+
+    res.json({ report });
+  } catch (error) {
+    console.error('Run backtest error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+/**
+ * Fetch historical candles from Kite and cache them for backtesting
+ * @route POST /api/backtests/candles/fetch
+ * @access Private (Admin only)
+ */
+export const fetchCandles = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { symbols, from, to } = req.body;
+    const stored: Record<string, number> = {};
+
+    for (const symbol of symbols as string[]) {
+      stored[symbol] = await BacktestService.cacheHistoricalData(symbol, new Date(from), new Date(to));
+    }
+
+    res.json({
+      message: 'Historical candles cached successfully',
+      stored,
+    });
+  } catch (error) {
+    console.error('Fetch candles error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+/**
+ * Import candles from CSV for backtesting
+ * @route POST /api/backtests/candles/import
+ * @access Private (Admin only)
+ */
+export const importCandles = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { symbol, csv } = req.body;
+
+    const result = await BacktestService.importCandlesFromCSV(symbol, csv);
+
+    res.json({
+      message: `${result.imported} candles imported`,
+      ...result,
+    });
+  } catch (error) {
+    console.error('Import candles error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
@@ -364,9 +364,11 @@ export const getSignalStats = async (req: Request, res: Response) => {
  */
 export const generateSignals = async (req: Request, res: Response) => {
   try {
-    // Run signal generation
+    const { strategy } = req.body;
+
+    // Run signal generation (for a single strategy if one is specified)
     const signalBefore = await Signal.countDocuments();
-    await SignalGenerator.generateSignals();
+    await SignalGenerator.generateSignals(strategy);
     const signalAfter = await Signal.countDocuments();
 
     const newSignalsCount = signalAfter - signalBefore;
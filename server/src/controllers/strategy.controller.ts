@@ -0,0 +1,214 @@
+import type { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import Strategy from '../models/strategy.model';
+import * as StrategyService from '../services/strategy.service';
+
+/**
+ * Get all strategies
+ * @route GET /api/strategies
+ * @access Private
+ */
+export const getAllStrategies = async (req: Request, res: Response): Promise<void> => {
+  try {
+    await StrategyService.ensureDefaultStrategies();
+
+    const strategies = await Strategy.find().sort({ createdAt: 1 });
+
+    res.json({ strategies });
+  } catch (error) {
+    console.error('Get all strategies error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+/**
+ * Get available filters that can be used as strategy layers
+ * @route GET /api/strategies/filters
+ * @access Private
+ */
+export const getFilters = async (req: Request, res: Response): Promise<void> => {
+  try {
+    res.json({ filters: StrategyService.listFilters() });
+  } catch (error) {
+    console.error('Get filters error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+/**
+ * Get strategy by ID
+ * @route GET /api/strategies/:id
+ * @access Private
+ */
+export const getStrategyById = async (req: Request<{ id: string }>, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    // Validate ID
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      res.status(400).json({ message: 'Invalid strategy ID' });
+      return;
+    }
+
+    const strategy = await Strategy.findById(id);
+
+    if (!strategy) {
+      res.status(404).json({ message: 'Strategy not found' });
+      return;
+    }
+
+    res.json({ strategy });
+  } catch (error) {
+    console.error('Get strategy by ID error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+/**
+ * Create a new strategy
+ * @route POST /api/strategies
+ * @access Private (Admin only)
+ */
+export const createStrategy = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { name, description, direction, isActive, maxSignalsPerDay, minSignalGapMinutes, layers, optionSelection, exitPlan } = req.body;
+
+    // Validate layers against the filter registry
+    const layerErrors = StrategyService.validateLayers(layers);
+
+    if (layerErrors.length > 0) {
+      res.status(400).json({ message: 'Invalid strategy layers', errors: { layers: layerErrors } });
+      return;
+    }
+
+    // Check if a strategy with this name already exists
+    const existingStrategy = await Strategy.findOne({ name });
+
+    if (existingStrategy) {
+      res.status(400).json({ message: 'Strategy already exists with this name' });
+      return;
+    }
+
+    const strategy = new Strategy({
+      name,
+      description,
+      direction: direction || 'BULLISH',
+      isActive: isActive !== undefined ? isActive : true,
+      isDefault: false,
+      maxSignalsPerDay,
+      minSignalGapMinutes,
+      layers,
+      optionSelection,
+      exitPlan,
+    });
+
+    await strategy.save();
+
+    res.status(201).json({
+      message: 'Strategy created successfully',
+      strategy,
+    });
+  } catch (error) {
+    console.error('Create strategy error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+/**
+ * Update a strategy
+ * @route PUT /api/strategies/:id
+ * @access Private (Admin only)
+ */
+export const updateStrategy = async (req: Request<{ id: string }>, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { name, description, direction, isActive, maxSignalsPerDay, minSignalGapMinutes, layers, optionSelection, exitPlan } = req.body;
+
+    // Validate ID
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      res.status(400).json({ message: 'Invalid strategy ID' });
+      return;
+    }
+
+    const strategy = await Strategy.findById(id);
+
+    if (!strategy) {
+      res.status(404).json({ message: 'Strategy not found' });
+      return;
+    }
+
+    // Built-in strategies are looked up by name
+    if (name && strategy.isDefault && name !== strategy.name) {
+      res.status(400).json({ message: 'Cannot rename a default strategy' });
+      return;
+    }
+
+    if (layers !== undefined) {
+      const layerErrors = StrategyService.validateLayers(layers);
+
+      if (layerErrors.length > 0) {
+        res.status(400).json({ message: 'Invalid strategy layers', errors: { layers: layerErrors } });
+        return;
+      }
+
+      strategy.layers = layers;
+    }
+
+    // Update fields if provided
+    if (name) strategy.name = name;
+    if (description !== undefined) strategy.description = description;
+    if (direction) strategy.direction = direction;
+    if (isActive !== undefined) strategy.isActive = isActive;
+    if (maxSignalsPerDay) strategy.maxSignalsPerDay = maxSignalsPerDay;
+    if (minSignalGapMinutes !== undefined) strategy.minSignalGapMinutes = minSignalGapMinutes;
+    if (optionSelection) strategy.optionSelection = { ...strategy.optionSelection, ...optionSelection };
+    if (exitPlan) strategy.exitPlan = { ...strategy.exitPlan, ...exitPlan };
+
+    await strategy.save();
+
+    res.json({
+      message: 'Strategy updated successfully',
+      strategy,
+    });
+  } catch (error) {
+    console.error('Update strategy error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+/**
+ * Delete a strategy
+ * @route DELETE /api/strategies/:id
+ * @access Private (Admin only)
+ */
+export const deleteStrategy = async (req: Request<{ id: string }>, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    // Validate ID
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      res.status(400).json({ message: 'Invalid strategy ID' });
+      return;
+    }
+
+    const strategy = await Strategy.findById(id);
+
+    if (!strategy) {
+      res.status(404).json({ message: 'Strategy not found' });
+      return;
+    }
+
+    // The default strategy is the fallback for every run
+    if (strategy.isDefault) {
+      res.status(400).json({ message: 'Cannot delete the default strategy' });
+      return;
+    }
+
+    await Strategy.findByIdAndDelete(id);
+
+    res.json({ message: 'Strategy deleted successfully' });
+  } catch (error) {
+    console.error('Delete strategy error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
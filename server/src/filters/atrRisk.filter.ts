@@ -0,0 +1,81 @@
+import * as TechnicalIndicators from '../utils/technical.util';
+import type { StrategyFilter } from './types';
+
+interface ATRRiskParams {
+  atrPeriod: number;
+  stopLossMultiplier: number;
+  targetMultiplier: number;
+  maxStopLossPercent: number;
+  minRiskReward: number;
+  minPrice: number;
+  maxPrice: number;
+}
+
+/**
+ * Risk Filter
+ * Derives ATR based stop loss and target (mirrored below/above the entry for
+ * bearish strategies), and keeps stocks with a tight enough stop loss, an
+ * acceptable risk-reward ratio and a tradable price.
+ */
+const atrRiskFilter: StrategyFilter<ATRRiskParams> = {
+  name: 'atrRisk',
+  description: 'ATR based stop loss, target and risk-reward check',
+  defaultParams: {
+    atrPeriod: 14,
+    stopLossMultiplier: 1.5,
+    targetMultiplier: 3,
+    maxStopLossPercent: 0.5,
+    minRiskReward: 2,
+    minPrice: 50,
+    maxPrice: 5000,
+  },
+  run: async (candidates, params, context) => {
+    // Levels move against the entry in the opposite direction for bearish trades
+    const side = context.direction === 'BEARISH' ? -1 : 1;
+
+    return candidates.filter(candidate => {
+      const data = candidate.marketData;
+
+      // Calculate ATR for volatility
+      const atr = TechnicalIndicators.calculateATR(data.fifteenMinuteCandlesticks, params.atrPeriod);
+
+      if (!atr) {
+        return false;
+      }
+
+      // SL should not be too far from the entry price
+      const entryPrice = data.lastPrice;
+      const stopLoss = entryPrice - side * (params.stopLossMultiplier * atr);
+      const target = entryPrice + side * (params.targetMultiplier * atr);
+      const stopLossPercent = Math.abs(entryPrice - stopLoss) / entryPrice * 100;
+
+      if (stopLossPercent > params.maxStopLossPercent) {
+        return false;
+      }
+
+      // Calculate risk-reward ratio
+      const risk = Math.abs(entryPrice - stopLoss);
+      const reward = Math.abs(target - entryPrice);
+
+      if (reward / risk < params.minRiskReward) {
+        return false;
+      }
+
+      // Final check for lot size and price compatibility
+      if (candidate.lotSize <= 0 || entryPrice <= params.minPrice || entryPrice >= params.maxPrice) {
+        return false;
+      }
+
+      candidate.riskManagement = {
+        entryPrice,
+        stopLoss,
+        target,
+        atr,
+        riskRewardRatio: (reward / risk).toFixed(1),
+      };
+      return true;
+    });
+  },
+};
+
+export default atrRiskFilter;
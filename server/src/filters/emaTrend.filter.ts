@@ -0,0 +1,46 @@
+import * as TechnicalIndicators from '../utils/technical.util';
+import type { StrategyFilter } from './types';
+
+interface EMATrendParams {
+  fastPeriod: number;
+  slowPeriod: number;
+}
+
+/**
+ * EMA Trend Filter
+ * Keeps stocks trading above both the fast and the slow EMA
+ * (below both for bearish strategies).
+ */
+const emaTrendFilter: StrategyFilter<EMATrendParams> = {
+  name: 'emaTrend',
+  description: 'Price above (bullish) or below (bearish) the fast and slow EMAs',
+  defaultParams: {
+    fastPeriod: 20,
+    slowPeriod: 50,
+  },
+  run: async (candidates, params, context) => {
+    return candidates.filter(candidate => {
+      const data = candidate.marketData;
+      const emaFast = TechnicalIndicators.calculateEMA(data.fifteenMinuteCandlesticks, params.fastPeriod);
+      const emaSlow = TechnicalIndicators.calculateEMA(data.fifteenMinuteCandlesticks, params.slowPeriod);
+
+      if (!emaFast || !emaSlow) {
+        return false;
+      }
+
+      const isAligned = context.direction === 'BEARISH'
+        ? data.lastPrice < emaFast && data.lastPrice < emaSlow
+        : data.lastPrice > emaFast && data.lastPrice > emaSlow;
+
+      if (!isAligned) {
+        return false;
+      }
+
+      candidate.technicalIndicators.ema20 = emaFast;
+      candidate.technicalIndicators.ema50 = emaSlow;
+      return true;
+    });
+  },
+};
+
+export default emaTrendFilter;
@@ -0,0 +1,48 @@
+import * as TechnicalIndicators from '../utils/technical.util';
+import type { StrategyFilter } from './types';
+
+interface MACDParams {
+  fastPeriod: number;
+  slowPeriod: number;
+  signalPeriod: number;
+  minHistogram: number;
+}
+
+/**
+ * MACD Filter
+ * Keeps stocks whose MACD histogram is beyond the configured minimum in the
+ * strategy's direction (above it for bullish, below its negative for bearish).
+ */
+const macdFilter: StrategyFilter<MACDParams> = {
+  name: 'macd',
+  description: 'MACD histogram beyond a minimum value in the strategy direction',
+  defaultParams: {
+    fastPeriod: 12,
+    slowPeriod: 26,
+    signalPeriod: 9,
+    minHistogram: 0,
+  },
+  run: async (candidates, params, context) => {
+    return candidates.filter(candidate => {
+      const macd = TechnicalIndicators.calculateMACD(
+        candidate.marketData.fifteenMinuteCandlesticks,
+        params.fastPeriod,
+        params.slowPeriod,
+        params.signalPeriod
+      );
+
+      if (!macd) {
+        return false;
+      }
+
+      if (context.direction === 'BEARISH' ? macd.histogram >= -params.minHistogram : macd.histogram <= params.minHistogram) {
+        return false;
+      }
+
+      candidate.technicalIndicators.macd = macd;
+      return true;
+    });
+  },
+};
+
+export default macdFilter;
@@ -0,0 +1,58 @@
+import * as TechnicalIndicators from '../utils/technical.util';
+import type { StrategyFilter } from './types';
+
+interface MarketTrendParams {
+  indices: string[];
+  rsiPeriod: number;
+  rsiThreshold: number;
+  emaPeriod: number;
+}
+
+/**
+ * Market Trend Filter
+ * Passes every candidate only when all configured indices trend in the
+ * strategy's direction. An index is bullish when RSI is above the threshold
+ * and price is above the EMA, bearish when both are below.
+ */
+const marketTrendFilter: StrategyFilter<MarketTrendParams> = {
+  name: 'marketTrend',
+  description: 'Require the broad market indices to trend in the strategy direction',
+  defaultParams: {
+    indices: ['NIFTY 50', 'NIFTY BANK'],
+    rsiPeriod: 14,
+    rsiThreshold: 50,
+    emaPeriod: 21,
+  },
+  run: async (candidates, params, context) => {
+    const expectedTrend = context.direction === 'BEARISH' ? 'bearish' : 'bullish';
+
+    for (const index of params.indices) {
+      const indexData = await context.getMarketData(index);
+
+      if (!indexData) {
+        console.log(`Market data not found for ${index}. Market trend unknown.`);
+        return [];
+      }
+
+      const candles = indexData.fifteenMinuteCandlesticks;
+      const rsi = TechnicalIndicators.calculateRSI(candles, params.rsiPeriod) || 0;
+      const ema = TechnicalIndicators.calculateEMA(candles, params.emaPeriod) || 0;
+      let trend = 'sideways';
+
+      if (rsi > params.rsiThreshold && indexData.lastPrice > ema) {
+        trend = 'bullish';
+      } else if (rsi < params.rsiThreshold && indexData.lastPrice < ema) {
+        trend = 'bearish';
+      }
+
+      if (trend !== expectedTrend) {
+        console.log(`Market trend not ${expectedTrend}. ${index} trend: ${trend}`);
+        return [];
+      }
+    }
+
+    return candidates;
+  },
+};
+
+export default marketTrendFilter;
@@ -0,0 +1,87 @@
+import StockUniverse from '../models/stockUniverse.model';
+import * as OpenInterestService from '../services/openInterest.service';
+import type { OIClassification } from '../services/openInterest.service';
+import type { StrategyFilter } from './types';
+
+interface OpenInterestParams {
+  strikeCount: number;
+  requireBuildUp: boolean;
+  oiWallMultiple: number;
+  wallDistancePercent: number;
+}
+
+const BULLISH_CLASSIFICATIONS: OIClassification[] = ['LONG_BUILDUP', 'SHORT_COVERING'];
+const BEARISH_CLASSIFICATIONS: OIClassification[] = ['SHORT_BUILDUP', 'LONG_UNWINDING'];
+
+/**
+ * F&O Data Filter
+ * Refreshes futures OI and option chain OI (PCR, max pain, highest OI strikes),
+ * keeps stocks whose build-up agrees with the strategy direction and rejects
+ * trades that run into a large OI wall before the target: the highest call OI
+ * strike for longs, the highest put OI strike for bearish trades. Stocks
+ * without live OI data are kept.
+ */
+const openInterestFilter: StrategyFilter<OpenInterestParams> = {
+  name: 'openInterest',
+  description: 'Futures OI build-up and option OI wall check',
+  defaultParams: {
+    strikeCount: 10,
+    requireBuildUp: true,
+    oiWallMultiple: 2,
+    wallDistancePercent: 1,
+  },
+  run: async (candidates, params, context) => {
+    // OI history is not stored, so backtests cannot evaluate this layer
+    if (context.mode === 'BACKTEST') {
+      return candidates;
+    }
+
+    const isBearish = context.direction === 'BEARISH';
+    const results = [];
+
+    for (const candidate of candidates) {
+      const stock = await StockUniverse.findOne({ symbol: candidate.symbol });
+
+      if (!stock) {
+        continue;
+      }
+
+      const entryPrice = candidate.riskManagement?.entryPrice || candidate.marketData.lastPrice;
+      const analysis = await OpenInterestService.updateOpenInterest(stock, entryPrice, params.strikeCount);
+
+      if (!analysis) {
+        results.push(candidate);
+        continue;
+      }
+
+      candidate.openInterestAnalysis = analysis;
+
+      const allowed = isBearish ? BEARISH_CLASSIFICATIONS : BULLISH_CLASSIFICATIONS;
+
+      if (params.requireBuildUp && !allowed.includes(analysis.classification)) {
+        continue;
+      }
+
+      // The wall must be between the entry and the target (or within a distance of the entry)
+      const wallStrike = isBearish ? analysis.highestOIPut : analysis.highestOICall;
+      const wallOI = isBearish ? analysis.highestOIPutOI : analysis.highestOICallOI;
+      const averageOI = isBearish ? analysis.averagePutOI : analysis.averageCallOI;
+      const target = candidate.riskManagement?.target
+        ?? entryPrice * (1 + (isBearish ? -1 : 1) * params.wallDistancePercent / 100);
+
+      const isInPath = isBearish
+        ? wallStrike < entryPrice && wallStrike >= target
+        : wallStrike > entryPrice && wallStrike <= target;
+
+      if (isInPath && averageOI > 0 && wallOI >= params.oiWallMultiple * averageOI) {
+        continue;
+      }
+
+      results.push(candidate);
+    }
+
+    return results;
+  },
+};
+
+export default openInterestFilter;
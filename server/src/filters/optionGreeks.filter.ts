@@ -0,0 +1,74 @@
+import { getMarketDataBroker } from '../brokers';
+import { getInstrumentKey } from '../brokers/types';
+import * as OptionChainService from '../services/optionChain.service';
+import type { StrategyFilter } from './types';
+
+interface OptionGreeksParams {
+  maxImpliedVolatility: number;
+  maxThetaDecayPercent: number;
+}
+
+/**
+ * Option Greeks Filter
+ * Resolves the contract that would be traded and drops stocks whose option is
+ * too expensive (very high implied volatility) or decays too fast (theta as a
+ * percentage of the premium). Contracts without a live quote are kept.
+ */
+const optionGreeksFilter: StrategyFilter<OptionGreeksParams> = {
+  name: 'optionGreeks',
+  description: 'Implied volatility and theta decay limits on the traded contract',
+  defaultParams: {
+    maxImpliedVolatility: 60,
+    maxThetaDecayPercent: 8,
+  },
+  run: async (candidates, params, context) => {
+    // Expired contracts and their quotes are not stored, so backtests cannot evaluate this layer
+    if (context.mode === 'BACKTEST') {
+      return candidates;
+    }
+
+    const optionType = context.direction === 'BEARISH' ? 'PE' : 'CE';
+
+    for (const candidate of candidates) {
+      const spotPrice = candidate.riskManagement?.entryPrice || candidate.marketData.lastPrice;
+
+      candidate.optionContract = await OptionChainService.resolveOptionContract(
+        candidate.symbol,
+        spotPrice,
+        optionType,
+        context.strategy.optionSelection
+      ) || undefined;
+    }
+
+    const withContract = candidates.filter(candidate => !!candidate.optionContract);
+
+    const quotes = await getMarketDataBroker().getQuotes(
+      withContract.flatMap(candidate => candidate.optionContract ? [candidate.optionContract] : [])
+    );
+
+    return withContract.filter(candidate => {
+      const contract = candidate.optionContract;
+
+      if (!contract) {
+        return false;
+      }
+
+      const quote = quotes[getInstrumentKey(contract.exchange, contract.tradingSymbol)];
+      const spotPrice = candidate.riskManagement?.entryPrice || candidate.marketData.lastPrice;
+
+      candidate.optionAnalytics = quote ? OptionChainService.analyzeOption(contract, spotPrice, quote.lastPrice) : null;
+
+      if (!candidate.optionAnalytics) {
+        return true;
+      }
+
+      if (candidate.optionAnalytics.impliedVolatility > params.maxImpliedVolatility) {
+        return false;
+      }
+
+      return candidate.optionAnalytics.thetaDecayPercent <= params.maxThetaDecayPercent;
+    });
+  },
+};
+
+export default optionGreeksFilter;
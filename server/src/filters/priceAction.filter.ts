@@ -0,0 +1,74 @@
+import * as TechnicalIndicators from '../utils/technical.util';
+import type { StrategyFilter } from './types';
+
+interface PriceActionParams {
+  requireBreakout: boolean;
+  requireVWAP: boolean;
+  requireSmallBodyCandle: boolean;
+  smallBodyRatio: number;
+  lookbackCandles: number;
+}
+
+/**
+ * Price Action Filter
+ * Bullish: previous day high breakout, price above VWAP and a small body
+ * bullish candle among the latest 15-minute candles.
+ * Bearish: previous day low breakdown, price below VWAP and a small body
+ * bearish candle.
+ */
+const priceActionFilter: StrategyFilter<PriceActionParams> = {
+  name: 'priceAction',
+  description: 'Previous day high/low break on the right side of VWAP with a small body candle',
+  defaultParams: {
+    requireBreakout: true,
+    requireVWAP: true,
+    requireSmallBodyCandle: true,
+    smallBodyRatio: 0.3,
+    lookbackCandles: 3,
+  },
+  run: async (candidates, params, context) => {
+    const isBearish = context.direction === 'BEARISH';
+
+    return candidates.filter(candidate => {
+      const data = candidate.marketData;
+
+      // Check for breakout of previous day high (breakdown of previous day low for bearish)
+      const isBreakout = isBearish
+        ? data.lastPrice < candidate.previousDayLow
+        : data.lastPrice > candidate.previousDayHigh;
+
+      // Check for VWAP crossover
+      const vwap = TechnicalIndicators.calculateVWAP(data.oneMinuteCandlesticks);
+      const isPriceAboveVWAP = vwap ? data.lastPrice > vwap : false;
+      const isPriceBelowVWAP = vwap ? data.lastPrice < vwap : false;
+
+      // Small body candle breakout check
+      const latestCandles = data.fifteenMinuteCandlesticks.slice(-params.lookbackCandles);
+      const hasSmallBodyBreakout = latestCandles.some(candle => {
+        const bodySize = Math.abs(candle.close - candle.open);
+        const totalRange = candle.high - candle.low;
+        const isDirectional = isBearish ? candle.close < candle.open : candle.close > candle.open;
+        return bodySize < totalRange * params.smallBodyRatio && isDirectional;
+      });
+
+      if (
+        (params.requireBreakout && !isBreakout) ||
+        (params.requireVWAP && !(isBearish ? isPriceBelowVWAP : isPriceAboveVWAP)) ||
+        (params.requireSmallBodyCandle && !hasSmallBodyBreakout)
+      ) {
+        return false;
+      }
+
+      candidate.priceAction = {
+        ...candidate.priceAction,
+        isBreakout,
+        isPriceAboveVWAP,
+        hasSmallBodyBreakout,
+        vwap,
+      };
+      return true;
+    });
+  },
+};
+
+export default priceActionFilter;
@@ -0,0 +1,36 @@
+import * as TechnicalIndicators from '../utils/technical.util';
+import type { StrategyFilter } from './types';
+
+interface RSIParams {
+  period: number;
+  min: number;
+  max: number;
+}
+
+/**
+ * RSI Filter
+ * Keeps stocks whose 15-minute RSI lies within the configured band.
+ */
+const rsiFilter: StrategyFilter<RSIParams> = {
+  name: 'rsi',
+  description: 'RSI on 15-minute candles within a band',
+  defaultParams: {
+    period: 14,
+    min: 50,
+    max: 70,
+  },
+  run: async (candidates, params) => {
+    return candidates.filter(candidate => {
+      const rsi = TechnicalIndicators.calculateRSI(candidate.marketData.fifteenMinuteCandlesticks, params.period);
+
+      if (!rsi || rsi < params.min || rsi > params.max) {
+        return false;
+      }
+
+      candidate.technicalIndicators.rsi = rsi;
+      return true;
+    });
+  },
+};
+
+export default rsiFilter;
@@ -0,0 +1,69 @@
+import * as SectorStrengthService from '../services/sectorStrength.service';
+import type { StrategyDirection } from '../models/strategy.model';
+import type { MarketDataSnapshot, StrategyFilter } from './types';
+
+interface SectorStrengthParams {
+  windows: number[];
+  topSectors: number;
+  minScore: number;
+}
+
+/**
+ * Identify strong sectors (weak sectors for bearish strategies) from the
+ * relative strength of sector indices versus NIFTY 50
+ */
+export const getStrongSectors = async (
+  params: SectorStrengthParams,
+  direction: StrategyDirection = 'BULLISH',
+  getMarketData?: (symbol: string) => Promise<MarketDataSnapshot | null>
+): Promise<string[]> => {
+  try {
+    const ranking = await SectorStrengthService.getSectorRanking(params.windows, getMarketData);
+
+    if (direction === 'BEARISH') {
+      return ranking
+        .filter(sector => sector.score < -params.minScore)
+        .reverse()
+        .slice(0, params.topSectors)
+        .map(sector => sector.sector);
+    }
+
+    return ranking
+      .filter(sector => sector.score > params.minScore)
+      .slice(0, params.topSectors)
+      .map(sector => sector.sector);
+  } catch (error) {
+    console.error('Error getting strong sectors:', error);
+    return [];
+  }
+};
+
+/**
+ * Sector Strength Filter
+ * Keeps only stocks that belong to one of the strongest (or, for bearish
+ * strategies, weakest) sectors relative to NIFTY 50.
+ */
+const sectorStrengthFilter: StrategyFilter<SectorStrengthParams> = {
+  name: 'sectorStrength',
+  description: 'Keep stocks from sectors outperforming (or underperforming) NIFTY 50',
+  defaultParams: {
+    windows: SectorStrengthService.DEFAULT_WINDOWS,
+    topSectors: 3,
+    minScore: 0,
+  },
+  run: async (candidates, params, context) => {
+    const strongSectors = await getStrongSectors(params, context.direction, context.getMarketData);
+    const label = context.direction === 'BEARISH' ? 'Weak' : 'Strong';
+
+    if (strongSectors.length === 0) {
+      console.log(`No ${label.toLowerCase()} sectors found.`);
+      return [];
+    }
+
+    console.log(`${label} sectors found: ${strongSectors.join(', ')}`);
+
+    return candidates.filter(candidate => !!candidate.sector && strongSectors.includes(candidate.sector));
+  },
+};
+
+export default sectorStrengthFilter;
@@ -0,0 +1,40 @@
+import * as TechnicalIndicators from '../utils/technical.util';
+import type { StrategyFilter } from './types';
+
+interface SuperTrendParams {
+  period: number;
+  multiplier: number;
+}
+
+/**
+ * SuperTrend Filter
+ * Keeps stocks whose SuperTrend points in the strategy's direction.
+ */
+const superTrendFilter: StrategyFilter<SuperTrendParams> = {
+  name: 'superTrend',
+  description: 'SuperTrend direction matches the strategy direction',
+  defaultParams: {
+    period: 10,
+    multiplier: 3,
+  },
+  run: async (candidates, params, context) => {
+    const expectedTrend = context.direction === 'BEARISH' ? 'down' : 'up';
+
+    return candidates.filter(candidate => {
+      const supertrend = TechnicalIndicators.calculateSuperTrend(
+        candidate.marketData.fifteenMinuteCandlesticks,
+        params.period,
+        params.multiplier
+      );
+
+      if (!supertrend || supertrend.trend !== expectedTrend) {
+        return false;
+      }
+
+      candidate.technicalIndicators.supertrend = supertrend.trend === 'up';
+      return true;
+    });
+  },
+};
+
+export default superTrendFilter;
@@ -0,0 +1,39 @@
+import type { StrategyFilter } from './types';
+
+interface TimeWindowParams {
+  start: string; // HH:MM
+  end: string; // HH:MM
+}
+
+/**
+ * Convert an HH:MM string to minutes since midnight
+ */
+const toMinutes = (time: string): number => {
+  const [hours = 0, minutes = 0] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * Time Filter
+ * Only lets candidates through inside the configured time window.
+ */
+const timeWindowFilter: StrategyFilter<TimeWindowParams> = {
+  name: 'timeWindow',
+  description: 'Only generate signals inside a time window',
+  defaultParams: {
+    start: '09:30',
+    end: '14:45',
+  },
+  run: async (candidates, params, context) => {
+    const currentMinutes = context.now.getHours() * 60 + context.now.getMinutes();
+
+    if (currentMinutes < toMinutes(params.start) || currentMinutes > toMinutes(params.end)) {
+      console.log(`Outside signal generation time window (${params.start} - ${params.end}). Skipping.`);
+      return [];
+    }
+
+    return candidates;
+  },
+};
+
+export default timeWindowFilter;
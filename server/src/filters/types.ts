@@ -0,0 +1,97 @@
+import type { IMarketData } from '../models/marketData.model';
+import type { IStrategy, StrategyDirection } from '../models/strategy.model';
+import type { IOptionInstrument } from '../models/optionInstrument.model';
+import type { OptionAnalytics } from '../services/optionChain.service';
+import type { OpenInterestAnalysis } from '../services/openInterest.service';
+
+/**
+ * The part of a stock's market data the filters read. Live runs use the
+ * MarketData documents, backtests build it from stored historical candles.
+ */
+export type MarketDataSnapshot = Pick<
+  IMarketData,
+  | 'symbol'
+  | 'lastPrice'
+  | 'dayHigh'
+  | 'dayLow'
+  | 'openPrice'
+  | 'volume'
+  | 'averagePrice'
+  | 'ohlc'
+  | 'oneMinuteCandlesticks'
+  | 'fiveMinuteCandlesticks'
+  | 'fifteenMinuteCandlesticks'
+>;
+
+/**
+ * Indicators recorded by the momentum and trend filters
+ */
+export interface CandidateIndicators {
+  rsi?: number;
+  macd?: { line: number; signal: number; histogram: number };
+  supertrend?: boolean;
+  ema20?: number;
+  ema50?: number;
+  volumeSpike?: boolean;
+}
+
+/**
+ * Price levels recorded by the price action filter
+ */
+export interface CandidatePriceAction {
+  isBreakout?: boolean;
+  isPriceAboveVWAP?: boolean;
+  hasSmallBodyBreakout?: boolean;
+  vwap?: number | null;
+}
+
+/**
+ * A stock moving through the layers of a strategy.
+ * Filters annotate it as they go so that later layers and the
+ * signal generator can reuse what earlier layers computed.
+ */
+export interface StrategyCandidate {
+  [key: string]: unknown;
+  symbol: string;
+  sector?: string;
+  lotSize: number;
+  previousDayHigh: number;
+  previousDayLow: number;
+  avgDailyVolume20?: number;
+  marketData: MarketDataSnapshot;
+  technicalIndicators: CandidateIndicators;
+  priceAction: CandidatePriceAction;
+  riskManagement?: {
+    entryPrice: number;
+    stopLoss: number;
+    target: number;
+    atr: number;
+    riskRewardRatio: string;
+  };
+  optionContract?: IOptionInstrument;
+  optionAnalytics?: OptionAnalytics | null;
+  openInterestAnalysis?: OpenInterestAnalysis;
+}
+
+/**
+ * Information about the current run that is shared by every layer
+ */
+export interface StrategyContext {
+  strategy: IStrategy;
+  direction: StrategyDirection;
+  now: Date;
+  mode: 'LIVE' | 'BACKTEST';
+  getMarketData: (symbol: string) => Promise<MarketDataSnapshot | null>;
+}
+
+/**
+ * A named, parameterised filter that can be used as a strategy layer.
+ * Filters receive the surviving candidates and return the ones that pass.
+ */
+export interface StrategyFilter<P extends object = object> {
+  name: string;
+  description: string;
+  defaultParams: P;
+  // A method so that filters with their own params fit the registry's StrategyFilter
+  run(candidates: StrategyCandidate[], params: P, context: StrategyContext): Promise<StrategyCandidate[]>;
+}
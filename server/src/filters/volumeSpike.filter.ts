@@ -0,0 +1,38 @@
+import * as TechnicalIndicators from '../utils/technical.util';
+import type { StrategyFilter } from './types';
+
+interface VolumeSpikeParams {
+  lookbackPeriod: number;
+  threshold: number;
+}
+
+/**
+ * Volume Spike Filter
+ * Keeps stocks whose latest 15-minute volume is a multiple of the recent average.
+ */
+const volumeSpikeFilter: StrategyFilter<VolumeSpikeParams> = {
+  name: 'volumeSpike',
+  description: 'Latest candle volume above a multiple of the average',
+  defaultParams: {
+    lookbackPeriod: 20,
+    threshold: 2,
+  },
+  run: async (candidates, params) => {
+    return candidates.filter(candidate => {
+      const hasVolumeIncrease = TechnicalIndicators.hasVolumeSpike(
+        candidate.marketData.fifteenMinuteCandlesticks,
+        params.lookbackPeriod,
+        params.threshold
+      );
+
+      if (!hasVolumeIncrease) {
+        return false;
+      }
+
+      candidate.technicalIndicators.volumeSpike = true;
+      return true;
+    });
+  },
+};
+
+export default volumeSpikeFilter;
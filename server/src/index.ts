@@ -14,10 +14,14 @@ import marketDataRoutes from './routes/marketData.routes';
 import signalRoutes from './routes/signal.routes';
 import orderRoutes from './routes/order.routes';
 import adminRoutes from './routes/admin.routes';
+import strategyRoutes from './routes/strategy.routes';
+import backtestRoutes from './routes/backtest.routes';
 
 // Import services
-import { initializeKiteService } from './services/kite.service';
+import { getMarketDataBroker } from './brokers';
 import { initializeTelegramBot } from './services/telegram.service';
+import { startOrderUpdates } from './services/orderUpdates.service';
+import { warmStartCandles } from './services/candleStore.service';
 
 const app = express();
 const PORT = process.env.PORT || 5000;
@@ -32,6 +36,8 @@ app.use('/api/market-data', marketDataRoutes);
 app.use('/api/signals', signalRoutes);
 app.use('/api/orders', orderRoutes);
 app.use('/api/admin', adminRoutes);
+app.use('/api/strategies', strategyRoutes);
+app.use('/api/backtests', backtestRoutes);
 
 // Health check endpoint
 app.get('/health', (req, res) => {
@@ -67,7 +73,11 @@ wss.on('connection', (ws) => {
 });
 
 // Initialize services
-initializeKiteService();
+const marketDataBroker = getMarketDataBroker();
+marketDataBroker.connect()
+  .then(() => warmStartCandles())
+  .catch(err => console.error(`Failed to initialize ${marketDataBroker.name} broker:`, err));
+startOrderUpdates();
 initializeTelegramBot();
 
 // Start the server
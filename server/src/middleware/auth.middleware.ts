@@ -11,13 +11,14 @@ declare global {
   }
 }
 
-export const auth = async (req: Request, res: Response, next: NextFunction) => {
+export const auth = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
   try {
     // Get token from header
     const token = req.header('Authorization')?.replace('Bearer ', '');
 
     if (!token) {
-      return res.status(401).json({ message: 'No authentication token, authorization denied' });
+      res.status(401).json({ message: 'No authentication token, authorization denied' });
+      return;
     }
 
     // Verify token
@@ -27,7 +28,8 @@ export const auth = async (req: Request, res: Response, next: NextFunction) => {
     const user = await User.findById(decoded.id).select('-password');
 
     if (!user) {
-      return res.status(401).json({ message: 'Token is valid but user no longer exists' });
+      res.status(401).json({ message: 'Token is valid but user no longer exists' });
+      return;
     }
 
     // Set user in request object
@@ -39,7 +39,7 @@ export const validationErrorHandler = (err: any, req: Request, res: Response, ne
 };
 
 // Market Hours Check Middleware
-export const marketHoursCheck = (req: Request, res: Response, next: NextFunction) => {
+export const marketHoursCheck = (req: Request, res: Response, next: NextFunction): void => {
   const now = new Date();
   const day = now.getDay();
   const hour = now.getHours();
@@ -47,16 +47,18 @@ export const marketHoursCheck = (req: Request, res: Response, next: NextFunction
 
   // Check if it's a weekend (0 = Sunday, 6 = Saturday)
   if (day === 0 || day === 6) {
-    return res.status(403).json({
+    res.status(403).json({
       message: 'Market is closed on weekends',
     });
+    return;
   }
 
   // Check if it's outside market hours (9:15 AM to 3:30 PM)
   if (hour < 9 || (hour === 9 && minute < 15) || hour > 15 || (hour === 15 && minute > 30)) {
-    return res.status(403).json({
+    res.status(403).json({
       message: 'Market is closed. Trading hours are 9:15 AM to 3:30 PM',
     });
+    return;
   }
 
   next();
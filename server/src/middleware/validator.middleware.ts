@@ -2,14 +2,15 @@ import type { Request, Response, NextFunction } from 'express';
 import { validationResult, type ValidationChain } from 'express-validator';
 
 export const validate = (validations: ValidationChain[]) => {
-  return async (req: Request, res: Response, next: NextFunction) => {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     // Execute all validations
     await Promise.all(validations.map(validation => validation.run(req)));
 
     // Check for validation errors
     const errors = validationResult(req);
     if (errors.isEmpty()) {
-      return next();
+      next();
+      return;
     }
 
     // Format validation errors
@@ -23,7 +24,7 @@ export const validate = (validations: ValidationChain[]) => {
     }, {});
 
     // Return validation errors
-    return res.status(400).json({
+    res.status(400).json({
       message: 'Validation Error',
       errors: formattedErrors,
     });
@@ -28,6 +28,24 @@ export interface IDailyAnalytics extends Document {
     profitLossPercentage: number;
     duration: number; // in minutes
   }>;
+  // Paper trading results, kept apart from live P&L
+  paper: {
+    executedOrders: number;
+    successfulTrades: number;
+    failedTrades: number;
+    profitLoss: number;
+    winRate: number;
+    tradeDetails: Array<{
+      signalId: mongoose.Types.ObjectId;
+      stock: string;
+      type: 'BUY' | 'SELL';
+      entryPrice: number;
+      exitPrice: number;
+      profitLoss: number;
+      profitLossPercentage: number;
+      duration: number; // in minutes
+    }>;
+  };
 }
 
 const DailyAnalyticsSchema: Schema = new Schema(
@@ -132,6 +150,65 @@ const DailyAnalyticsSchema: Schema = new Schema(
         },
       },
     ],
+    paper: {
+      executedOrders: {
+        type: Number,
+        default: 0,
+      },
+      successfulTrades: {
+        type: Number,
+        default: 0,
+      },
+      failedTrades: {
+        type: Number,
+        default: 0,
+      },
+      profitLoss: {
+        type: Number,
+        default: 0,
+      },
+      winRate: {
+        type: Number,
+        default: 0,
+      },
+      tradeDetails: [
+        {
+          signalId: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: 'Signal',
+          },
+          stock: {
+            type: String,
+            required: true,
+          },
+          type: {
+            type: String,
+            enum: ['BUY', 'SELL'],
+            required: true,
+          },
+          entryPrice: {
+            type: Number,
+            required: true,
+          },
+          exitPrice: {
+            type: Number,
+            required: true,
+          },
+          profitLoss: {
+            type: Number,
+            required: true,
+          },
+          profitLossPercentage: {
+            type: Number,
+            required: true,
+          },
+          duration: {
+            type: Number,
+            required: true,
+          },
+        },
+      ],
+    },
   },
   {
     timestamps: true,
@@ -233,4 +310,6 @@ PeriodAnalyticsSchema.index({ period: 1, periodType: 1 });
 PeriodAnalyticsSchema.index({ startDate: -1 });
 
 export const DailyAnalytics = mongoose.model<IDailyAnalytics>('DailyAnalytics', DailyAnalyticsSchema);
+// Signal counts of a replayed session, kept apart from the live analytics
+export const ReplayDailyAnalytics = mongoose.model<IDailyAnalytics>('ReplayDailyAnalytics', DailyAnalyticsSchema);
 export const PeriodAnalytics = mongoose.model<IPeriodAnalytics>('PeriodAnalytics', PeriodAnalyticsSchema);
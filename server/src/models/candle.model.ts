@@ -0,0 +1,75 @@
+import mongoose, { Schema, type Document } from 'mongoose';
+
+// Candles of live instruments, stored in a MongoDB time-series collection.
+// Each series is identified by its meta field (symbol and interval in minutes).
+
+export interface ICandleMeta {
+  symbol: string;
+  interval: number; // Minutes
+}
+
+export interface ICandle extends Document {
+  timestamp: Date; // Start of the candle
+  meta: ICandleMeta;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+// Backstop for the per-interval retention the candle store prunes to
+export const MAX_CANDLE_RETENTION_DAYS = 400;
+
+const CandleSchema: Schema = new Schema(
+  {
+    timestamp: {
+      type: Date,
+      required: true,
+    },
+    meta: {
+      symbol: {
+        type: String,
+        required: true,
+      },
+      interval: {
+        type: Number,
+        required: true,
+      },
+    },
+    open: {
+      type: Number,
+      required: true,
+    },
+    high: {
+      type: Number,
+      required: true,
+    },
+    low: {
+      type: Number,
+      required: true,
+    },
+    close: {
+      type: Number,
+      required: true,
+    },
+    volume: {
+      type: Number,
+      default: 0,
+    },
+  },
+  {
+    timeseries: {
+      timeField: 'timestamp',
+      metaField: 'meta',
+      granularity: 'minutes',
+    },
+    expireAfterSeconds: MAX_CANDLE_RETENTION_DAYS * 24 * 60 * 60,
+    versionKey: false,
+  }
+);
+
+// Indexes for faster queries
+CandleSchema.index({ 'meta.symbol': 1, 'meta.interval': 1, timestamp: 1 });
+
+export default mongoose.model<ICandle>('Candle', CandleSchema);
@@ -0,0 +1,67 @@
+import mongoose, { Schema, type Document } from 'mongoose';
+import type { BrokerName } from '../brokers/types';
+
+export interface IHistoricalCandle extends Document {
+  symbol: string;
+  interval: string; // Kite interval name, e.g. "15minute", "day"
+  timestamp: Date;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  source: BrokerName | 'CSV';
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const HistoricalCandleSchema: Schema = new Schema(
+  {
+    symbol: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    interval: {
+      type: String,
+      required: true,
+    },
+    timestamp: {
+      type: Date,
+      required: true,
+    },
+    open: {
+      type: Number,
+      required: true,
+    },
+    high: {
+      type: Number,
+      required: true,
+    },
+    low: {
+      type: Number,
+      required: true,
+    },
+    close: {
+      type: Number,
+      required: true,
+    },
+    volume: {
+      type: Number,
+      default: 0,
+    },
+    source: {
+      type: String,
+      enum: ['KITE', 'PAPER', 'MOCK', 'CSV'],
+      default: 'KITE',
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes for faster queries
+HistoricalCandleSchema.index({ symbol: 1, interval: 1, timestamp: 1 }, { unique: true });
+
+export default mongoose.model<IHistoricalCandle>('HistoricalCandle', HistoricalCandleSchema);
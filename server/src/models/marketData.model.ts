@@ -123,4 +123,7 @@ const MarketDataSchema: Schema = new Schema(
 MarketDataSchema.index({ symbol: 1 });
 MarketDataSchema.index({ lastUpdated: 1 });
 
+// Market data written while a recorded session is replayed, kept apart from the live documents
+export const ReplayMarketData = mongoose.model<IMarketData>('ReplayMarketData', MarketDataSchema);
+
 export default mongoose.model<IMarketData>('MarketData', MarketDataSchema);
@@ -0,0 +1,79 @@
+import mongoose, { Schema, type Document } from 'mongoose';
+
+export interface IOptionInstrument extends Document {
+  instrumentToken: number;
+  exchangeToken?: number;
+  tradingSymbol: string;
+  underlying: string;
+  exchange: string;
+  segment: string;
+  instrumentType: 'CE' | 'PE';
+  strike: number;
+  expiry: Date;
+  lotSize: number;
+  tickSize: number;
+  updatedAt: Date;
+}
+
+const OptionInstrumentSchema: Schema = new Schema(
+  {
+    instrumentToken: {
+      type: Number,
+      required: true,
+      unique: true,
+    },
+    exchangeToken: {
+      type: Number,
+    },
+    tradingSymbol: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    underlying: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    exchange: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    segment: {
+      type: String,
+      trim: true,
+    },
+    instrumentType: {
+      type: String,
+      enum: ['CE', 'PE'],
+      required: true,
+    },
+    strike: {
+      type: Number,
+      required: true,
+    },
+    expiry: {
+      type: Date,
+      required: true,
+    },
+    lotSize: {
+      type: Number,
+      required: true,
+    },
+    tickSize: {
+      type: Number,
+      default: 0.05,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes for faster queries
+OptionInstrumentSchema.index({ underlying: 1, expiry: 1, instrumentType: 1, strike: 1 });
+OptionInstrumentSchema.index({ tradingSymbol: 1, exchange: 1 });
+OptionInstrumentSchema.index({ expiry: 1 });
+
+export default mongoose.model<IOptionInstrument>('OptionInstrument', OptionInstrumentSchema);
@@ -1,4 +1,40 @@
 import mongoose, { Schema, type Document } from 'mongoose';
+import type { IExitPlan } from './strategy.model';
+
+export type StopLossChangeReason = 'INITIAL' | 'PARTIAL_EXIT' | 'MOVE_TO_COST' | 'TRAIL' | 'MANUAL';
+
+export interface IStopLossChange {
+  orderId: string;
+  triggerPrice: number;
+  quantity: number;
+  reason: StopLossChangeReason;
+  createdAt: Date;
+}
+
+export interface IPartialExit {
+  orderId: string;
+  quantity: number;
+  price: number;
+  profitLoss: number;
+  exitAt: Date;
+}
+
+// Prices are per unit, positive slippage is a cost to the (long) position
+export interface IExecutionQuality {
+  decisionPrice?: number; // Premium the signal meant to enter at
+  arrivalPrice?: number; // Last traded price when the order was sent
+  fillPrice?: number;
+  signalAt?: Date;
+  sentAt?: Date;
+  filledAt?: Date;
+  slippage?: number; // Fill above the arrival price
+  slippagePercent?: number;
+  decisionSlippage?: number; // Fill above the decision price
+  latencyMs?: number; // Signal to fill
+  stopLossTrigger?: number;
+  stopLossFillPrice?: number;
+  stopLossSlippage?: number; // Stop loss fill below its trigger
+}
 
 export interface IOrder extends Document {
   signalId: mongoose.Types.ObjectId;
@@ -24,6 +60,12 @@ export interface IOrder extends Document {
   cancelledQuantity: number;
   statusMessage?: string;
   tag?: string;
+  broker?: 'KITE' | 'PAPER' | 'MOCK';
+  isPaper: boolean;
+  exitPrice?: number;
+  exitAt?: Date;
+  exitReason?: 'TARGET_HIT' | 'SL_HIT' | 'MANUAL_EXIT' | 'MARKET_CLOSE';
+  profitLoss?: number;
   stopLossOrder?: {
     orderId: string;
     triggerPrice: number;
@@ -34,8 +76,77 @@ export interface IOrder extends Document {
     price: number;
     status: string;
   };
+  ocoTrigger?: {
+    triggerId: string;
+    stopLoss: number;
+    target: number;
+    status: string;
+  };
+  target1Order?: {
+    orderId: string;
+    price: number;
+    quantity: number;
+    status: string;
+  };
+  exitPlan?: IExitPlan;
+  stopLossHistory: IStopLossChange[];
+  partialExits: IPartialExit[];
+  execution?: IExecutionQuality;
 }
 
+const StopLossChangeSchema = new Schema(
+  {
+    orderId: String,
+    triggerPrice: Number,
+    quantity: Number,
+    reason: {
+      type: String,
+      enum: ['INITIAL', 'PARTIAL_EXIT', 'MOVE_TO_COST', 'TRAIL', 'MANUAL'],
+    },
+    createdAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  {
+    _id: false,
+  }
+);
+
+const PartialExitSchema = new Schema(
+  {
+    orderId: String,
+    quantity: Number,
+    price: Number,
+    profitLoss: Number,
+    exitAt: Date,
+  },
+  {
+    _id: false,
+  }
+);
+
+const ExecutionQualitySchema = new Schema(
+  {
+    decisionPrice: Number,
+    arrivalPrice: Number,
+    fillPrice: Number,
+    signalAt: Date,
+    sentAt: Date,
+    filledAt: Date,
+    slippage: Number,
+    slippagePercent: Number,
+    decisionSlippage: Number,
+    latencyMs: Number,
+    stopLossTrigger: Number,
+    stopLossFillPrice: Number,
+    stopLossSlippage: Number,
+  },
+  {
+    _id: false,
+  }
+);
+
 const OrderSchema: Schema = new Schema(
   {
     signalId: {
@@ -136,6 +247,27 @@ const OrderSchema: Schema = new Schema(
     tag: {
       type: String,
     },
+    broker: {
+      type: String,
+      enum: ['KITE', 'PAPER', 'MOCK'],
+    },
+    isPaper: {
+      type: Boolean,
+      default: false,
+    },
+    exitPrice: {
+      type: Number,
+    },
+    exitAt: {
+      type: Date,
+    },
+    exitReason: {
+      type: String,
+      enum: ['TARGET_HIT', 'SL_HIT', 'MANUAL_EXIT', 'MARKET_CLOSE'],
+    },
+    profitLoss: {
+      type: Number,
+    },
     stopLossOrder: {
       orderId: String,
       triggerPrice: Number,
@@ -146,6 +278,24 @@ const OrderSchema: Schema = new Schema(
       price: Number,
       status: String,
     },
+    ocoTrigger: {
+      triggerId: String,
+      stopLoss: Number,
+      target: Number,
+      status: String,
+    },
+    target1Order: {
+      orderId: String,
+      price: Number,
+      quantity: Number,
+      status: String,
+    },
+    exitPlan: {
+      type: Schema.Types.Mixed,
+    },
+    stopLossHistory: [StopLossChangeSchema],
+    partialExits: [PartialExitSchema],
+    execution: ExecutionQualitySchema,
   },
   {
     timestamps: true,
@@ -157,5 +307,6 @@ OrderSchema.index({ signalId: 1 });
 OrderSchema.index({ userId: 1 });
 OrderSchema.index({ orderTimestamp: -1 });
 OrderSchema.index({ kiteOrderId: 1 });
+OrderSchema.index({ isPaper: 1 });
 
 export default mongoose.model<IOrder>('Order', OrderSchema);
@@ -0,0 +1,141 @@
+import mongoose, { Schema, type Document } from 'mongoose';
+import type { BrokerName, BrokerOrder, BrokerOrderStatus, BrokerTransactionType } from '../brokers/types';
+
+// Order book of the simulated brokers, so resting orders survive a restart
+export interface IPaperOrder extends Document {
+  broker: BrokerName;
+  orderId: string;
+  userId: string;
+  exchange: string;
+  tradingSymbol: string;
+  instrumentToken?: number;
+  transactionType: BrokerTransactionType;
+  orderType: string;
+  product: string;
+  quantity: number;
+  price: number;
+  triggerPrice: number;
+  status: BrokerOrderStatus;
+  statusMessage?: string;
+  averagePrice: number;
+  filledQuantity: number;
+  pendingQuantity: number;
+  cancelledQuantity: number;
+  tag?: string;
+  orderTimestamp?: Date;
+  exchangeTimestamp?: Date;
+  slippagePercent: number;
+  eligibleAt: number;
+  history: BrokerOrder[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const PaperOrderSchema: Schema = new Schema(
+  {
+    broker: {
+      type: String,
+      enum: ['PAPER', 'MOCK'],
+      required: true,
+    },
+    orderId: {
+      type: String,
+      required: true,
+    },
+    userId: {
+      type: String,
+      required: true,
+    },
+    exchange: {
+      type: String,
+      required: true,
+    },
+    tradingSymbol: {
+      type: String,
+      required: true,
+    },
+    instrumentToken: {
+      type: Number,
+    },
+    transactionType: {
+      type: String,
+      enum: ['BUY', 'SELL'],
+      required: true,
+    },
+    orderType: {
+      type: String,
+      required: true,
+    },
+    product: {
+      type: String,
+      required: true,
+    },
+    quantity: {
+      type: Number,
+      required: true,
+    },
+    price: {
+      type: Number,
+      default: 0,
+    },
+    triggerPrice: {
+      type: Number,
+      default: 0,
+    },
+    status: {
+      type: String,
+      enum: ['OPEN', 'TRIGGER_PENDING', 'COMPLETE', 'CANCELLED', 'REJECTED'],
+      required: true,
+    },
+    statusMessage: {
+      type: String,
+    },
+    averagePrice: {
+      type: Number,
+      default: 0,
+    },
+    filledQuantity: {
+      type: Number,
+      default: 0,
+    },
+    pendingQuantity: {
+      type: Number,
+      default: 0,
+    },
+    cancelledQuantity: {
+      type: Number,
+      default: 0,
+    },
+    tag: {
+      type: String,
+    },
+    orderTimestamp: {
+      type: Date,
+    },
+    exchangeTimestamp: {
+      type: Date,
+    },
+    slippagePercent: {
+      type: Number,
+      default: 0,
+    },
+    eligibleAt: {
+      type: Number,
+      default: 0,
+    },
+    history: {
+      type: [Schema.Types.Mixed],
+      default: [],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes for faster queries
+PaperOrderSchema.index({ broker: 1, orderId: 1 }, { unique: true });
+PaperOrderSchema.index({ broker: 1, status: 1 });
+PaperOrderSchema.index({ broker: 1, orderTimestamp: -1 });
+
+export default mongoose.model<IPaperOrder>('PaperOrder', PaperOrderSchema);
@@ -0,0 +1,131 @@
+import mongoose, { Schema, type Document } from 'mongoose';
+
+/**
+ * Daily loss circuit breaker rules. Loss rules trip the breaker, position
+ * and exposure limits reject orders that would exceed them and trip the
+ * breaker once they are exceeded. A limit of 0 disables the rule.
+ */
+export interface IRiskLimits {
+  maxDailyLoss: number; // Realized loss of the day in ₹
+  maxDailyLossPercent: number; // Realized loss of the day in percent of the account capital
+  maxConsecutiveLosses: number; // Losing trades in a row today
+  maxOpenPositions: number; // Open positions and pending entries
+  maxExposurePerUnderlying: number; // Premium in ₹ held per underlying
+  flattenOnBreach: boolean; // Exit open positions when the breaker trips
+}
+
+export type CircuitBreakerRule =
+  | 'MAX_DAILY_LOSS'
+  | 'MAX_DAILY_LOSS_PERCENT'
+  | 'MAX_CONSECUTIVE_LOSSES'
+  | 'MAX_OPEN_POSITIONS'
+  | 'MAX_EXPOSURE_PER_UNDERLYING'
+  | 'MANUAL';
+
+export interface ICircuitBreakerState {
+  isTripped: boolean;
+  rule?: CircuitBreakerRule;
+  reason?: string;
+  trippedAt?: Date;
+  autoTradingWasEnabled?: boolean; // Restored when the breaker is re-armed
+  rearmedAt?: Date;
+  rearmedBy?: string;
+}
+
+export interface IRiskSettings extends Document {
+  key: string;
+  limits: IRiskLimits;
+  circuitBreaker: ICircuitBreakerState;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const RiskLimitsSchema = new Schema(
+  {
+    maxDailyLoss: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    maxDailyLossPercent: {
+      type: Number,
+      default: 3,
+      min: 0,
+    },
+    maxConsecutiveLosses: {
+      type: Number,
+      default: 3,
+      min: 0,
+    },
+    maxOpenPositions: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    maxExposurePerUnderlying: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    flattenOnBreach: {
+      type: Boolean,
+      default: false,
+    },
+  },
+  {
+    _id: false,
+  }
+);
+
+export const CircuitBreakerStateSchema = new Schema(
+  {
+    isTripped: {
+      type: Boolean,
+      default: false,
+    },
+    rule: {
+      type: String,
+      enum: [
+        'MAX_DAILY_LOSS',
+        'MAX_DAILY_LOSS_PERCENT',
+        'MAX_CONSECUTIVE_LOSSES',
+        'MAX_OPEN_POSITIONS',
+        'MAX_EXPOSURE_PER_UNDERLYING',
+        'MANUAL',
+      ],
+    },
+    reason: String,
+    trippedAt: Date,
+    autoTradingWasEnabled: Boolean,
+    rearmedAt: Date,
+    rearmedBy: String,
+  },
+  {
+    _id: false,
+  }
+);
+
+// Global rules and kill switch, a single document
+const RiskSettingsSchema: Schema = new Schema(
+  {
+    key: {
+      type: String,
+      required: true,
+      unique: true,
+      default: 'global',
+    },
+    limits: {
+      type: RiskLimitsSchema,
+      default: () => ({ maxDailyLossPercent: 0, maxConsecutiveLosses: 0 }),
+    },
+    circuitBreaker: {
+      type: CircuitBreakerStateSchema,
+      default: () => ({}),
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+export default mongoose.model<IRiskSettings>('RiskSettings', RiskSettingsSchema);
@@ -2,12 +2,38 @@ import mongoose, { Schema, type Document } from 'mongoose';
 
 export interface ISignal extends Document {
   type: 'BUY' | 'SELL';
+  strategy?: string;
   stock: string;
   option: string;
+  optionContract?: {
+    tradingSymbol: string;
+    exchange: string;
+    instrumentToken: number;
+    strike: number;
+    expiry: Date;
+    optionType: 'CE' | 'PE';
+    lotSize: number;
+  };
+  // Levels of the underlying
   currentMarketPrice: number;
   entryPrice: number;
   targetPrice: number;
   stopLoss: number;
+  // Levels of the option premium, used for order placement
+  optionLevels?: {
+    entryPrice: number;
+    stopLoss: number;
+    targetPrice: number;
+    delta: number;
+    source: 'QUOTE' | 'MODEL';
+  };
+  optionGreeks?: {
+    impliedVolatility: number;
+    delta: number;
+    gamma: number;
+    theta: number;
+    vega: number;
+  };
   riskRewardRatio: string;
   generatedAt: Date;
   sentToTelegram: boolean;
@@ -53,6 +79,10 @@ const SignalSchema: Schema = new Schema(
       enum: ['BUY', 'SELL'],
       required: true,
     },
+    strategy: {
+      type: String,
+      trim: true,
+    },
     stock: {
       type: String,
       required: true,
@@ -63,6 +93,18 @@ const SignalSchema: Schema = new Schema(
       required: true,
       trim: true,
     },
+    optionContract: {
+      tradingSymbol: String,
+      exchange: String,
+      instrumentToken: Number,
+      strike: Number,
+      expiry: Date,
+      optionType: {
+        type: String,
+        enum: ['CE', 'PE'],
+      },
+      lotSize: Number,
+    },
     currentMarketPrice: {
       type: Number,
       required: true,
@@ -83,6 +125,23 @@ const SignalSchema: Schema = new Schema(
       type: String,
       required: true,
     },
+    optionLevels: {
+      entryPrice: Number,
+      stopLoss: Number,
+      targetPrice: Number,
+      delta: Number,
+      source: {
+        type: String,
+        enum: ['QUOTE', 'MODEL'],
+      },
+    },
+    optionGreeks: {
+      impliedVolatility: Number,
+      delta: Number,
+      gamma: Number,
+      theta: Number,
+      vega: Number,
+    },
     generatedAt: {
       type: Date,
       default: Date.now,
@@ -155,5 +214,9 @@ const SignalSchema: Schema = new Schema(
 SignalSchema.index({ generatedAt: -1 });
 SignalSchema.index({ stock: 1, generatedAt: -1 });
 SignalSchema.index({ type: 1, generatedAt: -1 });
+SignalSchema.index({ strategy: 1, generatedAt: -1 });
+
+// Signals generated while a recorded session is replayed, kept apart from the live signals
+export const ReplaySignal = mongoose.model<ISignal>('ReplaySignal', SignalSchema);
 
 export default mongoose.model<ISignal>('Signal', SignalSchema);
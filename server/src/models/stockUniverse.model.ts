@@ -16,6 +16,11 @@ export interface IStockUniverse extends Document {
   tickSize: number;
   expiry: string[];
   strikeGap: number;
+  futures?: {
+    tradingSymbol: string;
+    instrumentToken: number;
+    expiry: Date;
+  };
   previousDayHigh: number;
   previousDayLow: number;
   previousDayClose: number;
@@ -23,8 +28,10 @@ export interface IStockUniverse extends Document {
   avgDailyVolume20: number;
   openInterest: {
     current: number;
+    previousDay: number;
     change: number;
     changePercentage: number;
+    updatedAt?: Date;
   };
   optionData: {
     maxPainStrike: number;
@@ -103,6 +110,11 @@ const StockUniverseSchema: Schema = new Schema(
     strikeGap: {
       type: Number,
     },
+    futures: {
+      tradingSymbol: String,
+      instrumentToken: Number,
+      expiry: Date,
+    },
     previousDayHigh: {
       type: Number,
     },
@@ -120,8 +132,10 @@ const StockUniverseSchema: Schema = new Schema(
     },
     openInterest: {
       current: Number,
+      previousDay: Number,
       change: Number,
       changePercentage: Number,
+      updatedAt: Date,
     },
     optionData: {
       maxPainStrike: Number,
@@ -0,0 +1,158 @@
+import mongoose, { Schema, type Document } from 'mongoose';
+import type { OptionSelection } from '../services/optionChain.service';
+
+export interface IStrategyLayer {
+  filter: string;
+  enabled: boolean;
+  params: Record<string, any>;
+}
+
+export type StrategyDirection = 'BULLISH' | 'BEARISH';
+
+export type TrailingMode = 'NONE' | 'ATR' | 'SUPERTREND';
+
+/**
+ * How positions opened from a strategy's signals are exited. Premium levels
+ * come from the signal, target 1 sits at a multiple of the stop loss distance.
+ */
+export interface IExitPlan {
+  partialExitPercent: number; // Percent of the quantity booked at target 1 (0 disables target 1)
+  target1RiskMultiple: number; // Target 1 distance from entry in multiples of the stop loss distance
+  moveStopToCost: boolean; // Move the stop loss to the entry price once target 1 is booked
+  trailing: TrailingMode; // Trail the stop loss of the remaining quantity
+  atrPeriod: number;
+  atrMultiplier: number;
+  superTrendPeriod: number;
+  superTrendMultiplier: number;
+}
+
+export interface IStrategy extends Document {
+  name: string;
+  description?: string;
+  direction: StrategyDirection;
+  isActive: boolean;
+  isDefault: boolean;
+  maxSignalsPerDay: number;
+  minSignalGapMinutes: number;
+  layers: IStrategyLayer[];
+  optionSelection: OptionSelection;
+  exitPlan: IExitPlan;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const StrategyLayerSchema = new Schema(
+  {
+    filter: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    enabled: {
+      type: Boolean,
+      default: true,
+    },
+    params: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+  },
+  {
+    _id: false,
+  }
+);
+
+const StrategySchema: Schema = new Schema(
+  {
+    name: {
+      type: String,
+      required: true,
+      unique: true,
+      trim: true,
+    },
+    description: {
+      type: String,
+      trim: true,
+    },
+    direction: {
+      type: String,
+      enum: ['BULLISH', 'BEARISH'],
+      default: 'BULLISH',
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+    isDefault: {
+      type: Boolean,
+      default: false,
+    },
+    maxSignalsPerDay: {
+      type: Number,
+      default: 6,
+    },
+    minSignalGapMinutes: {
+      type: Number,
+      default: 15,
+    },
+    layers: [StrategyLayerSchema],
+    optionSelection: {
+      expiry: {
+        type: String,
+        enum: ['WEEKLY', 'MONTHLY'],
+        default: 'WEEKLY',
+      },
+      strikeOffset: {
+        type: Number,
+        default: 0,
+      },
+      minDaysToExpiry: {
+        type: Number,
+        default: 0,
+      },
+    },
+    exitPlan: {
+      partialExitPercent: {
+        type: Number,
+        default: 0,
+      },
+      target1RiskMultiple: {
+        type: Number,
+        default: 1,
+      },
+      moveStopToCost: {
+        type: Boolean,
+        default: false,
+      },
+      trailing: {
+        type: String,
+        enum: ['NONE', 'ATR', 'SUPERTREND'],
+        default: 'NONE',
+      },
+      atrPeriod: {
+        type: Number,
+        default: 14,
+      },
+      atrMultiplier: {
+        type: Number,
+        default: 1.5,
+      },
+      superTrendPeriod: {
+        type: Number,
+        default: 10,
+      },
+      superTrendMultiplier: {
+        type: Number,
+        default: 3,
+      },
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes for faster queries
+StrategySchema.index({ isActive: 1 });
+
+export default mongoose.model<IStrategy>('Strategy', StrategySchema);
@@ -1,5 +1,8 @@
 import mongoose, { Schema, type Document } from 'mongoose';
 import bcrypt from 'bcrypt';
+import { RiskLimitsSchema, CircuitBreakerStateSchema, type IRiskLimits, type ICircuitBreakerState } from './riskSettings.model';
+
+export type PositionSizingMode = 'FIXED_CAPITAL' | 'FIXED_RISK' | 'PERCENT_RISK' | 'KELLY';
 
 export interface IUser extends Document {
   username: string;
@@ -14,6 +17,22 @@ export interface IUser extends Document {
   isAutoTradingEnabled: boolean;
   maxTradesPerDay: number;
   maxCapitalPerTrade: number;
+  maxLots: number;
+  positionSizing: {
+    mode: PositionSizingMode;
+    accountCapital: number;
+    riskAmount: number;
+    riskPercent: number;
+    kellyFraction: number;
+  };
+  broker: 'KITE' | 'MOCK';
+  tradingMode: 'LIVE' | 'PAPER';
+  paperTrading: {
+    slippagePercent: number;
+    latencyMs: number;
+  };
+  riskLimits: IRiskLimits;
+  circuitBreaker: ICircuitBreakerState;
   createdAt: Date;
   updatedAt: Date;
   comparePassword(candidatePassword: string): Promise<boolean>;
@@ -74,6 +93,61 @@ const UserSchema: Schema = new Schema(
       type: Number,
       default: 5000,
     },
+    maxLots: {
+      type: Number,
+      default: 1,
+    },
+    positionSizing: {
+      mode: {
+        type: String,
+        enum: ['FIXED_CAPITAL', 'FIXED_RISK', 'PERCENT_RISK', 'KELLY'],
+        default: 'FIXED_CAPITAL',
+      },
+      accountCapital: {
+        type: Number,
+        default: 100000,
+      },
+      riskAmount: {
+        type: Number,
+        default: 1000,
+      },
+      riskPercent: {
+        type: Number,
+        default: 1,
+      },
+      kellyFraction: {
+        type: Number,
+        default: 0.5,
+      },
+    },
+    broker: {
+      type: String,
+      enum: ['KITE', 'MOCK'],
+      default: 'KITE',
+    },
+    tradingMode: {
+      type: String,
+      enum: ['LIVE', 'PAPER'],
+      default: 'LIVE',
+    },
+    paperTrading: {
+      slippagePercent: {
+        type: Number,
+        default: 0.1,
+      },
+      latencyMs: {
+        type: Number,
+        default: 500,
+      },
+    },
+    riskLimits: {
+      type: RiskLimitsSchema,
+      default: () => ({}),
+    },
+    circuitBreaker: {
+      type: CircuitBreakerStateSchema,
+      default: () => ({}),
+    },
   },
   {
     timestamps: true,
@@ -3,6 +3,7 @@ import * as AdminController from '../controllers/admin.controller';
 import { auth, admin } from '../middleware/auth.middleware';
 import { validate } from '../middleware/validator.middleware';
 import { body } from 'express-validator';
+import { MAX_REPLAY_SPEED } from '../services/marketReplay.service';
 
 const router = express.Router();
 
@@ -16,6 +17,30 @@ const schedulerValidation = [
   body('action').isIn(['start', 'stop']).withMessage('Action must be start or stop'),
 ];
 
+const riskLimitsValidation = [
+  body('limits').isObject().withMessage('Limits are required'),
+  body('limits.maxDailyLoss').optional().isFloat({ min: 0 }).withMessage('Max daily loss must be a positive number'),
+  body('limits.maxDailyLossPercent').optional().isFloat({ min: 0, max: 100 }).withMessage('Max daily loss percent must be between 0 and 100'),
+  body('limits.maxConsecutiveLosses').optional().isInt({ min: 0 }).withMessage('Max consecutive losses must be a positive integer'),
+  body('limits.maxOpenPositions').optional().isInt({ min: 0 }).withMessage('Max open positions must be a positive integer'),
+  body('limits.maxExposurePerUnderlying').optional().isFloat({ min: 0 }).withMessage('Max exposure per underlying must be a positive number'),
+  body('limits.flattenOnBreach').optional().isBoolean().withMessage('Flatten on breach must be a boolean'),
+];
+
+const circuitBreakerValidation = [
+  body('userId').optional().isMongoId().withMessage('Invalid user ID'),
+];
+
+const tripValidation = [
+  ...circuitBreakerValidation,
+  body('reason').notEmpty().withMessage('Reason is required'),
+];
+
+const replayValidation = [
+  body('date').matches(/^\d{4}-\d{2}-\d{2}$/).withMessage('Date must be YYYY-MM-DD'),
+  body('speed').optional().isFloat({ min: 1, max: MAX_REPLAY_SPEED }).withMessage(`Speed must be between 1 and ${MAX_REPLAY_SPEED}`),
+];
+
 // Admin routes
 router.get('/status', auth, admin, AdminController.getSystemStatus);
 router.get('/users', auth, admin, AdminController.getAllUsers);
@@ -25,6 +50,18 @@ router.delete('/users/:id', auth, admin, AdminController.deleteUser);
 router.get('/analytics', auth, admin, AdminController.getAnalytics);
 router.post('/send-notification', auth, admin, validate(notificationValidation), AdminController.sendNotification);
 router.post('/scheduler', auth, admin, validate(schedulerValidation), AdminController.controlScheduler);
+router.post('/square-off', auth, admin, AdminController.squareOff);
+router.get('/reconciliation', auth, admin, AdminController.getReconciliation);
+router.post('/reconciliation', auth, admin, AdminController.reconcile);
+router.post('/candles/warm-start', auth, admin, AdminController.warmStartCandleHistory);
+router.get('/replay', auth, admin, AdminController.getReplay);
+router.post('/replay/start', auth, admin, validate(replayValidation), AdminController.startReplay);
+router.post('/replay/stop', auth, admin, AdminController.stopReplay);
+router.get('/circuit-breaker', auth, admin, AdminController.getCircuitBreaker);
+router.put('/circuit-breaker', auth, admin, validate(riskLimitsValidation), AdminController.updateCircuitBreaker);
+router.post('/circuit-breaker/trip', auth, admin, validate(tripValidation), AdminController.tripCircuitBreaker);
+router.post('/circuit-breaker/rearm', auth, admin, validate(circuitBreakerValidation), AdminController.rearmCircuitBreaker);
+router.get('/execution-quality', auth, admin, AdminController.getExecutionQuality);
 router.get('/orders', auth, admin, AdminController.getOrderHistory);
 
 export default router;
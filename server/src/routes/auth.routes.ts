@@ -45,6 +45,57 @@ const zerodhaSessionValidation = [
     .notEmpty().withMessage('Request token is required'),
 ];
 
+const profileValidation = [
+  body('broker')
+    .optional()
+    .isIn(['KITE', 'MOCK']).withMessage('Broker must be KITE or MOCK'),
+  body('tradingMode')
+    .optional()
+    .isIn(['LIVE', 'PAPER']).withMessage('Trading mode must be LIVE or PAPER'),
+  body('paperTrading.slippagePercent')
+    .optional()
+    .isFloat({ min: 0, max: 5 }).withMessage('Slippage must be between 0 and 5 percent'),
+  body('paperTrading.latencyMs')
+    .optional()
+    .isInt({ min: 0, max: 60000 }).withMessage('Latency must be between 0 and 60000 ms'),
+  body('maxLots')
+    .optional()
+    .isInt({ min: 1 }).withMessage('Max lots must be at least 1'),
+  body('positionSizing.mode')
+    .optional()
+    .isIn(['FIXED_CAPITAL', 'FIXED_RISK', 'PERCENT_RISK', 'KELLY']).withMessage('Invalid position sizing mode'),
+  body('positionSizing.accountCapital')
+    .optional()
+    .isFloat({ min: 0 }).withMessage('Account capital must be a positive number'),
+  body('positionSizing.riskAmount')
+    .optional()
+    .isFloat({ min: 0 }).withMessage('Risk amount must be a positive number'),
+  body('positionSizing.riskPercent')
+    .optional()
+    .isFloat({ min: 0, max: 10 }).withMessage('Risk percent must be between 0 and 10'),
+  body('positionSizing.kellyFraction')
+    .optional()
+    .isFloat({ min: 0, max: 1 }).withMessage('Kelly fraction must be between 0 and 1'),
+  body('riskLimits.maxDailyLoss')
+    .optional()
+    .isFloat({ min: 0 }).withMessage('Max daily loss must be a positive number'),
+  body('riskLimits.maxDailyLossPercent')
+    .optional()
+    .isFloat({ min: 0, max: 100 }).withMessage('Max daily loss percent must be between 0 and 100'),
+  body('riskLimits.maxConsecutiveLosses')
+    .optional()
+    .isInt({ min: 0 }).withMessage('Max consecutive losses must be a positive integer'),
+  body('riskLimits.maxOpenPositions')
+    .optional()
+    .isInt({ min: 0 }).withMessage('Max open positions must be a positive integer'),
+  body('riskLimits.maxExposurePerUnderlying')
+    .optional()
+    .isFloat({ min: 0 }).withMessage('Max exposure per underlying must be a positive number'),
+  body('riskLimits.flattenOnBreach')
+    .optional()
+    .isBoolean().withMessage('Flatten on breach must be a boolean'),
+];
+
 const autoTradingValidation = [
   body('enabled')
     .isBoolean().withMessage('Enabled field must be a boolean'),
@@ -57,7 +108,7 @@ router.post('/create-admin', validate(registerValidation), AuthController.create
 
 // Protected routes
 router.get('/profile', auth, AuthController.getProfile);
-router.put('/profile', auth, AuthController.updateProfile);
+router.put('/profile', auth, validate(profileValidation), AuthController.updateProfile);
 router.put('/change-password', auth, validate(passwordChangeValidation), AuthController.changePassword);
 router.post('/zerodha-credentials', auth, validate(zerodhaCredentialsValidation), AuthController.setZerodhaCredentials);
 router.post('/zerodha-session', auth, validate(zerodhaSessionValidation), AuthController.generateZerodhaSession);
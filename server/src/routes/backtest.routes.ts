@@ -0,0 +1,34 @@
+import express from 'express';
+import * as BacktestController from '../controllers/backtest.controller';
+import { auth, admin } from '../middleware/auth.middleware';
+import { validate } from '../middleware/validator.middleware';
+import { body } from 'express-validator';
+
+const router = express.Router();
+
+// Validation rules
+const backtestValidation = [
+  body('strategy').notEmpty().withMessage('Strategy is required'),
+  body('from').isISO8601().withMessage('From must be a valid date'),
+  body('to').isISO8601().withMessage('To must be a valid date'),
+  body('symbols').optional().isArray().withMessage('Symbols must be an array'),
+  body('lookbackCandles').optional().isInt({ min: 30 }).withMessage('Lookback candles must be at least 30'),
+];
+
+const fetchCandlesValidation = [
+  body('symbols').isArray({ min: 1 }).withMessage('Symbols must be a non-empty array'),
+  body('from').isISO8601().withMessage('From must be a valid date'),
+  body('to').isISO8601().withMessage('To must be a valid date'),
+];
+
+const importCandlesValidation = [
+  body('symbol').notEmpty().withMessage('Symbol is required'),
+  body('csv').isString().notEmpty().withMessage('CSV content is required'),
+];
+
+// Admin-only routes
+router.post('/run', auth, admin, validate(backtestValidation), BacktestController.runBacktest);
+router.post('/candles/fetch', auth, admin, validate(fetchCandlesValidation), BacktestController.fetchCandles);
+router.post('/candles/import', auth, admin, validate(importCandlesValidation), BacktestController.importCandles);
+
+export default router;
@@ -2,12 +2,41 @@ import express from 'express';
 import type { Request, Response } from 'express';
 import { auth, admin } from '../middleware/auth.middleware';
 import { marketHoursInfo } from '../middleware/error.middleware';
+import { validate } from '../middleware/validator.middleware';
+import { query } from 'express-validator';
 import MarketData from '../models/marketData.model';
 import StockUniverse from '../models/stockUniverse.model';
-import * as KiteService from '../services/kite.service';
+import { getMarketDataBroker } from '../brokers';
+import * as OptionChainService from '../services/optionChain.service';
+import * as SectorStrengthService from '../services/sectorStrength.service';
+import * as CandleStore from '../services/candleStore.service';
+import * as CandleTransfer from '../services/candleTransfer.service';
+import { isSupportedInterval, KITE_INTERVAL_MINUTES, SUPPORTED_INTERVALS, type CandleInterval } from '../utils/candle.util';
 
 const router = express.Router();
 
+// Candles returned when no range is requested
+const DEFAULT_CANDLE_LIMIT = 200;
+
+// Candle files are sent as the raw request body
+const MAX_CANDLE_FILE_SIZE = '50mb';
+
+// Validation rules
+const exportCandlesValidation = [
+  query('interval').isIn(SUPPORTED_INTERVALS.map(String)).withMessage(`Interval must be one of ${SUPPORTED_INTERVALS.join(', ')} minutes`),
+  query('format').optional().isIn(CandleTransfer.CANDLE_FILE_FORMATS).withMessage('Format must be csv or columnar'),
+  query('from').optional().isISO8601().withMessage('From must be a valid date'),
+  query('to').optional().isISO8601().withMessage('To must be a valid date'),
+];
+
+const importCandlesValidation = [
+  query('interval').isIn(CandleStore.STORED_INTERVALS.map(String))
+    .withMessage(`Interval must be one of ${CandleStore.STORED_INTERVALS.join(', ')} minutes`),
+  query('format').isIn(CandleTransfer.CANDLE_FILE_FORMATS).withMessage('Format must be csv or columnar'),
+  query('utcOffset').optional().isInt({ min: -720, max: 840 }).withMessage('UTC offset must be in minutes'),
+  query('dryRun').optional().isBoolean().withMessage('Dry run must be a boolean'),
+];
+
 /**
  * Get market status
  * @route GET /api/market-data/status
@@ -42,14 +71,15 @@ router.get('/stocks', auth, async (req: Request, res: Response) => {
  * @route GET /api/market-data/stock/:symbol
  * @access Private
  */
-router.get('/stock/:symbol', auth, async (req: Request, res: Response) => {
+router.get('/stock/:symbol', auth, async (req: Request<{ symbol: string }>, res: Response): Promise<void> => {
   try {
     const { symbol } = req.params;
 
     const marketData = await MarketData.findOne({ symbol });
 
     if (!marketData) {
-      return res.status(404).json({ message: 'Market data not found for this stock' });
+      res.status(404).json({ message: 'Market data not found for this stock' });
+      return;
     }
 
     res.json({ marketData });
@@ -59,19 +89,122 @@ router.get('/stock/:symbol', auth, async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * Get stored candles of any supported interval, the most recent ones unless a range is given
+ * @route GET /api/market-data/candles/:symbol
+ * @access Private
+ */
+router.get('/candles/:symbol', auth, async (req: Request<{ symbol: string }>, res: Response): Promise<void> => {
+  try {
+    const { symbol } = req.params;
+    const interval = req.query.interval ? Number(req.query.interval) : 1;
+
+    if (!isSupportedInterval(interval)) {
+      res.status(400).json({ message: `Interval must be one of ${SUPPORTED_INTERVALS.join(', ')} minutes` });
+      return;
+    }
+
+    const from = req.query.from ? new Date(req.query.from as string) : undefined;
+    const to = req.query.to ? new Date(req.query.to as string) : undefined;
+    const limit = req.query.limit ? Number.parseInt(req.query.limit as string) : undefined;
+
+    const candles = await CandleStore.getCandles(symbol, interval, {
+      from,
+      to,
+      limit: limit || (from || to ? undefined : DEFAULT_CANDLE_LIMIT),
+    });
+
+    res.json({ symbol, interval, candles });
+  } catch (error) {
+    console.error('Get candles error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+/**
+ * Export stored candles as a CSV or columnar file
+ * @route GET /api/market-data/candles/:symbol/export
+ * @access Private
+ */
+router.get('/candles/:symbol/export', auth, validate(exportCandlesValidation), async (req: Request<{ symbol: string }>, res: Response): Promise<void> => {
+  try {
+    const { symbol } = req.params;
+    const interval = Number(req.query.interval) as CandleInterval;
+    const format = (req.query.format as CandleTransfer.CandleFileFormat) || 'csv';
+    const compress = req.query.compress === 'true';
+
+    const { content } = await CandleTransfer.exportCandleFile(symbol, interval, format, {
+      from: req.query.from ? new Date(req.query.from as string) : undefined,
+      to: req.query.to ? new Date(req.query.to as string) : undefined,
+      compress,
+    });
+
+    const extension = `${format === 'csv' ? 'csv' : 'ohlcv.json'}${compress ? '.gz' : ''}`;
+    res.setHeader('Content-Type', compress ? 'application/gzip' : format === 'csv' ? 'text/csv' : 'application/json');
+    res.setHeader('Content-Disposition', `attachment; filename="${symbol}_${interval}m.${extension}"`);
+    res.send(content);
+  } catch (error) {
+    console.error('Export candles error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+/**
+ * Import a CSV or columnar candle file (optionally gzipped) sent as the request body
+ * @route POST /api/market-data/candles/:symbol/import
+ * @access Private (Admin only)
+ */
+router.post(
+  '/candles/:symbol/import',
+  auth,
+  admin,
+  express.raw({ type: () => true, limit: MAX_CANDLE_FILE_SIZE }),
+  validate(importCandlesValidation),
+  async (req: Request<{ symbol: string }>, res: Response): Promise<void> => {
+    try {
+      const { symbol } = req.params;
+
+      // JSON bodies have already been parsed by the application's JSON parser
+      const content: Buffer | string = Buffer.isBuffer(req.body) ? req.body : JSON.stringify(req.body ?? '');
+
+      const report = await CandleTransfer.importCandleFile(content, {
+        symbol,
+        interval: Number(req.query.interval),
+        format: req.query.format as CandleTransfer.CandleFileFormat,
+        utcOffsetMinutes: req.query.utcOffset !== undefined ? Number(req.query.utcOffset) : undefined,
+        dryRun: req.query.dryRun === 'true',
+      });
+
+      if (!report.dryRun && report.errors.length > 0) {
+        res.status(400).json({ message: 'Candle file has invalid rows, nothing was imported', report });
+        return;
+      }
+
+      res.json({
+        message: report.dryRun ? `${report.rows} rows validated` : `${report.imported} candles imported`,
+        report,
+      });
+    } catch (error) {
+      console.error('Import candles error:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  }
+);
+
 /**
  * Get market data for index (Nifty, Bank Nifty)
  * @route GET /api/market-data/index/:symbol
  * @access Private
  */
-router.get('/index/:symbol', auth, async (req: Request, res: Response) => {
+router.get('/index/:symbol', auth, async (req: Request<{ symbol: string }>, res: Response): Promise<void> => {
   try {
     const { symbol } = req.params;
 
     const marketData = await MarketData.findOne({ symbol });
 
     if (!marketData) {
-      return res.status(404).json({ message: 'Market data not found for this index' });
+      res.status(404).json({ message: 'Market data not found for this index' });
+      return;
     }
 
     res.json({ marketData });
@@ -86,27 +219,84 @@ router.get('/index/:symbol', auth, async (req: Request, res: Response) => {
  * @route GET /api/market-data/historical/:symbol
  * @access Private
  */
-router.get('/historical/:symbol', auth, async (req: Request, res: Response) => {
+router.get('/historical/:symbol', auth, async (req: Request<{ symbol: string }>, res: Response): Promise<void> => {
   try {
     const { symbol } = req.params;
     const interval = req.query.interval as string || 'day';
     const from = req.query.from ? new Date(req.query.from as string) : new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
     const to = req.query.to ? new Date(req.query.to as string) : new Date();
 
+    // Intraday candles we already hold are served from the candle store
+    const intervalMinutes = KITE_INTERVAL_MINUTES[interval];
+    if (intervalMinutes) {
+      const storedData = await CandleStore.getCandles(symbol, intervalMinutes, { from, to });
+
+      if (storedData.length > 0) {
+        res.json({ historicalData: storedData, source: 'STORE' });
+        return;
+      }
+    }
+
     // Fetch historical data
-    const historicalData = await KiteService.fetchHistoricalData(symbol, interval, from, to);
+    const historicalData = await getMarketDataBroker().getHistoricalData(symbol, interval, from, to);
 
     if (!historicalData) {
-      return res.status(404).json({ message: 'Historical data not found' });
+      res.status(404).json({ message: 'Historical data not found' });
+      return;
     }
 
-    res.json({ historicalData });
+    res.json({ historicalData, source: 'BROKER' });
   } catch (error) {
     console.error('Get historical data error:', error);
     res.status(500).json({ message: 'Server error' });
   }
 });
 
+/**
+ * Get option chain with implied volatility and Greeks
+ * @route GET /api/market-data/option-chain/:symbol
+ * @access Private
+ */
+router.get('/option-chain/:symbol', auth, async (req: Request<{ symbol: string }>, res: Response): Promise<void> => {
+  try {
+    const { symbol } = req.params;
+    const strikes = req.query.strikes ? Number.parseInt(req.query.strikes as string) : 10;
+    const expiry = req.query.expiry === 'MONTHLY' ? 'MONTHLY' : 'WEEKLY';
+
+    const optionChain = await OptionChainService.getOptionChain(symbol, strikes, { expiry });
+
+    if (!optionChain) {
+      res.status(404).json({ message: 'Option chain not found for this stock' });
+      return;
+    }
+
+    res.json({ optionChain });
+  } catch (error) {
+    console.error('Get option chain error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+/**
+ * Get sectors ranked by relative strength versus NIFTY 50
+ * @route GET /api/market-data/sector-strength
+ * @access Private
+ */
+router.get('/sector-strength', auth, async (req: Request, res: Response) => {
+  try {
+    const windows = req.query.windows
+      ? (req.query.windows as string).split(',').map(Number).filter(window => window > 0)
+      : undefined;
+
+    const sectors = await SectorStrengthService.getSectorRanking(windows);
+
+    res.json({ sectors, timestamp: new Date() });
+  } catch (error) {
+    console.error('Get sector strength error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
 /**
  * Fetch stock instruments (admin only)
  * @route POST /api/market-data/fetch-instruments
@@ -114,7 +304,7 @@ router.get('/historical/:symbol', auth, async (req: Request, res: Response) => {
  */
 router.post('/fetch-instruments', auth, admin, async (req: Request, res: Response) => {
   try {
-    await KiteService.fetchInstruments();
+    await getMarketDataBroker().syncInstruments();
 
     res.json({ message: 'Instruments fetched successfully' });
   } catch (error) {
@@ -1,24 +1,56 @@
 import express from 'express';
 import type { Request, Response } from 'express';
 import mongoose from 'mongoose';
+import { body } from 'express-validator';
 import { auth, admin } from '../middleware/auth.middleware';
+import { validate } from '../middleware/validator.middleware';
 import { marketHoursCheck } from '../middleware/error.middleware';
 import Order from '../models/order.model';
 import Signal from '../models/signal.model';
+import User from '../models/user.model';
+import { getBrokerForOrder, getBrokerForUser } from '../brokers';
+import * as OptionChainService from '../services/optionChain.service';
 import * as KiteService from '../services/kite.service';
 import * as TelegramService from '../services/telegram.service';
 import * as OrderExecution from '../services/orderExecution.service';
+import * as OcoManager from '../services/ocoManager.service';
+import * as RiskManager from '../services/riskManager.service';
+import * as ExecutionQuality from '../services/executionQuality.service';
+import { getSignalLotSize } from '../services/positionSizing.service';
 
 const router = express.Router();
 
+// Validation rules
+const exitsValidation = [
+  body('stopLoss').optional().isFloat({ gt: 0 }).withMessage('Stop loss must be a positive number'),
+  body('target').optional().isFloat({ gt: 0 }).withMessage('Target must be a positive number'),
+  body().custom(value => value?.stopLoss !== undefined || value?.target !== undefined)
+    .withMessage('Stop loss or target is required'),
+];
+
 /**
  * Get user's order history
- * @route GET /api/orders
+ * @route GET /api/orders?paper=true|false&signalId=
  * @access Private
  */
-router.get('/', auth, async (req: Request, res: Response) => {
+router.get('/', auth, async (req: Request, res: Response): Promise<void> => {
   try {
-    const orders = await Order.find({ userId: req.user.id })
+    const query: Record<string, any> = { userId: req.user.id };
+
+    // Paper and live orders are listed separately when requested
+    if (req.query.paper !== undefined) {
+      query.isPaper = req.query.paper === 'true';
+    }
+
+    if (req.query.signalId !== undefined) {
+      if (!mongoose.Types.ObjectId.isValid(String(req.query.signalId))) {
+        res.status(400).json({ message: 'Invalid signal ID' });
+        return;
+      }
+      query.signalId = req.query.signalId;
+    }
+
+    const orders = await Order.find(query)
       .sort({ orderTimestamp: -1 })
       .populate('signalId', 'stock option type');
 
@@ -29,18 +61,40 @@ router.get('/', auth, async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * Get slippage and latency of the user's filled entries per underlying, time of day and order type
+ * @route GET /api/orders/execution-quality?paper=true|false&from=&to=
+ * @access Private
+ */
+router.get('/execution-quality', auth, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const report = await ExecutionQuality.getExecutionQualityReport({
+      userId: req.user.id,
+      isPaper: req.query.paper !== undefined ? req.query.paper === 'true' : req.user.tradingMode === 'PAPER',
+      from: req.query.from ? new Date(String(req.query.from)) : undefined,
+      to: req.query.to ? new Date(String(req.query.to)) : undefined,
+    });
+
+    res.json(report);
+  } catch (error) {
+    console.error('Get execution quality error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
 /**
  * Get order by ID
  * @route GET /api/orders/:id
  * @access Private
  */
-router.get('/:id', auth, async (req: Request, res: Response) => {
+router.get('/:id', auth, async (req: Request<{ id: string }>, res: Response): Promise<void> => {
   try {
     const { id } = req.params;
 
     // Validate ID
     if (!mongoose.Types.ObjectId.isValid(id)) {
-      return res.status(400).json({ message: 'Invalid order ID' });
+      res.status(400).json({ message: 'Invalid order ID' });
+      return;
     }
 
     // Get order
@@ -50,7 +104,8 @@ router.get('/:id', auth, async (req: Request, res: Response) => {
     }).populate('signalId', 'stock option type entryPrice targetPrice stopLoss');
 
     if (!order) {
-      return res.status(404).json({ message: 'Order not found' });
+      res.status(404).json({ message: 'Order not found' });
+      return;
     }
 
     res.json({ order });
@@ -65,74 +120,101 @@ router.get('/:id', auth, async (req: Request, res: Response) => {
  * @route POST /api/orders/execute/:signalId
  * @access Private
  */
-router.post('/execute/:signalId', auth, marketHoursCheck, async (req: Request, res: Response) => {
+router.post('/execute/:signalId', auth, marketHoursCheck, async (req: Request<{ signalId: string }>, res: Response): Promise<void> => {
   try {
     const { signalId } = req.params;
     const { quantity, price } = req.body;
 
     // Validate ID
     if (!mongoose.Types.ObjectId.isValid(signalId)) {
-      return res.status(400).json({ message: 'Invalid signal ID' });
+      res.status(400).json({ message: 'Invalid signal ID' });
+      return;
     }
 
     // Get signal
     const signal = await Signal.findById(signalId);
 
     if (!signal) {
-      return res.status(404).json({ message: 'Signal not found' });
+      res.status(404).json({ message: 'Signal not found' });
+      return;
+    }
+
+    // Check if signal already executed for this user
+    const existingOrder = await Order.findOne({ signalId, userId: req.user.id });
+
+    if (existingOrder) {
+      res.status(400).json({ message: 'Signal already executed' });
+      return;
     }
 
-    // Check if signal already executed
-    if (signal.executedOrder) {
-      return res.status(400).json({ message: 'Signal already executed' });
+    // Resolve the exchange trading symbol of the option contract
+    const tradingSymbol = await OptionChainService.getSignalTradingSymbol(signal);
+    if (!tradingSymbol) {
+      res.status(400).json({ message: 'No option contract found for this signal' });
+      return;
     }
 
-    // Parse the option string to get components
-    const optionParts = signal.option.split(' ');
-    if (optionParts.length < 3) {
-      return res.status(400).json({ message: 'Invalid option format' });
+    // F&O orders must be in whole lots
+    const lotSize = await getSignalLotSize(signal);
+
+    if (!lotSize) {
+      res.status(400).json({ message: 'No lot size found for this signal' });
+      return;
     }
 
-    const symbol = optionParts[0];
-    const strikePrice = optionParts[1];
-    const optionType = optionParts[2];
+    const lots = quantity / lotSize;
 
-    // Construct trading symbol
-    const tradingSymbol = `${symbol}${getExpiryCode()}${strikePrice}${optionType}`;
+    if (!Number.isInteger(lots) || lots <= 0) {
+      res.status(400).json({ message: `Quantity must be a multiple of the lot size (${lotSize})` });
+      return;
+    }
 
-    // Place the order
-    const orderResponse = await KiteService.placeOrder(
-      req.user.id,
-      'NFO',
+    if (req.user.maxLots > 0 && lots > req.user.maxLots) {
+      res.status(400).json({ message: `Quantity exceeds the max of ${req.user.maxLots} lots per trade` });
+      return;
+    }
+
+    // Daily loss, position and exposure limits of the account
+    const riskCheck = await RiskManager.checkBeforeOrder(req.user, {
+      underlying: signal.stock,
+      amount: (price || signal.optionLevels?.entryPrice || signal.entryPrice) * quantity,
+    });
+
+    if (!riskCheck.allowed) {
+      res.status(403).json({ message: riskCheck.message });
+      return;
+    }
+
+    // Place the order (simulated for paper trading accounts)
+    // The option is always bought: CE for BUY signals, PE for SELL signals
+    const isPaper = req.user.tradingMode === 'PAPER';
+    const broker = getBrokerForUser(req.user);
+    const quote = await broker.getQuote('NFO', tradingSymbol);
+    const execution = ExecutionQuality.startExecutionRecord(signal, price || signal.optionLevels?.entryPrice, quote?.lastPrice);
+    const orderResponse = await broker.placeOrder(req.user.id, {
+      exchange: 'NFO',
       tradingSymbol,
-      signal.type,
+      transactionType: 'BUY',
       quantity,
-      price || null, // Use price if provided, otherwise market order
-      'MIS',
-      price ? 'LIMIT' : 'MARKET',
-      'DAY',
-      0,
-      0,
-      null,
-      null,
-      null,
-      `MANUAL_${signalId}`
-    );
+      price: price || null, // Use price if provided, otherwise market order
+      orderType: price ? 'LIMIT' : 'MARKET',
+      product: 'MIS',
+      validity: 'DAY',
+      tag: `MANUAL_${signalId}`,
+    });
 
-    if (!orderResponse || !orderResponse.order_id) {
-      return res.status(500).json({
-        message: 'Failed to place order',
-        error: orderResponse?.message || 'Unknown error',
-      });
+    if (!orderResponse) {
+      res.status(500).json({ message: 'Failed to place order' });
+      return;
     }
 
     // Create order record
     const order = new Order({
       signalId,
       userId: req.user.id,
-      kiteOrderId: orderResponse.order_id,
+      kiteOrderId: orderResponse.orderId,
       status: 'OPEN',
-      transactionType: signal.type,
+      transactionType: 'BUY',
       exchange: 'NFO',
       tradingSymbol,
       quantity,
@@ -145,34 +227,40 @@ router.post('/execute/:signalId', auth, marketHoursCheck, async (req: Request, r
       pendingQuantity: quantity,
       orderTimestamp: new Date(),
       cancelledQuantity: 0,
+      broker: broker.name,
+      isPaper,
+      execution,
     });
 
     await order.save();
 
-    // Update signal
-    signal.executedOrder = true;
-    signal.executedAt = new Date();
-    signal.orderStatus = 'PENDING';
-    signal.orderDetails = {
-      orderId: orderResponse.order_id,
-      orderPrice: price || signal.currentMarketPrice,
-      quantity,
-    };
-    await signal.save();
+    // Update signal (the first execution across users is recorded on the signal)
+    if (!signal.executedOrder) {
+      signal.executedOrder = true;
+      signal.executedAt = new Date();
+      signal.orderStatus = 'PENDING';
+      signal.orderDetails = {
+        orderId: orderResponse.orderId,
+        orderPrice: price || signal.currentMarketPrice,
+        quantity,
+      };
+      await signal.save();
+    }
 
     // Send notification
     await TelegramService.sendOrderUpdate(
       signal,
       true,
-      `Manual order placed for ${quantity} shares at ${price ? `limit price ₹${price}` : 'market price'}.`
+      `Manual ${isPaper ? 'paper ' : ''}order placed for ${lots} lot${lots > 1 ? 's' : ''} (${quantity} qty) at ${price ? `limit price ₹${price}` : 'market price'}.`
     );
 
     res.json({
       message: 'Order placed successfully',
       order: {
         id: order._id,
-        kiteOrderId: orderResponse.order_id,
+        kiteOrderId: orderResponse.orderId,
         status: 'OPEN',
+        isPaper,
       },
     });
   } catch (error) {
@@ -186,13 +274,14 @@ router.post('/execute/:signalId', auth, marketHoursCheck, async (req: Request, r
  * @route POST /api/orders/cancel/:id
  * @access Private
  */
-router.post('/cancel/:id', auth, marketHoursCheck, async (req: Request, res: Response) => {
+router.post('/cancel/:id', auth, marketHoursCheck, async (req: Request<{ id: string }>, res: Response): Promise<void> => {
   try {
     const { id } = req.params;
 
     // Validate ID
     if (!mongoose.Types.ObjectId.isValid(id)) {
-      return res.status(400).json({ message: 'Invalid order ID' });
+      res.status(400).json({ message: 'Invalid order ID' });
+      return;
     }
 
     // Get order
@@ -202,23 +291,26 @@ router.post('/cancel/:id', auth, marketHoursCheck, async (req: Request, res: Res
     });
 
     if (!order) {
-      return res.status(404).json({ message: 'Order not found' });
+      res.status(404).json({ message: 'Order not found' });
+      return;
     }
 
     // Check if order can be cancelled
     if (order.status !== 'OPEN') {
-      return res.status(400).json({ message: `Cannot cancel order with status ${order.status}` });
+      res.status(400).json({ message: `Cannot cancel order with status ${order.status}` });
+      return;
     }
 
     // Cancel the order
-    const cancelResponse = await KiteService.cancelOrder(
+    const cancelResponse = await getBrokerForOrder(order).cancelOrder(
       req.user.id.toString(),
       order.kiteOrderId,
       order.variety
     );
 
     if (!cancelResponse) {
-      return res.status(500).json({ message: 'Failed to cancel order' });
+      res.status(500).json({ message: 'Failed to cancel order' });
+      return;
     }
 
     // Update order status
@@ -254,12 +346,132 @@ router.post('/cancel/:id', auth, marketHoursCheck, async (req: Request, res: Res
   }
 });
 
+/**
+ * Exit an open position at market
+ * @route POST /api/orders/:id/exit
+ * @access Private
+ */
+router.post('/:id/exit', auth, marketHoursCheck, async (req: Request<{ id: string }>, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    // Validate ID
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      res.status(400).json({ message: 'Invalid order ID' });
+      return;
+    }
+
+    // Get order
+    const order = await Order.findOne({
+      _id: id,
+      userId: req.user.id,
+    });
+
+    if (!order) {
+      res.status(404).json({ message: 'Order not found' });
+      return;
+    }
+
+    // Check if the order has an open position
+    if (order.status !== 'COMPLETE' || order.exitReason) {
+      res.status(400).json({ message: 'Order has no open position' });
+      return;
+    }
+
+    // Cancel the exit orders and sell the remaining quantity
+    const result = await OcoManager.closePosition(order, 'MANUAL_EXIT');
+
+    if (!result.closed) {
+      res.status(500).json({ message: result.message });
+      return;
+    }
+
+    res.json({
+      message: result.message,
+      order: {
+        id: order._id,
+        exitPrice: order.exitPrice,
+        exitReason: order.exitReason,
+        profitLoss: order.profitLoss,
+      },
+    });
+  } catch (error) {
+    console.error('Exit order error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+/**
+ * Modify the stop loss and/or target of an open position
+ * @route PATCH /api/orders/:id/exits
+ * @access Private
+ */
+router.patch('/:id/exits', auth, marketHoursCheck, validate(exitsValidation), async (req: Request<{ id: string }>, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const stopLoss = req.body.stopLoss !== undefined ? Number(req.body.stopLoss) : undefined;
+    const target = req.body.target !== undefined ? Number(req.body.target) : undefined;
+
+    // Validate ID
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      res.status(400).json({ message: 'Invalid order ID' });
+      return;
+    }
+
+    // Get order
+    const order = await Order.findOne({
+      _id: id,
+      userId: req.user.id,
+    });
+
+    if (!order) {
+      res.status(404).json({ message: 'Order not found' });
+      return;
+    }
+
+    // Check if the order has an open position
+    if (order.status !== 'COMPLETE' || order.exitReason) {
+      res.status(400).json({ message: 'Order has no open position' });
+      return;
+    }
+
+    // The stop loss must stay below the target
+    const newStopLoss = stopLoss ?? order.stopLossOrder?.triggerPrice ?? order.ocoTrigger?.stopLoss;
+    const newTarget = target ?? order.targetOrder?.price ?? order.ocoTrigger?.target;
+
+    if (newStopLoss !== undefined && newTarget !== undefined && newStopLoss >= newTarget) {
+      res.status(400).json({ message: 'Stop loss must be below the target' });
+      return;
+    }
+
+    const result = await OcoManager.modifyExits(order, { stopLoss, target });
+
+    if (!result.updated) {
+      res.status(500).json({ message: result.message });
+      return;
+    }
+
+    res.json({
+      message: result.message,
+      order: {
+        id: order._id,
+        stopLossOrder: order.stopLossOrder,
+        targetOrder: order.targetOrder,
+        ocoTrigger: order.ocoTrigger,
+      },
+    });
+  } catch (error) {
+    console.error('Modify exits error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
 /**
  * Process pending orders manually (admin only)
  * @route POST /api/orders/process-pending
  * @access Private (Admin only)
  */
-router.post('/process-pending', auth, admin, marketHoursCheck, async (req: Request, res: Response) => {
+router.post('/process-pending', auth, admin, marketHoursCheck, async (req: Request, res: Response): Promise<void> => {
   try {
     await OrderExecution.processPendingSignals();
 
@@ -271,17 +483,45 @@ router.post('/process-pending', auth, admin, marketHoursCheck, async (req: Reque
 });
 
 /**
- * Get expiry code for option symbol
- * This is a simplified version and will need to be adapted to the actual broker's format
+ * Kite order postback (register this URL as the postback URL of the Kite Connect app)
+ * @route POST /api/orders/postback
+ * @access Public (verified by checksum)
  */
-const getExpiryCode = (): string => {
-  const now = new Date();
-  const year = now.getFullYear().toString().slice(-2);
-  const month = (now.getMonth() + 1).toString().padStart(2, '0');
-
-  // In reality, you'd need to calculate the actual expiry date
-  // This is just a placeholder
-  return `${month}${year}`;
-};
+router.post('/postback', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const update = req.body;
+
+    if (!update?.order_id) {
+      res.status(400).json({ message: 'Invalid postback' });
+      return;
+    }
+
+    // The checksum is signed with the API secret of the app the order was placed through
+    const order = await Order.findOne({
+      $or: [
+        { kiteOrderId: update.order_id },
+        { 'stopLossOrder.orderId': update.order_id },
+        { 'targetOrder.orderId': update.order_id },
+        { 'target1Order.orderId': update.order_id },
+        { 'stopLossHistory.orderId': update.order_id },
+      ],
+    });
+    const user = order
+      ? await User.findById(order.userId)
+      : await User.findOne({ role: 'admin', zerodhaApiSecret: { $exists: true } });
+
+    if (!user?.zerodhaApiSecret || !KiteService.verifyPostbackChecksum(update, user.zerodhaApiSecret)) {
+      res.status(401).json({ message: 'Invalid checksum' });
+      return;
+    }
+
+    KiteService.handlePostback(update);
+
+    res.json({ message: 'Postback received' });
+  } catch (error) {
+    console.error('Order postback error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
 
 export default router;
@@ -0,0 +1,58 @@
+import express from 'express';
+import * as StrategyController from '../controllers/strategy.controller';
+import { auth, admin } from '../middleware/auth.middleware';
+import { validate } from '../middleware/validator.middleware';
+import { body } from 'express-validator';
+
+const router = express.Router();
+
+// Validation rules
+const strategyValidation = [
+  body('name').notEmpty().withMessage('Name is required'),
+  body('layers').isArray({ min: 1 }).withMessage('Layers must be a non-empty array'),
+  body('direction').optional().isIn(['BULLISH', 'BEARISH']).withMessage('Direction must be BULLISH or BEARISH'),
+  body('maxSignalsPerDay').optional().isInt({ min: 1 }).withMessage('Max signals per day must be a positive integer'),
+  body('minSignalGapMinutes').optional().isInt({ min: 0 }).withMessage('Minimum signal gap must be a non-negative integer'),
+  body('optionSelection.expiry').optional().isIn(['WEEKLY', 'MONTHLY']).withMessage('Option expiry must be WEEKLY or MONTHLY'),
+  body('optionSelection.strikeOffset').optional().isInt().withMessage('Strike offset must be an integer'),
+  body('optionSelection.minDaysToExpiry').optional().isInt({ min: 0 }).withMessage('Minimum days to expiry must be a non-negative integer'),
+  body('exitPlan.partialExitPercent').optional().isFloat({ min: 0, max: 100 }).withMessage('Partial exit percent must be between 0 and 100'),
+  body('exitPlan.target1RiskMultiple').optional().isFloat({ min: 0.1 }).withMessage('Target 1 risk multiple must be at least 0.1'),
+  body('exitPlan.moveStopToCost').optional().isBoolean().withMessage('Move stop to cost must be a boolean'),
+  body('exitPlan.trailing').optional().isIn(['NONE', 'ATR', 'SUPERTREND']).withMessage('Trailing must be NONE, ATR or SUPERTREND'),
+  body('exitPlan.atrPeriod').optional().isInt({ min: 1 }).withMessage('ATR period must be a positive integer'),
+  body('exitPlan.atrMultiplier').optional().isFloat({ min: 0.1 }).withMessage('ATR multiplier must be at least 0.1'),
+  body('exitPlan.superTrendPeriod').optional().isInt({ min: 1 }).withMessage('SuperTrend period must be a positive integer'),
+  body('exitPlan.superTrendMultiplier').optional().isFloat({ min: 0.1 }).withMessage('SuperTrend multiplier must be at least 0.1'),
+];
+
+const strategyUpdateValidation = [
+  body('layers').optional().isArray({ min: 1 }).withMessage('Layers must be a non-empty array'),
+  body('direction').optional().isIn(['BULLISH', 'BEARISH']).withMessage('Direction must be BULLISH or BEARISH'),
+  body('isActive').optional().isBoolean().withMessage('isActive must be a boolean'),
+  body('maxSignalsPerDay').optional().isInt({ min: 1 }).withMessage('Max signals per day must be a positive integer'),
+  body('minSignalGapMinutes').optional().isInt({ min: 0 }).withMessage('Minimum signal gap must be a non-negative integer'),
+  body('optionSelection.expiry').optional().isIn(['WEEKLY', 'MONTHLY']).withMessage('Option expiry must be WEEKLY or MONTHLY'),
+  body('optionSelection.strikeOffset').optional().isInt().withMessage('Strike offset must be an integer'),
+  body('optionSelection.minDaysToExpiry').optional().isInt({ min: 0 }).withMessage('Minimum days to expiry must be a non-negative integer'),
+  body('exitPlan.partialExitPercent').optional().isFloat({ min: 0, max: 100 }).withMessage('Partial exit percent must be between 0 and 100'),
+  body('exitPlan.target1RiskMultiple').optional().isFloat({ min: 0.1 }).withMessage('Target 1 risk multiple must be at least 0.1'),
+  body('exitPlan.moveStopToCost').optional().isBoolean().withMessage('Move stop to cost must be a boolean'),
+  body('exitPlan.trailing').optional().isIn(['NONE', 'ATR', 'SUPERTREND']).withMessage('Trailing must be NONE, ATR or SUPERTREND'),
+  body('exitPlan.atrPeriod').optional().isInt({ min: 1 }).withMessage('ATR period must be a positive integer'),
+  body('exitPlan.atrMultiplier').optional().isFloat({ min: 0.1 }).withMessage('ATR multiplier must be at least 0.1'),
+  body('exitPlan.superTrendPeriod').optional().isInt({ min: 1 }).withMessage('SuperTrend period must be a positive integer'),
+  body('exitPlan.superTrendMultiplier').optional().isFloat({ min: 0.1 }).withMessage('SuperTrend multiplier must be at least 0.1'),
+];
+
+// Strategy routes
+router.get('/', auth, StrategyController.getAllStrategies);
+router.get('/filters', auth, StrategyController.getFilters);
+router.get('/:id', auth, StrategyController.getStrategyById);
+
+// Admin-only routes
+router.post('/', auth, admin, validate(strategyValidation), StrategyController.createStrategy);
+router.put('/:id', auth, admin, validate(strategyUpdateValidation), StrategyController.updateStrategy);
+router.delete('/:id', auth, admin, StrategyController.deleteStrategy);
+
+export default router;
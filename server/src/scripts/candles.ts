@@ -0,0 +1,88 @@
+import { readFileSync, writeFileSync } from 'node:fs';
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+import * as CandleTransfer from '../services/candleTransfer.service';
+import { isSupportedInterval } from '../utils/candle.util';
+
+/**
+ * Import and export candle files from the command line
+ *
+ *   bun src/scripts/candles.ts import <file> --symbol RELIANCE --interval 15 [--utc-offset 330] [--dry-run]
+ *   bun src/scripts/candles.ts export <file> --symbol RELIANCE --interval 15 [--from 2024-01-01] [--to 2024-03-31]
+ *
+ * The format follows the file name: .csv for CSV, anything else is columnar.
+ * Files ending in .gz are gzipped.
+ */
+
+dotenv.config();
+
+const USAGE = 'Usage: bun src/scripts/candles.ts <import|export> <file> --symbol <symbol> --interval <minutes> ' +
+  '[--utc-offset <minutes>] [--dry-run] [--from <date>] [--to <date>]';
+
+/**
+ * Read --name value options and --flag switches
+ */
+const parseOptions = (args: string[]): Record<string, string> => {
+  const options: Record<string, string> = {};
+
+  for (const [index, arg] of args.entries()) {
+    if (!arg.startsWith('--')) {
+      continue;
+    }
+
+    const next = args[index + 1];
+    options[arg.slice(2)] = next && !next.startsWith('--') ? next : 'true';
+  }
+
+  return options;
+};
+
+const getFormat = (file: string): CandleTransfer.CandleFileFormat => {
+  return file.replace(/\.gz$/, '').endsWith('.csv') ? 'csv' : 'columnar';
+};
+
+const run = async (): Promise<number> => {
+  const [command, file, ...rest] = process.argv.slice(2);
+  const options = parseOptions(rest);
+  const interval = Number(options.interval);
+
+  if (!file || !options.symbol || !isSupportedInterval(interval) || (command !== 'import' && command !== 'export')) {
+    console.error(USAGE);
+    return 1;
+  }
+
+  await mongoose.connect(process.env.MONGODB_URI as string);
+
+  if (command === 'import') {
+    const report = await CandleTransfer.importCandleFile(readFileSync(file), {
+      symbol: options.symbol,
+      interval,
+      format: getFormat(file),
+      utcOffsetMinutes: options['utc-offset'] !== undefined ? Number(options['utc-offset']) : undefined,
+      dryRun: options['dry-run'] === 'true',
+    });
+
+    console.log(JSON.stringify(report, null, 2));
+    return report.errors.length > 0 ? 2 : 0;
+  }
+
+  const { content, candles } = await CandleTransfer.exportCandleFile(options.symbol, interval, getFormat(file), {
+    from: options.from ? new Date(options.from) : undefined,
+    to: options.to ? new Date(options.to) : undefined,
+    compress: file.endsWith('.gz'),
+  });
+
+  writeFileSync(file, content);
+  console.log(`Exported ${candles} ${interval}-minute candles of ${options.symbol} to ${file}`);
+  return 0;
+};
+
+run()
+  .then(code => {
+    process.exitCode = code;
+  })
+  .catch(error => {
+    console.error('Candle file command failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
@@ -0,0 +1,510 @@
+import HistoricalCandle from '../models/historicalCandle.model';
+import StockUniverse from '../models/stockUniverse.model';
+import Strategy from '../models/strategy.model';
+import type { ICandleStick } from '../models/marketData.model';
+import type { IDailyAnalytics } from '../models/analytics.model';
+import type { MarketDataSnapshot, StrategyCandidate, StrategyContext } from '../filters/types';
+import { getMarketDataBroker } from '../brokers';
+import * as StrategyService from './strategy.service';
+import * as CandleStore from './candleStore.service';
+import { BENCHMARK_INDEX, SECTOR_INDICES } from './sectorStrength.service';
+import { getStartOfDay } from '../utils/date.util';
+
+// The strategy filters work on 15-minute candles
+export const BACKTEST_INTERVAL = '15minute';
+const BAR_MINUTES = 15;
+const MAX_DAYS_PER_REQUEST = 100; // Kite allows up to 200 days of 15-minute data per request
+const ONE_DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface BacktestOptions {
+  strategyName: string;
+  from: Date;
+  to: Date;
+  symbols?: string[]; // Defaults to the active F&O universe
+  lookbackCandles?: number; // 15-minute candles of history given to the filters
+}
+
+// Same shape as DailyAnalytics.tradeDetails, without a signal behind the trade
+export type BacktestTrade = Omit<IDailyAnalytics['tradeDetails'][number], 'signalId'> & {
+  signalId: null;
+  entryAt: Date;
+  exitAt: Date;
+  exitReason: 'TARGET_HIT' | 'SL_HIT' | 'MARKET_CLOSE';
+  quantity: number;
+};
+
+export interface BacktestReport {
+  strategy: string;
+  direction: string;
+  from: Date;
+  to: Date;
+  symbols: number;
+  totalTrades: number;
+  winningTrades: number;
+  losingTrades: number;
+  winRate: number;
+  averageWin: number;
+  averageLoss: number;
+  expectancy: number;
+  profitLoss: number;
+  maxDrawdown: number;
+  trades: BacktestTrade[];
+}
+
+interface OpenTrade {
+  symbol: string;
+  side: 1 | -1;
+  entryPrice: number;
+  stopLoss: number;
+  target: number;
+  quantity: number;
+  entryAt: Date;
+}
+
+/**
+ * Fetch historical candles from the market data broker and cache them in Mongo
+ * @param symbol Stock or index symbol
+ * @param interval Kite interval name (optional)
+ * @param from Start date
+ * @param to End date
+ * @returns Number of candles stored
+ */
+export const cacheHistoricalData = async (
+  symbol: string,
+  from: Date,
+  to: Date,
+  interval = BACKTEST_INTERVAL
+): Promise<number> => {
+  const broker = getMarketDataBroker();
+  let stored = 0;
+
+  // Brokers limit the range of intraday data per request
+  for (let start = new Date(from); start < to; start = new Date(start.getTime() + MAX_DAYS_PER_REQUEST * ONE_DAY_MS)) {
+    const end = new Date(Math.min(start.getTime() + MAX_DAYS_PER_REQUEST * ONE_DAY_MS, to.getTime()));
+    const candles = await broker.getHistoricalData(symbol, interval, start, end);
+
+    if (!candles || candles.length === 0) {
+      continue;
+    }
+
+    const result = await HistoricalCandle.bulkWrite(
+      candles.map(candle => ({
+        updateOne: {
+          filter: { symbol, interval, timestamp: candle.timestamp },
+          update: {
+            $set: {
+              open: candle.open,
+              high: candle.high,
+              low: candle.low,
+              close: candle.close,
+              volume: candle.volume,
+              source: broker.name,
+            },
+          },
+          upsert: true,
+        },
+      })),
+      { ordered: false }
+    );
+
+    stored += result.upsertedCount + result.modifiedCount;
+  }
+
+  return stored;
+};
+
+/**
+ * Import candles from CSV text with a "timestamp,open,high,low,close,volume" header
+ * @param symbol Stock or index symbol
+ * @param csv CSV text
+ * @param interval Kite interval name (optional)
+ * @returns Number of candles imported and the lines that could not be parsed
+ */
+export const importCandlesFromCSV = async (
+  symbol: string,
+  csv: string,
+  interval = BACKTEST_INTERVAL
+): Promise<{ imported: number; errors: string[] }> => {
+  const errors: string[] = [];
+  const lines = csv.split(/\r?\n/).filter(line => line.trim() !== '');
+  const operations = [];
+
+  // Skip the header
+  for (const [index, line] of lines.slice(1).entries()) {
+    const [timestamp = '', open, high, low, close, volume] = line.split(',').map(value => value.trim());
+    const date = new Date(timestamp);
+    const prices = [open, high, low, close].map(Number);
+
+    if (Number.isNaN(date.getTime()) || prices.some(price => Number.isNaN(price) || price <= 0)) {
+      errors.push(`Line ${index + 2}: ${line}`);
+      continue;
+    }
+
+    const [openPrice, highPrice, lowPrice, closePrice] = prices as [number, number, number, number];
+
+    operations.push({
+      updateOne: {
+        filter: { symbol, interval, timestamp: date },
+        update: {
+          $set: {
+            open: openPrice,
+            high: highPrice,
+            low: lowPrice,
+            close: closePrice,
+            volume: Number(volume) || 0,
+            source: 'CSV',
+          },
+        },
+        upsert: true,
+      },
+    });
+  }
+
+  if (operations.length > 0) {
+    await HistoricalCandle.bulkWrite(operations, { ordered: false });
+  }
+
+  return { imported: operations.length, errors };
+};
+
+/**
+ * Build the market data a filter would have seen at the close of a bar
+ * @param symbol Stock or index symbol
+ * @param candles All stored candles of the symbol, oldest first
+ * @param index Index of the bar that just closed
+ * @param lookbackCandles Number of candles of history to include
+ */
+const buildSnapshot = (
+  symbol: string,
+  candles: ICandleStick[],
+  index: number,
+  lookbackCandles: number
+): MarketDataSnapshot => {
+  const bar = candles[index] as ICandleStick;
+  const dayStart = getStartOfDay(bar.timestamp).getTime();
+
+  let firstOfDay = index;
+  while (firstOfDay > 0 && (candles[firstOfDay - 1] as ICandleStick).timestamp.getTime() >= dayStart) {
+    firstOfDay--;
+  }
+
+  const dayCandles = candles.slice(firstOfDay, index + 1);
+  const previousClose = firstOfDay > 0 ? (candles[firstOfDay - 1] as ICandleStick).close : (dayCandles[0] as ICandleStick).open;
+  const dayVolume = dayCandles.reduce((sum, candle) => sum + candle.volume, 0);
+  const dayOpen = (dayCandles[0] as ICandleStick).open;
+  const dayHigh = Math.max(...dayCandles.map(candle => candle.high));
+  const dayLow = Math.min(...dayCandles.map(candle => candle.low));
+
+  // VWAP of the day's bars (the intraday 1-minute data is not stored)
+  const averagePrice = dayVolume > 0
+    ? dayCandles.reduce((sum, candle) => sum + ((candle.high + candle.low + candle.close) / 3) * candle.volume, 0) / dayVolume
+    : bar.close;
+
+  return {
+    symbol,
+    lastPrice: bar.close,
+    dayHigh,
+    dayLow,
+    openPrice: dayOpen,
+    volume: dayVolume,
+    averagePrice,
+    ohlc: { open: dayOpen, high: dayHigh, low: dayLow, close: previousClose },
+    oneMinuteCandlesticks: dayCandles,
+    fiveMinuteCandlesticks: [],
+    fifteenMinuteCandlesticks: candles.slice(Math.max(index + 1 - lookbackCandles, 0), index + 1),
+  };
+};
+
+/**
+ * Previous day high/low and 20 day average volume of a symbol before a bar
+ */
+const getDailyLevels = (candles: ICandleStick[], index: number) => {
+  const dayStart = getStartOfDay((candles[index] as ICandleStick).timestamp).getTime();
+  const days = new Map<number, { high: number; low: number; volume: number }>();
+
+  for (let i = index; i >= 0 && days.size <= 21; i--) {
+    const candle = candles[i] as ICandleStick;
+    const day = getStartOfDay(candle.timestamp).getTime();
+
+    if (day === dayStart) {
+      continue;
+    }
+
+    const levels = days.get(day) || { high: candle.high, low: candle.low, volume: 0 };
+    levels.high = Math.max(levels.high, candle.high);
+    levels.low = Math.min(levels.low, candle.low);
+    levels.volume += candle.volume;
+    days.set(day, levels);
+  }
+
+  // Map keeps insertion order, so the first entry is the previous day
+  const previousDays = Array.from(days.values()).slice(0, 20);
+  const previousDay = previousDays[0];
+
+  return {
+    previousDayHigh: previousDay?.high || 0,
+    previousDayLow: previousDay?.low || 0,
+    avgDailyVolume20: previousDays.length > 0
+      ? previousDays.reduce((sum, day) => sum + day.volume, 0) / previousDays.length
+      : 0,
+  };
+};
+
+/**
+ * Close a trade and record it in the tradeDetails shape
+ */
+const closeTrade = (
+  trade: OpenTrade,
+  exitPrice: number,
+  exitAt: Date,
+  exitReason: BacktestTrade['exitReason']
+): BacktestTrade => {
+  const profitLoss = (exitPrice - trade.entryPrice) * trade.side * trade.quantity;
+
+  return {
+    signalId: null,
+    stock: trade.symbol,
+    type: trade.side === 1 ? 'BUY' : 'SELL',
+    entryPrice: trade.entryPrice,
+    exitPrice,
+    profitLoss: Number(profitLoss.toFixed(2)),
+    profitLossPercentage: Number((((exitPrice - trade.entryPrice) * trade.side / trade.entryPrice) * 100).toFixed(2)),
+    duration: Math.floor((exitAt.getTime() - trade.entryAt.getTime()) / (1000 * 60)),
+    entryAt: trade.entryAt,
+    exitAt,
+    exitReason,
+    quantity: trade.quantity,
+  };
+};
+
+/**
+ * Summarise closed trades into a report
+ */
+const buildReport = (options: BacktestOptions, direction: string, symbols: number, trades: BacktestTrade[]): BacktestReport => {
+  const wins = trades.filter(trade => trade.profitLoss > 0);
+  const losses = trades.filter(trade => trade.profitLoss <= 0);
+  const profitLoss = trades.reduce((sum, trade) => sum + trade.profitLoss, 0);
+
+  // Largest fall of the cumulative P&L from its running peak
+  let equity = 0;
+  let peak = 0;
+  let maxDrawdown = 0;
+
+  for (const trade of trades) {
+    equity += trade.profitLoss;
+    peak = Math.max(peak, equity);
+    maxDrawdown = Math.max(maxDrawdown, peak - equity);
+  }
+
+  const averageWin = wins.length > 0 ? wins.reduce((sum, trade) => sum + trade.profitLoss, 0) / wins.length : 0;
+  const averageLoss = losses.length > 0 ? losses.reduce((sum, trade) => sum + trade.profitLoss, 0) / losses.length : 0;
+  const winRate = trades.length > 0 ? (wins.length / trades.length) * 100 : 0;
+
+  return {
+    strategy: options.strategyName,
+    direction,
+    from: options.from,
+    to: options.to,
+    symbols,
+    totalTrades: trades.length,
+    winningTrades: wins.length,
+    losingTrades: losses.length,
+    winRate: Number(winRate.toFixed(2)),
+    averageWin: Number(averageWin.toFixed(2)),
+    averageLoss: Number(averageLoss.toFixed(2)),
+    expectancy: Number((trades.length > 0 ? profitLoss / trades.length : 0).toFixed(2)),
+    profitLoss: Number(profitLoss.toFixed(2)),
+    maxDrawdown: Number(maxDrawdown.toFixed(2)),
+    trades,
+  };
+};
+
+/**
+ * Replay stored 15-minute candles through a strategy's layers and simulate the trades bar by bar.
+ * Trades are taken on the underlying at the signal bar's close for one lot, exit at the stop loss or
+ * target (stop loss first when a bar touches both) and are squared off at the last bar of the day.
+ * Runs entirely on stored data.
+ * @param options Strategy, date range and universe
+ * @returns Backtest report or null if the strategy does not exist
+ */
+export const runBacktest = async (options: BacktestOptions): Promise<BacktestReport | null> => {
+  const strategy = await Strategy.findOne({ name: options.strategyName });
+
+  if (!strategy) {
+    return null;
+  }
+
+  const lookbackCandles = options.lookbackCandles || 100;
+  const direction = strategy.direction || 'BULLISH';
+  const side = direction === 'BEARISH' ? -1 : 1;
+
+  const stocks = await StockUniverse.find(
+    options.symbols && options.symbols.length > 0
+      ? { symbol: { $in: options.symbols } }
+      : { isActive: true, inF1: true, isBanned: false }
+  );
+
+  const indexSymbols = [BENCHMARK_INDEX.symbol, ...Object.values(SECTOR_INDICES).map(index => index.symbol)];
+  const symbols = [...stocks.map(stock => stock.symbol), ...indexSymbols];
+
+  // Load history before the range so the indicators are warmed up on the first day
+  const warmUpFrom = new Date(options.from.getTime() - Math.ceil(lookbackCandles / 25 + 30) * ONE_DAY_MS);
+  const storedCandles = await HistoricalCandle.find({
+    symbol: { $in: symbols },
+    interval: BACKTEST_INTERVAL,
+    timestamp: { $gte: warmUpFrom, $lte: options.to },
+  }).sort({ timestamp: 1 }).lean();
+
+  const candlesBySymbol = new Map<string, ICandleStick[]>();
+  for (const candle of storedCandles) {
+    const candles = candlesBySymbol.get(candle.symbol) || [];
+    candles.push({
+      timestamp: candle.timestamp,
+      open: candle.open,
+      high: candle.high,
+      low: candle.low,
+      close: candle.close,
+      volume: candle.volume,
+    });
+    candlesBySymbol.set(candle.symbol, candles);
+  }
+
+  // Symbols without cached broker candles fall back to the candle store (recorded or imported)
+  for (const symbol of symbols.filter(symbol => !candlesBySymbol.has(symbol))) {
+    const candles = await CandleStore.getCandles(symbol, BAR_MINUTES, { from: warmUpFrom, to: options.to });
+
+    if (candles.length > 0) {
+      candlesBySymbol.set(symbol, candles);
+    }
+  }
+
+  // Bar index of each symbol by timestamp
+  const barIndex = new Map<string, Map<number, number>>();
+  candlesBySymbol.forEach((candles, symbol) => {
+    barIndex.set(symbol, new Map(candles.map((candle, index) => [candle.timestamp.getTime(), index])));
+  });
+
+  const barTimes = Array.from(new Set([...candlesBySymbol.values()]
+    .flat()
+    .filter(candle => candle.timestamp >= options.from)
+    .map(candle => candle.timestamp.getTime())))
+    .sort((a, b) => a - b);
+
+  const openTrades = new Map<string, OpenTrade>();
+  const trades: BacktestTrade[] = [];
+  let currentDay = 0;
+  let signalsToday = 0;
+  let lastSignalAt: number | null = null;
+
+  for (const [position, barTime] of barTimes.entries()) {
+    const day = getStartOfDay(new Date(barTime)).getTime();
+    const nextBarTime = barTimes[position + 1];
+    const isLastBarOfDay = nextBarTime === undefined || getStartOfDay(new Date(nextBarTime)).getTime() !== day;
+    const barClose = new Date(barTime + BAR_MINUTES * 60 * 1000);
+
+    if (day !== currentDay) {
+      currentDay = day;
+      signalsToday = 0;
+      lastSignalAt = null;
+    }
+
+    // Exits are checked on every bar after the entry bar
+    for (const [symbol, trade] of openTrades) {
+      const candles = candlesBySymbol.get(symbol) as ICandleStick[];
+      const index = barIndex.get(symbol)?.get(barTime);
+
+      if (index === undefined) {
+        continue;
+      }
+
+      const bar = candles[index] as ICandleStick;
+      const hitStopLoss = side === 1 ? bar.low <= trade.stopLoss : bar.high >= trade.stopLoss;
+      const hitTarget = side === 1 ? bar.high >= trade.target : bar.low <= trade.target;
+
+      if (hitStopLoss) {
+        trades.push(closeTrade(trade, trade.stopLoss, barClose, 'SL_HIT'));
+        openTrades.delete(symbol);
+      } else if (hitTarget) {
+        trades.push(closeTrade(trade, trade.target, barClose, 'TARGET_HIT'));
+        openTrades.delete(symbol);
+      }
+    }
+
+    // Same daily limit and minimum gap as live signal generation
+    const gapOk = lastSignalAt === null || (barClose.getTime() - lastSignalAt) / (1000 * 60) >= strategy.minSignalGapMinutes;
+
+    if (!isLastBarOfDay && signalsToday < strategy.maxSignalsPerDay && gapOk) {
+      const getMarketData = async (symbol: string) => {
+        const index = barIndex.get(symbol)?.get(barTime);
+        return index === undefined
+          ? null
+          : buildSnapshot(symbol, candlesBySymbol.get(symbol) as ICandleStick[], index, lookbackCandles);
+      };
+
+      const candidates: StrategyCandidate[] = [];
+
+      for (const stock of stocks) {
+        const index = barIndex.get(stock.symbol)?.get(barTime);
+
+        if (index === undefined || openTrades.has(stock.symbol)) {
+          continue;
+        }
+
+        const candles = candlesBySymbol.get(stock.symbol) as ICandleStick[];
+
+        candidates.push({
+          ...stock.toJSON(),
+          ...getDailyLevels(candles, index),
+          marketData: buildSnapshot(stock.symbol, candles, index, lookbackCandles),
+          technicalIndicators: {},
+          priceAction: {},
+        });
+      }
+
+      const context: StrategyContext = {
+        strategy,
+        direction,
+        now: barClose,
+        mode: 'BACKTEST',
+        getMarketData,
+      };
+
+      const passed = candidates.length > 0 ? await StrategyService.runLayers(candidates, context) : [];
+
+      for (const candidate of passed) {
+        if (!candidate.riskManagement) {
+          continue;
+        }
+
+        openTrades.set(candidate.symbol, {
+          symbol: candidate.symbol,
+          side,
+          entryPrice: candidate.riskManagement.entryPrice,
+          stopLoss: candidate.riskManagement.stopLoss,
+          target: candidate.riskManagement.target,
+          quantity: candidate.lotSize || 1,
+          entryAt: barClose,
+        });
+      }
+
+      if (passed.length > 0) {
+        signalsToday += passed.length;
+        lastSignalAt = barClose.getTime();
+      }
+    }
+
+    // Square off everything still open at the end of the day
+    if (isLastBarOfDay) {
+      for (const [symbol, trade] of openTrades) {
+        const index = barIndex.get(symbol)?.get(barTime);
+        const candles = candlesBySymbol.get(symbol) as ICandleStick[];
+        const exitPrice = index !== undefined ? (candles[index] as ICandleStick).close : trade.entryPrice;
+
+        trades.push(closeTrade(trade, exitPrice, barClose, 'MARKET_CLOSE'));
+        openTrades.delete(symbol);
+      }
+    }
+  }
+
+  return buildReport(options, direction, stocks.length, trades);
+};
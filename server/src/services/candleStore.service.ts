@@ -0,0 +1,461 @@
+import Candle, { type ICandle } from '../models/candle.model';
+import MarketData, { ReplayMarketData, type ICandleStick } from '../models/marketData.model';
+import StockUniverse from '../models/stockUniverse.model';
+import type { MarketDataSnapshot } from '../filters/types';
+import { getMarketDataBroker } from '../brokers';
+import { INDEX_TOKENS } from './sectorStrength.service';
+import { aggregateCandles, fillCandleGaps, type CandleInterval } from '../utils/candle.util';
+import { getISTStartOfDay } from '../utils/date.util';
+import { getCurrentTime, isVirtualClock } from '../utils/clock.util';
+
+/**
+ * Long candle history of live instruments.
+ * The tick aggregator appends closed 1, 5 and 15-minute candles to a time-series
+ * collection per symbol and interval. At startup every series is backfilled from
+ * the broker's historical data, so indicators such as EMA 50 and MACD have their
+ * warm-up candles from the first minute of the session.
+ */
+
+export const STORED_INTERVALS = [1, 5, 15] as const;
+
+export type StoredInterval = (typeof STORED_INTERVALS)[number];
+
+export interface CandleSeries {
+  symbol: string;
+  interval: StoredInterval;
+  candles: ICandleStick[];
+}
+
+interface WarmStartStats {
+  startedAt: Date;
+  durationMs: number;
+  symbols: number;
+  requests: number;
+  candles: number;
+  failures: number;
+}
+
+// Days of candles kept per interval
+const RETENTION_DAYS: Record<StoredInterval, number> = {
+  1: 30,
+  5: 90,
+  15: 365,
+};
+
+// Calendar days backfilled per interval, enough trading days to span weekends and holidays
+const WARM_START_DAYS: Record<StoredInterval, number> = {
+  1: 3,
+  5: 7,
+  15: 14,
+};
+
+const KITE_INTERVALS: Record<StoredInterval, string> = {
+  1: 'minute',
+  5: '5minute',
+  15: '15minute',
+};
+
+// 15-minute candles given to the indicators, covers EMA 50 and MACD warm-up
+export const INDICATOR_CANDLES = 200;
+
+const HISTORICAL_REQUEST_DELAY_MS = 350; // Kite allows 3 historical data requests per second
+const MINUTE_MS = 60 * 1000;
+const ONE_DAY_MS = 24 * 60 * 60 * 1000;
+
+// Start of the latest stored candle per series, 0 when the series is empty
+const latestTimestamps = new Map<string, number>();
+
+let isWarmingUp = false;
+let lastWarmStart: WarmStartStats | null = null;
+let lastPrunedDay: number | null = null;
+
+const getSeriesKey = (symbol: string, interval: StoredInterval): string => `${symbol}:${interval}`;
+
+const toCandleStick = (candle: Pick<ICandle, 'timestamp' | 'open' | 'high' | 'low' | 'close' | 'volume'>): ICandleStick => ({
+  timestamp: candle.timestamp,
+  open: candle.open,
+  high: candle.high,
+  low: candle.low,
+  close: candle.close,
+  volume: candle.volume,
+});
+
+/**
+ * Start of the latest stored candle of a series
+ */
+const getLatestTimestamp = async (symbol: string, interval: StoredInterval): Promise<number> => {
+  const key = getSeriesKey(symbol, interval);
+  const cached = latestTimestamps.get(key);
+
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  const latest = await Candle.findOne({ 'meta.symbol': symbol, 'meta.interval': interval })
+    .sort({ timestamp: -1 })
+    .select('timestamp');
+  const timestamp = latest ? latest.timestamp.getTime() : 0;
+
+  latestTimestamps.set(key, timestamp);
+  return timestamp;
+};
+
+/**
+ * Append candles to their series, candles at or before the latest stored one are skipped
+ * @param series Candles per symbol and interval, oldest first
+ * @returns Number of candles stored
+ */
+export const saveCandles = async (series: CandleSeries[]): Promise<number> => {
+  // A replayed session's candles were stored when it was recorded
+  if (isVirtualClock()) {
+    return 0;
+  }
+
+  const documents: Array<Pick<ICandle, 'timestamp' | 'meta' | 'open' | 'high' | 'low' | 'close' | 'volume'>> = [];
+  const latest = new Map<string, number>();
+
+  for (const { symbol, interval, candles } of series) {
+    const after = await getLatestTimestamp(symbol, interval);
+    const newer = candles.filter(candle => candle.timestamp.getTime() > after);
+    const last = newer[newer.length - 1];
+
+    if (!last) {
+      continue;
+    }
+
+    documents.push(...newer.map(candle => ({ ...toCandleStick(candle), meta: { symbol, interval } })));
+    latest.set(getSeriesKey(symbol, interval), last.timestamp.getTime());
+  }
+
+  if (documents.length === 0) {
+    return 0;
+  }
+
+  await Candle.insertMany(documents, { ordered: false, lean: true });
+
+  for (const [key, timestamp] of latest) {
+    latestTimestamps.set(key, timestamp);
+  }
+
+  return documents.length;
+};
+
+/**
+ * Replace the candles of a series within the time range of new candles, e.g. on import
+ * @param symbol Stock or index symbol
+ * @param interval Stored interval
+ * @param candles Validated candles, oldest first
+ * @returns Number of candles stored
+ */
+export const replaceCandles = async (
+  symbol: string,
+  interval: StoredInterval,
+  candles: ICandleStick[]
+): Promise<number> => {
+  const first = candles[0];
+  const last = candles[candles.length - 1];
+
+  if (!first || !last) {
+    return 0;
+  }
+
+  await Candle.deleteMany({
+    'meta.symbol': symbol,
+    'meta.interval': interval,
+    timestamp: { $gte: first.timestamp, $lte: last.timestamp },
+  });
+  await Candle.insertMany(
+    candles.map(candle => ({ ...toCandleStick(candle), meta: { symbol, interval } })),
+    { ordered: false, lean: true }
+  );
+
+  const latest = await getLatestTimestamp(symbol, interval);
+  latestTimestamps.set(getSeriesKey(symbol, interval), Math.max(latest, last.timestamp.getTime()));
+
+  return candles.length;
+};
+
+/**
+ * Check if a number of minutes is a stored interval
+ */
+export const isStoredInterval = (value: number): value is StoredInterval => {
+  return (STORED_INTERVALS as readonly number[]).includes(value);
+};
+
+/**
+ * Stored interval a candle interval is built from
+ */
+const getSourceInterval = (interval: CandleInterval): StoredInterval => {
+  return [...STORED_INTERVALS].reverse().find(stored => interval % stored === 0) || 1;
+};
+
+/**
+ * Get the candles of a symbol, intervals that are not stored are built from a smaller one
+ * @param symbol Stock or index symbol
+ * @param interval Candle interval in minutes
+ * @param options Time range and the number of most recent candles to return
+ * @returns Candles, oldest first
+ */
+export const getCandles = async (
+  symbol: string,
+  interval: CandleInterval,
+  options: { from?: Date; to?: Date; limit?: number } = {}
+): Promise<ICandleStick[]> => {
+  try {
+    const source = getSourceInterval(interval);
+    const ratio = interval / source;
+    const filter: Record<string, unknown> = { 'meta.symbol': symbol, 'meta.interval': source };
+
+    if (options.from || options.to) {
+      filter.timestamp = {
+        ...(options.from && { $gte: options.from }),
+        ...(options.to && { $lte: options.to }),
+      };
+    }
+
+    // The most recent candles are read newest first, one extra bucket covers a partial first candle
+    const query = options.limit
+      ? Candle.find(filter).sort({ timestamp: -1 }).limit((options.limit + 1) * ratio)
+      : Candle.find(filter).sort({ timestamp: 1 });
+    const documents = await query.lean();
+
+    const candles = documents.map(toCandleStick);
+    if (options.limit) {
+      candles.reverse();
+    }
+
+    // Quiet minutes are only filled in the 1-minute series
+    const aggregated = aggregateCandles(source === 1 ? fillCandleGaps(candles) : candles, ratio > 1 ? interval : 1);
+    return options.limit ? aggregated.slice(-options.limit) : aggregated;
+  } catch (error) {
+    console.error(`Error getting ${interval}-minute candles for ${symbol}:`, error);
+    return [];
+  }
+};
+
+/**
+ * Get the most recent candles of several symbols
+ * @param symbols Stock or index symbols
+ * @param interval Candle interval in minutes
+ * @param limit Number of candles per symbol
+ * @returns Candles by symbol
+ */
+export const getCandleSeries = async (
+  symbols: string[],
+  interval: CandleInterval,
+  limit: number
+): Promise<Map<string, ICandleStick[]>> => {
+  // Up to the system time, so a market replay does not see candles after the replayed moment
+  const to = getCurrentTime();
+  const series = await Promise.all(symbols.map(symbol => getCandles(symbol, interval, { to, limit })));
+  return new Map(symbols.map((symbol, index) => [symbol, series[index] || []]));
+};
+
+/**
+ * Market data documents of the running session, those of a replay are kept apart from the live ones
+ */
+export const getMarketDataModel = () => (isVirtualClock() ? ReplayMarketData : MarketData);
+
+/**
+ * Replace the capped 15-minute candles of a market data document with the stored history
+ * @param data Market data of a stock or index
+ * @param history Stored 15-minute candles, oldest first
+ * @param to Latest candle time to include, the system time by default
+ */
+export const withCandleHistory = (
+  data: MarketDataSnapshot,
+  history: ICandleStick[],
+  to: Date = getCurrentTime()
+): MarketDataSnapshot => {
+  const last = history[history.length - 1];
+  const upTo = (candles: ICandleStick[]) => candles.filter(candle => candle.timestamp <= to);
+
+  // Candles not stored yet are taken from the document
+  const newer = last
+    ? upTo(data.fifteenMinuteCandlesticks).filter(candle => candle.timestamp > last.timestamp)
+    : upTo(data.fifteenMinuteCandlesticks);
+
+  return {
+    symbol: data.symbol,
+    lastPrice: data.lastPrice,
+    dayHigh: data.dayHigh,
+    dayLow: data.dayLow,
+    openPrice: data.openPrice,
+    volume: data.volume,
+    averagePrice: data.averagePrice,
+    ohlc: data.ohlc,
+    oneMinuteCandlesticks: upTo(data.oneMinuteCandlesticks),
+    fiveMinuteCandlesticks: upTo(data.fiveMinuteCandlesticks),
+    fifteenMinuteCandlesticks: [...history, ...newer].slice(-INDICATOR_CANDLES),
+  };
+};
+
+/**
+ * Get the market data of a symbol with its stored 15-minute candle history
+ * @param symbol Stock or index symbol
+ */
+export const getMarketDataWithHistory = async (symbol: string): Promise<MarketDataSnapshot | null> => {
+  const data = await getMarketDataModel().findOne({ symbol });
+
+  if (!data) {
+    return null;
+  }
+
+  const to = getCurrentTime();
+  const history = await getCandles(symbol, 15, { to, limit: INDICATOR_CANDLES });
+  return withCandleHistory(data, history, to);
+};
+
+/**
+ * Store the candles of a series that are missing from it, wherever they fall
+ * @returns Number of candles stored
+ */
+const fillMissingCandles = async (symbol: string, interval: StoredInterval, candles: ICandleStick[]): Promise<number> => {
+  const first = candles[0];
+  const last = candles[candles.length - 1];
+
+  if (!first || !last) {
+    return 0;
+  }
+
+  const stored = await Candle.find({
+    'meta.symbol': symbol,
+    'meta.interval': interval,
+    timestamp: { $gte: first.timestamp, $lte: last.timestamp },
+  })
+    .select('timestamp')
+    .lean();
+  const storedTimestamps = new Set(stored.map(candle => candle.timestamp.getTime()));
+  const missing = candles.filter(candle => !storedTimestamps.has(candle.timestamp.getTime()));
+
+  if (missing.length === 0) {
+    return 0;
+  }
+
+  await Candle.insertMany(
+    missing.map(candle => ({ ...toCandleStick(candle), meta: { symbol, interval } })),
+    { ordered: false, lean: true }
+  );
+
+  const latest = await getLatestTimestamp(symbol, interval);
+  latestTimestamps.set(getSeriesKey(symbol, interval), Math.max(latest, last.timestamp.getTime()));
+
+  return missing.length;
+};
+
+/**
+ * Backfill one series from the broker up to the last closed candle
+ * The whole warm start window is requested: after a restart mid-session the tick
+ * aggregator may already have stored candles past the minutes the server was down
+ * @returns Number of candles stored, null if the broker has no data
+ */
+const backfillSeries = async (symbol: string, interval: StoredInterval, now: Date): Promise<number | null> => {
+  const from = new Date(now.getTime() - WARM_START_DAYS[interval] * ONE_DAY_MS);
+
+  const candles = await getMarketDataBroker().getHistoricalData(symbol, KITE_INTERVALS[interval], from, now);
+  await new Promise(resolve => setTimeout(resolve, HISTORICAL_REQUEST_DELAY_MS));
+
+  if (!candles) {
+    return null;
+  }
+
+  // The candle still forming is left to the tick aggregator
+  const closed = candles.filter(candle => candle.timestamp.getTime() + interval * MINUTE_MS <= now.getTime());
+  return fillMissingCandles(symbol, interval, closed.map(toCandleStick));
+};
+
+/**
+ * Backfill the candle history of the indices and the F&O universe from the broker
+ */
+export const warmStartCandles = async (): Promise<WarmStartStats | null> => {
+  if (isWarmingUp) {
+    return null;
+  }
+  isWarmingUp = true;
+
+  const startedAt = new Date();
+  const stats: WarmStartStats = { startedAt, durationMs: 0, symbols: 0, requests: 0, candles: 0, failures: 0 };
+
+  try {
+    const stocks = await StockUniverse.find({ isActive: true, inF1: true }).select('symbol');
+    const symbols = [...Object.values(INDEX_TOKENS), ...stocks.map(stock => stock.symbol)];
+
+    console.log(`Warming up candle history of ${symbols.length} symbols...`);
+
+    for (const symbol of symbols) {
+      for (const interval of STORED_INTERVALS) {
+        try {
+          const stored = await backfillSeries(symbol, interval, startedAt);
+          stats.requests++;
+
+          if (stored === null) {
+            stats.failures++;
+
+            // Without historical data (e.g. no broker session) there is nothing to warm up
+            if (stats.requests === 1) {
+              console.warn('Historical data unavailable. Candle warm start skipped.');
+              return stats;
+            }
+            continue;
+          }
+
+          stats.candles += stored;
+        } catch (error) {
+          stats.failures++;
+          console.error(`Error backfilling ${interval}-minute candles for ${symbol}:`, error);
+        }
+      }
+
+      stats.symbols++;
+    }
+
+    console.log(`Candle warm start stored ${stats.candles} candles (${stats.failures} failed requests).`);
+    await pruneCandles();
+
+    return stats;
+  } catch (error) {
+    console.error('Error warming up candle history:', error);
+    return null;
+  } finally {
+    stats.durationMs = Date.now() - startedAt.getTime();
+    lastWarmStart = stats;
+    isWarmingUp = false;
+  }
+};
+
+/**
+ * Delete candles past the retention of their interval, at most once per day
+ */
+export const pruneCandles = async (): Promise<void> => {
+  const today = getISTStartOfDay(new Date()).getTime();
+
+  if (lastPrunedDay === today) {
+    return;
+  }
+
+  try {
+    for (const interval of STORED_INTERVALS) {
+      const cutoff = new Date(today - RETENTION_DAYS[interval] * ONE_DAY_MS);
+      const result = await Candle.deleteMany({ 'meta.interval': interval, timestamp: { $lt: cutoff } });
+
+      if (result.deletedCount > 0) {
+        console.log(`Pruned ${result.deletedCount} ${interval}-minute candles older than ${cutoff.toISOString()}.`);
+      }
+    }
+
+    lastPrunedDay = today;
+  } catch (error) {
+    console.error('Error pruning candles:', error);
+  }
+};
+
+/**
+ * Status of the candle store
+ */
+export const getCandleStoreStatus = () => ({
+  isWarmingUp,
+  lastWarmStart,
+  lastPrunedAt: lastPrunedDay ? new Date(lastPrunedDay) : null,
+  cachedSeries: latestTimestamps.size,
+  retentionDays: RETENTION_DAYS,
+});
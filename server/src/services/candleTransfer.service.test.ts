@@ -0,0 +1,71 @@
+import { beforeEach, describe, expect, mock, test } from 'bun:test';
+import type { ICandleStick } from '../models/marketData.model';
+
+// Imports are checked against a candle store that only records replaced ranges
+
+const replaceCandles = mock(async (_symbol: string, _interval: number, candles: ICandleStick[]) => candles.length);
+
+mock.module('./candleStore.service', () => ({
+  STORED_INTERVALS: [1, 5, 15],
+  isStoredInterval: (value: number) => [1, 5, 15].includes(value),
+  replaceCandles,
+}));
+
+const CandleTransfer = await import('./candleTransfer.service');
+
+const CSV_HEADER = 'timestamp,open,high,low,close,volume';
+
+beforeEach(() => {
+  replaceCandles.mockClear();
+});
+
+describe('importCandleFile', () => {
+  test('replaces the stored range with a valid file', async () => {
+    const csv = [CSV_HEADER, '2025-01-06 09:15:00,100,102,99,101,10', '2025-01-06 09:30:00,101,103,100,102,20'].join('\n');
+
+    const report = await CandleTransfer.importCandleFile(csv, { symbol: 'INFY', interval: 15, format: 'csv' });
+
+    expect(report.imported).toBe(2);
+    expect(report.invalidRows).toEqual([]);
+    expect(replaceCandles).toHaveBeenCalledTimes(1);
+  });
+
+  test('stores nothing and reports the bad rows when any row is invalid', async () => {
+    const csv = [
+      CSV_HEADER,
+      '2025-01-06 09:15:00,100,102,99,101,10',
+      'not a candle',
+      '2025-01-06 09:30:00,101,103,100,102,20',
+      '2025-01-06 09:40:00,101,103,100,102,20',
+    ].join('\n');
+
+    const report = await CandleTransfer.importCandleFile(csv, { symbol: 'INFY', interval: 15, format: 'csv' });
+
+    expect(report.imported).toBe(0);
+    expect(report.rows).toBe(4);
+    expect(report.invalidRows).toEqual([3, 5]);
+    expect(report.errors).toHaveLength(2);
+    expect(replaceCandles).not.toHaveBeenCalled();
+  });
+
+  test('reports the bad positions of a columnar file', async () => {
+    const file = {
+      format: 'ohlcv-columnar',
+      version: 1,
+      symbol: 'INFY',
+      interval: 15,
+      start: new Date('2025-01-06T09:15:00+05:30').getTime() / 1000,
+      timestamps: [0, 900],
+      open: [100, 101],
+      high: [102, 99],
+      low: [99, 100],
+      close: [101, 102],
+      volume: [10, 20],
+    };
+
+    const report = await CandleTransfer.importCandleFile(JSON.stringify(file), { symbol: 'INFY', interval: 15, format: 'columnar' });
+
+    expect(report.invalidRows).toEqual([2]);
+    expect(replaceCandles).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,156 @@
+import { gunzipSync, gzipSync } from 'node:zlib';
+import * as CandleStore from './candleStore.service';
+import type { CandleInterval } from '../utils/candle.util';
+import {
+  formatCandleCSV,
+  fromColumnarCandles,
+  parseCandleCSV,
+  toColumnarCandles,
+  validateCandles,
+  type CandleGap,
+  type ParsedCandles,
+} from '../utils/candleFile.util';
+import { IST_OFFSET_MINUTES } from '../utils/date.util';
+
+/**
+ * Import and export of OHLCV candle files into the candle store, so backtests
+ * and offline development can run on data we already own without a broker.
+ */
+
+export type CandleFileFormat = 'csv' | 'columnar';
+
+export const CANDLE_FILE_FORMATS: CandleFileFormat[] = ['csv', 'columnar'];
+
+export interface CandleImportOptions {
+  symbol: string;
+  interval: number; // Minutes, one of the stored intervals
+  format: CandleFileFormat;
+  utcOffsetMinutes?: number; // Offset of timestamps without one, IST by default
+  dryRun?: boolean; // Validate without storing
+}
+
+export interface CandleImportReport {
+  symbol: string;
+  interval: number;
+  rows: number;
+  imported: number;
+  duplicates: number;
+  invalidRows: number[]; // CSV lines or columnar positions that were rejected
+  errors: string[];
+  gaps: CandleGap[];
+  missingCandles: number;
+  from: Date | null;
+  to: Date | null;
+  dryRun: boolean;
+}
+
+// gzip files start with these two bytes
+const isGzip = (content: Buffer): boolean => content[0] === 0x1f && content[1] === 0x8b;
+
+/**
+ * Read the candles of a file in the given format
+ */
+const parseCandleFile = (content: Buffer | string, options: CandleImportOptions): ParsedCandles => {
+  const buffer = typeof content === 'string' ? Buffer.from(content) : content;
+  const text = (isGzip(buffer) ? gunzipSync(buffer) : buffer).toString('utf8');
+
+  if (options.format === 'csv') {
+    return parseCandleCSV(text, options.utcOffsetMinutes ?? IST_OFFSET_MINUTES);
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { candles: [], rows: [], invalidRows: [], errors: ['File is not valid JSON'] };
+  }
+
+  const parsed = fromColumnarCandles(data);
+
+  // Candles of another series would be stored under the wrong key
+  if (parsed.symbol && parsed.symbol !== options.symbol) {
+    return { candles: [], rows: [], invalidRows: [], errors: [`File holds ${parsed.symbol} candles, not ${options.symbol}`] };
+  }
+  if (parsed.interval && parsed.interval !== options.interval) {
+    return { candles: [], rows: [], invalidRows: [], errors: [`File holds ${parsed.interval}-minute candles, not ${options.interval}-minute`] };
+  }
+
+  return parsed;
+};
+
+/**
+ * Validate a candle file and store its candles, replacing stored candles in its time range
+ * Nothing is stored unless every row is valid, the replaced range would lose candles otherwise
+ * @param content File content, optionally gzipped
+ * @param options Series, format and timezone of the file
+ * @returns What was imported and what was wrong with the file
+ */
+export const importCandleFile = async (
+  content: Buffer | string,
+  options: CandleImportOptions
+): Promise<CandleImportReport> => {
+  const report: CandleImportReport = {
+    symbol: options.symbol,
+    interval: options.interval,
+    rows: 0,
+    imported: 0,
+    duplicates: 0,
+    invalidRows: [],
+    errors: [],
+    gaps: [],
+    missingCandles: 0,
+    from: null,
+    to: null,
+    dryRun: Boolean(options.dryRun),
+  };
+
+  if (!CandleStore.isStoredInterval(options.interval)) {
+    report.errors.push(`Interval must be one of ${CandleStore.STORED_INTERVALS.join(', ')} minutes`);
+    return report;
+  }
+
+  const parsed = parseCandleFile(content, options);
+  const validation = validateCandles(parsed.candles, options.interval);
+
+  report.rows = parsed.candles.length + parsed.errors.length;
+  report.duplicates = validation.duplicates;
+  report.invalidRows = [
+    ...parsed.invalidRows,
+    ...validation.invalidIndexes.map(index => parsed.rows[index] ?? index + 1),
+  ].sort((a, b) => a - b);
+  report.errors = [...parsed.errors, ...validation.errors];
+  report.gaps = validation.gaps;
+  report.missingCandles = validation.missingCandles;
+  report.from = validation.candles[0]?.timestamp || null;
+  report.to = validation.candles[validation.candles.length - 1]?.timestamp || null;
+
+  if (!options.dryRun && report.errors.length === 0) {
+    report.imported = await CandleStore.replaceCandles(options.symbol, options.interval, validation.candles);
+  }
+
+  return report;
+};
+
+/**
+ * Export stored candles of a symbol as a file
+ * @param symbol Stock or index symbol
+ * @param interval Candle interval in minutes
+ * @param format File format
+ * @param options Time range and whether to gzip the file
+ * @returns File content and the number of candles in it
+ */
+export const exportCandleFile = async (
+  symbol: string,
+  interval: CandleInterval,
+  format: CandleFileFormat,
+  options: { from?: Date; to?: Date; compress?: boolean } = {}
+): Promise<{ content: Buffer; candles: number }> => {
+  const candles = await CandleStore.getCandles(symbol, interval, { from: options.from, to: options.to });
+
+  const text = format === 'csv'
+    ? formatCandleCSV(candles)
+    : JSON.stringify(toColumnarCandles(symbol, interval, candles));
+  const content = Buffer.from(text);
+
+  return { content: options.compress ? gzipSync(content) : content, candles: candles.length };
+};
@@ -0,0 +1,160 @@
+import { beforeEach, describe, expect, mock, test } from 'bun:test';
+import type { HydratedDocument } from 'mongoose';
+import type { IOrder } from '../models/order.model';
+
+// Reports are built from the orders returned by a stubbed Order.find
+
+let storedOrders: object[] = [];
+const find = mock((_filter: Record<string, unknown>) => ({
+  populate: async () => storedOrders,
+}));
+
+mock.module('../models/order.model', () => ({
+  default: { find },
+}));
+
+const ExecutionQuality = await import('./executionQuality.service');
+
+const createOrder = <T extends object>(fields: T) => ({
+  filledQuantity: 100,
+  partialExits: [],
+  markModified: mock((_path: string) => {}),
+  ...fields,
+});
+
+const asOrder = (order: object) => order as unknown as HydratedDocument<IOrder>;
+
+beforeEach(() => {
+  find.mockClear();
+  storedOrders = [];
+});
+
+describe('recordEntryFill', () => {
+  test('records slippage against the arrival and decision prices and the signal-to-fill latency', () => {
+    const order = createOrder({
+      averagePrice: 103,
+      exchangeTimestamp: new Date('2025-01-06T09:20:02.500+05:30'),
+      execution: {
+        decisionPrice: 100,
+        arrivalPrice: 102,
+        signalAt: new Date('2025-01-06T09:20:00+05:30'),
+        sentAt: new Date('2025-01-06T09:20:01+05:30'),
+      },
+    });
+
+    ExecutionQuality.recordEntryFill(asOrder(order));
+
+    expect(order.execution).toMatchObject({
+      fillPrice: 103,
+      slippage: 1,
+      slippagePercent: 0.98,
+      decisionSlippage: 3,
+      latencyMs: 2500,
+    });
+    expect(order.markModified).toHaveBeenCalledWith('execution');
+  });
+
+  test('measures latency from the order being sent without a signal time', () => {
+    const order = createOrder({
+      averagePrice: 100,
+      exchangeTimestamp: new Date('2025-01-06T09:20:01.200+05:30'),
+      execution: { sentAt: new Date('2025-01-06T09:20:01+05:30') },
+    });
+
+    ExecutionQuality.recordEntryFill(asOrder(order));
+
+    expect(order.execution).toMatchObject({ fillPrice: 100, latencyMs: 200 });
+    expect(order.execution).not.toHaveProperty('slippage');
+  });
+
+  test('keeps the first fill of an order', () => {
+    const order = createOrder({ averagePrice: 110, execution: { fillPrice: 103, arrivalPrice: 102 } });
+
+    ExecutionQuality.recordEntryFill(asOrder(order));
+
+    expect(order.execution).toEqual({ fillPrice: 103, arrivalPrice: 102 });
+    expect(order.markModified).not.toHaveBeenCalled();
+  });
+});
+
+describe('recordStopLossFill', () => {
+  test('records how far below the trigger the stop loss filled', () => {
+    const order = createOrder({ stopLossOrder: { orderId: 'SL', triggerPrice: 80, status: 'OPEN' } });
+
+    ExecutionQuality.recordStopLossFill(asOrder(order), 78.5);
+
+    expect(order).toMatchObject({
+      execution: { stopLossTrigger: 80, stopLossFillPrice: 78.5, stopLossSlippage: 1.5 },
+    });
+  });
+
+  test('falls back to the OCO trigger level', () => {
+    const order = createOrder({ ocoTrigger: { triggerId: 'GTT', stopLoss: 80, target: 120, status: 'TRIGGERED' } });
+
+    ExecutionQuality.recordStopLossFill(asOrder(order), 79);
+
+    expect(order).toMatchObject({ execution: { stopLossSlippage: 1 } });
+  });
+});
+
+describe('getExecutionQualityReport', () => {
+  test('aggregates filled entries per underlying, time of day and order type', async () => {
+    storedOrders = [
+      createOrder({
+        signalId: { stock: 'RELIANCE' },
+        orderType: 'MARKET',
+        orderTimestamp: new Date(2025, 0, 6, 9, 47),
+        execution: { slippage: 1, slippagePercent: 1, decisionSlippage: 2, latencyMs: 1000, sentAt: new Date(2025, 0, 6, 9, 47) },
+      }),
+      createOrder({
+        signalId: { stock: 'RELIANCE' },
+        orderType: 'LIMIT',
+        orderTimestamp: new Date(2025, 0, 6, 10, 5),
+        filledQuantity: 50,
+        partialExits: [{ quantity: 20 }],
+        execution: { slippage: -0.5, slippagePercent: -0.5, latencyMs: 3000, stopLossSlippage: 2 },
+      }),
+      createOrder({
+        signalId: null,
+        tradingSymbol: 'INFY25JAN1900CE',
+        orderType: 'MARKET',
+        orderTimestamp: new Date(2025, 0, 6, 9, 31),
+        execution: {},
+      }),
+    ];
+
+    const report = await ExecutionQuality.getExecutionQualityReport({ userId: 'user-1', isPaper: true });
+
+    expect(find).toHaveBeenCalledWith({
+      isPaper: true,
+      transactionType: 'BUY',
+      'execution.fillPrice': { $exists: true },
+      userId: 'user-1',
+    });
+    expect(report.summary).toEqual({
+      key: 'ALL',
+      trades: 3,
+      avgSlippage: 0.25,
+      avgSlippagePercent: 0.25,
+      slippageCost: 75,
+      avgDecisionSlippage: 2,
+      avgLatencyMs: 2000,
+      stopLossExits: 1,
+      avgStopLossSlippage: 2,
+      stopLossSlippageCost: 60,
+    });
+    expect(report.bySymbol.map(stats => [stats.key, stats.trades])).toEqual([['INFY25JAN1900CE', 1], ['RELIANCE', 2]]);
+    expect(report.byTimeOfDay.map(stats => [stats.key, stats.trades])).toEqual([['09:30', 2], ['10:00', 1]]);
+    expect(report.byOrderType.map(stats => [stats.key, stats.avgSlippage])).toEqual([['LIMIT', -0.5], ['MARKET', 1]]);
+  });
+
+  test('limits the report to the order time range', async () => {
+    const from = new Date('2025-01-01T00:00:00+05:30');
+
+    const report = await ExecutionQuality.getExecutionQualityReport({ isPaper: false, from });
+
+    expect(find).toHaveBeenCalledWith(expect.objectContaining({ isPaper: false, orderTimestamp: { $gte: from } }));
+    expect(report.summary.trades).toBe(0);
+    expect(report.bySymbol).toEqual([]);
+  });
+});
@@ -0,0 +1,207 @@
+import type { HydratedDocument } from 'mongoose';
+import Order, { type IExecutionQuality, type IOrder } from '../models/order.model';
+
+/**
+ * Execution quality of entry orders and stop loss exits.
+ * Each entry records the signal's intended premium, the quote when the order was
+ * sent and the fill, so slippage and signal-to-fill latency can be aggregated per
+ * underlying, time of day and order type.
+ */
+
+export interface ExecutionQualityStats {
+  key: string;
+  trades: number;
+  avgSlippage: number;
+  avgSlippagePercent: number;
+  slippageCost: number;
+  avgDecisionSlippage: number;
+  avgLatencyMs: number;
+  stopLossExits: number;
+  avgStopLossSlippage: number;
+  stopLossSlippageCost: number;
+}
+
+export interface ExecutionQualityReport {
+  summary: ExecutionQualityStats;
+  bySymbol: ExecutionQualityStats[];
+  byTimeOfDay: ExecutionQualityStats[];
+  byOrderType: ExecutionQualityStats[];
+}
+
+// Time of day buckets of the report
+const TIME_BUCKET_MINUTES = 30;
+
+const round = (value: number, decimals = 2): number => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+/**
+ * Start the execution record of an entry order before it is sent
+ * @param signal Signal being traded
+ * @param decisionPrice Premium the signal meant to enter at
+ * @param arrivalPrice Last traded price of the option, if known
+ */
+export const startExecutionRecord = (
+  signal: { generatedAt?: Date },
+  decisionPrice: number | undefined,
+  arrivalPrice: number | undefined
+): IExecutionQuality => ({
+  decisionPrice: decisionPrice || undefined,
+  arrivalPrice: arrivalPrice || undefined,
+  signalAt: signal.generatedAt,
+  sentAt: new Date(),
+});
+
+/**
+ * Record the fill of an entry order, the order is saved by the caller
+ * @param order Filled entry order with its average price
+ */
+export const recordEntryFill = (order: HydratedDocument<IOrder>): void => {
+  const execution = order.execution;
+
+  if (!execution || execution.fillPrice !== undefined || !order.averagePrice) {
+    return;
+  }
+
+  const fillPrice = order.averagePrice;
+  const filledAt = order.exchangeTimestamp || new Date();
+
+  execution.fillPrice = fillPrice;
+  execution.filledAt = filledAt;
+
+  if (execution.arrivalPrice) {
+    execution.slippage = round(fillPrice - execution.arrivalPrice);
+    execution.slippagePercent = round(((fillPrice - execution.arrivalPrice) / execution.arrivalPrice) * 100, 3);
+  }
+
+  if (execution.decisionPrice) {
+    execution.decisionSlippage = round(fillPrice - execution.decisionPrice);
+  }
+
+  const startedAt = execution.signalAt || execution.sentAt;
+  if (startedAt) {
+    execution.latencyMs = filledAt.getTime() - new Date(startedAt).getTime();
+  }
+
+  order.markModified('execution');
+};
+
+/**
+ * Record how far below its trigger a stop loss was filled, the order is saved by the caller
+ * @param order Entry order whose stop loss was hit
+ * @param fillPrice Average price of the stop loss exit
+ */
+export const recordStopLossFill = (order: HydratedDocument<IOrder>, fillPrice: number): void => {
+  const trigger = order.stopLossOrder?.triggerPrice || order.ocoTrigger?.stopLoss;
+
+  if (!trigger || !fillPrice) {
+    return;
+  }
+
+  if (!order.execution) {
+    order.execution = {};
+  }
+
+  order.execution.stopLossTrigger = trigger;
+  order.execution.stopLossFillPrice = fillPrice;
+  order.execution.stopLossSlippage = round(trigger - fillPrice);
+  order.markModified('execution');
+};
+
+/**
+ * Time of day bucket of an order, e.g. 09:30 for 09:30-09:59
+ */
+const getTimeBucket = (date: Date): string => {
+  const minutes = Math.floor((date.getHours() * 60 + date.getMinutes()) / TIME_BUCKET_MINUTES) * TIME_BUCKET_MINUTES;
+  return `${Math.floor(minutes / 60).toString().padStart(2, '0')}:${(minutes % 60).toString().padStart(2, '0')}`;
+};
+
+const average = (values: number[]): number => {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+};
+
+type ExecutedOrder = Omit<IOrder, 'signalId'> & { signalId: { stock: string } | null };
+
+/**
+ * Aggregate the execution quality of a group of orders
+ */
+const aggregate = (key: string, orders: ExecutedOrder[]): ExecutionQualityStats => {
+  const withArrival = orders.filter(order => order.execution?.slippage !== undefined);
+  const withDecision = orders.filter(order => order.execution?.decisionSlippage !== undefined);
+  const withLatency = orders.filter(order => order.execution?.latencyMs !== undefined);
+  const stopLossExits = orders.filter(order => order.execution?.stopLossSlippage !== undefined);
+
+  // The stop loss closes what target 1 did not book
+  const stopLossQuantity = (order: ExecutedOrder) =>
+    order.filledQuantity - order.partialExits.reduce((sum, exit) => sum + exit.quantity, 0);
+
+  return {
+    key,
+    trades: orders.length,
+    avgSlippage: round(average(withArrival.map(order => order.execution?.slippage || 0))),
+    avgSlippagePercent: round(average(withArrival.map(order => order.execution?.slippagePercent || 0)), 3),
+    slippageCost: round(withArrival.reduce((sum, order) => sum + (order.execution?.slippage || 0) * order.filledQuantity, 0)),
+    avgDecisionSlippage: round(average(withDecision.map(order => order.execution?.decisionSlippage || 0))),
+    avgLatencyMs: Math.round(average(withLatency.map(order => order.execution?.latencyMs || 0))),
+    stopLossExits: stopLossExits.length,
+    avgStopLossSlippage: round(average(stopLossExits.map(order => order.execution?.stopLossSlippage || 0))),
+    stopLossSlippageCost: round(stopLossExits.reduce(
+      (sum, order) => sum + (order.execution?.stopLossSlippage || 0) * stopLossQuantity(order),
+      0
+    )),
+  };
+};
+
+/**
+ * Aggregate per key, sorted by key
+ */
+const groupBy = (orders: ExecutedOrder[], getKey: (order: ExecutedOrder) => string): ExecutionQualityStats[] => {
+  const groups = new Map<string, ExecutedOrder[]>();
+
+  for (const order of orders) {
+    const key = getKey(order);
+    groups.set(key, [...(groups.get(key) || []), order]);
+  }
+
+  return [...groups.entries()]
+    .map(([key, group]) => aggregate(key, group))
+    .sort((a, b) => a.key.localeCompare(b.key));
+};
+
+/**
+ * Build the execution quality report of filled entry orders
+ * @param options User (all users if omitted), paper or live orders and order time range
+ */
+export const getExecutionQualityReport = async (options: {
+  userId?: string;
+  isPaper: boolean;
+  from?: Date;
+  to?: Date;
+}): Promise<ExecutionQualityReport> => {
+  const filter: Record<string, unknown> = {
+    isPaper: options.isPaper,
+    transactionType: 'BUY',
+    'execution.fillPrice': { $exists: true },
+  };
+
+  if (options.userId) {
+    filter.userId = options.userId;
+  }
+
+  if (options.from || options.to) {
+    filter.orderTimestamp = {
+      ...(options.from && { $gte: options.from }),
+      ...(options.to && { $lte: options.to }),
+    };
+  }
+
+  const orders = await Order.find(filter).populate<{ signalId: { stock: string } | null }>('signalId', 'stock');
+
+  return {
+    summary: aggregate('ALL', orders),
+    bySymbol: groupBy(orders, order => order.signalId?.stock || order.tradingSymbol),
+    byTimeOfDay: groupBy(orders, order => getTimeBucket(order.execution?.sentAt || order.orderTimestamp)),
+    byOrderType: groupBy(orders, order => order.orderType),
+  };
+};
@@ -0,0 +1,278 @@
+import type { HydratedDocument } from 'mongoose';
+import Order, { type IOrder, type StopLossChangeReason } from '../models/order.model';
+import Signal from '../models/signal.model';
+import Strategy, { type IExitPlan } from '../models/strategy.model';
+import type { ICandleStick } from '../models/marketData.model';
+import { getBrokerForOrder } from '../brokers';
+import type { BrokerOrder } from '../brokers/types';
+import { calculateATR, calculateSuperTrend } from '../utils/technical.util';
+import { calculateDelta, getTimeToExpiry, DEFAULT_VOLATILITY, type OptionType } from '../utils/optionPricing.util';
+import { isMarketHours } from '../utils/date.util';
+import * as OcoManager from './ocoManager.service';
+import { getMarketDataWithHistory } from './candleStore.service';
+
+// Trailing only moves the stop loss when it gains at least this much premium
+const MIN_TRAIL_STEP = 0.5;
+const TICK_SIZE = 0.05;
+
+const roundToTick = (price: number): number => Number((Math.round(price / TICK_SIZE) * TICK_SIZE).toFixed(2));
+
+/**
+ * Exit plan of the strategy that generated a signal
+ * @param signal Signal with its strategy name
+ * @returns Exit plan or null if the strategy is unknown
+ */
+export const getExitPlanForSignal = async (signal: { strategy?: string }): Promise<IExitPlan | null> => {
+  if (!signal.strategy) {
+    return null;
+  }
+
+  const strategy = await Strategy.findOne({ name: signal.strategy });
+  return strategy?.exitPlan ? (strategy.toObject().exitPlan as IExitPlan) : null;
+};
+
+/**
+ * Target 1 of an exit plan in whole lots
+ * @param plan Exit plan
+ * @param entryPrice Entry premium
+ * @param levels Stop loss and final target premiums
+ * @param quantity Filled quantity
+ * @param lotSize Contract lot size
+ * @returns Target 1 price and quantity, or null if the plan or position has no room for it
+ */
+export const getTarget1 = (
+  plan: IExitPlan | null,
+  entryPrice: number,
+  levels: { stopLoss: number; targetPrice: number },
+  quantity: number,
+  lotSize: number
+): { price: number; quantity: number } | null => {
+  if (!plan || plan.partialExitPercent <= 0 || lotSize <= 0) {
+    return null;
+  }
+
+  const price = roundToTick(entryPrice + plan.target1RiskMultiple * (entryPrice - levels.stopLoss));
+  const target1Quantity = Math.floor((quantity * plan.partialExitPercent) / 100 / lotSize) * lotSize;
+
+  // At least one lot must be left for the final target
+  if (price <= entryPrice || price >= levels.targetPrice || target1Quantity <= 0 || target1Quantity >= quantity) {
+    return null;
+  }
+
+  return { price, quantity: target1Quantity };
+};
+
+/**
+ * Trailing stop loss premium for the remaining quantity
+ * The stop is placed on the underlying (ATR distance or SuperTrend line) and converted to premium with delta
+ * @param plan Exit plan
+ * @param candles Candles of the underlying
+ * @param optionType CE or PE
+ * @param underlyingPrice Last price of the underlying
+ * @param premium Last price of the option
+ * @param delta Option delta
+ * @returns Stop loss premium or null if there is no stop to trail to
+ */
+export const calculateTrailingStop = (
+  plan: IExitPlan,
+  candles: ICandleStick[],
+  optionType: OptionType,
+  underlyingPrice: number,
+  premium: number,
+  delta: number
+): number | null => {
+  const isCall = optionType === 'CE';
+  let underlyingStop: number | null = null;
+
+  if (plan.trailing === 'ATR') {
+    const atr = calculateATR(candles, plan.atrPeriod);
+
+    if (atr) {
+      underlyingStop = isCall ? underlyingPrice - plan.atrMultiplier * atr : underlyingPrice + plan.atrMultiplier * atr;
+    }
+  } else if (plan.trailing === 'SUPERTREND') {
+    const superTrend = calculateSuperTrend(candles, plan.superTrendPeriod, plan.superTrendMultiplier);
+
+    // Only trail while the SuperTrend agrees with the position
+    if (superTrend && superTrend.trend === (isCall ? 'up' : 'down')) {
+      underlyingStop = superTrend.value;
+    }
+  }
+
+  if (underlyingStop === null) {
+    return null;
+  }
+
+  const distance = Math.abs(underlyingPrice - underlyingStop);
+  const stop = roundToTick(premium - Math.abs(delta) * distance);
+
+  return stop > 0 ? stop : null;
+};
+
+/**
+ * Modify the stop loss order of a position and record the change
+ * @param order Entry order with an open stop loss order
+ * @param change New trigger price and/or quantity
+ * @param reason Why the stop loss changed
+ * @returns True if the broker accepted the modification
+ */
+export const modifyStopLoss = async (
+  order: HydratedDocument<IOrder>,
+  change: { triggerPrice?: number; quantity?: number },
+  reason: StopLossChangeReason
+): Promise<boolean> => {
+  const stopLossOrder = order.stopLossOrder;
+
+  if (!stopLossOrder || stopLossOrder.status !== 'OPEN') {
+    return false;
+  }
+
+  const broker = getBrokerForOrder(order);
+  const response = await broker.modifyOrder(order.userId.toString(), stopLossOrder.orderId, change);
+
+  if (!response) {
+    console.error(`Failed to modify stop loss of order ${order.id} (${reason}).`);
+    return false;
+  }
+
+  const quantity = change.quantity ?? order.stopLossHistory[order.stopLossHistory.length - 1]?.quantity ?? order.filledQuantity;
+
+  if (change.triggerPrice !== undefined) {
+    stopLossOrder.triggerPrice = change.triggerPrice;
+  }
+
+  order.stopLossHistory.push({
+    orderId: stopLossOrder.orderId,
+    triggerPrice: stopLossOrder.triggerPrice,
+    quantity,
+    reason,
+    createdAt: new Date(),
+  });
+  await order.save();
+
+  OcoManager.updatePairStopLoss(order.id, stopLossOrder.triggerPrice);
+
+  console.log(`Stop loss of ${order.tradingSymbol} (${reason}): ${quantity} at ${stopLossOrder.triggerPrice}`);
+  return true;
+};
+
+/**
+ * Record a filled target 1 order as a partial exit
+ * @param order Entry order
+ * @param fill Filled target 1 order
+ */
+export const recordPartialExit = (order: HydratedDocument<IOrder>, fill: BrokerOrder): void => {
+  const entryPrice = order.averagePrice || 0;
+
+  if (order.target1Order) {
+    order.target1Order.status = 'COMPLETE';
+  }
+
+  order.partialExits.push({
+    orderId: fill.orderId,
+    quantity: fill.filledQuantity,
+    price: fill.averagePrice,
+    profitLoss: (fill.averagePrice - entryPrice) * fill.filledQuantity,
+    exitAt: fill.exchangeTimestamp || new Date(),
+  });
+};
+
+/**
+ * Book target 1: record the partial exit and shrink the stop loss to the remaining quantity
+ * @param orderId Entry order document ID
+ * @param fill Filled target 1 order
+ */
+export const handleTarget1Fill = async (orderId: string, fill: BrokerOrder): Promise<void> => {
+  const order = await Order.findById(orderId);
+
+  if (!order) {
+    return;
+  }
+
+  recordPartialExit(order, fill);
+  await order.save();
+
+  const bookedQuantity = order.partialExits.reduce((sum, exit) => sum + exit.quantity, 0);
+  const remainingQuantity = order.filledQuantity - bookedQuantity;
+  const moveToCost = order.exitPlan?.moveStopToCost && order.averagePrice;
+
+  await modifyStopLoss(
+    order,
+    {
+      quantity: remainingQuantity,
+      ...(moveToCost ? { triggerPrice: roundToTick(order.averagePrice as number) } : {}),
+    },
+    moveToCost ? 'MOVE_TO_COST' : 'PARTIAL_EXIT'
+  );
+
+  console.log(`Target 1 booked for ${order.tradingSymbol}: ${fill.filledQuantity} at ${fill.averagePrice}, ${remainingQuantity} remaining.`);
+};
+
+/**
+ * Trail the stop loss of every open position whose exit plan trails
+ */
+export const updateTrailingStops = async (): Promise<void> => {
+  try {
+    if (!isMarketHours()) {
+      return;
+    }
+
+    const orders = await Order.find({
+      status: 'COMPLETE',
+      'stopLossOrder.status': 'OPEN',
+      'exitPlan.trailing': { $in: ['ATR', 'SUPERTREND'] },
+    });
+
+    for (const order of orders) {
+      const plan = order.exitPlan as IExitPlan;
+
+      // With a target 1, only the remaining quantity is trailed
+      if (order.target1Order && order.target1Order.status !== 'COMPLETE') {
+        continue;
+      }
+
+      const signal = await Signal.findById(order.signalId);
+      const marketData = signal ? await getMarketDataWithHistory(signal.stock) : null;
+
+      if (!signal || !marketData) {
+        continue;
+      }
+
+      const quote = await getBrokerForOrder(order).getQuote(order.exchange, order.tradingSymbol);
+
+      if (!quote?.lastPrice) {
+        continue;
+      }
+
+      const contract = signal.optionContract;
+      const optionType: OptionType = contract?.optionType || (signal.type === 'BUY' ? 'CE' : 'PE');
+      const delta = contract
+        ? calculateDelta(
+          marketData.lastPrice,
+          contract.strike,
+          getTimeToExpiry(contract.expiry),
+          signal.optionGreeks?.impliedVolatility ? signal.optionGreeks.impliedVolatility / 100 : DEFAULT_VOLATILITY,
+          optionType
+        )
+        : signal.optionLevels?.delta || 0.5;
+
+      const stop = calculateTrailingStop(
+        plan,
+        marketData.fifteenMinuteCandlesticks,
+        optionType,
+        marketData.lastPrice,
+        quote.lastPrice,
+        delta
+      );
+
+      const currentStop = order.stopLossOrder?.triggerPrice || 0;
+
+      // The stop only ever moves up and must stay below the market
+      if (stop !== null && stop >= currentStop + MIN_TRAIL_STEP && stop < quote.lastPrice) {
+        await modifyStopLoss(order, { triggerPrice: stop }, 'TRAIL');
+      }
+    }
+  } catch (error) {
+    console.error('Error updating trailing stops:', error);
+  }
+};
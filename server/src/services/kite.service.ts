@@ -1,16 +1,22 @@
+import crypto from 'crypto';
 import KiteConnect from 'kiteconnect';
 import WebSocket from 'ws';
 import User from '../models/user.model';
-import MarketData from '../models/marketData.model';
 import StockUniverse from '../models/stockUniverse.model';
+import * as OptionChainService from './optionChain.service';
+import * as TickAggregator from './tickAggregator.service';
+import * as TickRecorder from './tickRecorder.service';
+import { INDEX_TOKENS } from './sectorStrength.service';
 import { decrypt, encrypt } from '../utils/encryption.util';
-import { isMarketHours, getNextMarketDay, formatAPIDateTime } from '../utils/date.util';
+import { isMarketHours, getNextMarketDay, formatAPIDateTime, getStartOfDay } from '../utils/date.util';
 
 let kiteInstance: any = null;
 let tickerInstance: any = null;
 let isConnected = false;
 let instrumentTokens: number[] = [];
 let reconnectAttempts = 0;
+const tickListeners: Array<(ticks: any[]) => void> = [];
+const orderUpdateListeners: Array<(order: any) => void> = [];
 const MAX_RECONNECT_ATTEMPTS = 5;
 
 /**
@@ -83,9 +89,12 @@ export const connectWebSocket = async () => {
     const stocksUniverse = await StockUniverse.find({ isActive: true, inF1: true });
     instrumentTokens = stocksUniverse.map(stock => stock.instrumentToken);
 
-    // Add Nifty 50 and Bank Nifty indices
-    instrumentTokens.push(256265); // Nifty 50 instrument token
-    instrumentTokens.push(260105); // Bank Nifty instrument token
+    // Add Nifty 50, Bank Nifty and the sectoral indices
+    instrumentTokens.push(...Object.keys(INDEX_TOKENS).map(Number));
+
+    // Symbols of the subscribed instruments, ticks are resolved from memory
+    await TickAggregator.loadSymbolCache();
+    await TickAggregator.startTickAggregator();
 
     // Initialize WebSocket connection
     const decryptedToken = decrypt(adminUser.zerodhaAccessToken);
@@ -182,211 +191,87 @@ const onNoReconnect = () => {
  * Order update handler
  */
 const onOrderUpdate = (order: any) => {
-  console.log('Order update received:', order);
-  // Process order update (to be implemented)
-};
+  console.log(`Order update received: ${order.order_id} ${order.status}`);
 
-/**
- * Process ticks from WebSocket
- */
-const processTicks = async (ticks: any[]) => {
-  try {
-    // Process each tick
-    for (const tick of ticks) {
-      // Update market data in database
-      await updateMarketData(tick);
-    }
-  } catch (error) {
-    console.error('Error processing ticks:', error);
+  for (const listener of orderUpdateListeners) {
+    listener(order);
   }
 };
 
 /**
- * Update market data in database
+ * Process ticks from WebSocket (and ticks of a market replay)
  */
-const updateMarketData = async (tick: any) => {
+export const processTicks = (ticks: any[]) => {
   try {
-    // Find stock by instrument token
-    const stockInfo = await StockUniverse.findOne({ instrumentToken: tick.instrument_token });
+    // Raw ticks are recorded before anything else touches them
+    TickRecorder.recordTicks(ticks);
 
-    if (!stockInfo) {
-      // Skip if stock not found in universe
-      return;
+    // Notify listeners (e.g. the paper broker) before persisting
+    for (const listener of tickListeners) {
+      listener(ticks);
     }
 
-    // Find or create market data document
-    let marketData = await MarketData.findOne({ symbol: stockInfo.symbol });
-
-    if (!marketData) {
-      // Create new market data document
-      marketData = new MarketData({
-        symbol: stockInfo.symbol,
-        instrumentToken: tick.instrument_token,
-        lastPrice: tick.last_price,
-        dayHigh: tick.day_high_price || tick.last_price,
-        dayLow: tick.day_low_price || tick.last_price,
-        openPrice: tick.open_price || tick.last_price,
-        closePrice: tick.last_price,
-        volume: tick.volume || 0,
-        averagePrice: tick.average_traded_price || tick.last_price,
-        lastTradeTime: new Date(tick.last_trade_time * 1000) || new Date(),
-        ohlc: {
-          open: tick.ohlc?.open || tick.last_price,
-          high: tick.ohlc?.high || tick.last_price,
-          low: tick.ohlc?.low || tick.last_price,
-          close: tick.ohlc?.close || tick.last_price,
-        },
-        change: tick.change || 0,
-        lastUpdated: new Date(),
-      });
-    } else {
-      // Update existing market data
-      marketData.lastPrice = tick.last_price;
-      marketData.dayHigh = tick.day_high_price || marketData.dayHigh;
-      marketData.dayLow = tick.day_low_price || marketData.dayLow;
-      marketData.openPrice = tick.open_price || marketData.openPrice;
-      marketData.volume = tick.volume || marketData.volume;
-      marketData.averagePrice = tick.average_traded_price || marketData.averagePrice;
-      marketData.lastTradeTime = new Date(tick.last_trade_time * 1000) || new Date();
-      marketData.ohlc = {
-        open: tick.ohlc?.open || marketData.ohlc.open,
-        high: tick.ohlc?.high || marketData.ohlc.high,
-        low: tick.ohlc?.low || marketData.ohlc.low,
-        close: tick.ohlc?.close || marketData.ohlc.close,
-      };
-      marketData.change = tick.change || marketData.change;
-      marketData.lastUpdated = new Date();
-    }
-
-    // Generate 1-minute candlestick if needed
-    await generateCandlestick(marketData, tick);
-
-    // Save updated market data
-    await marketData.save();
+    // Quotes and candles are aggregated in memory and written in bulk
+    TickAggregator.ingestTicks(ticks);
   } catch (error) {
-    console.error('Error updating market data:', error);
+    console.error('Error processing ticks:', error);
   }
 };
 
 /**
- * Generate a candlestick from tick data
+ * Register a listener for raw WebSocket ticks
  */
-const generateCandlestick = async (marketData: any, tick: any) => {
-  const currentTime = new Date();
-  const lastMinute = Math.floor(currentTime.getMinutes());
-
-  // Check if we need to create a new 1-minute candle
-  if (marketData.oneMinuteCandlesticks.length === 0 ||
-      marketData.oneMinuteCandlesticks[marketData.oneMinuteCandlesticks.length - 1].timestamp.getMinutes() !== lastMinute) {
-
-    // Create a new candle
-    const newCandle = {
-      timestamp: new Date(currentTime.setSeconds(0, 0)), // Start of the minute
-      open: tick.last_price,
-      high: tick.last_price,
-      low: tick.last_price,
-      close: tick.last_price,
-      volume: tick.volume_traded || 0,
-    };
-
-    // Add the new candle
-    marketData.oneMinuteCandlesticks.push(newCandle);
-
-    // Limit the number of candles to keep (e.g., 60 minutes)
-    if (marketData.oneMinuteCandlesticks.length > 60) {
-      marketData.oneMinuteCandlesticks.shift();
-    }
-
-    // Generate 5-minute candle if needed
-    await generateFiveMinuteCandle(marketData);
-
-    // Generate 15-minute candle if needed
-    await generateFifteenMinuteCandle(marketData);
-  } else {
-    // Update the current candle
-    const currentCandle = marketData.oneMinuteCandlesticks[marketData.oneMinuteCandlesticks.length - 1];
-
-    // Update high and low
-    currentCandle.high = Math.max(currentCandle.high, tick.last_price);
-    currentCandle.low = Math.min(currentCandle.low, tick.last_price);
-
-    // Update close price
-    currentCandle.close = tick.last_price;
-
-    // Update volume
-    currentCandle.volume += (tick.volume_traded || 0);
-  }
+export const addTickListener = (listener: (ticks: any[]) => void): void => {
+  tickListeners.push(listener);
 };
 
 /**
- * Generate a 5-minute candlestick from 1-minute data
+ * Handle an order postback (same payload as a WebSocket order update)
  */
-const generateFiveMinuteCandle = async (marketData: any) => {
-  const currentTime = new Date();
-  const currentMinute = currentTime.getMinutes();
-
-  // Check if we need to create a new 5-minute candle (at minutes 0, 5, 10, 15, 20, 25, 30, 35, 40, 45, 50, 55)
-  if (currentMinute % 5 === 0 && currentTime.getSeconds() < 10) {
-    // Get the 1-minute candles for the last 5 minutes
-    const oneMinCandles = marketData.oneMinuteCandlesticks.slice(-5);
-
-    if (oneMinCandles.length === 0) {
-      return;
-    }
+export const handlePostback = (order: any): void => {
+  onOrderUpdate(order);
+};
 
-    // Create a new 5-minute candle
-    const newCandle = {
-      timestamp: new Date(currentTime.setSeconds(0, 0)),
-      open: oneMinCandles[0].open,
-      high: Math.max(...oneMinCandles.map(c => c.high)),
-      low: Math.min(...oneMinCandles.map(c => c.low)),
-      close: oneMinCandles[oneMinCandles.length - 1].close,
-      volume: oneMinCandles.reduce((sum, c) => sum + c.volume, 0),
-    };
+/**
+ * Verify the checksum of an order postback
+ * Kite signs postbacks with SHA-256 of order_id + order_timestamp + api_secret
+ */
+export const verifyPostbackChecksum = (order: any, apiSecret: string): boolean => {
+  if (!order?.checksum || !order.order_id || !order.order_timestamp) {
+    return false;
+  }
 
-    // Add the new candle
-    marketData.fiveMinuteCandlesticks.push(newCandle);
+  const expected = crypto
+    .createHash('sha256')
+    .update(`${order.order_id}${order.order_timestamp}${apiSecret}`)
+    .digest('hex');
 
-    // Limit the number of candles to keep (e.g., 72 for 6 hours)
-    if (marketData.fiveMinuteCandlesticks.length > 72) {
-      marketData.fiveMinuteCandlesticks.shift();
-    }
-  }
+  return expected.length === order.checksum.length
+    && crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(order.checksum));
 };
 
 /**
- * Generate a 15-minute candlestick from 5-minute data
+ * Register a listener for WebSocket order updates
  */
-const generateFifteenMinuteCandle = async (marketData: any) => {
-  const currentTime = new Date();
-  const currentMinute = currentTime.getMinutes();
-
-  // Check if we need to create a new 15-minute candle (at minutes 0, 15, 30, 45)
-  if (currentMinute % 15 === 0 && currentTime.getSeconds() < 10) {
-    // Get the 5-minute candles for the last 15 minutes (3 candles)
-    const fiveMinCandles = marketData.fiveMinuteCandlesticks.slice(-3);
+export const addOrderUpdateListener = (listener: (order: any) => void): void => {
+  orderUpdateListeners.push(listener);
+};
 
-    if (fiveMinCandles.length === 0) {
-      return;
-    }
+/**
+ * Subscribe additional instruments (e.g. option contracts) to the WebSocket
+ */
+export const subscribeInstruments = (tokens: number[]): void => {
+  const newTokens = tokens.filter(token => !instrumentTokens.includes(token));
 
-    // Create a new 15-minute candle
-    const newCandle = {
-      timestamp: new Date(currentTime.setSeconds(0, 0)),
-      open: fiveMinCandles[0].open,
-      high: Math.max(...fiveMinCandles.map(c => c.high)),
-      low: Math.min(...fiveMinCandles.map(c => c.low)),
-      close: fiveMinCandles[fiveMinCandles.length - 1].close,
-      volume: fiveMinCandles.reduce((sum, c) => sum + c.volume, 0),
-    };
+  if (newTokens.length === 0) {
+    return;
+  }
 
-    // Add the new candle
-    marketData.fifteenMinuteCandlesticks.push(newCandle);
+  instrumentTokens.push(...newTokens);
 
-    // Limit the number of candles to keep (e.g., 30 for 7.5 hours)
-    if (marketData.fifteenMinuteCandlesticks.length > 30) {
-      marketData.fifteenMinuteCandlesticks.shift();
-    }
+  if (isConnected && tickerInstance) {
+    tickerInstance.subscribe(newTokens);
+    tickerInstance.setMode(tickerInstance.MODE_FULL, newTokens);
   }
 };
 
@@ -408,15 +293,23 @@ export const fetchInstruments = async () => {
     console.log(`Fetched ${instruments.length} instruments.`);
 
     // Fetch F&O instruments
-    const nseInstruments = instruments.filter((instrument: any) =>
-      instrument.exchange === 'NSE' &&
+    const foInstruments = instruments.filter((instrument: any) =>
+      instrument.exchange === 'NFO' &&
       (instrument.segment === 'NFO-OPT' || instrument.segment === 'NFO-FUT')
     );
 
-    console.log(`Found ${nseInstruments.length} F&O instruments.`);
+    console.log(`Found ${foInstruments.length} F&O instruments.`);
+
+    // Map NSE cash instruments by trading symbol to find the underlying's own token
+    const cashInstruments = new Map<string, any>();
+    instruments.forEach((instrument: any) => {
+      if (instrument.exchange === 'NSE') {
+        cashInstruments.set(instrument.tradingsymbol, instrument);
+      }
+    });
 
     // Group instruments by underlying
-    const instrumentsByUnderlying = nseInstruments.reduce((acc: any, instrument: any) => {
+    const instrumentsByUnderlying: Record<string, any[]> = foInstruments.reduce((acc: Record<string, any[]>, instrument: any) => {
       const underlying = instrument.name;
 
       if (!acc[underlying]) {
@@ -430,7 +323,9 @@ export const fetchInstruments = async () => {
 
     // Update stock universe
     for (const [underlying, instruments] of Object.entries(instrumentsByUnderlying)) {
-      const stockInstrument = instruments[0];
+      const derivativeInstrument = instruments[0];
+      // Fall back to the derivative when the underlying is not listed on NSE cash (e.g. indices)
+      const stockInstrument = cashInstruments.get(underlying) || derivativeInstrument;
 
       // Find or create stock in universe
       let stock = await StockUniverse.findOne({ symbol: underlying });
@@ -439,39 +334,61 @@ export const fetchInstruments = async () => {
         // Create new stock
         stock = new StockUniverse({
           symbol: underlying,
-          name: stockInstrument.name,
+          name: stockInstrument.name || underlying,
           instrumentToken: stockInstrument.instrument_token,
           exchange: 'NSE',
           tradingSymbol: stockInstrument.tradingsymbol,
           inF1: true,
-          lotSize: stockInstrument.lot_size || 0,
+          lotSize: derivativeInstrument.lot_size || 0,
           tickSize: stockInstrument.tick_size || 0.05,
           isActive: true,
         });
       } else {
         // Update existing stock
-        stock.name = stockInstrument.name;
+        stock.name = stockInstrument.name || underlying;
         stock.instrumentToken = stockInstrument.instrument_token;
         stock.exchange = 'NSE';
         stock.tradingSymbol = stockInstrument.tradingsymbol;
         stock.inF1 = true;
-        stock.lotSize = stockInstrument.lot_size || stock.lotSize;
+        stock.lotSize = derivativeInstrument.lot_size || stock.lotSize;
         stock.tickSize = stockInstrument.tick_size || stock.tickSize;
       }
 
       // Extract expiry dates
       const expiryDates = Array.from(
-        new Set(instruments.map((instrument: any) => instrument.expiry))
-      ) as string[];
+        new Set(instruments
+          .filter(instrument => instrument.expiry)
+          .map(instrument => new Date(instrument.expiry).toISOString().split('T')[0] as string))
+      ).sort();
 
       // Update expiry dates
-      stock.expiry = expiryDates.filter(Boolean);
+      stock.expiry = expiryDates;
+
+      // Nearest month future, used for open interest analysis
+      const nearestFuture = instruments
+        .filter(instrument => instrument.segment === 'NFO-FUT' && instrument.expiry && new Date(instrument.expiry) >= getStartOfDay(new Date()))
+        .sort((a, b) => new Date(a.expiry).getTime() - new Date(b.expiry).getTime())[0];
+
+      if (nearestFuture) {
+        stock.futures = {
+          tradingSymbol: nearestFuture.tradingsymbol,
+          instrumentToken: nearestFuture.instrument_token,
+          expiry: new Date(nearestFuture.expiry),
+        };
+      }
+
+      // Store the option chain contracts and derive the strike gap from them
+      const strikeGap = await OptionChainService.storeOptionInstruments(underlying, instruments);
+      stock.strikeGap = strikeGap || stock.strikeGap;
 
       // Save stock
       await stock.save();
     }
 
-    console.log('Stock universe updated successfully.');
+    // Drop contracts that are no longer tradable
+    const expiredCount = await OptionChainService.removeExpiredContracts();
+
+    console.log(`Stock universe updated successfully. Removed ${expiredCount} expired option contracts.`);
   } catch (error) {
     console.error('Error fetching instruments:', error);
   }
@@ -492,17 +409,25 @@ export const fetchHistoricalData = async (
       return null;
     }
 
-    // Find stock in universe
-    const stock = await StockUniverse.findOne({ symbol });
+    // Indices are not part of the stock universe
+    const indexToken = Object.keys(INDEX_TOKENS).find(token => INDEX_TOKENS[Number(token)] === symbol);
+    let instrumentToken = Number(indexToken);
 
-    if (!stock) {
-      console.warn(`Stock ${symbol} not found in universe.`);
-      return null;
+    if (!indexToken) {
+      // Find stock in universe
+      const stock = await StockUniverse.findOne({ symbol });
+
+      if (!stock) {
+        console.warn(`Stock ${symbol} not found in universe.`);
+        return null;
+      }
+
+      instrumentToken = stock.instrumentToken;
     }
 
     // Fetch historical data
     const historicalData = await kiteInstance.getHistoricalData(
-      stock.instrumentToken,
+      instrumentToken,
       interval,
       formatAPIDateTime(from),
       formatAPIDateTime(to),
@@ -634,6 +559,36 @@ export const getOrderHistory = async (userId: string, orderId: string | null = n
   }
 };
 
+/**
+ * Modify an open order
+ */
+export const modifyOrder = async (userId: string, orderId: string, params: any, variety = 'regular') => {
+  try {
+    if (!kiteInstance) {
+      console.warn('Kite instance not initialized. Cannot modify order.');
+      return null;
+    }
+
+    // Find user
+    const user = await User.findById(userId);
+
+    if (!user || !user.zerodhaAccessToken) {
+      console.warn(`User ${userId} not found or Zerodha access token missing.`);
+      return null;
+    }
+
+    // Set access token for user
+    const decryptedToken = decrypt(user.zerodhaAccessToken);
+    kiteInstance.setAccessToken(decryptedToken);
+
+    // Modify the order
+    return await kiteInstance.modifyOrder(variety, orderId, params);
+  } catch (error) {
+    console.error('Error modifying order:', error);
+    return null;
+  }
+};
+
 /**
  * Cancel an order
  */
@@ -664,6 +619,180 @@ export const cancelOrder = async (userId: string, orderId: string, variety = 're
   }
 };
 
+/**
+ * Get positions of a user
+ */
+export const getPositions = async (userId: string) => {
+  try {
+    if (!kiteInstance) {
+      console.warn('Kite instance not initialized. Cannot get positions.');
+      return null;
+    }
+
+    // Find user
+    const user = await User.findById(userId);
+
+    if (!user || !user.zerodhaAccessToken) {
+      console.warn(`User ${userId} not found or Zerodha access token missing.`);
+      return null;
+    }
+
+    // Set access token for user
+    const decryptedToken = decrypt(user.zerodhaAccessToken);
+    kiteInstance.setAccessToken(decryptedToken);
+
+    return await kiteInstance.getPositions();
+  } catch (error) {
+    console.error('Error getting positions:', error);
+    return null;
+  }
+};
+
+/**
+ * Get today's trades of a user
+ */
+export const getTrades = async (userId: string) => {
+  try {
+    if (!kiteInstance) {
+      console.warn('Kite instance not initialized. Cannot get trades.');
+      return null;
+    }
+
+    // Find user
+    const user = await User.findById(userId);
+
+    if (!user || !user.zerodhaAccessToken) {
+      console.warn(`User ${userId} not found or Zerodha access token missing.`);
+      return null;
+    }
+
+    // Set access token for user
+    const decryptedToken = decrypt(user.zerodhaAccessToken);
+    kiteInstance.setAccessToken(decryptedToken);
+
+    return await kiteInstance.getTrades();
+  } catch (error) {
+    console.error('Error getting trades:', error);
+    return null;
+  }
+};
+
+/**
+ * Get holdings of a user
+ */
+export const getHoldings = async (userId: string) => {
+  try {
+    if (!kiteInstance) {
+      console.warn('Kite instance not initialized. Cannot get holdings.');
+      return null;
+    }
+
+    // Find user
+    const user = await User.findById(userId);
+
+    if (!user || !user.zerodhaAccessToken) {
+      console.warn(`User ${userId} not found or Zerodha access token missing.`);
+      return null;
+    }
+
+    // Set access token for user
+    const decryptedToken = decrypt(user.zerodhaAccessToken);
+    kiteInstance.setAccessToken(decryptedToken);
+
+    return await kiteInstance.getHoldings();
+  } catch (error) {
+    console.error('Error getting holdings:', error);
+    return null;
+  }
+};
+
+/**
+ * Place a GTT (good till triggered) trigger
+ */
+export const placeGTT = async (userId: string, params: any) => {
+  try {
+    if (!kiteInstance) {
+      console.warn('Kite instance not initialized. Cannot place GTT.');
+      return null;
+    }
+
+    // Find user
+    const user = await User.findById(userId);
+
+    if (!user || !user.zerodhaAccessToken) {
+      console.warn(`User ${userId} not found or Zerodha access token missing.`);
+      return null;
+    }
+
+    // Set access token for user
+    const decryptedToken = decrypt(user.zerodhaAccessToken);
+    kiteInstance.setAccessToken(decryptedToken);
+
+    return await kiteInstance.placeGTT(params);
+  } catch (error) {
+    console.error('Error placing GTT:', error);
+    return null;
+  }
+};
+
+/**
+ * Get a GTT trigger
+ */
+export const getGTT = async (userId: string, triggerId: string) => {
+  try {
+    if (!kiteInstance) {
+      console.warn('Kite instance not initialized. Cannot get GTT.');
+      return null;
+    }
+
+    // Find user
+    const user = await User.findById(userId);
+
+    if (!user || !user.zerodhaAccessToken) {
+      console.warn(`User ${userId} not found or Zerodha access token missing.`);
+      return null;
+    }
+
+    // Set access token for user
+    const decryptedToken = decrypt(user.zerodhaAccessToken);
+    kiteInstance.setAccessToken(decryptedToken);
+
+    return await kiteInstance.getGTT(triggerId);
+  } catch (error) {
+    console.error('Error getting GTT:', error);
+    return null;
+  }
+};
+
+/**
+ * Delete a GTT trigger
+ */
+export const deleteGTT = async (userId: string, triggerId: string) => {
+  try {
+    if (!kiteInstance) {
+      console.warn('Kite instance not initialized. Cannot delete GTT.');
+      return null;
+    }
+
+    // Find user
+    const user = await User.findById(userId);
+
+    if (!user || !user.zerodhaAccessToken) {
+      console.warn(`User ${userId} not found or Zerodha access token missing.`);
+      return null;
+    }
+
+    // Set access token for user
+    const decryptedToken = decrypt(user.zerodhaAccessToken);
+    kiteInstance.setAccessToken(decryptedToken);
+
+    return await kiteInstance.deleteGTT(triggerId);
+  } catch (error) {
+    console.error('Error deleting GTT:', error);
+    return null;
+  }
+};
+
 /**
  * Get quote for a trading symbol
  */
@@ -674,14 +803,39 @@ export const getQuote = async (exchange: string, tradingSymbol: string) => {
       return null;
     }
 
-    // Get quote
-    return await kiteInstance.getQuote(`${exchange}:${tradingSymbol}`);
+    // Get quote (the response is keyed by "EXCHANGE:TRADINGSYMBOL")
+    const instrument = `${exchange}:${tradingSymbol}`;
+    const quotes = await kiteInstance.getQuote(instrument);
+    return quotes?.[instrument] || null;
   } catch (error) {
     console.error(`Error getting quote for ${exchange}:${tradingSymbol}:`, error);
     return null;
   }
 };
 
+/**
+ * Get quotes for multiple instruments in one call
+ * @param instruments Instruments in "EXCHANGE:TRADINGSYMBOL" format
+ * @returns Quotes keyed by instrument
+ */
+export const getQuotes = async (instruments: string[]): Promise<Record<string, any>> => {
+  try {
+    if (!kiteInstance) {
+      console.warn('Kite instance not initialized. Cannot get quotes.');
+      return {};
+    }
+
+    if (instruments.length === 0) {
+      return {};
+    }
+
+    return await kiteInstance.getQuote(instruments);
+  } catch (error) {
+    console.error('Error getting quotes:', error);
+    return {};
+  }
+};
+
 /**
  * Generate a Kite login URL for user authentication
  */
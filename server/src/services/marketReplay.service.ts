@@ -0,0 +1,220 @@
+import { createReadStream, existsSync } from 'node:fs';
+import { createInterface } from 'node:readline';
+import { ReplayMarketData } from '../models/marketData.model';
+import { ReplaySignal } from '../models/signal.model';
+import { ReplayDailyAnalytics } from '../models/analytics.model';
+import * as KiteService from './kite.service';
+import * as SchedulerService from './scheduler.service';
+import * as TickAggregator from './tickAggregator.service';
+import * as TickRecorder from './tickRecorder.service';
+import type { RecordedBatch } from './tickRecorder.service';
+import { isMarketHours } from '../utils/date.util';
+import { getCurrentTime, startVirtualClock, stopVirtualClock, waitUntil } from '../utils/clock.util';
+
+/**
+ * Deterministic replay of a recorded trading day.
+ * A virtual clock starts at the recording's first tick and the recorded batches
+ * are fed through the live tick path (processTicks) when the clock reaches the
+ * time they were received, at 1x or faster. Schedulers are restarted on the
+ * virtual clock, so market hours checks and the signal generator run as they
+ * did that day.
+ *
+ * Replays only run while the market is closed and the WebSocket is disconnected.
+ * Order execution, order checks, reconciliation and the OCO tick checks are not
+ * started on the virtual clock, and Telegram messages are not sent, so replayed
+ * signals are never marked as sent and no orders are placed for them.
+ * Replayed market data, signals and signal counts are written to their own
+ * collections and candle reads are capped at the virtual time, so the live
+ * documents, signal limits and candle store are left untouched.
+ */
+
+export const MAX_REPLAY_SPEED = 120;
+
+export interface ReplayStatus {
+  isReplaying: boolean;
+  date: string | null;
+  speed: number;
+  virtualTime: Date | null;
+  startedAt: Date | null;
+  finishedAt: Date | null;
+  batches: number;
+  ticks: number;
+  parseErrors: number;
+  stopRequested: boolean;
+}
+
+const status: ReplayStatus = {
+  isReplaying: false,
+  date: null,
+  speed: 1,
+  virtualTime: null,
+  startedAt: null,
+  finishedAt: null,
+  batches: 0,
+  ticks: 0,
+  parseErrors: 0,
+  stopRequested: false,
+};
+
+// Tick fields Kite sends as dates, revived from their recorded ISO strings
+const DATE_FIELDS = new Set(['last_trade_time', 'exchange_timestamp']);
+
+/**
+ * Parse one line of a recording
+ */
+const parseBatch = (line: string): RecordedBatch | null => {
+  try {
+    const batch = JSON.parse(line, (key, value) =>
+      DATE_FIELDS.has(key) && typeof value === 'string' ? new Date(value) : value
+    ) as RecordedBatch;
+
+    return typeof batch.t === 'number' && Array.isArray(batch.ticks) ? batch : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Read the batches of a recording one at a time
+ */
+const readBatches = async function* (file: string): AsyncGenerator<RecordedBatch> {
+  const lines = createInterface({ input: createReadStream(file), crlfDelay: Number.POSITIVE_INFINITY });
+
+  try {
+    for await (const line of lines) {
+      if (line.trim() === '') {
+        continue;
+      }
+
+      const batch = parseBatch(line);
+
+      if (batch) {
+        yield batch;
+      } else {
+        status.parseErrors++;
+      }
+    }
+  } finally {
+    lines.close();
+  }
+};
+
+/**
+ * Feed a recording through the tick path on the virtual clock
+ */
+const runReplay = async (file: string, speed: number): Promise<void> => {
+  try {
+    for await (const batch of readBatches(file)) {
+      if (status.stopRequested) {
+        break;
+      }
+
+      // The first batch starts the clock, the schedulers then run on it
+      if (!status.virtualTime) {
+        startVirtualClock(new Date(batch.t), speed);
+        SchedulerService.initializeSchedulers();
+        await TickAggregator.startTickAggregator();
+      }
+
+      await waitUntil(new Date(batch.t));
+
+      KiteService.processTicks(batch.ticks);
+      status.batches++;
+      status.ticks += batch.ticks.length;
+      status.virtualTime = getCurrentTime();
+    }
+
+    console.log(`Replay of ${status.date} finished: ${status.batches} batches, ${status.ticks} ticks.`);
+  } finally {
+    SchedulerService.stopAllSchedulers();
+    await TickAggregator.resetTickAggregator();
+  }
+};
+
+/**
+ * Return to the wall clock and the schedulers that ran before the replay
+ */
+const finishReplay = (restartSchedulers: boolean): void => {
+  SchedulerService.stopAllSchedulers();
+  stopVirtualClock();
+
+  if (restartSchedulers) {
+    SchedulerService.initializeSchedulers();
+  }
+
+  status.isReplaying = false;
+  status.finishedAt = new Date();
+};
+
+/**
+ * Start replaying the recorded ticks of a trading day
+ * @param date Trading day, YYYY-MM-DD
+ * @param speed Replay speed, 1 for real time
+ * @returns Whether the replay started and why not
+ */
+export const startReplay = async (date: string, speed = 1): Promise<{ started: boolean; message: string }> => {
+  if (status.isReplaying) {
+    return { started: false, message: `Replay of ${status.date} already running` };
+  }
+
+  // Live ticks and orders must not mix with the replayed session
+  if (isMarketHours() || KiteService.getKiteStatus().isWebSocketConnected) {
+    return { started: false, message: 'Replays only run while the market is closed and the WebSocket is disconnected' };
+  }
+
+  const file = TickRecorder.getRecordingPath(date);
+
+  if (!existsSync(file)) {
+    return { started: false, message: `No tick recording found for ${date}` };
+  }
+
+  const restartSchedulers = SchedulerService.areSchedulersRunning();
+  SchedulerService.stopAllSchedulers();
+  await TickAggregator.resetTickAggregator();
+
+  // Market data and signals of an earlier replay would leak into this one
+  await Promise.all([ReplayMarketData.deleteMany({}), ReplaySignal.deleteMany({}), ReplayDailyAnalytics.deleteMany({})]);
+
+  Object.assign(status, {
+    isReplaying: true,
+    date,
+    speed,
+    virtualTime: null,
+    startedAt: new Date(),
+    finishedAt: null,
+    batches: 0,
+    ticks: 0,
+    parseErrors: 0,
+    stopRequested: false,
+  });
+
+  console.log(`Replaying ticks of ${date} at ${speed}x.`);
+
+  // A replay at 1x runs for the whole session, progress is reported in the status
+  runReplay(file, speed)
+    .catch(error => console.error(`Error replaying ${file}:`, error))
+    .finally(() => finishReplay(restartSchedulers));
+
+  return { started: true, message: `Replay of ${date} started at ${speed}x` };
+};
+
+/**
+ * Stop the running replay after the current batch
+ * @returns False if no replay is running
+ */
+export const stopReplay = (): boolean => {
+  if (!status.isReplaying) {
+    return false;
+  }
+
+  status.stopRequested = true;
+  return true;
+};
+
+/**
+ * Status of the market replay
+ */
+export const getReplayStatus = (): ReplayStatus => ({
+  ...status,
+  virtualTime: status.isReplaying ? getCurrentTime() : status.virtualTime,
+});
@@ -0,0 +1,207 @@
+import { beforeAll, beforeEach, describe, expect, mock, test } from 'bun:test';
+import type { HydratedDocument } from 'mongoose';
+import type { IOrder } from '../models/order.model';
+import type { BrokerOrder } from '../brokers/types';
+
+// The manager is exercised against an in-memory order store and a broker that
+// only records calls, order updates are pushed through its update handler
+
+const orders = new Map<string, object>();
+const orderUpdateHandlers: ((update: BrokerOrder) => void)[] = [];
+
+const broker = {
+  name: 'PAPER',
+  subscribe: mock(() => {}),
+  onOrderUpdate: (handler: (update: BrokerOrder) => void) => {
+    orderUpdateHandlers.push(handler);
+  },
+  onTicks: () => {},
+  cancelOrder: mock(async (_userId: string, _orderId: string): Promise<boolean> => true),
+  getOrderHistory: mock(async (_userId: string, _orderId: string): Promise<BrokerOrder[] | null> => []),
+  placeOrder: mock(async (_userId: string, _params: Record<string, unknown>) => ({ orderId: 'BUYBACK' })),
+};
+
+const handleOrderCompletion = mock(async (_order: unknown, _exitReason: string, _fill: BrokerOrder) => {});
+const handleTarget1Fill = mock(async (_orderId: string, _fill: BrokerOrder) => {});
+const sendSystemAlert = mock(async (_type: string, _message: string) => true);
+
+mock.module('../models/order.model', () => ({
+  default: {
+    findById: async (id: string) => orders.get(id) ?? null,
+    find: async () => [],
+  },
+}));
+mock.module('../models/optionInstrument.model', () => ({
+  default: { findOne: async () => null },
+}));
+mock.module('../brokers', () => ({
+  getBrokerForOrder: () => broker,
+  getBrokers: () => [broker],
+}));
+mock.module('./telegram.service', () => ({ sendSystemAlert }));
+mock.module('./orderUpdates.service', () => ({ waitForFinalOrderState: async () => null }));
+mock.module('./exitPlan.service', () => ({ handleTarget1Fill, recordPartialExit: () => {} }));
+mock.module('./orderExecution.service', () => ({ handleOrderCompletion }));
+
+const OcoManager = await import('./ocoManager.service');
+
+const createOrder = (id: string, legs: { stopLoss?: string; target1?: string; target?: string }) => {
+  const order = {
+    id,
+    userId: 'user-1',
+    exchange: 'NFO',
+    tradingSymbol: 'NIFTY25JAN23000CE',
+    product: 'MIS',
+    filledQuantity: 100,
+    partialExits: [],
+    stopLossOrder: legs.stopLoss ? { orderId: legs.stopLoss, triggerPrice: 80, status: 'OPEN' } : undefined,
+    target1Order: legs.target1 ? { orderId: legs.target1, price: 110, quantity: 50, status: 'OPEN' } : undefined,
+    targetOrder: legs.target ? { orderId: legs.target, price: 120, status: 'OPEN' } : undefined,
+    save: async () => {},
+  };
+
+  orders.set(id, order);
+  return order;
+};
+
+const registerOrder = (order: object) =>
+  OcoManager.registerOcoPair(order as unknown as HydratedDocument<IOrder>);
+
+const createUpdate = (orderId: string, status: BrokerOrder['status'], filledQuantity = 100): BrokerOrder => ({
+  orderId,
+  exchange: 'NFO',
+  tradingSymbol: 'NIFTY25JAN23000CE',
+  transactionType: 'SELL',
+  orderType: 'LIMIT',
+  product: 'MIS',
+  quantity: filledQuantity,
+  price: 0,
+  triggerPrice: 0,
+  status,
+  averagePrice: status === 'COMPLETE' ? 100 : 0,
+  filledQuantity: status === 'COMPLETE' ? filledQuantity : 0,
+  pendingQuantity: 0,
+  cancelledQuantity: 0,
+});
+
+// Updates are resolved in the background, give them time to settle
+const sendUpdate = async (update: BrokerOrder): Promise<void> => {
+  for (const handler of orderUpdateHandlers) {
+    handler(update);
+  }
+  await new Promise(resolve => setTimeout(resolve, 10));
+};
+
+beforeAll(async () => {
+  await OcoManager.startOcoManager();
+});
+
+beforeEach(() => {
+  broker.cancelOrder.mockClear();
+  broker.getOrderHistory.mockClear();
+  broker.placeOrder.mockClear();
+  handleOrderCompletion.mockClear();
+  handleTarget1Fill.mockClear();
+  sendSystemAlert.mockClear();
+});
+
+describe('OCO pairing', () => {
+  test('a filled stop loss cancels the target and books the exit', async () => {
+    const order = createOrder('order-a', { stopLoss: 'A-SL', target: 'A-T' });
+    await registerOrder(order);
+    const activePairs = OcoManager.getOcoStatus().activePairs;
+
+    const fill = createUpdate('A-SL', 'COMPLETE');
+    await sendUpdate(fill);
+
+    expect(broker.cancelOrder).toHaveBeenCalledTimes(1);
+    expect(broker.cancelOrder).toHaveBeenCalledWith('user-1', 'A-T');
+    expect(order.targetOrder?.status).toBe('CANCELLED');
+    expect(handleOrderCompletion).toHaveBeenCalledWith(order, 'SL_HIT', fill);
+    expect(broker.placeOrder).not.toHaveBeenCalled();
+    expect(OcoManager.getOcoStatus().activePairs).toBe(activePairs - 1);
+  });
+
+  test('a leg that filled before it could be cancelled is bought back', async () => {
+    const order = createOrder('order-b', { stopLoss: 'B-SL', target: 'B-T' });
+    await registerOrder(order);
+
+    broker.cancelOrder.mockImplementationOnce(async () => false);
+    broker.getOrderHistory.mockImplementationOnce(async () => [createUpdate('B-SL', 'COMPLETE')]);
+
+    const fill = createUpdate('B-T', 'COMPLETE');
+    await sendUpdate(fill);
+
+    expect(order.stopLossOrder?.status).toBe('COMPLETE');
+    expect(broker.placeOrder).toHaveBeenCalledWith('user-1', expect.objectContaining({ transactionType: 'BUY', quantity: 100 }));
+    expect(sendSystemAlert).toHaveBeenCalledTimes(1);
+    expect(handleOrderCompletion).toHaveBeenCalledWith(order, 'TARGET_HIT', fill);
+  });
+
+  test('target 1 books part of the position and keeps the pair', async () => {
+    const order = createOrder('order-c', { stopLoss: 'C-SL', target1: 'C-T1', target: 'C-T' });
+    await registerOrder(order);
+    const activePairs = OcoManager.getOcoStatus().activePairs;
+
+    const target1Fill = createUpdate('C-T1', 'COMPLETE', 50);
+    await sendUpdate(target1Fill);
+
+    expect(handleTarget1Fill).toHaveBeenCalledWith('order-c', target1Fill);
+    expect(broker.cancelOrder).not.toHaveBeenCalled();
+    expect(OcoManager.getOcoStatus().activePairs).toBe(activePairs);
+
+    // The booked leg is no longer cancelled when the stop loss fills
+    await sendUpdate(createUpdate('C-SL', 'COMPLETE', 50));
+
+    expect(broker.cancelOrder).toHaveBeenCalledTimes(1);
+    expect(broker.cancelOrder).toHaveBeenCalledWith('user-1', 'C-T');
+    expect(OcoManager.getOcoStatus().activePairs).toBe(activePairs - 1);
+  });
+
+  test('a rejected stop loss leaves the target open and alerts', async () => {
+    const order = createOrder('order-d', { stopLoss: 'D-SL', target: 'D-T' });
+    await registerOrder(order);
+    const activePairs = OcoManager.getOcoStatus().activePairs;
+
+    await sendUpdate(createUpdate('D-SL', 'REJECTED'));
+
+    expect(order.stopLossOrder?.status).toBe('REJECTED');
+    expect(order.targetOrder?.status).toBe('OPEN');
+    expect(broker.cancelOrder).not.toHaveBeenCalled();
+    expect(sendSystemAlert).toHaveBeenCalledWith('warning', expect.stringContaining('unprotected'));
+    expect(OcoManager.getOcoStatus().activePairs).toBe(activePairs);
+  });
+
+  test('a position is not sold while an exit leg cannot be cancelled', async () => {
+    const order = { ...createOrder('order-e', { stopLoss: 'E-SL', target: 'E-T' }), status: 'COMPLETE' };
+    orders.set(order.id, order);
+    await registerOrder(order);
+    const activePairs = OcoManager.getOcoStatus().activePairs;
+
+    broker.cancelOrder.mockImplementation(async (_userId, orderId) => orderId !== 'E-T');
+    broker.getOrderHistory.mockImplementationOnce(async () => [createUpdate('E-T', 'OPEN')]);
+
+    const result = await OcoManager.closePosition(order as unknown as HydratedDocument<IOrder>, 'MANUAL_EXIT');
+    broker.cancelOrder.mockImplementation(async () => true);
+
+    expect(result).toEqual({ closed: false, message: 'Failed to cancel an exit order' });
+    expect(order.targetOrder?.status).toBe('OPEN');
+    expect(broker.placeOrder).not.toHaveBeenCalled();
+    expect(sendSystemAlert).toHaveBeenCalledWith('error', expect.stringContaining('Failed to cancel the target order'));
+    expect(OcoManager.getOcoStatus().activePairs).toBe(activePairs);
+
+    // The kept pair still resolves the leg that fills later
+    const fill = createUpdate('E-T', 'COMPLETE');
+    await sendUpdate(fill);
+
+    expect(handleOrderCompletion).toHaveBeenCalledWith(order, 'TARGET_HIT', fill);
+    expect(OcoManager.getOcoStatus().activePairs).toBe(activePairs - 1);
+  });
+
+  test('updates of orders outside a pair are ignored', async () => {
+    await sendUpdate(createUpdate('UNKNOWN', 'COMPLETE'));
+
+    expect(broker.cancelOrder).not.toHaveBeenCalled();
+    expect(handleOrderCompletion).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,890 @@
+import type { HydratedDocument } from 'mongoose';
+import Order, { type IOrder } from '../models/order.model';
+import OptionInstrument from '../models/optionInstrument.model';
+import { getBrokerForOrder, getBrokers } from '../brokers';
+import type { Broker, BrokerOrder, BrokerTick } from '../brokers/types';
+import * as TelegramService from './telegram.service';
+import * as OrderUpdates from './orderUpdates.service';
+import * as ExitPlanService from './exitPlan.service';
+import { handleOrderCompletion } from './orderExecution.service';
+import { isVirtualClock } from '../utils/clock.util';
+
+/**
+ * One-cancels-other exit management. Exits are placed as a broker-side OCO
+ * trigger (Kite GTT) where the broker supports it for the position's product,
+ * otherwise as a stop loss and a target order that this manager pairs up: the
+ * moment one leg fills (order update or tick crossing a level) the other leg
+ * is cancelled, and if both filled the extra short is bought back. An exit
+ * plan's target 1 is a third leg that books part of the position without
+ * ending the pair.
+ */
+
+type ExitLeg = 'STOP_LOSS' | 'TARGET_1' | 'TARGET';
+
+const EXIT_LEGS: ExitLeg[] = ['STOP_LOSS', 'TARGET_1', 'TARGET'];
+
+interface OcoPair {
+  orderId: string; // Entry order document ID
+  userId: string;
+  broker: Broker;
+  instrumentToken?: number;
+  legs: Partial<Record<ExitLeg, string>>; // Broker order IDs of the exit legs
+  stopLoss: number;
+  target1?: number;
+  target: number;
+  isResolving: boolean;
+  lastCheckedAt: number;
+}
+
+// Minimum time between leg status checks triggered by ticks
+const TICK_CHECK_INTERVAL_MS = 1000;
+const EXIT_ORDER_TIMEOUT_MS = 60 * 1000;
+
+// Active pairs keyed by entry order document ID and by exit leg order ID
+const pairs = new Map<string, OcoPair>();
+const legPairs = new Map<string, OcoPair>();
+const closingOrders = new Set<string>();
+let isStarted = false;
+
+const getLegOf = (pair: OcoPair, brokerOrderId: string): ExitLeg | null => {
+  return EXIT_LEGS.find(leg => pair.legs[leg] === brokerOrderId) || null;
+};
+
+/**
+ * Exit order of a leg on the entry order document
+ */
+const getExitOrder = (order: IOrder, leg: ExitLeg): { orderId: string; status: string } | undefined => {
+  switch (leg) {
+    case 'STOP_LOSS':
+      return order.stopLossOrder;
+    case 'TARGET_1':
+      return order.target1Order;
+    default:
+      return order.targetOrder;
+  }
+};
+
+const unregisterPair = (pair: OcoPair): void => {
+  pairs.delete(pair.orderId);
+
+  for (const legOrderId of Object.values(pair.legs)) {
+    if (legOrderId) legPairs.delete(legOrderId);
+  }
+};
+
+/**
+ * Track the open exit legs of an order
+ * @param order Entry order with stop loss and/or target orders
+ */
+export const registerOcoPair = async (order: HydratedDocument<IOrder>): Promise<void> => {
+  const legs: Partial<Record<ExitLeg, string>> = {};
+
+  for (const leg of EXIT_LEGS) {
+    const exitOrder = getExitOrder(order, leg);
+
+    if (exitOrder?.status === 'OPEN') {
+      legs[leg] = exitOrder.orderId;
+    }
+  }
+
+  if (Object.keys(legs).length === 0) {
+    return;
+  }
+
+  const broker = getBrokerForOrder(order);
+  const contract = await OptionInstrument.findOne({ tradingSymbol: order.tradingSymbol, exchange: order.exchange });
+
+  const pair: OcoPair = {
+    orderId: order.id,
+    userId: order.userId.toString(),
+    broker,
+    instrumentToken: contract?.instrumentToken,
+    legs,
+    stopLoss: order.stopLossOrder?.triggerPrice || 0,
+    target1: legs.TARGET_1 ? order.target1Order?.price : undefined,
+    target: order.targetOrder?.price || Number.POSITIVE_INFINITY,
+    isResolving: false,
+    lastCheckedAt: 0,
+  };
+
+  pairs.set(pair.orderId, pair);
+
+  for (const legOrderId of Object.values(legs)) {
+    legPairs.set(legOrderId, pair);
+  }
+
+  // Ticks on the contract trigger an immediate leg check when a level is crossed
+  if (contract) {
+    broker.subscribe([contract.instrumentToken]);
+  }
+};
+
+/**
+ * Place one-cancels-other exits for a filled entry order
+ * @param broker Broker the entry was placed with
+ * @param order Filled entry order
+ * @param levels Stop loss and target premiums
+ * @param tag Tag suffix of the exit orders (signal ID)
+ * @param target1 Partial exit of the order's exit plan (optional)
+ */
+export const placeOcoExits = async (
+  broker: Broker,
+  order: HydratedDocument<IOrder>,
+  levels: { stopLoss: number; targetPrice: number },
+  tag: string,
+  target1?: { price: number; quantity: number } | null
+): Promise<void> => {
+  const userId = order.userId.toString();
+  const isTrailing = !!order.exitPlan && order.exitPlan.trailing !== 'NONE';
+
+  // Prefer a broker-side trigger, nothing has to run in this process for it to work
+  // Broker triggers cannot book partially or trail, those plans use exit orders
+  if (broker.placeOcoTrigger && broker.ocoTriggerProducts?.includes(order.product) && !target1 && !isTrailing) {
+    const trigger = await broker.placeOcoTrigger(userId, {
+      exchange: order.exchange,
+      tradingSymbol: order.tradingSymbol,
+      transactionType: 'SELL',
+      product: order.product,
+      quantity: order.filledQuantity,
+      lastPrice: order.averagePrice || levels.stopLoss,
+      stopLoss: levels.stopLoss,
+      target: levels.targetPrice,
+    });
+
+    if (trigger) {
+      console.log(`OCO trigger placed for ${order.tradingSymbol}. Trigger ID: ${trigger.triggerId}`);
+
+      order.ocoTrigger = {
+        triggerId: trigger.triggerId,
+        stopLoss: levels.stopLoss,
+        target: levels.targetPrice,
+        status: 'ACTIVE',
+      };
+      await order.save();
+      return;
+    }
+
+    console.warn(`Failed to place OCO trigger for ${order.tradingSymbol}. Falling back to paired exit orders.`);
+  }
+
+  // Place stop loss order
+  const stopLossOrder = await broker.placeOrder(userId, {
+    exchange: order.exchange,
+    tradingSymbol: order.tradingSymbol,
+    transactionType: 'SELL',
+    quantity: order.filledQuantity,
+    orderType: 'SL-M', // Stop loss market order
+    product: order.product,
+    triggerPrice: levels.stopLoss,
+    validity: 'DAY',
+    tag: `SL_${tag}`,
+  });
+
+  if (stopLossOrder) {
+    console.log(`Stop loss order placed for ${order.tradingSymbol}. Order ID: ${stopLossOrder.orderId}`);
+
+    order.stopLossOrder = {
+      orderId: stopLossOrder.orderId,
+      triggerPrice: levels.stopLoss,
+      status: 'OPEN',
+    };
+    order.stopLossHistory.push({
+      orderId: stopLossOrder.orderId,
+      triggerPrice: levels.stopLoss,
+      quantity: order.filledQuantity,
+      reason: 'INITIAL',
+      createdAt: new Date(),
+    });
+    await order.save();
+  } else {
+    console.error(`Failed to place stop loss order for ${order.tradingSymbol}`);
+  }
+
+  // Place target 1 order for the partial exit
+  let target1Order: { orderId: string } | null = null;
+
+  if (target1) {
+    target1Order = await broker.placeOrder(userId, {
+      exchange: order.exchange,
+      tradingSymbol: order.tradingSymbol,
+      transactionType: 'SELL',
+      quantity: target1.quantity,
+      orderType: 'LIMIT',
+      product: order.product,
+      price: target1.price,
+      validity: 'DAY',
+      tag: `T1_${tag}`,
+    });
+
+    if (target1Order) {
+      console.log(`Target 1 order placed for ${order.tradingSymbol}. Order ID: ${target1Order.orderId}`);
+
+      order.target1Order = {
+        orderId: target1Order.orderId,
+        price: target1.price,
+        quantity: target1.quantity,
+        status: 'OPEN',
+      };
+      await order.save();
+    } else {
+      console.error(`Failed to place target 1 order for ${order.tradingSymbol}, the final target takes the full quantity`);
+    }
+  }
+
+  // Place target order for the quantity left after target 1
+  const targetOrder = await broker.placeOrder(userId, {
+    exchange: order.exchange,
+    tradingSymbol: order.tradingSymbol,
+    transactionType: 'SELL',
+    quantity: order.filledQuantity - (target1Order && target1 ? target1.quantity : 0),
+    orderType: 'LIMIT',
+    product: order.product,
+    price: levels.targetPrice,
+    validity: 'DAY',
+    tag: `TARGET_${tag}`,
+  });
+
+  if (targetOrder) {
+    console.log(`Target order placed for ${order.tradingSymbol}. Order ID: ${targetOrder.orderId}`);
+
+    order.targetOrder = {
+      orderId: targetOrder.orderId,
+      price: levels.targetPrice,
+      status: 'OPEN',
+    };
+    await order.save();
+  } else {
+    console.error(`Failed to place target order for ${order.tradingSymbol}`);
+  }
+
+  await registerOcoPair(order);
+
+  // A leg may have filled before the pair was registered
+  const pair = pairs.get(order.id);
+  if (pair) {
+    await checkPair(pair);
+  }
+};
+
+/**
+ * Book target 1 of an exit plan, the pair stays active for the remaining quantity
+ */
+const resolveTarget1 = async (pair: OcoPair, fill: BrokerOrder): Promise<void> => {
+  const legOrderId = pair.legs.TARGET_1;
+
+  if (legOrderId) {
+    legPairs.delete(legOrderId);
+  }
+  pair.legs.TARGET_1 = undefined;
+  pair.target1 = undefined;
+
+  try {
+    await ExitPlanService.handleTarget1Fill(pair.orderId, fill);
+  } catch (error) {
+    console.error(`Error booking target 1 of order ${pair.orderId}:`, error);
+  }
+};
+
+/**
+ * Handle a filled exit leg: cancel the other legs, flatten any oversold quantity and book the exit
+ * The cancels are issued before the first await so simulated brokers cancel them in the same tick
+ */
+const resolveFill = async (pair: OcoPair, leg: ExitLeg, fill: BrokerOrder): Promise<void> => {
+  if (leg === 'TARGET_1') {
+    await resolveTarget1(pair, fill);
+    return;
+  }
+
+  if (pair.isResolving) {
+    return;
+  }
+  pair.isResolving = true;
+
+  const otherLegs = EXIT_LEGS.filter(other => other !== leg && pair.legs[other]);
+  const cancelRequests = Promise.allSettled(
+    otherLegs.map(other => pair.broker.cancelOrder(pair.userId, pair.legs[other] as string))
+  );
+
+  try {
+    const [order, cancelResults] = await Promise.all([Order.findById(pair.orderId), cancelRequests]);
+
+    if (!order) {
+      return;
+    }
+
+    let soldQuantity = fill.filledQuantity;
+
+    for (const [index, other] of otherLegs.entries()) {
+      const exitOrder = getExitOrder(order, other);
+      const cancelResult = cancelResults[index];
+
+      if (cancelResult?.status === 'fulfilled' && cancelResult.value) {
+        if (exitOrder) exitOrder.status = 'CANCELLED';
+        continue;
+      }
+
+      // The cancel failed, the leg may have filled as well
+      const history = await pair.broker.getOrderHistory(pair.userId, pair.legs[other] as string);
+      const latest = history?.[history.length - 1];
+
+      if (exitOrder) exitOrder.status = latest?.status || 'UNKNOWN';
+
+      if (latest?.status === 'COMPLETE') {
+        if (other === 'TARGET_1') {
+          ExitPlanService.recordPartialExit(order, latest);
+        } else {
+          soldQuantity += latest.filledQuantity;
+        }
+      }
+    }
+
+    // More sold than bought leaves a naked short option
+    const bookedQuantity = order.partialExits.reduce((sum, exit) => sum + exit.quantity, 0);
+    const extraQuantity = soldQuantity + bookedQuantity - order.filledQuantity;
+
+    if (extraQuantity > 0) {
+      await flattenExtraExit(pair, fill, extraQuantity);
+    }
+
+    await handleOrderCompletion(order, leg === 'STOP_LOSS' ? 'SL_HIT' : 'TARGET_HIT', fill);
+  } catch (error) {
+    console.error(`Error resolving OCO exit for order ${pair.orderId}:`, error);
+  } finally {
+    unregisterPair(pair);
+  }
+};
+
+/**
+ * Buy back the quantity sold by exit legs that filled before they could be cancelled
+ */
+const flattenExtraExit = async (pair: OcoPair, exit: BrokerOrder, quantity: number): Promise<void> => {
+  console.error(`Exit legs of order ${pair.orderId} oversold ${quantity} ${exit.tradingSymbol}. Buying back.`);
+
+  const response = await pair.broker.placeOrder(pair.userId, {
+    exchange: exit.exchange,
+    tradingSymbol: exit.tradingSymbol,
+    transactionType: 'BUY',
+    quantity,
+    orderType: 'MARKET',
+    product: exit.product as 'MIS' | 'CNC' | 'NRML',
+    validity: 'DAY',
+    tag: `OCOFIX_${pair.orderId}`,
+  });
+
+  await TelegramService.sendSystemAlert(
+    'error',
+    `More than one exit order of ${exit.tradingSymbol} filled (order ${pair.orderId}). ${
+      response ? `Bought back ${quantity} to close the short.` : 'Buying back the short FAILED, close it manually.'
+    }`
+  );
+};
+
+/**
+ * Record a leg that closed without filling (rejected or cancelled outside the manager)
+ */
+const closeLeg = async (pair: OcoPair, leg: ExitLeg, status: string): Promise<void> => {
+  const legOrderId = pair.legs[leg];
+
+  if (legOrderId) {
+    legPairs.delete(legOrderId);
+  }
+  pair.legs[leg] = undefined;
+
+  const order = await Order.findById(pair.orderId);
+  const exitOrder = order ? getExitOrder(order, leg) : undefined;
+
+  if (order && exitOrder) {
+    exitOrder.status = status;
+    await order.save();
+  }
+
+  if (!Object.values(pair.legs).some(Boolean)) {
+    unregisterPair(pair);
+  }
+
+  if (leg === 'STOP_LOSS') {
+    await TelegramService.sendSystemAlert('warning', `Stop loss order of order ${pair.orderId} was ${status.toLowerCase()}. The position is unprotected.`);
+  }
+};
+
+/**
+ * Poll the exit legs of a pair
+ */
+const checkPair = async (pair: OcoPair): Promise<void> => {
+  pair.lastCheckedAt = Date.now();
+
+  for (const leg of EXIT_LEGS) {
+    const legOrderId = pair.legs[leg];
+
+    if (!legOrderId || pair.isResolving) {
+      continue;
+    }
+
+    const history = await pair.broker.getOrderHistory(pair.userId, legOrderId);
+    const latest = history?.[history.length - 1];
+
+    if (latest?.status === 'COMPLETE') {
+      await resolveFill(pair, leg, latest);
+
+      if (leg !== 'TARGET_1') {
+        return;
+      }
+      continue;
+    }
+
+    if (latest?.status === 'REJECTED' || latest?.status === 'CANCELLED') {
+      await closeLeg(pair, leg, latest.status);
+    }
+  }
+};
+
+const handleOrderUpdate = (broker: Broker, update: BrokerOrder): void => {
+  const pair = legPairs.get(update.orderId);
+
+  if (!pair || pair.broker !== broker || pair.isResolving) {
+    return;
+  }
+
+  const leg = getLegOf(pair, update.orderId);
+
+  if (!leg) {
+    return;
+  }
+
+  if (update.status === 'COMPLETE') {
+    resolveFill(pair, leg, update).catch(error => console.error('Error resolving OCO exit:', error));
+  } else if (update.status === 'REJECTED' || update.status === 'CANCELLED') {
+    closeLeg(pair, leg, update.status).catch(error => console.error('Error closing OCO leg:', error));
+  }
+};
+
+const handleTicks = (broker: Broker, ticks: BrokerTick[]): void => {
+  // Replayed prices are not the market of the open positions
+  if (isVirtualClock()) {
+    return;
+  }
+
+  const now = Date.now();
+
+  for (const tick of ticks) {
+    for (const pair of pairs.values()) {
+      if (pair.broker !== broker || pair.instrumentToken !== tick.instrumentToken || pair.isResolving) {
+        continue;
+      }
+
+      const isLevelCrossed = tick.lastPrice <= pair.stopLoss
+        || tick.lastPrice >= pair.target
+        || (pair.target1 !== undefined && tick.lastPrice >= pair.target1);
+
+      if (isLevelCrossed && now - pair.lastCheckedAt >= TICK_CHECK_INTERVAL_MS) {
+        checkPair(pair).catch(error => console.error(`Error checking OCO pair ${pair.orderId}:`, error));
+      }
+    }
+  }
+};
+
+/**
+ * Check a broker-side OCO trigger and book the exit once its order filled
+ */
+const checkOcoTrigger = async (order: HydratedDocument<IOrder>): Promise<void> => {
+  const broker = getBrokerForOrder(order);
+  const userId = order.userId.toString();
+
+  if (!order.ocoTrigger || !broker.getOcoTrigger) {
+    return;
+  }
+
+  const trigger = await broker.getOcoTrigger(userId, order.ocoTrigger.triggerId);
+
+  if (!trigger || trigger.status === 'ACTIVE') {
+    return;
+  }
+
+  if (trigger.status !== 'TRIGGERED') {
+    order.ocoTrigger.status = trigger.status;
+    await order.save();
+    await TelegramService.sendSystemAlert('warning', `OCO trigger of ${order.tradingSymbol} is ${trigger.status.toLowerCase()}. The position is unprotected.`);
+    return;
+  }
+
+  if (!trigger.orderId || !trigger.triggeredLeg) {
+    return;
+  }
+
+  const history = await broker.getOrderHistory(userId, trigger.orderId);
+  const latest = history?.[history.length - 1];
+
+  if (latest?.status === 'COMPLETE') {
+    order.ocoTrigger.status = 'TRIGGERED';
+    await handleOrderCompletion(order, trigger.triggeredLeg === 'STOP_LOSS' ? 'SL_HIT' : 'TARGET_HIT', latest);
+  }
+};
+
+/**
+ * Reconcile the exits of an order with the broker (fallback for missed events)
+ * @param order Filled entry order with open exits
+ */
+export const reconcileOrder = async (order: HydratedDocument<IOrder>): Promise<void> => {
+  try {
+    if (order.ocoTrigger?.status === 'ACTIVE') {
+      await checkOcoTrigger(order);
+      return;
+    }
+
+    // Pairs are lost on restart, register them again
+    if (!pairs.has(order.id)) {
+      await registerOcoPair(order);
+    }
+
+    const pair = pairs.get(order.id);
+    if (pair && !pair.isResolving) {
+      await checkPair(pair);
+    }
+  } catch (error) {
+    console.error(`Error reconciling exits of order ${order.id}:`, error);
+  }
+};
+
+/**
+ * Close a position at market: cancel its exits and sell the remaining quantity
+ * @param order Filled entry order
+ * @param exitReason MANUAL_EXIT or MARKET_CLOSE
+ * @returns Whether the position is closed (by this exit or by an exit leg that filled first)
+ */
+export const closePosition = async (
+  order: HydratedDocument<IOrder>,
+  exitReason: 'MANUAL_EXIT' | 'MARKET_CLOSE'
+): Promise<{ closed: boolean; message: string }> => {
+  if (order.status !== 'COMPLETE' || order.exitReason) {
+    return { closed: false, message: 'Order has no open position' };
+  }
+
+  const pair = pairs.get(order.id);
+
+  if (closingOrders.has(order.id) || pair?.isResolving) {
+    return { closed: false, message: 'Position is already being closed' };
+  }
+
+  closingOrders.add(order.id);
+  if (pair) {
+    pair.isResolving = true;
+  }
+
+  const broker = getBrokerForOrder(order);
+  const userId = order.userId.toString();
+  let isPositionKept = false;
+
+  try {
+    // Cancel the broker-side trigger, it could still fire after a market exit and sell twice
+    if (order.ocoTrigger?.status === 'ACTIVE' && broker.cancelOcoTrigger) {
+      if (!(await broker.cancelOcoTrigger(userId, order.ocoTrigger.triggerId))) {
+        isPositionKept = true;
+        await TelegramService.sendSystemAlert('error', `Failed to cancel the OCO trigger of ${order.tradingSymbol} (order ${order.id}). The position was not closed.`);
+        return { closed: false, message: 'Failed to cancel the OCO trigger' };
+      }
+      order.ocoTrigger.status = 'CANCELLED';
+    }
+
+    // Cancel the open exit orders, one of them may have filled in the meantime
+    for (const leg of EXIT_LEGS) {
+      const exitOrder = getExitOrder(order, leg);
+
+      if (exitOrder?.status !== 'OPEN') {
+        continue;
+      }
+
+      if (await broker.cancelOrder(userId, exitOrder.orderId)) {
+        exitOrder.status = 'CANCELLED';
+        continue;
+      }
+
+      const history = await broker.getOrderHistory(userId, exitOrder.orderId);
+      const latest = history?.[history.length - 1];
+
+      // A leg still resting at the broker could fill after the market exit and sell twice
+      if (latest?.status !== 'COMPLETE' && latest?.status !== 'CANCELLED' && latest?.status !== 'REJECTED') {
+        isPositionKept = true;
+        await order.save();
+        await TelegramService.sendSystemAlert('error', `Failed to cancel the ${leg.toLowerCase().replace('_', ' ')} order of ${order.tradingSymbol} (order ${order.id}). The position was not closed.`);
+        return { closed: false, message: 'Failed to cancel an exit order' };
+      }
+
+      exitOrder.status = latest.status;
+
+      if (latest.status === 'COMPLETE') {
+        if (leg === 'TARGET_1') {
+          ExitPlanService.recordPartialExit(order, latest);
+        } else {
+          await handleOrderCompletion(order, leg === 'STOP_LOSS' ? 'SL_HIT' : 'TARGET_HIT', latest);
+          return { closed: true, message: `Position was already closed by the ${leg === 'STOP_LOSS' ? 'stop loss' : 'target'}` };
+        }
+      }
+    }
+
+    await order.save();
+
+    const bookedQuantity = order.partialExits.reduce((sum, exit) => sum + exit.quantity, 0);
+    const quantity = order.filledQuantity - bookedQuantity;
+
+    if (quantity <= 0) {
+      return { closed: false, message: 'No quantity left to close' };
+    }
+
+    const exitResponse = await broker.placeOrder(userId, {
+      exchange: order.exchange,
+      tradingSymbol: order.tradingSymbol,
+      transactionType: 'SELL',
+      quantity,
+      orderType: 'MARKET',
+      product: order.product,
+      validity: 'DAY',
+      tag: `${exitReason === 'MARKET_CLOSE' ? 'EOD' : 'EXIT'}_${order.signalId}`,
+    });
+
+    if (!exitResponse) {
+      await TelegramService.sendSystemAlert('error', `Failed to place exit order for ${order.tradingSymbol} (order ${order.id}). Close it manually.`);
+      return { closed: false, message: 'Failed to place exit order' };
+    }
+
+    const fill = await OrderUpdates.waitForFinalOrderState(broker, userId, exitResponse.orderId, EXIT_ORDER_TIMEOUT_MS);
+
+    if (fill?.status !== 'COMPLETE') {
+      await TelegramService.sendSystemAlert('error', `Exit order of ${order.tradingSymbol} (order ${order.id}) is ${fill?.status || 'unknown'}. Check the position.`);
+      return { closed: false, message: `Exit order is ${fill?.status || 'unknown'}` };
+    }
+
+    await handleOrderCompletion(order, exitReason, fill);
+    return { closed: true, message: `Sold ${quantity} at ₹${fill.averagePrice.toFixed(2)}` };
+  } catch (error) {
+    console.error(`Error closing position of order ${order.id}:`, error);
+    return { closed: false, message: 'Error closing position' };
+  } finally {
+    closingOrders.delete(order.id);
+    if (pair && isPositionKept) {
+      pair.isResolving = false;
+    } else if (pair) {
+      unregisterPair(pair);
+    }
+  }
+};
+
+/**
+ * Place a replacement exit leg for the open quantity and track it with the pair
+ */
+const placeExitLeg = async (
+  order: HydratedDocument<IOrder>,
+  leg: 'STOP_LOSS' | 'TARGET',
+  price: number,
+  quantity: number
+): Promise<boolean> => {
+  const userId = order.userId.toString();
+  const response = await getBrokerForOrder(order).placeOrder(userId, {
+    exchange: order.exchange,
+    tradingSymbol: order.tradingSymbol,
+    transactionType: 'SELL',
+    quantity,
+    orderType: leg === 'STOP_LOSS' ? 'SL-M' : 'LIMIT',
+    product: order.product,
+    ...(leg === 'STOP_LOSS' ? { triggerPrice: price } : { price }),
+    validity: 'DAY',
+    tag: `${leg === 'STOP_LOSS' ? 'SL' : 'TARGET'}_${order.signalId}`,
+  });
+
+  if (!response) {
+    console.error(`Failed to place ${leg === 'STOP_LOSS' ? 'stop loss' : 'target'} order for ${order.tradingSymbol}`);
+    return false;
+  }
+
+  if (leg === 'STOP_LOSS') {
+    order.stopLossOrder = { orderId: response.orderId, triggerPrice: price, status: 'OPEN' };
+    order.stopLossHistory.push({
+      orderId: response.orderId,
+      triggerPrice: price,
+      quantity,
+      reason: 'MANUAL',
+      createdAt: new Date(),
+    });
+  } else {
+    order.targetOrder = { orderId: response.orderId, price, status: 'OPEN' };
+  }
+  await order.save();
+
+  const pair = pairs.get(order.id);
+
+  if (pair) {
+    pair.legs[leg] = response.orderId;
+    legPairs.set(response.orderId, pair);
+
+    if (leg === 'STOP_LOSS') {
+      pair.stopLoss = price;
+    } else {
+      pair.target = price;
+    }
+  } else {
+    await registerOcoPair(order);
+  }
+
+  return true;
+};
+
+/**
+ * Change the stop loss and/or target of an open position
+ * Open exit orders are modified, missing ones are placed again and a broker-side trigger is replaced
+ * @param order Filled entry order
+ * @param levels New stop loss and/or target premiums
+ * @returns Whether the exits were updated
+ */
+export const modifyExits = async (
+  order: HydratedDocument<IOrder>,
+  levels: { stopLoss?: number; target?: number }
+): Promise<{ updated: boolean; message: string }> => {
+  if (order.status !== 'COMPLETE' || order.exitReason) {
+    return { updated: false, message: 'Order has no open position' };
+  }
+
+  const pair = pairs.get(order.id);
+
+  if (closingOrders.has(order.id) || pair?.isResolving) {
+    return { updated: false, message: 'Position is being closed' };
+  }
+
+  const broker = getBrokerForOrder(order);
+  const userId = order.userId.toString();
+  const bookedQuantity = order.partialExits.reduce((sum, exit) => sum + exit.quantity, 0);
+  const quantity = order.filledQuantity - bookedQuantity;
+
+  try {
+    // A broker-side trigger cannot be modified, replace it with one at the new levels
+    if (order.ocoTrigger?.status === 'ACTIVE' && broker.cancelOcoTrigger && broker.placeOcoTrigger) {
+      const stopLoss = levels.stopLoss ?? order.ocoTrigger.stopLoss;
+      const target = levels.target ?? order.ocoTrigger.target;
+
+      if (!(await broker.cancelOcoTrigger(userId, order.ocoTrigger.triggerId))) {
+        return { updated: false, message: 'Failed to cancel the current trigger' };
+      }
+      order.ocoTrigger.status = 'CANCELLED';
+      await order.save();
+
+      const quote = await broker.getQuote(order.exchange, order.tradingSymbol);
+      const trigger = await broker.placeOcoTrigger(userId, {
+        exchange: order.exchange,
+        tradingSymbol: order.tradingSymbol,
+        transactionType: 'SELL',
+        product: order.product,
+        quantity,
+        lastPrice: quote?.lastPrice || order.averagePrice || stopLoss,
+        stopLoss,
+        target,
+      });
+
+      if (!trigger) {
+        await TelegramService.sendSystemAlert('error', `Failed to replace the OCO trigger of ${order.tradingSymbol} (order ${order.id}). The position is unprotected.`);
+        return { updated: false, message: 'Failed to place the new trigger, the position is unprotected' };
+      }
+
+      order.ocoTrigger = { triggerId: trigger.triggerId, stopLoss, target, status: 'ACTIVE' };
+      await order.save();
+      return { updated: true, message: 'Exit trigger replaced' };
+    }
+
+    if (levels.stopLoss !== undefined) {
+      const isModified = order.stopLossOrder?.status === 'OPEN'
+        ? await ExitPlanService.modifyStopLoss(order, { triggerPrice: levels.stopLoss }, 'MANUAL')
+        : await placeExitLeg(order, 'STOP_LOSS', levels.stopLoss, quantity);
+
+      if (!isModified) {
+        return { updated: false, message: 'Failed to update the stop loss order' };
+      }
+    }
+
+    if (levels.target !== undefined) {
+      const targetOrder = order.targetOrder;
+
+      if (targetOrder?.status === 'OPEN') {
+        if (!(await broker.modifyOrder(userId, targetOrder.orderId, { price: levels.target }))) {
+          return { updated: false, message: 'Failed to update the target order' };
+        }
+
+        targetOrder.price = levels.target;
+        await order.save();
+
+        if (pair) {
+          pair.target = levels.target;
+        }
+      } else {
+        // An open target 1 order keeps its share of the position
+        const target1Quantity = order.target1Order?.status === 'OPEN' ? order.target1Order.quantity : 0;
+
+        if (!(await placeExitLeg(order, 'TARGET', levels.target, quantity - target1Quantity))) {
+          return { updated: false, message: 'Failed to place the target order' };
+        }
+      }
+    }
+
+    console.log(`Exits of ${order.tradingSymbol} updated: SL ${order.stopLossOrder?.triggerPrice}, target ${order.targetOrder?.price}`);
+    return { updated: true, message: 'Exits updated' };
+  } catch (error) {
+    console.error(`Error modifying exits of order ${order.id}:`, error);
+    return { updated: false, message: 'Error updating exits' };
+  }
+};
+
+/**
+ * Start listening to order updates and ticks of every broker and restore open pairs
+ */
+export const startOcoManager = async (): Promise<void> => {
+  if (isStarted) {
+    return;
+  }
+  isStarted = true;
+
+  for (const broker of getBrokers()) {
+    broker.onOrderUpdate(update => handleOrderUpdate(broker, update));
+    broker.onTicks(ticks => handleTicks(broker, ticks));
+  }
+
+  try {
+    // Exit legs of simulated brokers only exist in their order book, which must be back first
+    for (const broker of getBrokers()) {
+      await broker.restoreOrders?.();
+    }
+
+    const openOrders = await Order.find({
+      status: 'COMPLETE',
+      $or: [
+        { 'stopLossOrder.status': 'OPEN' },
+        { 'target1Order.status': 'OPEN' },
+        { 'targetOrder.status': 'OPEN' },
+      ],
+    });
+
+    for (const order of openOrders) {
+      await registerOcoPair(order);
+    }
+
+    console.log(`OCO manager started with ${pairs.size} open exit pairs.`);
+  } catch (error) {
+    console.error('Error restoring OCO pairs:', error);
+  }
+};
+
+/**
+ * Update the stop loss level of a pair after its order was modified
+ * @param orderId Entry order document ID
+ * @param stopLoss New stop loss trigger price
+ */
+export const updatePairStopLoss = (orderId: string, stopLoss: number): void => {
+  const pair = pairs.get(orderId);
+
+  if (pair) {
+    pair.stopLoss = stopLoss;
+  }
+};
+
+/**
+ * Status of the OCO manager
+ */
+export const getOcoStatus = () => ({
+  isStarted,
+  activePairs: pairs.size,
+});
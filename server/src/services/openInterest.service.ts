@@ -0,0 +1,174 @@
+import type { IStockUniverse } from '../models/stockUniverse.model';
+import { getMarketDataBroker } from '../brokers';
+import * as OptionChainService from './optionChain.service';
+import { getStartOfDay } from '../utils/date.util';
+
+export type OIClassification = 'LONG_BUILDUP' | 'SHORT_COVERING' | 'SHORT_BUILDUP' | 'LONG_UNWINDING' | 'NEUTRAL';
+
+export interface StrikeOpenInterest {
+  strike: number;
+  callOI: number;
+  putOI: number;
+}
+
+export interface OpenInterestAnalysis {
+  classification: OIClassification;
+  priceChange: number;
+  oiChange: number;
+  oiChangePercentage: number;
+  putCallRatio: number;
+  maxPainStrike: number;
+  highestOICall: number;
+  highestOICallOI: number;
+  highestOIPut: number;
+  highestOIPutOI: number;
+  averageCallOI: number;
+  averagePutOI: number;
+}
+
+/**
+ * Classify the price and open interest move of a future
+ * @param priceChange Price change from the previous close
+ * @param oiChange Open interest change from the previous day
+ * @returns Build-up classification
+ */
+export const classifyOpenInterest = (priceChange: number, oiChange: number): OIClassification => {
+  if (priceChange === 0 || oiChange === 0) {
+    return 'NEUTRAL';
+  }
+
+  if (priceChange > 0) {
+    return oiChange > 0 ? 'LONG_BUILDUP' : 'SHORT_COVERING';
+  }
+
+  return oiChange > 0 ? 'SHORT_BUILDUP' : 'LONG_UNWINDING';
+};
+
+/**
+ * Calculate the max pain strike (where option writers pay out the least at expiry)
+ * @param strikes Open interest per strike
+ * @returns Max pain strike or 0 if there is no open interest
+ */
+export const calculateMaxPain = (strikes: StrikeOpenInterest[]): number => {
+  let maxPainStrike = 0;
+  let minPayout = Number.POSITIVE_INFINITY;
+
+  for (const expiryStrike of strikes) {
+    const payout = strikes.reduce((sum, { strike, callOI, putOI }) =>
+      sum +
+      callOI * Math.max(expiryStrike.strike - strike, 0) +
+      putOI * Math.max(strike - expiryStrike.strike, 0), 0);
+
+    if (payout < minPayout) {
+      minPayout = payout;
+      maxPainStrike = expiryStrike.strike;
+    }
+  }
+
+  return maxPainStrike;
+};
+
+/**
+ * Summarise open interest across the option chain
+ * @param strikes Open interest per strike
+ * @returns PCR, max pain and the strikes with the highest call and put OI
+ */
+export const summariseOptionOpenInterest = (strikes: StrikeOpenInterest[]) => {
+  const totalCallOI = strikes.reduce((sum, strike) => sum + strike.callOI, 0);
+  const totalPutOI = strikes.reduce((sum, strike) => sum + strike.putOI, 0);
+
+  const highestCall = strikes.reduce<StrikeOpenInterest | null>((highest, strike) =>
+    !highest || strike.callOI > highest.callOI ? strike : highest, null);
+  const highestPut = strikes.reduce<StrikeOpenInterest | null>((highest, strike) =>
+    !highest || strike.putOI > highest.putOI ? strike : highest, null);
+
+  return {
+    putCallRatio: totalCallOI > 0 ? Number((totalPutOI / totalCallOI).toFixed(2)) : 0,
+    maxPainStrike: calculateMaxPain(strikes),
+    highestOICall: highestCall?.strike || 0,
+    highestOICallOI: highestCall?.callOI || 0,
+    highestOIPut: highestPut?.strike || 0,
+    highestOIPutOI: highestPut?.putOI || 0,
+    averageCallOI: strikes.length > 0 ? totalCallOI / strikes.length : 0,
+    averagePutOI: strikes.length > 0 ? totalPutOI / strikes.length : 0,
+  };
+};
+
+/**
+ * Refresh a stock's futures open interest and option chain OI data from live quotes
+ * @param stock Stock from the universe (saved with the new data)
+ * @param lastPrice Current price of the underlying
+ * @param strikeCount Number of strikes on each side of ATM to include (optional)
+ * @returns Open interest analysis or null if the quotes are not available
+ */
+export const updateOpenInterest = async (
+  stock: IStockUniverse,
+  lastPrice: number,
+  strikeCount = 10
+): Promise<OpenInterestAnalysis | null> => {
+  try {
+    if (!stock.futures?.tradingSymbol) {
+      return null;
+    }
+
+    const futureQuote = await getMarketDataBroker().getQuote('NFO', stock.futures.tradingSymbol);
+
+    if (!futureQuote || !futureQuote.openInterest) {
+      return null;
+    }
+
+    const optionChain = await OptionChainService.getOptionChain(stock.symbol, strikeCount);
+
+    if (!optionChain) {
+      return null;
+    }
+
+    // Roll the day's OI into the previous day on the first update of a new day
+    const today = getStartOfDay(new Date());
+    const openInterest = stock.openInterest || { current: 0, previousDay: 0, change: 0, changePercentage: 0 };
+
+    if (openInterest.updatedAt && openInterest.updatedAt < today) {
+      openInterest.previousDay = openInterest.current;
+    }
+
+    const previousDayOI = openInterest.previousDay || 0;
+    const oiChange = previousDayOI > 0 ? futureQuote.openInterest - previousDayOI : 0;
+    const oiChangePercentage = previousDayOI > 0 ? (oiChange / previousDayOI) * 100 : 0;
+
+    stock.openInterest = {
+      current: futureQuote.openInterest,
+      previousDay: previousDayOI,
+      change: oiChange,
+      changePercentage: Number(oiChangePercentage.toFixed(2)),
+      updatedAt: new Date(),
+    };
+
+    const summary = summariseOptionOpenInterest(optionChain.chain.map(row => ({
+      strike: row.strike,
+      callOI: Number(row.CE?.openInterest || 0),
+      putOI: Number(row.PE?.openInterest || 0),
+    })));
+
+    stock.optionData.maxPainStrike = summary.maxPainStrike;
+    stock.optionData.putCallRatio = summary.putCallRatio;
+    stock.optionData.highestOICall = summary.highestOICall;
+    stock.optionData.highestOIPut = summary.highestOIPut;
+
+    await stock.save();
+
+    // Price change of the underlying against the previous close
+    const previousClose = stock.previousDayClose || futureQuote.ohlc?.close || lastPrice;
+    const priceChange = lastPrice - previousClose;
+
+    return {
+      classification: classifyOpenInterest(priceChange, oiChange),
+      priceChange,
+      oiChange,
+      oiChangePercentage: stock.openInterest.changePercentage,
+      ...summary,
+    };
+  } catch (error) {
+    console.error(`Error updating open interest for ${stock.symbol}:`, error);
+    return null;
+  }
+};
@@ -0,0 +1,453 @@
+import OptionInstrument, { type IOptionInstrument } from '../models/optionInstrument.model';
+import StockUniverse from '../models/stockUniverse.model';
+import type { ISignal } from '../models/signal.model';
+import { getMarketDataBroker } from '../brokers';
+import { getMarketDataModel } from './candleStore.service';
+import { getInstrumentKey } from '../brokers/types';
+import { getStartOfDay } from '../utils/date.util';
+import * as OptionPricing from '../utils/optionPricing.util';
+
+export type ExpiryPreference = 'WEEKLY' | 'MONTHLY';
+
+export interface OptionSelection {
+  expiry: ExpiryPreference;
+  strikeOffset: number; // Strikes away from ATM: positive = OTM, negative = ITM
+  minDaysToExpiry: number; // Roll to the next expiry when closer than this
+}
+
+export const DEFAULT_OPTION_SELECTION: OptionSelection = {
+  expiry: 'WEEKLY',
+  strikeOffset: 0,
+  minDaysToExpiry: 0,
+};
+
+const ONE_DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Calculate the strike gap from a list of strikes (most common difference between adjacent strikes)
+ * @param strikes Strikes of a single expiry
+ * @returns Strike gap or null if it cannot be determined
+ */
+export const calculateStrikeGap = (strikes: number[]): number | null => {
+  const sorted = Array.from(new Set(strikes)).sort((a, b) => a - b);
+
+  if (sorted.length < 2) {
+    return null;
+  }
+
+  const gapCounts = new Map<number, number>();
+
+  for (let i = 1; i < sorted.length; i++) {
+    const gap = Number(((sorted[i] as number) - (sorted[i - 1] as number)).toFixed(2));
+    gapCounts.set(gap, (gapCounts.get(gap) || 0) + 1);
+  }
+
+  let strikeGap: number | null = null;
+  let maxCount = 0;
+
+  gapCounts.forEach((count, gap) => {
+    if (count > maxCount || (count === maxCount && strikeGap !== null && gap < strikeGap)) {
+      strikeGap = gap;
+      maxCount = count;
+    }
+  });
+
+  return strikeGap;
+};
+
+/**
+ * Store the option contracts of an underlying from the Kite instrument dump
+ * @param underlying Underlying symbol (instrument "name" in the dump)
+ * @param instruments NFO-OPT instruments of the underlying
+ * @returns Strike gap of the nearest expiry or null
+ */
+export const storeOptionInstruments = async (underlying: string, instruments: any[]): Promise<number | null> => {
+  const options = instruments.filter(instrument =>
+    instrument.segment === 'NFO-OPT' &&
+    (instrument.instrument_type === 'CE' || instrument.instrument_type === 'PE') &&
+    instrument.expiry
+  );
+
+  if (options.length === 0) {
+    return null;
+  }
+
+  await OptionInstrument.bulkWrite(
+    options.map(instrument => ({
+      updateOne: {
+        filter: { instrumentToken: instrument.instrument_token },
+        update: {
+          $set: {
+            instrumentToken: instrument.instrument_token,
+            exchangeToken: instrument.exchange_token,
+            tradingSymbol: instrument.tradingsymbol,
+            underlying,
+            exchange: instrument.exchange,
+            segment: instrument.segment,
+            instrumentType: instrument.instrument_type,
+            strike: instrument.strike,
+            expiry: new Date(instrument.expiry),
+            lotSize: instrument.lot_size,
+            tickSize: instrument.tick_size || 0.05,
+          },
+        },
+        upsert: true,
+      },
+    })),
+    { ordered: false }
+  );
+
+  // Strike gap from the nearest expiry, where strikes are the densest
+  const nearestExpiry = Math.min(...options.map(instrument => new Date(instrument.expiry).getTime()));
+  const nearestStrikes = options
+    .filter(instrument => new Date(instrument.expiry).getTime() === nearestExpiry)
+    .map(instrument => instrument.strike);
+
+  return calculateStrikeGap(nearestStrikes);
+};
+
+/**
+ * Remove option contracts that have already expired
+ */
+export const removeExpiredContracts = async (): Promise<number> => {
+  const result = await OptionInstrument.deleteMany({ expiry: { $lt: getStartOfDay(new Date()) } });
+  return result.deletedCount || 0;
+};
+
+/**
+ * Pick an expiry from the available expiries
+ * @param expiries Available expiry dates
+ * @param selection Expiry preference and roll-over rule
+ * @param now Current time (optional)
+ * @returns Selected expiry or null if none qualifies
+ */
+export const selectExpiry = (
+  expiries: Date[],
+  selection: Pick<OptionSelection, 'expiry' | 'minDaysToExpiry'>,
+  now: Date = new Date()
+): Date | null => {
+  const today = getStartOfDay(now).getTime();
+
+  const upcoming = expiries
+    .filter(expiry => (getStartOfDay(expiry).getTime() - today) / ONE_DAY_MS >= selection.minDaysToExpiry)
+    .sort((a, b) => a.getTime() - b.getTime());
+
+  if (upcoming.length === 0) {
+    return null;
+  }
+
+  if (selection.expiry === 'WEEKLY') {
+    return upcoming[0] as Date;
+  }
+
+  // Monthly expiry is the last expiry of its calendar month
+  const monthly = upcoming.find(expiry => !upcoming.some(other =>
+    other.getTime() > expiry.getTime() &&
+    other.getMonth() === expiry.getMonth() &&
+    other.getFullYear() === expiry.getFullYear()
+  ));
+
+  return monthly || null;
+};
+
+/**
+ * Resolve the option contract to trade for a signal
+ * @param underlying Underlying symbol
+ * @param spotPrice Current price of the underlying
+ * @param optionType CE or PE
+ * @param selection Expiry preference and strike offset (optional)
+ * @returns Option contract or null if none could be resolved
+ */
+export const resolveOptionContract = async (
+  underlying: string,
+  spotPrice: number,
+  optionType: 'CE' | 'PE',
+  selection: Partial<OptionSelection> = {}
+): Promise<IOptionInstrument | null> => {
+  try {
+    const { expiry, strikeOffset, minDaysToExpiry } = { ...DEFAULT_OPTION_SELECTION, ...selection };
+
+    const expiries: Date[] = await OptionInstrument.distinct('expiry', {
+      underlying,
+      instrumentType: optionType,
+      expiry: { $gte: getStartOfDay(new Date()) },
+    });
+
+    const selectedExpiry = selectExpiry(expiries, { expiry, minDaysToExpiry });
+
+    if (!selectedExpiry) {
+      console.warn(`No option expiry found for ${underlying} ${optionType}.`);
+      return null;
+    }
+
+    const contracts = await OptionInstrument.find({
+      underlying,
+      instrumentType: optionType,
+      expiry: selectedExpiry,
+    }).sort({ strike: 1 });
+
+    if (contracts.length === 0) {
+      return null;
+    }
+
+    // Use the configured strike gap, falling back to the one implied by the chain
+    const stock = await StockUniverse.findOne({ symbol: underlying });
+    const strikeGap = stock?.strikeGap || calculateStrikeGap(contracts.map(contract => contract.strike));
+
+    if (!strikeGap) {
+      return null;
+    }
+
+    // OTM is above ATM for calls and below ATM for puts
+    const atmStrike = Math.round(spotPrice / strikeGap) * strikeGap;
+    const direction = optionType === 'CE' ? 1 : -1;
+    const targetStrike = atmStrike + direction * strikeOffset * strikeGap;
+
+    // Pick the listed strike closest to the target
+    let closest = contracts[0] as IOptionInstrument;
+
+    for (const contract of contracts) {
+      if (Math.abs(contract.strike - targetStrike) < Math.abs(closest.strike - targetStrike)) {
+        closest = contract;
+      }
+    }
+
+    return closest;
+  } catch (error) {
+    console.error(`Error resolving option contract for ${underlying}:`, error);
+    return null;
+  }
+};
+
+/**
+ * Find the nearest-expiry contract for a known strike (used for signals created without a resolved contract)
+ * @param underlying Underlying symbol
+ * @param strike Strike price
+ * @param optionType CE or PE
+ * @returns Option contract or null if not found
+ */
+export const findOptionContract = async (
+  underlying: string,
+  strike: number,
+  optionType: 'CE' | 'PE'
+): Promise<IOptionInstrument | null> => {
+  try {
+    return await OptionInstrument.findOne({
+      underlying,
+      strike,
+      instrumentType: optionType,
+      expiry: { $gte: getStartOfDay(new Date()) },
+    }).sort({ expiry: 1 });
+  } catch (error) {
+    console.error(`Error finding option contract for ${underlying} ${strike} ${optionType}:`, error);
+    return null;
+  }
+};
+
+/**
+ * Get the exchange trading symbol of the option contract for a signal
+ * @param signal Signal with a resolved option contract or an option string like "RELIANCE 2500 CE"
+ * @returns Trading symbol or null if the contract cannot be found
+ */
+export const getSignalTradingSymbol = async (signal: Pick<ISignal, 'option' | 'optionContract'>): Promise<string | null> => {
+  if (signal.optionContract?.tradingSymbol) {
+    return signal.optionContract.tradingSymbol;
+  }
+
+  // Older signals only carry the option string
+  const [underlying, strike, optionType] = String(signal.option || '').split(' ');
+
+  if (!underlying || !strike || (optionType !== 'CE' && optionType !== 'PE')) {
+    return null;
+  }
+
+  const contract = await findOptionContract(underlying, Number(strike), optionType);
+  return contract ? contract.tradingSymbol : null;
+};
+
+export interface OptionLevels {
+  entryPrice: number;
+  stopLoss: number;
+  targetPrice: number;
+  delta: number;
+  source: 'QUOTE' | 'MODEL';
+}
+
+/**
+ * Round a price to the contract's tick size
+ */
+const roundToTick = (price: number, tickSize: number): number => {
+  return Number((Math.round(price / tickSize) * tickSize).toFixed(2));
+};
+
+/**
+ * Derive option premium levels from the underlying's entry, stop loss and target
+ * @param contract Resolved option contract
+ * @param levels Underlying levels
+ * @param premium Live premium of the contract (optional, the theoretical price is used when missing)
+ * @param volatility Annualised volatility used for the delta and theoretical price (optional)
+ * @param now Current time (optional)
+ * @returns Premium levels for the option being bought
+ */
+export const deriveOptionLevels = (
+  contract: Pick<IOptionInstrument, 'strike' | 'expiry' | 'instrumentType' | 'tickSize'>,
+  levels: { entryPrice: number; stopLoss: number; target: number },
+  premium?: number | null,
+  volatility: number = OptionPricing.DEFAULT_VOLATILITY,
+  now: Date = new Date()
+): OptionLevels => {
+  const time = OptionPricing.getTimeToExpiry(contract.expiry, now);
+  const delta = OptionPricing.calculateDelta(levels.entryPrice, contract.strike, time, volatility, contract.instrumentType);
+  const tickSize = contract.tickSize || 0.05;
+
+  const hasQuote = !!premium && premium > 0;
+  const entryPremium = hasQuote
+    ? premium as number
+    : OptionPricing.calculateOptionPrice(levels.entryPrice, contract.strike, time, volatility, contract.instrumentType);
+
+  // The option is always bought, so its premium rises towards the underlying target and falls towards the stop loss
+  const stopLossPremium = entryPremium - Math.abs(delta) * Math.abs(levels.entryPrice - levels.stopLoss);
+  const targetPremium = entryPremium + Math.abs(delta) * Math.abs(levels.target - levels.entryPrice);
+
+  return {
+    entryPrice: roundToTick(entryPremium, tickSize),
+    stopLoss: Math.max(roundToTick(stopLossPremium, tickSize), tickSize),
+    targetPrice: roundToTick(targetPremium, tickSize),
+    delta: Number(delta.toFixed(4)),
+    source: hasQuote ? 'QUOTE' : 'MODEL',
+  };
+};
+
+export interface OptionAnalytics extends OptionPricing.OptionGreeks {
+  premium: number;
+  impliedVolatility: number; // Percentage
+  thetaDecayPercent: number; // Premium lost per day as a percentage of the premium
+}
+
+/**
+ * Calculate implied volatility and Greeks of a contract from its market premium
+ * @param contract Option contract
+ * @param spotPrice Current price of the underlying
+ * @param premium Market premium of the contract
+ * @param now Current time (optional)
+ * @returns Option analytics or null if the premium does not imply a valid volatility
+ */
+export const analyzeOption = (
+  contract: Pick<IOptionInstrument, 'strike' | 'expiry' | 'instrumentType'>,
+  spotPrice: number,
+  premium: number,
+  now: Date = new Date()
+): OptionAnalytics | null => {
+  if (!premium || premium <= 0 || !spotPrice) {
+    return null;
+  }
+
+  const time = OptionPricing.getTimeToExpiry(contract.expiry, now);
+  const volatility = OptionPricing.calculateImpliedVolatility(premium, spotPrice, contract.strike, time, contract.instrumentType);
+
+  if (volatility === null) {
+    return null;
+  }
+
+  const greeks = OptionPricing.calculateGreeks(spotPrice, contract.strike, time, volatility, contract.instrumentType);
+
+  return {
+    premium,
+    impliedVolatility: Number((volatility * 100).toFixed(2)),
+    delta: Number(greeks.delta.toFixed(4)),
+    gamma: Number(greeks.gamma.toFixed(6)),
+    theta: Number(greeks.theta.toFixed(2)),
+    vega: Number(greeks.vega.toFixed(2)),
+    thetaDecayPercent: Number((Math.abs(greeks.theta) / premium * 100).toFixed(2)),
+  };
+};
+
+/**
+ * Get the option chain of an underlying with implied volatility and Greeks from live quotes
+ * @param underlying Underlying symbol
+ * @param strikeCount Number of strikes on each side of ATM (optional)
+ * @param selection Expiry preference (optional)
+ * @returns Option chain or null if the underlying has no market data or contracts
+ */
+export const getOptionChain = async (
+  underlying: string,
+  strikeCount = 10,
+  selection: Partial<Pick<OptionSelection, 'expiry' | 'minDaysToExpiry'>> = {}
+) => {
+  try {
+    const marketData = await getMarketDataModel().findOne({ symbol: underlying });
+
+    if (!marketData) {
+      return null;
+    }
+
+    const spotPrice = marketData.lastPrice;
+
+    const expiries: Date[] = await OptionInstrument.distinct('expiry', {
+      underlying,
+      expiry: { $gte: getStartOfDay(new Date()) },
+    });
+
+    const expiry = selectExpiry(expiries, { ...DEFAULT_OPTION_SELECTION, ...selection });
+
+    if (!expiry) {
+      return null;
+    }
+
+    const contracts = await OptionInstrument.find({ underlying, expiry }).sort({ strike: 1 });
+    const strikes = Array.from(new Set(contracts.map(contract => contract.strike)));
+
+    if (strikes.length === 0) {
+      return null;
+    }
+
+    // Keep the strikes around ATM
+    const atmIndex = strikes.reduce((closest, strike, index) =>
+      Math.abs(strike - spotPrice) < Math.abs((strikes[closest] as number) - spotPrice) ? index : closest, 0);
+    const selectedStrikes = strikes.slice(Math.max(atmIndex - strikeCount, 0), atmIndex + strikeCount + 1);
+    const selectedContracts = contracts.filter(contract => selectedStrikes.includes(contract.strike));
+
+    const quotes = await getMarketDataBroker().getQuotes(selectedContracts);
+
+    const chain = selectedStrikes.map(strike => {
+      const row: { strike: number; CE?: Record<string, unknown>; PE?: Record<string, unknown> } = { strike };
+
+      for (const contract of selectedContracts.filter(item => item.strike === strike)) {
+        const quote = quotes[getInstrumentKey(contract.exchange, contract.tradingSymbol)];
+
+        row[contract.instrumentType] = {
+          tradingSymbol: contract.tradingSymbol,
+          lastPrice: quote?.lastPrice || 0,
+          volume: quote?.volume || 0,
+          openInterest: quote?.openInterest || 0,
+          ...(quote ? analyzeOption(contract, spotPrice, quote.lastPrice) : {}),
+        };
+      }
+
+      return row;
+    });
+
+    const atmStrike = strikes[atmIndex] as number;
+    const atmRow = chain.find(row => row.strike === atmStrike);
+    const atmVolatilities = [atmRow?.CE?.impliedVolatility, atmRow?.PE?.impliedVolatility].filter(Boolean) as number[];
+    const atmImpliedVolatility = atmVolatilities.length > 0
+      ? Number((atmVolatilities.reduce((sum, value) => sum + value, 0) / atmVolatilities.length).toFixed(2))
+      : null;
+
+    if (atmImpliedVolatility !== null) {
+      await StockUniverse.updateOne({ symbol: underlying }, { $set: { 'optionData.impliedVolatility': atmImpliedVolatility } });
+    }
+
+    return {
+      symbol: underlying,
+      spotPrice,
+      expiry,
+      atmStrike,
+      atmImpliedVolatility,
+      chain,
+    };
+  } catch (error) {
+    console.error(`Error building option chain for ${underlying}:`, error);
+    return null;
+  }
+};
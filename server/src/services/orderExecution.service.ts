@@ -1,18 +1,31 @@
-import User from '../models/user.model';
-import Signal from '../models/signal.model';
+import type { HydratedDocument } from 'mongoose';
+import User, { type IUser } from '../models/user.model';
+import Signal, { type ISignal } from '../models/signal.model';
 import Order from '../models/order.model';
 import { DailyAnalytics } from '../models/analytics.model';
-import * as KiteService from './kite.service';
+import { getBrokerForUser } from '../brokers';
+import type { Broker, BrokerOrder } from '../brokers/types';
+import * as OptionChainService from './optionChain.service';
 import * as TelegramService from './telegram.service';
-import { isMarketHours, getStartOfDay } from '../utils/date.util';
+import { sizePositionForUser } from './positionSizing.service';
+import * as OcoManager from './ocoManager.service';
+import * as ExitPlanService from './exitPlan.service';
+import * as OrderUpdates from './orderUpdates.service';
+import { isPastSquareOffTime } from './squareOff.service';
+import * as RiskManager from './riskManager.service';
+import * as ExecutionQuality from './executionQuality.service';
+import { isMarketHours, getStartOfDay, getEndOfDay } from '../utils/date.util';
+import { getCurrentTime } from '../utils/clock.util';
 
 // Configuration
 const MAX_TRADE_ATTEMPTS = 3;
-const ORDER_CHECK_INTERVAL_MS = 5000; // 5 seconds
-const MAX_ORDER_CHECK_ATTEMPTS = 36; // Check for 3 minutes max (36 * 5 seconds)
+const ORDER_EXECUTION_TIMEOUT_MS = 3 * 60 * 1000; // Wait 3 minutes max for an order update
+
+// Users with an execution run in progress, so overlapping runs never trade the same account twice
+const activeUsers = new Set<string>();
 
 /**
- * Process signals and execute trades
+ * Process signals and execute trades for every user with auto-trading enabled
  */
 export const processPendingSignals = async (): Promise<void> => {
   try {
@@ -22,38 +35,41 @@ export const processPendingSignals = async (): Promise<void> => {
       return;
     }
 
-    // Find admin user with auto-trading enabled
-    const adminUser = await User.findOne({
-      role: 'admin',
-      isAutoTradingEnabled: true,
-      zerodhaAccessToken: { $exists: true },
-    });
-
-    if (!adminUser) {
-      console.log('No admin user with auto-trading enabled. Order execution skipped.');
+    // Intraday positions opened after the square-off would be left open
+    if (isPastSquareOffTime()) {
+      console.log('Past square-off time. Order execution skipped.');
       return;
     }
 
-    // Check if we've reached the max trades limit for today
-    const today = new Date();
-    const startOfDay = getStartOfDay(today);
+    // Live auto-trading stays stopped until an admin re-arms the global kill switch, paper accounts are not part of it
+    const isGlobalCircuitBreakerTripped = await RiskManager.isGlobalCircuitBreakerTripped();
 
-    // Changed from const to let to allow modification
-    let ordersToday = await Order.countDocuments({
-      userId: adminUser._id,
-      orderTimestamp: { $gte: startOfDay },
+    if (isGlobalCircuitBreakerTripped) {
+      console.log('Global circuit breaker is tripped. Only paper accounts will trade.');
+    }
+
+    // Find users with auto-trading enabled (paper trading and the mock broker need no Zerodha session)
+    const users = await User.find({
+      isAutoTradingEnabled: true,
+      ...(isGlobalCircuitBreakerTripped && { tradingMode: 'PAPER' }),
+      $or: [
+        { zerodhaAccessToken: { $exists: true } },
+        { tradingMode: 'PAPER' },
+        { broker: 'MOCK' },
+      ],
     });
 
-    if (ordersToday >= adminUser.maxTradesPerDay) {
-      console.log(`Maximum trades for today (${adminUser.maxTradesPerDay}) already executed. Skipping.`);
+    if (users.length === 0) {
+      console.log('No users with auto-trading enabled. Order execution skipped.');
       return;
     }
 
-    // Find pending signals that haven't been executed
+    // Find today's signals; each user trades a signal at most once
+    const now = getCurrentTime();
+    const startOfDay = getStartOfDay(now);
     const pendingSignals = await Signal.find({
-      generatedAt: { $gte: startOfDay },
+      generatedAt: { $gte: startOfDay, $lte: getEndOfDay(now) },
       sentToTelegram: true,
-      executedOrder: false,
     }).sort({ generatedAt: 1 });
 
     if (pendingSignals.length === 0) {
@@ -61,115 +77,184 @@ export const processPendingSignals = async (): Promise<void> => {
       return;
     }
 
-    console.log(`Found ${pendingSignals.length} pending signals to process.`);
+    console.log(`Found ${pendingSignals.length} signals to fan out to ${users.length} users.`);
+
+    // Users run concurrently and independently: one user's broker failure does not block the others
+    const results = await Promise.allSettled(
+      users.map(user => processSignalsForUser(user, pendingSignals, startOfDay))
+    );
+
+    results.forEach((result, index) => {
+      if (result.status === 'rejected') {
+        console.error(`Error executing signals for user ${users[index]?.username}:`, result.reason);
+      }
+    });
+  } catch (error) {
+    console.error('Error processing pending signals:', error);
+    await TelegramService.sendSystemAlert('error', 'Error in order execution process. Check server logs for details.');
+  }
+};
+
+/**
+ * Execute pending signals for one user within their daily trade limit
+ */
+const processSignalsForUser = async (
+  user: HydratedDocument<IUser>,
+  signals: HydratedDocument<ISignal>[],
+  startOfDay: Date
+): Promise<void> => {
+  const userId = user.id;
+
+  if (activeUsers.has(userId)) {
+    console.log(`[${user.username}] Previous execution run still in progress. Skipping.`);
+    return;
+  }
+
+  if (user.circuitBreaker?.isTripped) {
+    console.log(`[${user.username}] Circuit breaker is tripped. Skipping.`);
+    return;
+  }
+
+  activeUsers.add(userId);
+
+  try {
+    const isPaper = user.tradingMode === 'PAPER';
+
+    // Check if we've reached the max trades limit for today
+    let ordersToday = await Order.countDocuments({
+      userId: user._id,
+      orderTimestamp: { $gte: startOfDay },
+      isPaper,
+    });
+
+    if (ordersToday >= user.maxTradesPerDay) {
+      console.log(`[${user.username}] Maximum trades for today (${user.maxTradesPerDay}) already executed. Skipping.`);
+      return;
+    }
+
+    // Skip signals this user already has an order for
+    const tradedSignalIds = await Order.distinct('signalId', {
+      userId: user._id,
+      signalId: { $in: signals.map(signal => signal._id) },
+    });
+    const traded = new Set(tradedSignalIds.map(id => id.toString()));
 
-    // Execute each signal
-    for (const signal of pendingSignals) {
-      if (ordersToday >= adminUser.maxTradesPerDay) {
+    for (const signal of signals) {
+      if (ordersToday >= user.maxTradesPerDay) {
         break;
       }
 
+      if (traded.has(signal.id)) {
+        continue;
+      }
+
       // Execute the order for this signal
-      const executionResult = await executeOrder(signal, adminUser);
+      const executionResult = await executeOrder(signal, user);
 
-      if (executionResult.success) {
-        // Update count if order was executed
-        if (executionResult.orderExecuted) {
-          ordersToday++;
-        }
+      // Update count if order was executed
+      if (executionResult.success && executionResult.orderExecuted) {
+        ordersToday++;
       }
     }
-  } catch (error) {
-    console.error('Error processing pending signals:', error);
-    await TelegramService.sendSystemAlert('error', 'Error in order execution process. Check server logs for details.');
+  } finally {
+    activeUsers.delete(userId);
   }
 };
 
 /**
  * Execute an order for a signal
  */
-const executeOrder = async (signal: any, user: any): Promise<{ success: boolean; orderExecuted: boolean }> => {
+const executeOrder = async (signal: any, user: HydratedDocument<IUser>): Promise<{ success: boolean; orderExecuted: boolean }> => {
   try {
-    console.log(`Processing signal for ${signal.stock} (${signal.option})`);
+    const isPaper = user.tradingMode === 'PAPER';
+    const broker = getBrokerForUser(user);
+    const modeLabel = isPaper ? 'Paper order' : 'Order';
 
-    // Get the current price of the option
-    const optionParts = signal.option.split(' ');
-    if (optionParts.length < 3) {
-      console.error(`Invalid option format for signal ${signal._id}: ${signal.option}`);
+    console.log(`[${user.username}] Processing signal for ${signal.stock} (${signal.option})${isPaper ? ' [PAPER]' : ''}`);
+
+    // Resolve the exchange trading symbol of the option contract
+    const tradingSymbol = await OptionChainService.getSignalTradingSymbol(signal);
+    if (!tradingSymbol) {
+      console.error(`No option contract found for signal ${signal._id}: ${signal.option}`);
       return { success: false, orderExecuted: false };
     }
 
-    const symbol = optionParts[0];
-    const strikePrice = optionParts[1];
-    const optionType = optionParts[2];
-
-    // Construct the trading symbol for options (NFO exchange format)
-    // This is an approximation; actual format may vary by broker
-    const tradingSymbol = `${symbol}${getExpiryCode()}${strikePrice}${optionType}`;
+    // Older signals without a stored contract are NSE F&O options
+    const exchange: string = signal.optionContract?.exchange || 'NFO';
 
     // Get current market price
-    const quote = await KiteService.getQuote('NFO', tradingSymbol);
+    const quote = await broker.getQuote(exchange, tradingSymbol);
     if (!quote) {
       console.error(`Failed to get quote for ${tradingSymbol}`);
       return { success: false, orderExecuted: false };
     }
 
-    const currentPrice = quote.last_price || 0;
+    const currentPrice = quote.lastPrice || 0;
+    const levels = getOptionLevels(signal);
 
     // Check if current price is within our buy range
-    if (currentPrice < signal.entryPrice * 0.95 || currentPrice > signal.entryPrice * 1.05) {
+    if (currentPrice < levels.entryPrice * 0.95 || currentPrice > levels.entryPrice * 1.05) {
       console.log(`Current price (${currentPrice}) is outside our buy range for ${signal.option}. Skipping.`);
       return { success: true, orderExecuted: false };
     }
 
-    // Calculate quantity based on max capital per trade
-    const quantity = Math.floor(user.maxCapitalPerTrade / currentPrice);
+    // Size the position in whole lots with the user's sizing mode
+    const position = await sizePositionForUser(user, signal, currentPrice, levels.stopLoss);
 
-    if (quantity <= 0) {
-      console.log(`Calculated quantity is zero for ${signal.option} at price ${currentPrice}. Skipping.`);
+    if (!position) {
+      return { success: false, orderExecuted: false };
+    }
+
+    if (position.lots <= 0) {
+      console.log(`Position size is zero for ${signal.option} at price ${currentPrice} (${position.reason}). Skipping.`);
+      return { success: true, orderExecuted: false };
+    }
+
+    const { quantity } = position;
+    const sizeLabel = `${position.lots} lot${position.lots > 1 ? 's' : ''} (${quantity} qty)`;
+
+    // Daily loss, position and exposure limits of the account
+    const riskCheck = await RiskManager.checkBeforeOrder(user, { underlying: signal.stock, amount: currentPrice * quantity });
+
+    if (!riskCheck.allowed) {
+      console.log(`[${user.username}] Order for ${signal.option} blocked by the circuit breaker: ${riskCheck.message}`);
       return { success: true, orderExecuted: false };
     }
 
     // Place the order
-    const orderResponse = await KiteService.placeOrder(
-      user._id.toString(),
-      'NFO',
+    const execution = ExecutionQuality.startExecutionRecord(signal, levels.entryPrice, currentPrice);
+    const orderResponse = await broker.placeOrder(user.id, {
+      exchange,
       tradingSymbol,
-      'BUY',
+      transactionType: 'BUY',
       quantity,
-      null, // Market order
-      'MIS', // Intraday
-      'MARKET', // Order type
-      'DAY', // Validity
-      0, // Disclosed quantity
-      0, // Trigger price
-      null, // Squareoff
-      null, // Stoploss
-      null, // Trailing stoploss
-      `AUTO_${signal._id}` // Tag
-    );
+      orderType: 'MARKET',
+      product: 'MIS', // Intraday
+      validity: 'DAY',
+      tag: `AUTO_${signal._id}`,
+    });
 
-    if (!orderResponse || !orderResponse.order_id) {
+    if (!orderResponse) {
       console.error(`Failed to place order for ${signal.option}`);
       await TelegramService.sendOrderUpdate(
         signal,
         false,
-        `Failed to place order for ${quantity} shares at market price. Error: ${orderResponse?.message || 'Unknown error'}`
+        `${user.username}: failed to place ${modeLabel.toLowerCase()} for ${sizeLabel} at market price.`
       );
       return { success: false, orderExecuted: false };
     }
 
     // Order placed successfully
-    console.log(`Order placed successfully for ${signal.option}. Order ID: ${orderResponse.order_id}`);
+    console.log(`${modeLabel} placed successfully for ${signal.option}. Order ID: ${orderResponse.orderId}`);
 
     // Create an order record
     const order = new Order({
       signalId: signal._id,
       userId: user._id,
-      kiteOrderId: orderResponse.order_id,
+      kiteOrderId: orderResponse.orderId,
       status: 'OPEN',
       transactionType: 'BUY',
-      exchange: 'NFO',
+      exchange,
       tradingSymbol,
       quantity,
       product: 'MIS',
@@ -178,20 +263,23 @@ const executeOrder = async (signal: any, user: any): Promise<{ success: boolean;
       validity: 'DAY',
       filledQuantity: 0,
       pendingQuantity: quantity,
-      orderTimestamp: new Date(),
+      orderTimestamp: getCurrentTime(),
       cancelledQuantity: 0,
+      broker: broker.name,
+      isPaper,
+      execution,
     });
 
     await order.save();
 
     // Wait for order execution
-    const orderStatus = await waitForOrderExecution(orderResponse.order_id, user._id.toString());
+    const orderStatus = await waitForOrderExecution(broker, orderResponse.orderId, user.id);
 
     if (!orderStatus.executed) {
       await TelegramService.sendOrderUpdate(
         signal,
         false,
-        `Order was placed but execution failed or timed out. Status: ${orderStatus.status}`
+        `${user.username}: ${modeLabel.toLowerCase()} was placed but execution failed or timed out. Status: ${orderStatus.status}`
       );
       return { success: true, orderExecuted: false };
     }
@@ -200,21 +288,23 @@ const executeOrder = async (signal: any, user: any): Promise<{ success: boolean;
     await TelegramService.sendOrderUpdate(
       signal,
       true,
-      `Order executed successfully for ${quantity} shares at price ₹${orderStatus.averagePrice.toFixed(2)}.`
+      `${user.username}: ${modeLabel.toLowerCase()} executed successfully for ${sizeLabel} at price ₹${orderStatus.averagePrice.toFixed(2)}.`
     );
 
-    // Update signal as executed
-    signal.executedOrder = true;
-    signal.executedAt = new Date();
-    signal.orderStatus = 'EXECUTED';
-    signal.orderDetails = {
-      orderId: orderResponse.order_id,
-      orderPrice: orderStatus.averagePrice,
-      quantity,
-      filledQuantity: orderStatus.filledQuantity,
-      status: orderStatus.status,
-    };
-    await signal.save();
+    // Update signal as executed (the first execution across users is recorded on the signal)
+    if (!signal.executedOrder) {
+      signal.executedOrder = true;
+      signal.executedAt = getCurrentTime();
+      signal.orderStatus = 'EXECUTED';
+      signal.orderDetails = {
+        orderId: orderResponse.orderId,
+        orderPrice: orderStatus.averagePrice,
+        quantity,
+        filledQuantity: orderStatus.filledQuantity,
+        status: orderStatus.status,
+      };
+      await signal.save();
+    }
 
     // Update order with execution details
     order.status = 'COMPLETE';
@@ -222,13 +312,22 @@ const executeOrder = async (signal: any, user: any): Promise<{ success: boolean;
     order.pendingQuantity = 0;
     order.averagePrice = orderStatus.averagePrice;
     order.exchangeTimestamp = orderStatus.exchangeTimestamp;
+    ExecutionQuality.recordEntryFill(order);
     await order.save();
 
-    // Place stop loss and target orders
-    await placeStopLossAndTargetOrders(signal, order, user);
+    // Place stop loss and target(s) of the strategy's exit plan as one-cancels-other exits
+    const exitPlan = await ExitPlanService.getExitPlanForSignal(signal);
+    if (exitPlan) {
+      order.exitPlan = exitPlan;
+    }
+    const target1 = ExitPlanService.getTarget1(exitPlan, orderStatus.averagePrice, levels, orderStatus.filledQuantity, position.lotSize);
+    await OcoManager.placeOcoExits(broker, order, levels, signal.id, target1);
+
+    // The fill may take the account over its position or exposure limits
+    await RiskManager.evaluateAfterFill(user.id);
 
     // Update analytics
-    await updateDailyAnalytics(signal);
+    await updateDailyAnalytics(isPaper);
 
     return { success: true, orderExecuted: true };
   } catch (error) {
@@ -236,173 +335,82 @@ const executeOrder = async (signal: any, user: any): Promise<{ success: boolean;
     await TelegramService.sendOrderUpdate(
       signal,
       false,
-      `Error executing order: ${error.message || 'Unknown error'}`
+      `Error executing order: ${error instanceof Error ? error.message : String(error)}`
     );
     return { success: false, orderExecuted: false };
   }
 };
 
 /**
- * Wait for an order to be executed
+ * Get the premium levels to trade a signal's option at
+ * Signals created before premium levels were derived only carry underlying levels
  */
-const waitForOrderExecution = async (
-  orderId: string,
-  userId: string
-): Promise<{ executed: boolean; status: string; averagePrice: number; filledQuantity: number; exchangeTimestamp: Date }> => {
-  let attempts = 0;
-
-  while (attempts < MAX_ORDER_CHECK_ATTEMPTS) {
-    attempts++;
-
-    try {
-      // Get order history
-      const orderHistory = await KiteService.getOrderHistory(userId, orderId);
-
-      if (!orderHistory || orderHistory.length === 0) {
-        await new Promise(resolve => setTimeout(resolve, ORDER_CHECK_INTERVAL_MS));
-        continue;
-      }
-
-      const latestOrder = orderHistory[orderHistory.length - 1];
-
-      if (latestOrder.status === 'COMPLETE') {
-        return {
-          executed: true,
-          status: 'COMPLETE',
-          averagePrice: latestOrder.average_price || 0,
-          filledQuantity: latestOrder.filled_quantity || 0,
-          exchangeTimestamp: new Date(latestOrder.exchange_timestamp || Date.now()),
-        };
-      } else if (latestOrder.status === 'REJECTED' || latestOrder.status === 'CANCELLED') {
-        return {
-          executed: false,
-          status: latestOrder.status,
-          averagePrice: 0,
-          filledQuantity: 0,
-          exchangeTimestamp: new Date(),
-        };
-      }
-
-      // Order still in progress, wait and check again
-      await new Promise(resolve => setTimeout(resolve, ORDER_CHECK_INTERVAL_MS));
-    } catch (error) {
-      console.error(`Error checking order status for ${orderId}:`, error);
-      await new Promise(resolve => setTimeout(resolve, ORDER_CHECK_INTERVAL_MS));
-    }
-  }
-
-  // Max attempts reached, consider the order as not executed
-  return {
-    executed: false,
-    status: 'TIMEOUT',
-    averagePrice: 0,
-    filledQuantity: 0,
-    exchangeTimestamp: new Date(),
+const getOptionLevels = (signal: any): { entryPrice: number; stopLoss: number; targetPrice: number } => {
+  return signal.optionLevels?.entryPrice ? signal.optionLevels : {
+    entryPrice: signal.entryPrice,
+    stopLoss: signal.stopLoss,
+    targetPrice: signal.targetPrice,
   };
 };
 
 /**
- * Place stop loss and target orders
+ * Wait for an order to be executed
+ * Resolved by the broker's order update stream, the broker is only asked directly on timeout
  */
-const placeStopLossAndTargetOrders = async (signal: any, order: any, user: any): Promise<void> => {
+const waitForOrderExecution = async (
+  broker: Broker,
+  orderId: string,
+  userId: string
+): Promise<{ executed: boolean; status: string; averagePrice: number; filledQuantity: number; exchangeTimestamp: Date }> => {
   try {
-    // Place stop loss order
-    const stopLossOrder = await KiteService.placeOrder(
-      user._id.toString(),
-      'NFO',
-      order.tradingSymbol,
-      'SELL',
-      order.filledQuantity,
-      null, // Market price
-      'MIS', // Intraday
-      'SL-M', // Stop loss market order
-      'DAY', // Validity
-      0, // Disclosed quantity
-      signal.stopLoss, // Trigger price
-      null, // Squareoff
-      null, // Stoploss
-      null, // Trailing stoploss
-      `SL_${signal._id}` // Tag
-    );
-
-    if (stopLossOrder && stopLossOrder.order_id) {
-      console.log(`Stop loss order placed for ${signal.option}. Order ID: ${stopLossOrder.order_id}`);
-
-      // Update order with SL details
-      order.stopLossOrder = {
-        orderId: stopLossOrder.order_id,
-        triggerPrice: signal.stopLoss,
-        status: 'OPEN',
+    const latestOrder = await OrderUpdates.waitForFinalOrderState(broker, userId, orderId, ORDER_EXECUTION_TIMEOUT_MS);
+
+    if (latestOrder?.status === 'COMPLETE') {
+      return {
+        executed: true,
+        status: 'COMPLETE',
+        averagePrice: latestOrder.averagePrice,
+        filledQuantity: latestOrder.filledQuantity,
+        exchangeTimestamp: latestOrder.exchangeTimestamp || getCurrentTime(),
       };
-      await order.save();
-    } else {
-      console.error(`Failed to place stop loss order for ${signal.option}`);
     }
 
-    // Place target order
-    const targetOrder = await KiteService.placeOrder(
-      user._id.toString(),
-      'NFO',
-      order.tradingSymbol,
-      'SELL',
-      order.filledQuantity,
-      signal.targetPrice, // Limit price
-      'MIS', // Intraday
-      'LIMIT', // Limit order
-      'DAY', // Validity
-      0, // Disclosed quantity
-      0, // Trigger price
-      null, // Squareoff
-      null, // Stoploss
-      null, // Trailing stoploss
-      `TARGET_${signal._id}` // Tag
-    );
-
-    if (targetOrder && targetOrder.order_id) {
-      console.log(`Target order placed for ${signal.option}. Order ID: ${targetOrder.order_id}`);
-
-      // Update order with target details
-      order.targetOrder = {
-        orderId: targetOrder.order_id,
-        price: signal.targetPrice,
-        status: 'OPEN',
-      };
-      await order.save();
-    } else {
-      console.error(`Failed to place target order for ${signal.option}`);
-    }
+    return {
+      executed: false,
+      status: latestOrder?.status === 'REJECTED' || latestOrder?.status === 'CANCELLED' ? latestOrder.status : 'TIMEOUT',
+      averagePrice: 0,
+      filledQuantity: 0,
+      exchangeTimestamp: getCurrentTime(),
+    };
   } catch (error) {
-    console.error(`Error placing stop loss and target orders for ${signal.option}:`, error);
+    console.error(`Error waiting for order ${orderId}:`, error);
+    return {
+      executed: false,
+      status: 'TIMEOUT',
+      averagePrice: 0,
+      filledQuantity: 0,
+      exchangeTimestamp: getCurrentTime(),
+    };
   }
 };
 
-/**
- * Get expiry code for option symbol
- * This is a simplified version and will need to be adapted to the actual broker's format
- */
-const getExpiryCode = (): string => {
-  const now = new Date();
-  const year = now.getFullYear().toString().slice(-2);
-  const month = (now.getMonth() + 1).toString().padStart(2, '0');
-
-  // In reality, you'd need to calculate the actual expiry date
-  // This is just a placeholder
-  return `${month}${year}`;
-};
-
 /**
  * Update daily analytics with new execution
  */
-const updateDailyAnalytics = async (signal: any): Promise<void> => {
+const updateDailyAnalytics = async (isPaper: boolean): Promise<void> => {
   try {
-    const today = new Date();
+    const today = getCurrentTime();
     const startOfDay = getStartOfDay(today);
 
     // Find or create today's analytics
     const dailyAnalytics = await DailyAnalytics.findOne({ date: startOfDay });
 
     if (dailyAnalytics) {
-      dailyAnalytics.executedOrders += 1;
+      if (isPaper) {
+        dailyAnalytics.paper.executedOrders += 1;
+      } else {
+        dailyAnalytics.executedOrders += 1;
+      }
       await dailyAnalytics.save();
     }
   } catch (error) {
@@ -422,12 +430,13 @@ export const checkCompletedOrders = async (): Promise<void> => {
 
     console.log('Checking for completed orders...');
 
-    // Find open orders with stop loss or target
+    // Find filled orders with open exits
     const openOrders = await Order.find({
       status: 'COMPLETE',
       $or: [
         { 'stopLossOrder.status': 'OPEN' },
         { 'targetOrder.status': 'OPEN' },
+        { 'ocoTrigger.status': 'ACTIVE' },
       ],
     });
 
@@ -437,48 +446,13 @@ export const checkCompletedOrders = async (): Promise<void> => {
 
     console.log(`Found ${openOrders.length} open orders to check.`);
 
-    // Check each order
+    // Exits are normally resolved on order updates and ticks, this catches anything missed
     for (const order of openOrders) {
-      // Find the user
-      const user = await User.findById(order.userId);
-
-      if (!user) {
-        continue;
-      }
-
-      // Check stop loss order
-      if (order.stopLossOrder && order.stopLossOrder.status === 'OPEN') {
-        const slOrderHistory = await KiteService.getOrderHistory(user._id.toString(), order.stopLossOrder.orderId);
-
-        if (slOrderHistory && slOrderHistory.length > 0) {
-          const latestSL = slOrderHistory[slOrderHistory.length - 1];
-
-          if (latestSL.status === 'COMPLETE') {
-            await handleOrderCompletion(order, 'SL_HIT', latestSL);
-            continue; // Skip checking target if SL hit
-          } else if (latestSL.status === 'REJECTED' || latestSL.status === 'CANCELLED') {
-            order.stopLossOrder.status = latestSL.status;
-            await order.save();
-          }
-        }
-      }
-
-      // Check target order
-      if (order.targetOrder && order.targetOrder.status === 'OPEN') {
-        const targetOrderHistory = await KiteService.getOrderHistory(user._id.toString(), order.targetOrder.orderId);
-
-        if (targetOrderHistory && targetOrderHistory.length > 0) {
-          const latestTarget = targetOrderHistory[targetOrderHistory.length - 1];
-
-          if (latestTarget.status === 'COMPLETE') {
-            await handleOrderCompletion(order, 'TARGET_HIT', latestTarget);
-          } else if (latestTarget.status === 'REJECTED' || latestTarget.status === 'CANCELLED') {
-            order.targetOrder.status = latestTarget.status;
-            await order.save();
-          }
-        }
-      }
+      await OcoManager.reconcileOrder(order);
     }
+
+    // Trail stop losses of positions whose exit plan trails
+    await ExitPlanService.updateTrailingStops();
   } catch (error) {
     console.error('Error checking completed orders:', error);
   }
@@ -487,7 +461,7 @@ export const checkCompletedOrders = async (): Promise<void> => {
 /**
  * Handle completion of a trade (either SL hit or target hit)
  */
-const handleOrderCompletion = async (order: any, exitReason: 'SL_HIT' | 'TARGET_HIT' | 'MANUAL_EXIT' | 'MARKET_CLOSE', orderDetails: any): Promise<void> => {
+export const handleOrderCompletion = async (order: any, exitReason: 'SL_HIT' | 'TARGET_HIT' | 'MANUAL_EXIT' | 'MARKET_CLOSE', orderDetails: BrokerOrder): Promise<void> => {
   try {
     // Find the signal
     const signal = await Signal.findById(order.signalId);
@@ -496,60 +470,71 @@ const handleOrderCompletion = async (order: any, exitReason: 'SL_HIT' | 'TARGET_
       return;
     }
 
-    // Update the order
-    if (exitReason === 'SL_HIT') {
+    // Update the exit leg, the OCO manager has already cancelled its sibling
+    if (exitReason === 'SL_HIT' && order.stopLossOrder) {
       order.stopLossOrder.status = 'COMPLETE';
-
-      // Cancel the target order
-      if (order.targetOrder && order.targetOrder.status === 'OPEN') {
-        const user = await User.findById(order.userId);
-
-        if (user) {
-          await KiteService.cancelOrder(user._id.toString(), order.targetOrder.orderId);
-          order.targetOrder.status = 'CANCELLED';
-        }
-      }
-    } else if (exitReason === 'TARGET_HIT') {
+    } else if (exitReason === 'TARGET_HIT' && order.targetOrder) {
       order.targetOrder.status = 'COMPLETE';
-
-      // Cancel the SL order
-      if (order.stopLossOrder && order.stopLossOrder.status === 'OPEN') {
-        const user = await User.findById(order.userId);
-
-        if (user) {
-          await KiteService.cancelOrder(user._id.toString(), order.stopLossOrder.orderId);
-          order.stopLossOrder.status = 'CANCELLED';
-        }
-      }
     }
 
     await order.save();
 
     // Calculate P&L
-    const entryPrice = order.averagePrice || signal.entryPrice;
-    const exitPrice = orderDetails.average_price || (exitReason === 'SL_HIT' ? signal.stopLoss : signal.targetPrice);
-    const quantity = order.filledQuantity;
+    const levels = getOptionLevels(signal);
+    const entryPrice = order.averagePrice || levels.entryPrice;
+    const finalExitPrice = orderDetails.averagePrice || (exitReason === 'SL_HIT' ? levels.stopLoss : levels.targetPrice);
 
+    // Quantity booked at target 1 of the exit plan has its own P&L
+    const partialExits: Array<{ quantity: number; price: number; profitLoss: number }> = order.partialExits || [];
+    const bookedQuantity = partialExits.reduce((sum, exit) => sum + exit.quantity, 0);
+    const quantity = order.filledQuantity - bookedQuantity;
+
+    // Options are always bought (CE for BUY signals, PE for SELL signals), so the position is long the option
     // For BUY orders, P&L = (exit_price - entry_price) * quantity
     // For SELL orders, P&L = (entry_price - exit_price) * quantity
-    const profitLoss = signal.type === 'BUY'
-      ? (exitPrice - entryPrice) * quantity
-      : (entryPrice - exitPrice) * quantity;
+    const profitLoss = partialExits.reduce((sum, exit) => sum + exit.profitLoss, 0) + (order.transactionType === 'BUY'
+      ? (finalExitPrice - entryPrice) * quantity
+      : (entryPrice - finalExitPrice) * quantity);
+
+    // Exit price of the whole position, weighted by quantity
+    const exitPrice = order.filledQuantity > 0
+      ? (partialExits.reduce((sum, exit) => sum + exit.price * exit.quantity, 0) + finalExitPrice * quantity) / order.filledQuantity
+      : finalExitPrice;
+
+    if (exitReason === 'SL_HIT') {
+      ExecutionQuality.recordStopLossFill(order, orderDetails.averagePrice);
+    }
 
-    // Update the signal
-    signal.profitLoss = profitLoss;
-    signal.exitPrice = exitPrice;
-    signal.exitAt = new Date(orderDetails.exchange_timestamp || Date.now());
-    signal.exitReason = exitReason;
-    await signal.save();
+    // Record the exit on the order, every user's trade has its own P&L
+    order.exitPrice = exitPrice;
+    order.exitAt = orderDetails.exchangeTimestamp || getCurrentTime();
+    order.exitReason = exitReason;
+    order.profitLoss = profitLoss;
+    await order.save();
+
+    // The first exit across users is recorded on the signal
+    const isFirstExit = !signal.exitReason;
+
+    if (isFirstExit) {
+      signal.profitLoss = profitLoss;
+      signal.exitPrice = exitPrice;
+      signal.exitAt = order.exitAt;
+      signal.exitReason = exitReason;
+      await signal.save();
+    }
 
     // Update analytics
-    await updateAnalyticsOnCompletion(signal, profitLoss, exitReason);
+    await updateAnalyticsOnCompletion(signal, order, exitReason);
 
     // Send notification
-    await TelegramService.sendPnLUpdate(signal, exitReason);
+    if (isFirstExit) {
+      await TelegramService.sendPnLUpdate(signal, exitReason);
+    }
 
-    console.log(`Trade completed for ${signal.option}. P&L: ${profitLoss}. Reason: ${exitReason}`);
+    // A losing exit may breach the daily loss limits
+    await RiskManager.evaluateAfterFill(order.userId.toString());
+
+    console.log(`Trade completed for ${signal.option} (user ${order.userId}). P&L: ${profitLoss}. Reason: ${exitReason}`);
   } catch (error) {
     console.error('Error handling order completion:', error);
   }
@@ -558,9 +543,9 @@ const handleOrderCompletion = async (order: any, exitReason: 'SL_HIT' | 'TARGET_
 /**
  * Update analytics when a trade is completed
  */
-const updateAnalyticsOnCompletion = async (signal: any, profitLoss: number, exitReason: string): Promise<void> => {
+const updateAnalyticsOnCompletion = async (signal: any, order: any, exitReason: string): Promise<void> => {
   try {
-    const today = new Date();
+    const today = getCurrentTime();
     const startOfDay = getStartOfDay(today);
 
     // Find today's analytics
@@ -570,6 +555,41 @@ const updateAnalyticsOnCompletion = async (signal: any, profitLoss: number, exit
       return;
     }
 
+    // Update trade details (prices are option premiums)
+    const profitLoss: number = order.profitLoss;
+    const entryPrice = order.averagePrice || getOptionLevels(signal).entryPrice;
+    const enteredAt: Date = order.exchangeTimestamp || order.orderTimestamp;
+    const tradeDetail = {
+      signalId: signal._id,
+      stock: signal.stock,
+      type: signal.type,
+      entryPrice,
+      exitPrice: order.exitPrice,
+      profitLoss,
+      profitLossPercentage: (profitLoss / (entryPrice * order.filledQuantity)) * 100,
+      duration: order.exitAt && enteredAt
+        ? Math.floor((order.exitAt.getTime() - enteredAt.getTime()) / (1000 * 60))
+        : 0,
+    };
+
+    // Paper trades only feed the paper section
+    if (order.isPaper) {
+      const paper = dailyAnalytics.paper;
+
+      if (profitLoss > 0) {
+        paper.successfulTrades += 1;
+      } else {
+        paper.failedTrades += 1;
+      }
+
+      paper.profitLoss += profitLoss;
+      paper.winRate = (paper.successfulTrades / (paper.successfulTrades + paper.failedTrades)) * 100;
+      paper.tradeDetails.push(tradeDetail);
+
+      await dailyAnalytics.save();
+      return;
+    }
+
     // Update analytics
     if (profitLoss > 0) {
       dailyAnalytics.successfulTrades += 1;
@@ -598,20 +618,6 @@ const updateAnalyticsOnCompletion = async (signal: any, profitLoss: number, exit
     const totalTrades = dailyAnalytics.successfulTrades + dailyAnalytics.failedTrades;
     dailyAnalytics.winRate = (dailyAnalytics.successfulTrades / totalTrades) * 100;
 
-    // Update trade details
-    const tradeDetail = {
-      signalId: signal._id,
-      stock: signal.stock,
-      type: signal.type,
-      entryPrice: signal.entryPrice,
-      exitPrice: signal.exitPrice,
-      profitLoss,
-      profitLossPercentage: (profitLoss / (signal.entryPrice * signal.orderDetails.quantity)) * 100,
-      duration: signal.exitAt && signal.executedAt
-        ? Math.floor((signal.exitAt.getTime() - signal.executedAt.getTime()) / (1000 * 60))
-        : 0,
-    };
-
     dailyAnalytics.tradeDetails.push(tradeDetail);
 
     await dailyAnalytics.save();
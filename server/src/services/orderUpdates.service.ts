@@ -0,0 +1,186 @@
+import Order from '../models/order.model';
+import Signal from '../models/signal.model';
+import { getBrokers } from '../brokers';
+import type { Broker, BrokerOrder } from '../brokers/types';
+import * as ExecutionQuality from './executionQuality.service';
+
+/**
+ * Order state driven by broker order updates (Kite WebSocket order_update
+ * events and postbacks, simulated fills of the paper and mock brokers).
+ * Updates are written to the Order and Signal documents as they arrive and
+ * resolve anyone waiting for an order to reach a final state.
+ */
+
+interface PendingWait {
+  resolve: (order: BrokerOrder | null) => void;
+  timer: NodeJS.Timeout;
+}
+
+// Keep final updates for a while in case they arrive before the wait is registered
+const FINAL_UPDATE_TTL_MS = 10 * 60 * 1000;
+
+const pendingWaits = new Map<string, PendingWait[]>();
+const finalUpdates = new Map<string, { order: BrokerOrder; receivedAt: number }>();
+let isStarted = false;
+
+const isFinalStatus = (status: BrokerOrder['status']): boolean =>
+  status === 'COMPLETE' || status === 'REJECTED' || status === 'CANCELLED';
+
+/**
+ * Map a broker order status to the Order document status
+ */
+const toOrderStatus = (status: BrokerOrder['status']): 'OPEN' | 'COMPLETE' | 'CANCELLED' | 'REJECTED' => {
+  return status === 'TRIGGER_PENDING' ? 'OPEN' : status;
+};
+
+/**
+ * Write an order update to the Order and Signal documents
+ * @param update Latest state of the order
+ */
+export const persistOrderUpdate = async (update: BrokerOrder): Promise<void> => {
+  try {
+    const order = await Order.findOne({ kiteOrderId: update.orderId });
+
+    // Exit legs are tracked on their entry order by the OCO manager
+    if (!order) {
+      return;
+    }
+
+    order.status = toOrderStatus(update.status);
+    order.filledQuantity = update.filledQuantity;
+    order.pendingQuantity = update.pendingQuantity;
+    order.cancelledQuantity = update.cancelledQuantity;
+    if (update.averagePrice) order.averagePrice = update.averagePrice;
+    if (update.exchangeTimestamp) order.exchangeTimestamp = update.exchangeTimestamp;
+    if (update.statusMessage) order.statusMessage = update.statusMessage;
+    if (order.status === 'COMPLETE') ExecutionQuality.recordEntryFill(order);
+    await order.save();
+
+    // The signal records the first execution across users
+    const signal = await Signal.findById(order.signalId);
+
+    if (!signal || signal.orderDetails?.orderId !== update.orderId) {
+      return;
+    }
+
+    signal.orderDetails.status = update.status;
+    signal.orderDetails.filledQuantity = update.filledQuantity;
+    if (update.averagePrice) signal.orderDetails.orderPrice = update.averagePrice;
+    if (update.statusMessage) signal.orderDetails.statusMessage = update.statusMessage;
+
+    if (update.status === 'COMPLETE') {
+      signal.orderStatus = 'EXECUTED';
+    } else if (update.status === 'REJECTED' || update.status === 'CANCELLED') {
+      signal.orderStatus = update.status;
+    }
+
+    await signal.save();
+  } catch (error) {
+    console.error(`Error saving order update for ${update.orderId}:`, error);
+  }
+};
+
+/**
+ * Handle an order update from a broker
+ * @param update Latest state of the order
+ */
+export const handleOrderUpdate = (update: BrokerOrder): void => {
+  if (isFinalStatus(update.status)) {
+    finalUpdates.set(update.orderId, { order: update, receivedAt: Date.now() });
+
+    const waits = pendingWaits.get(update.orderId) || [];
+    pendingWaits.delete(update.orderId);
+
+    for (const wait of waits) {
+      clearTimeout(wait.timer);
+      wait.resolve(update);
+    }
+  }
+
+  persistOrderUpdate(update);
+};
+
+/**
+ * Wait until an order is filled, rejected or cancelled
+ * @param broker Broker the order was placed with
+ * @param userId User who placed the order
+ * @param orderId Broker order ID
+ * @param timeoutMs Time to wait for an update before checking with the broker once
+ * @returns Final state of the order, or its latest known state on timeout (null if unknown)
+ */
+export const waitForFinalOrderState = async (
+  broker: Broker,
+  userId: string,
+  orderId: string,
+  timeoutMs: number
+): Promise<BrokerOrder | null> => {
+  startOrderUpdates();
+
+  const known = finalUpdates.get(orderId);
+
+  if (known) {
+    return known.order;
+  }
+
+  const update = await new Promise<BrokerOrder | null>(resolve => {
+    const wait: PendingWait = {
+      resolve,
+      timer: setTimeout(() => {
+        const waits = (pendingWaits.get(orderId) || []).filter(pending => pending !== wait);
+
+        if (waits.length > 0) {
+          pendingWaits.set(orderId, waits);
+        } else {
+          pendingWaits.delete(orderId);
+        }
+
+        resolve(null);
+      }, timeoutMs),
+    };
+
+    pendingWaits.set(orderId, [...(pendingWaits.get(orderId) || []), wait]);
+  });
+
+  if (update) {
+    return update;
+  }
+
+  // No update arrived (e.g. no postback configured), ask the broker once
+  const history = await broker.getOrderHistory(userId, orderId);
+  return history?.[history.length - 1] || null;
+};
+
+/**
+ * Listen to the order updates of every broker
+ */
+export const startOrderUpdates = (): void => {
+  if (isStarted) {
+    return;
+  }
+  isStarted = true;
+
+  for (const broker of getBrokers()) {
+    broker.onOrderUpdate(handleOrderUpdate);
+  }
+
+  // Drop old final updates
+  setInterval(() => {
+    const cutoff = Date.now() - FINAL_UPDATE_TTL_MS;
+
+    for (const [orderId, update] of finalUpdates) {
+      if (update.receivedAt < cutoff) {
+        finalUpdates.delete(orderId);
+      }
+    }
+  }, FINAL_UPDATE_TTL_MS).unref();
+
+  console.log('Listening for order updates.');
+};
+
+/**
+ * Status of the order update stream
+ */
+export const getOrderUpdatesStatus = () => ({
+  isStarted,
+  pendingWaits: pendingWaits.size,
+});
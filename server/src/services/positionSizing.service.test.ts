@@ -0,0 +1,125 @@
+import { describe, expect, test } from 'bun:test';
+import { calculateKellyFraction, calculatePositionSize, MIN_KELLY_TRADES, type PositionSizingSettings } from './positionSizing.service';
+
+// One lot costs ₹5,000 and risks ₹1,000 at a ₹100 entry with an ₹80 stop loss
+const ENTRY_PRICE = 100;
+const STOP_LOSS = 80;
+const LOT_SIZE = 50;
+
+const settings = (overrides: Partial<PositionSizingSettings> = {}): PositionSizingSettings => ({
+  mode: 'FIXED_CAPITAL',
+  maxCapitalPerTrade: 100000,
+  accountCapital: 400000,
+  riskAmount: 2500,
+  riskPercent: 1,
+  kellyFraction: 0.5,
+  maxLots: 0,
+  ...overrides,
+});
+
+describe('calculateKellyFraction', () => {
+  test('stakes the edge over the payoff ratio', () => {
+    expect(calculateKellyFraction({ trades: 50, winRate: 0.5, averageWin: 2000, averageLoss: 1000 })).toBe(0.25);
+  });
+
+  test('stakes nothing on a negative edge', () => {
+    expect(calculateKellyFraction({ trades: 50, winRate: 0.3, averageWin: 1000, averageLoss: 1000 })).toBe(0);
+  });
+
+  test('stakes everything only when no trade lost', () => {
+    expect(calculateKellyFraction({ trades: 50, winRate: 1, averageWin: 1000, averageLoss: 0 })).toBe(1);
+    expect(calculateKellyFraction({ trades: 50, winRate: 0.6, averageWin: 1000, averageLoss: 0 })).toBe(0);
+  });
+});
+
+describe('calculatePositionSize', () => {
+  test('sizes fixed capital in whole lots', () => {
+    const size = calculatePositionSize(settings({ maxCapitalPerTrade: 12000 }), ENTRY_PRICE, STOP_LOSS, LOT_SIZE);
+
+    expect(size).toEqual({
+      mode: 'FIXED_CAPITAL',
+      lots: 2,
+      lotSize: LOT_SIZE,
+      quantity: 100,
+      capitalRequired: 10000,
+      riskAmount: 2000,
+      reason: undefined,
+    });
+  });
+
+  test('sizes fixed risk on the stop loss distance', () => {
+    const size = calculatePositionSize(settings({ mode: 'FIXED_RISK' }), ENTRY_PRICE, STOP_LOSS, LOT_SIZE);
+
+    expect(size.lots).toBe(2);
+    expect(size.riskAmount).toBe(2000);
+  });
+
+  test('sizes percent risk on the account capital', () => {
+    const size = calculatePositionSize(settings({ mode: 'PERCENT_RISK', accountCapital: 300000 }), ENTRY_PRICE, STOP_LOSS, LOT_SIZE);
+
+    expect(size.lots).toBe(3);
+  });
+
+  test('falls back to fixed capital without a stop loss distance', () => {
+    const size = calculatePositionSize(settings({ mode: 'FIXED_RISK', maxCapitalPerTrade: 15000 }), ENTRY_PRICE, ENTRY_PRICE, LOT_SIZE);
+
+    expect(size.mode).toBe('FIXED_CAPITAL');
+    expect(size.lots).toBe(3);
+    expect(size.reason).toBe('No stop loss distance, sized on fixed capital');
+  });
+
+  test('sizes Kelly on the fraction of the full Kelly stake', () => {
+    const stats = { trades: MIN_KELLY_TRADES, winRate: 0.5, averageWin: 2000, averageLoss: 1000 };
+    const size = calculatePositionSize(settings({ mode: 'KELLY' }), ENTRY_PRICE, STOP_LOSS, LOT_SIZE, stats);
+
+    // 0.25 Kelly * 0.5 of 4 lakh is ₹50,000
+    expect(size.mode).toBe('KELLY');
+    expect(size.lots).toBe(10);
+  });
+
+  test('falls back to fixed capital without enough trades for Kelly', () => {
+    const stats = { trades: MIN_KELLY_TRADES - 1, winRate: 0.5, averageWin: 2000, averageLoss: 1000 };
+    const size = calculatePositionSize(settings({ mode: 'KELLY', maxCapitalPerTrade: 10000 }), ENTRY_PRICE, STOP_LOSS, LOT_SIZE, stats);
+
+    expect(size.mode).toBe('FIXED_CAPITAL');
+    expect(size.lots).toBe(2);
+  });
+
+  test('takes no position on a negative Kelly edge', () => {
+    const stats = { trades: MIN_KELLY_TRADES, winRate: 0.3, averageWin: 1000, averageLoss: 1000 };
+    const size = calculatePositionSize(settings({ mode: 'KELLY' }), ENTRY_PRICE, STOP_LOSS, LOT_SIZE, stats);
+
+    expect(size.lots).toBe(0);
+    expect(size.reason).toBe('No positive edge in past trades');
+  });
+
+  test('caps every mode by the capital per trade and the max lots', () => {
+    const capitalCapped = calculatePositionSize(
+      settings({ mode: 'FIXED_RISK', riskAmount: 10000, maxCapitalPerTrade: 20000 }),
+      ENTRY_PRICE,
+      STOP_LOSS,
+      LOT_SIZE
+    );
+
+    expect(capitalCapped.lots).toBe(4);
+    expect(capitalCapped.reason).toBe('Capped by max capital per trade');
+
+    const lotsCapped = calculatePositionSize(settings({ mode: 'FIXED_RISK', riskAmount: 10000, maxLots: 1 }), ENTRY_PRICE, STOP_LOSS, LOT_SIZE);
+
+    expect(lotsCapped.lots).toBe(1);
+    expect(lotsCapped.reason).toBe('Capped by max lots');
+  });
+
+  test('takes no position when one lot is too large', () => {
+    const size = calculatePositionSize(settings({ maxCapitalPerTrade: 4000 }), ENTRY_PRICE, STOP_LOSS, LOT_SIZE);
+
+    expect(size.lots).toBe(0);
+    expect(size.quantity).toBe(0);
+    expect(size.reason).toBe('One lot exceeds the allowed capital or risk');
+  });
+
+  test('rejects an invalid price or lot size', () => {
+    expect(calculatePositionSize(settings(), 0, STOP_LOSS, LOT_SIZE).reason).toBe('Invalid price or lot size');
+    expect(calculatePositionSize(settings(), ENTRY_PRICE, STOP_LOSS, 0).reason).toBe('Invalid price or lot size');
+  });
+});
@@ -0,0 +1,226 @@
+import type mongoose from 'mongoose';
+import Order from '../models/order.model';
+import StockUniverse from '../models/stockUniverse.model';
+import type { IUser, PositionSizingMode } from '../models/user.model';
+
+// Kelly sizing needs a track record before it is trusted
+export const MIN_KELLY_TRADES = 20;
+const KELLY_LOOKBACK_TRADES = 100;
+
+export interface PositionSizingSettings {
+  mode: PositionSizingMode;
+  maxCapitalPerTrade: number;
+  accountCapital: number;
+  riskAmount: number; // ₹ risked per trade (FIXED_RISK)
+  riskPercent: number; // % of account risked per trade (PERCENT_RISK)
+  kellyFraction: number; // Fraction of the full Kelly stake (KELLY)
+  maxLots: number;
+}
+
+export interface TradeStats {
+  trades: number;
+  winRate: number; // 0 to 1
+  averageWin: number;
+  averageLoss: number; // Positive number
+}
+
+export interface PositionSize {
+  mode: PositionSizingMode;
+  lots: number;
+  lotSize: number;
+  quantity: number;
+  capitalRequired: number;
+  riskAmount: number; // Loss if the stop loss is hit
+  reason?: string; // Why the size is zero or was capped
+}
+
+/**
+ * Kelly fraction of capital to stake
+ * @param stats Win rate and average win/loss of past trades
+ * @returns Fraction between 0 and 1 (0 when the edge is negative)
+ */
+export const calculateKellyFraction = (stats: TradeStats): number => {
+  if (stats.averageLoss <= 0 || stats.averageWin <= 0) {
+    return stats.winRate === 1 ? 1 : 0;
+  }
+
+  const payoffRatio = stats.averageWin / stats.averageLoss;
+  const kelly = stats.winRate - (1 - stats.winRate) / payoffRatio;
+
+  return Math.min(Math.max(kelly, 0), 1);
+};
+
+/**
+ * Size a position in whole lots
+ * @param settings Sizing mode and limits
+ * @param entryPrice Entry premium per unit
+ * @param stopLoss Stop loss premium per unit
+ * @param lotSize Contract lot size
+ * @param stats Past trade statistics (required for KELLY)
+ * @returns Lots, quantity and the capital and risk they carry
+ */
+export const calculatePositionSize = (
+  settings: PositionSizingSettings,
+  entryPrice: number,
+  stopLoss: number,
+  lotSize: number,
+  stats?: TradeStats | null
+): PositionSize => {
+  const lotCost = entryPrice * lotSize;
+  const riskPerLot = Math.max(entryPrice - stopLoss, 0) * lotSize;
+  let mode = settings.mode;
+  let reason: string | undefined;
+  let lots = 0;
+
+  if (lotCost <= 0 || lotSize <= 0) {
+    return { mode, lots: 0, lotSize, quantity: 0, capitalRequired: 0, riskAmount: 0, reason: 'Invalid price or lot size' };
+  }
+
+  // Risk based modes need a stop loss below the entry
+  if ((mode === 'FIXED_RISK' || mode === 'PERCENT_RISK') && riskPerLot <= 0) {
+    mode = 'FIXED_CAPITAL';
+    reason = 'No stop loss distance, sized on fixed capital';
+  }
+
+  if (mode === 'KELLY' && (!stats || stats.trades < MIN_KELLY_TRADES)) {
+    mode = 'FIXED_CAPITAL';
+    reason = `Fewer than ${MIN_KELLY_TRADES} closed trades for Kelly sizing, sized on fixed capital`;
+  }
+
+  switch (mode) {
+    case 'FIXED_RISK':
+      lots = Math.floor(settings.riskAmount / riskPerLot);
+      break;
+    case 'PERCENT_RISK':
+      lots = Math.floor((settings.accountCapital * settings.riskPercent / 100) / riskPerLot);
+      break;
+    case 'KELLY': {
+      const fraction = calculateKellyFraction(stats as TradeStats) * settings.kellyFraction;
+      lots = Math.floor((settings.accountCapital * fraction) / lotCost);
+
+      if (fraction === 0) {
+        reason = 'No positive edge in past trades';
+      }
+      break;
+    }
+    default:
+      lots = Math.floor(settings.maxCapitalPerTrade / lotCost);
+  }
+
+  // Capital per trade and max lots are hard limits for every mode
+  const capitalLimitLots = Math.floor(settings.maxCapitalPerTrade / lotCost);
+
+  if (lots > capitalLimitLots) {
+    lots = capitalLimitLots;
+    reason = 'Capped by max capital per trade';
+  }
+
+  if (settings.maxLots > 0 && lots > settings.maxLots) {
+    lots = settings.maxLots;
+    reason = 'Capped by max lots';
+  }
+
+  lots = Math.max(lots, 0);
+
+  if (lots === 0 && !reason) {
+    reason = 'One lot exceeds the allowed capital or risk';
+  }
+
+  return {
+    mode,
+    lots,
+    lotSize,
+    quantity: lots * lotSize,
+    capitalRequired: Number((lots * lotCost).toFixed(2)),
+    riskAmount: Number((lots * riskPerLot).toFixed(2)),
+    reason,
+  };
+};
+
+/**
+ * Win rate and average win/loss of a user's recent closed trades
+ * @param userId User ID
+ * @param isPaper Use paper trades instead of live trades
+ * @returns Trade statistics
+ */
+export const getTradeStats = async (userId: mongoose.Types.ObjectId | string, isPaper: boolean): Promise<TradeStats> => {
+  try {
+    const orders = await Order.find({
+      userId,
+      isPaper,
+      profitLoss: { $exists: true },
+    })
+      .sort({ exitAt: -1 })
+      .limit(KELLY_LOOKBACK_TRADES)
+      .select('profitLoss');
+
+    const wins = orders.filter(order => (order.profitLoss || 0) > 0).map(order => order.profitLoss as number);
+    const losses = orders.filter(order => (order.profitLoss || 0) <= 0).map(order => Math.abs(order.profitLoss || 0));
+
+    return {
+      trades: orders.length,
+      winRate: orders.length > 0 ? wins.length / orders.length : 0,
+      averageWin: wins.length > 0 ? wins.reduce((sum, value) => sum + value, 0) / wins.length : 0,
+      averageLoss: losses.length > 0 ? losses.reduce((sum, value) => sum + value, 0) / losses.length : 0,
+    };
+  } catch (error) {
+    console.error('Error getting trade stats:', error);
+    return { trades: 0, winRate: 0, averageWin: 0, averageLoss: 0 };
+  }
+};
+
+/**
+ * Lot size of a signal's contract, falling back to the stock universe
+ * @param signal Signal with optional contract details
+ * @returns Lot size or null if unknown
+ */
+export const getSignalLotSize = async (signal: { stock: string; optionContract?: { lotSize?: number } }): Promise<number | null> => {
+  if (signal.optionContract?.lotSize) {
+    return signal.optionContract.lotSize;
+  }
+
+  const stock = await StockUniverse.findOne({ symbol: signal.stock });
+  return stock?.lotSize || null;
+};
+
+/**
+ * Size a signal's position with a user's sizing settings
+ * @param user User placing the order
+ * @param signal Signal being traded
+ * @param entryPrice Entry premium per unit
+ * @param stopLoss Stop loss premium per unit
+ * @returns Position size or null if the lot size is unknown
+ */
+export const sizePositionForUser = async (
+  user: Pick<IUser, 'id' | 'tradingMode' | 'maxCapitalPerTrade' | 'maxLots' | 'positionSizing'>,
+  signal: { stock: string; optionContract?: { lotSize?: number } },
+  entryPrice: number,
+  stopLoss: number
+): Promise<PositionSize | null> => {
+  const lotSize = await getSignalLotSize(signal);
+
+  if (!lotSize) {
+    console.error(`No lot size found for ${signal.stock}`);
+    return null;
+  }
+
+  const sizing = user.positionSizing;
+  const mode = sizing?.mode || 'FIXED_CAPITAL';
+  const stats = mode === 'KELLY' ? await getTradeStats(user.id, user.tradingMode === 'PAPER') : null;
+
+  return calculatePositionSize(
+    {
+      mode,
+      maxCapitalPerTrade: user.maxCapitalPerTrade,
+      accountCapital: sizing?.accountCapital || 0,
+      riskAmount: sizing?.riskAmount || 0,
+      riskPercent: sizing?.riskPercent || 0,
+      kellyFraction: sizing?.kellyFraction || 0,
+      maxLots: user.maxLots || 0,
+    },
+    entryPrice,
+    stopLoss,
+    lotSize,
+    stats
+  );
+};
@@ -0,0 +1,426 @@
+import type { HydratedDocument } from 'mongoose';
+import User, { type IUser } from '../models/user.model';
+import Order, { type IOrder } from '../models/order.model';
+import { getBrokerForOrder, getBrokerForUser } from '../brokers';
+import { getInstrumentKey, type Broker, type BrokerOrder, type BrokerTrade } from '../brokers/types';
+import * as OcoManager from './ocoManager.service';
+import * as OrderUpdates from './orderUpdates.service';
+import * as TelegramService from './telegram.service';
+import { getStartOfDay } from '../utils/date.util';
+
+/**
+ * Reconciliation of Order records with the broker. Broker orders, trades,
+ * positions and holdings are diffed against the orders of each live user:
+ * statuses and fills that drifted (missed order updates) are repaired, and
+ * what cannot be repaired automatically (manual trades in the broker app,
+ * positions the system does not know about) is flagged for an admin.
+ */
+
+export type DiscrepancyType =
+  | 'ORDER_STATUS' // Status or fill of an entry order differs from the broker
+  | 'ORDER_NOT_AT_BROKER' // Order is missing from the broker order book
+  | 'EXIT_NOT_SYNCED' // An exit leg filled or closed at the broker without being processed
+  | 'UNPROTECTED_POSITION' // Open position without a stop loss order or trigger
+  | 'UNKNOWN_ORDER' // Broker order the system did not place
+  | 'POSITION_MISMATCH' // Open quantity differs from the broker position
+  | 'ORPHANED_POSITION'; // Broker position without an open order in the system
+
+export interface Discrepancy {
+  type: DiscrepancyType;
+  userId: string;
+  username: string;
+  tradingSymbol: string;
+  orderId?: string; // Order document ID
+  brokerOrderId?: string;
+  system?: string | number; // Value recorded in the system
+  broker?: string | number; // Value at the broker
+  repaired: boolean;
+  message: string;
+}
+
+export interface ReconciliationReport {
+  startedAt: Date;
+  completedAt: Date;
+  users: number;
+  discrepancies: Discrepancy[];
+  repaired: number;
+  errors: string[];
+}
+
+// Orders placed this recently may not have reached the broker order book yet
+const RECENT_ORDER_GRACE_MS = 60 * 1000;
+
+// Tag prefixes of the orders the system places
+const SYSTEM_TAG_PATTERN = /^(AUTO|MANUAL|SL|T1|TARGET|EXIT|EOD|OCOFIX)_/;
+
+let isRunning = false;
+let lastReport: ReconciliationReport | null = null;
+
+const toOrderStatus = (status: BrokerOrder['status']): IOrder['status'] => {
+  return status === 'TRIGGER_PENDING' ? 'OPEN' : status;
+};
+
+/**
+ * Filled quantity and average price of each order from the trade book
+ */
+const getFillsByOrder = (trades: BrokerTrade[]): Map<string, { quantity: number; averagePrice: number }> => {
+  const fills = new Map<string, { quantity: number; value: number }>();
+
+  for (const trade of trades) {
+    const fill = fills.get(trade.orderId) || { quantity: 0, value: 0 };
+    fill.quantity += trade.quantity;
+    fill.value += trade.quantity * trade.averagePrice;
+    fills.set(trade.orderId, fill);
+  }
+
+  return new Map(
+    [...fills].map(([orderId, fill]) => [
+      orderId,
+      { quantity: fill.quantity, averagePrice: Number((fill.value / fill.quantity).toFixed(2)) },
+    ])
+  );
+};
+
+/**
+ * Broker order IDs the system knows about
+ */
+const getKnownOrderIds = (orders: IOrder[]): Set<string> => {
+  const orderIds = new Set<string>();
+
+  for (const order of orders) {
+    orderIds.add(order.kiteOrderId);
+
+    for (const exitOrder of [order.stopLossOrder, order.target1Order, order.targetOrder]) {
+      if (exitOrder?.orderId) orderIds.add(exitOrder.orderId);
+    }
+    for (const change of order.stopLossHistory) {
+      orderIds.add(change.orderId);
+    }
+    for (const exit of order.partialExits) {
+      orderIds.add(exit.orderId);
+    }
+  }
+
+  return orderIds;
+};
+
+/**
+ * Repair entry orders whose status or fill drifted from the broker
+ */
+const reconcileEntryOrders = async (
+  user: HydratedDocument<IUser>,
+  orders: HydratedDocument<IOrder>[],
+  brokerOrders: Map<string, BrokerOrder>,
+  fills: Map<string, { quantity: number; averagePrice: number }>
+): Promise<Discrepancy[]> => {
+  const discrepancies: Discrepancy[] = [];
+  const startOfDay = getStartOfDay(new Date());
+
+  for (const order of orders) {
+    const brokerOrder = brokerOrders.get(order.kiteOrderId);
+    const base = { userId: user.id, username: user.username, tradingSymbol: order.tradingSymbol, orderId: order.id, brokerOrderId: order.kiteOrderId };
+
+    if (!brokerOrder) {
+      // The order book only has today's orders, older day orders have expired
+      if (order.status === 'OPEN' && order.orderTimestamp < startOfDay) {
+        order.status = 'CANCELLED';
+        order.cancelledQuantity = order.pendingQuantity;
+        order.pendingQuantity = 0;
+        order.statusMessage = 'Expired (reconciliation)';
+        await order.save();
+
+        discrepancies.push({ ...base, type: 'ORDER_NOT_AT_BROKER', system: 'OPEN', broker: 'EXPIRED', repaired: true, message: 'Day order expired, marked as cancelled' });
+      } else if (order.orderTimestamp >= startOfDay && Date.now() - order.orderTimestamp.getTime() > RECENT_ORDER_GRACE_MS) {
+        discrepancies.push({ ...base, type: 'ORDER_NOT_AT_BROKER', repaired: false, message: 'Order is not in the broker order book' });
+      }
+      continue;
+    }
+
+    // Trades are the source of truth for fills
+    const fill = fills.get(order.kiteOrderId);
+    const update: BrokerOrder = fill
+      ? { ...brokerOrder, filledQuantity: fill.quantity, averagePrice: fill.averagePrice }
+      : brokerOrder;
+    const status = toOrderStatus(update.status);
+    const isPriceDrift = update.averagePrice > 0 && Math.abs((order.averagePrice || 0) - update.averagePrice) >= 0.01;
+
+    if (order.status === status && order.filledQuantity === update.filledQuantity && !isPriceDrift) {
+      continue;
+    }
+
+    await OrderUpdates.persistOrderUpdate(update);
+
+    discrepancies.push({
+      ...base,
+      type: 'ORDER_STATUS',
+      system: `${order.status} ${order.filledQuantity} @ ${order.averagePrice || 0}`,
+      broker: `${status} ${update.filledQuantity} @ ${update.averagePrice}`,
+      repaired: true,
+      message: 'Order status and fill updated from the broker',
+    });
+  }
+
+  return discrepancies;
+};
+
+/**
+ * Process exit legs that changed at the broker and flag unprotected positions
+ */
+const reconcileOpenPositions = async (
+  user: HydratedDocument<IUser>,
+  orders: HydratedDocument<IOrder>[],
+  brokerOrders: Map<string, BrokerOrder>
+): Promise<{ discrepancies: Discrepancy[]; openQuantities: Map<string, { tradingSymbol: string; quantity: number }> }> => {
+  const discrepancies: Discrepancy[] = [];
+  const openQuantities = new Map<string, { tradingSymbol: string; quantity: number }>();
+
+  for (const order of orders) {
+    const base = { userId: user.id, username: user.username, tradingSymbol: order.tradingSymbol, orderId: order.id };
+
+    const staleLegs = [order.stopLossOrder, order.target1Order, order.targetOrder].filter(exitOrder => {
+      const status = exitOrder?.status === 'OPEN' && brokerOrders.get(exitOrder.orderId)?.status;
+      return status === 'COMPLETE' || status === 'CANCELLED' || status === 'REJECTED';
+    });
+
+    // The OCO manager resolves fills and cancels of the exit legs
+    if (staleLegs.length > 0) {
+      await OcoManager.reconcileOrder(order);
+
+      for (const exitOrder of staleLegs) {
+        discrepancies.push({
+          ...base,
+          type: 'EXIT_NOT_SYNCED',
+          brokerOrderId: exitOrder?.orderId,
+          system: 'OPEN',
+          broker: brokerOrders.get(exitOrder?.orderId || '')?.status,
+          repaired: true,
+          message: 'Exit order processed from the broker',
+        });
+      }
+    }
+
+    const current = staleLegs.length > 0 ? await Order.findById(order.id) : order;
+
+    if (!current || current.exitReason) {
+      continue;
+    }
+
+    if (current.stopLossOrder?.status !== 'OPEN' && current.ocoTrigger?.status !== 'ACTIVE') {
+      discrepancies.push({ ...base, type: 'UNPROTECTED_POSITION', repaired: false, message: 'Open position has no stop loss' });
+    }
+
+    const bookedQuantity = current.partialExits.reduce((sum, exit) => sum + exit.quantity, 0);
+    const key = getInstrumentKey(current.exchange, current.tradingSymbol);
+    const position = openQuantities.get(key) || { tradingSymbol: current.tradingSymbol, quantity: 0 };
+    position.quantity += current.filledQuantity - bookedQuantity;
+    openQuantities.set(key, position);
+  }
+
+  return { discrepancies, openQuantities };
+};
+
+/**
+ * Reconcile the orders and positions of a user with their broker
+ */
+const reconcileUser = async (user: HydratedDocument<IUser>, broker: Broker): Promise<Discrepancy[]> => {
+  const userId = user.id;
+  const [brokerOrderList, trades, positions, holdings] = await Promise.all([
+    broker.getOrders(userId),
+    broker.getTrades(userId),
+    broker.getPositions(userId),
+    broker.getHoldings(userId),
+  ]);
+
+  if (!brokerOrderList || !positions) {
+    throw new Error(`Failed to fetch orders or positions of ${user.username} from ${broker.name}`);
+  }
+
+  const brokerOrders = new Map(brokerOrderList.map(brokerOrder => [brokerOrder.orderId, brokerOrder]));
+  const fills = getFillsByOrder(trades || []);
+
+  // Today's orders and any position still open from earlier days
+  const belongsToBroker = (order: IOrder) => getBrokerForOrder(order) === broker;
+  const orders = (await Order.find({
+    userId,
+    isPaper: false,
+    $or: [
+      { orderTimestamp: { $gte: getStartOfDay(new Date()) } },
+      { status: 'OPEN' },
+      { status: 'COMPLETE', exitReason: { $exists: false } },
+    ],
+  })).filter(belongsToBroker);
+
+  const discrepancies = await reconcileEntryOrders(
+    user,
+    orders.filter(order => order.transactionType === 'BUY'),
+    brokerOrders,
+    fills
+  );
+
+  // Entry orders may have been repaired, read the open positions again
+  const openOrders = (await Order.find({
+    userId,
+    isPaper: false,
+    status: 'COMPLETE',
+    transactionType: 'BUY',
+    exitReason: { $exists: false },
+  })).filter(belongsToBroker);
+
+  const openPositions = await reconcileOpenPositions(user, openOrders, brokerOrders);
+  discrepancies.push(...openPositions.discrepancies);
+
+  // Net quantity at the broker (positions of the day and delivered holdings)
+  const brokerQuantities = new Map<string, { tradingSymbol: string; quantity: number }>();
+
+  for (const holding of [...positions, ...(holdings || [])]) {
+    const key = getInstrumentKey(holding.exchange, holding.tradingSymbol);
+    const entry = brokerQuantities.get(key) || { tradingSymbol: holding.tradingSymbol, quantity: 0 };
+    entry.quantity += holding.quantity;
+    brokerQuantities.set(key, entry);
+  }
+
+  const base = { userId, username: user.username };
+
+  for (const [key, position] of openPositions.openQuantities) {
+    const expected = position.quantity;
+    const actual = brokerQuantities.get(key)?.quantity || 0;
+
+    if (actual !== expected) {
+      discrepancies.push({
+        ...base,
+        type: 'POSITION_MISMATCH',
+        tradingSymbol: position.tradingSymbol,
+        system: expected,
+        broker: actual,
+        repaired: false,
+        message: actual === 0 ? 'Position is closed at the broker' : 'Open quantity differs from the broker position',
+      });
+    }
+  }
+
+  for (const [key, position] of brokerQuantities) {
+    if (position.quantity !== 0 && !openPositions.openQuantities.has(key)) {
+      discrepancies.push({
+        ...base,
+        type: 'ORPHANED_POSITION',
+        tradingSymbol: position.tradingSymbol,
+        system: 0,
+        broker: position.quantity,
+        repaired: false,
+        message: 'Broker position has no open order in the system',
+      });
+    }
+  }
+
+  // Orders placed outside the system (e.g. in the Kite app)
+  const knownOrderIds = getKnownOrderIds(orders);
+
+  for (const brokerOrder of brokerOrderList) {
+    const isSystemOrder = knownOrderIds.has(brokerOrder.orderId) || SYSTEM_TAG_PATTERN.test(brokerOrder.tag || '');
+
+    if (!isSystemOrder && brokerOrder.status !== 'REJECTED' && brokerOrder.status !== 'CANCELLED') {
+      discrepancies.push({
+        ...base,
+        type: 'UNKNOWN_ORDER',
+        tradingSymbol: brokerOrder.tradingSymbol,
+        brokerOrderId: brokerOrder.orderId,
+        broker: `${brokerOrder.transactionType} ${brokerOrder.quantity} ${brokerOrder.status}`,
+        repaired: false,
+        message: 'Order was not placed by the system',
+      });
+    }
+  }
+
+  return discrepancies;
+};
+
+/**
+ * Reconcile every live user with their broker
+ * Paper accounts are skipped, the simulator has no state beyond this process
+ * @returns Reconciliation report, or null if a reconciliation is already running
+ */
+export const runReconciliation = async (): Promise<ReconciliationReport | null> => {
+  if (isRunning) {
+    console.log('Reconciliation already running.');
+    return null;
+  }
+  isRunning = true;
+
+  const startedAt = new Date();
+  const discrepancies: Discrepancy[] = [];
+  const errors: string[] = [];
+  let userCount = 0;
+
+  try {
+    const users = await User.find({
+      tradingMode: { $ne: 'PAPER' },
+      $or: [
+        { zerodhaAccessToken: { $exists: true } },
+        { broker: 'MOCK' },
+      ],
+    });
+    userCount = users.length;
+
+    for (const user of users) {
+      try {
+        discrepancies.push(...await reconcileUser(user, getBrokerForUser(user)));
+      } catch (error) {
+        console.error(`Error reconciling user ${user.id}:`, error);
+        errors.push(error instanceof Error ? error.message : `Failed to reconcile ${user.username}`);
+      }
+    }
+  } catch (error) {
+    console.error('Error running reconciliation:', error);
+    errors.push('Failed to load users');
+  } finally {
+    isRunning = false;
+  }
+
+  const report: ReconciliationReport = {
+    startedAt,
+    completedAt: new Date(),
+    users: userCount,
+    discrepancies,
+    repaired: discrepancies.filter(discrepancy => discrepancy.repaired).length,
+    errors,
+  };
+
+  // Alert only on discrepancies that were not in the previous report
+  const previousKeys = new Set((lastReport?.discrepancies || []).map(discrepancy => `${discrepancy.type}:${discrepancy.userId}:${discrepancy.tradingSymbol}:${discrepancy.brokerOrderId || ''}`));
+  const newUnrepaired = discrepancies.filter(discrepancy =>
+    !discrepancy.repaired && !previousKeys.has(`${discrepancy.type}:${discrepancy.userId}:${discrepancy.tradingSymbol}:${discrepancy.brokerOrderId || ''}`)
+  );
+
+  lastReport = report;
+
+  console.log(`Reconciliation complete: ${discrepancies.length} discrepancies, ${report.repaired} repaired.`);
+
+  if (newUnrepaired.length > 0) {
+    await TelegramService.sendSystemAlert(
+      'warning',
+      `Reconciliation found ${newUnrepaired.length} discrepanc${newUnrepaired.length > 1 ? 'ies' : 'y'} that need attention:\n\n${newUnrepaired
+        .map(discrepancy => `${discrepancy.username} · ${discrepancy.tradingSymbol}: ${discrepancy.message}`)
+        .join('\n')}`
+    );
+  }
+
+  return report;
+};
+
+/**
+ * Last reconciliation report
+ */
+export const getReconciliationReport = () => ({
+  isRunning,
+  report: lastReport,
+});
+
+/**
+ * Status of the reconciliation job
+ */
+export const getReconciliationStatus = () => ({
+  isRunning,
+  lastRunAt: lastReport?.completedAt || null,
+  discrepancies: lastReport?.discrepancies.length || 0,
+  unrepaired: lastReport ? lastReport.discrepancies.length - lastReport.repaired : 0,
+});
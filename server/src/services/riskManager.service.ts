@@ -0,0 +1,518 @@
+import type { HydratedDocument } from 'mongoose';
+import User, { type IUser } from '../models/user.model';
+import Order from '../models/order.model';
+import RiskSettings, { type IRiskLimits, type IRiskSettings, type CircuitBreakerRule } from '../models/riskSettings.model';
+import * as OcoManager from './ocoManager.service';
+import * as TelegramService from './telegram.service';
+import { getStartOfDay } from '../utils/date.util';
+
+/**
+ * Account-level circuit breaker.
+ * Per-user and global (all live accounts) rules are evaluated before every order
+ * and on every fill. A breach trips the breaker, which stops auto-trading, can
+ * flatten open positions and stays tripped until an admin re-arms it.
+ * Loss rules count the trades closed since the start of the day or the last re-arm.
+ */
+
+export interface RiskStats {
+  realizedProfitLoss: number;
+  consecutiveLosses: number;
+  openPositions: number;
+  exposureByUnderlying: Record<string, number>;
+}
+
+export interface RiskCheckResult {
+  allowed: boolean;
+  rule?: CircuitBreakerRule;
+  message?: string;
+}
+
+interface RiskBreach {
+  rule: CircuitBreakerRule;
+  message: string;
+}
+
+interface RiskScope {
+  userId?: string;
+  isPaper: boolean;
+  since: Date;
+}
+
+interface LastTrip {
+  scope: string;
+  rule: CircuitBreakerRule;
+  reason: string;
+  trippedAt: Date;
+}
+
+const GLOBAL_KEY = 'global';
+const RISK_LIMIT_KEYS: Array<keyof IRiskLimits> = [
+  'maxDailyLoss',
+  'maxDailyLossPercent',
+  'maxConsecutiveLosses',
+  'maxOpenPositions',
+  'maxExposurePerUnderlying',
+  'flattenOnBreach',
+];
+
+let isGlobalTripped = false;
+let lastTrip: LastTrip | null = null;
+
+/**
+ * Get the global risk settings, created with the defaults on first use
+ */
+export const getGlobalRiskSettings = async (): Promise<HydratedDocument<IRiskSettings>> => {
+  const settings = await RiskSettings.findOneAndUpdate(
+    { key: GLOBAL_KEY },
+    { $setOnInsert: { key: GLOBAL_KEY } },
+    { upsert: true, new: true, setDefaultsOnInsert: true }
+  );
+
+  isGlobalTripped = settings.circuitBreaker.isTripped;
+
+  return settings;
+};
+
+/**
+ * Update the global risk limits
+ * @param limits Limits to change
+ * @returns Updated global risk settings
+ */
+export const updateGlobalRiskLimits = async (limits: Partial<IRiskLimits>): Promise<HydratedDocument<IRiskSettings>> => {
+  const settings = await getGlobalRiskSettings();
+
+  for (const key of RISK_LIMIT_KEYS) {
+    if (limits[key] !== undefined) {
+      settings.set(`limits.${key}`, limits[key]);
+    }
+  }
+  await settings.save();
+
+  return settings;
+};
+
+/**
+ * Start of the window the loss rules are measured over
+ */
+const getWindowStart = (rearmedAt?: Date): Date => {
+  const startOfDay = getStartOfDay(new Date());
+  return rearmedAt && rearmedAt > startOfDay ? rearmedAt : startOfDay;
+};
+
+/**
+ * Collect realized P&L, the losing streak and open exposure of a scope
+ */
+const getRiskStats = async (scope: RiskScope): Promise<RiskStats> => {
+  const filter: Record<string, unknown> = { isPaper: scope.isPaper, transactionType: 'BUY' };
+  if (scope.userId) {
+    filter.userId = scope.userId;
+  }
+
+  // Closed trades, most recent first
+  const closedOrders = await Order.find({ ...filter, exitAt: { $gte: scope.since }, exitReason: { $exists: true } })
+    .select('profitLoss partialExits exitAt')
+    .sort({ exitAt: -1 });
+
+  // Open positions and pending entries, target 1 of an open position may already be booked
+  const openOrders = await Order.find({
+    ...filter,
+    $or: [
+      { status: 'COMPLETE', exitReason: { $exists: false } },
+      { status: 'OPEN' },
+    ],
+  }).populate<{ signalId: { stock: string } | null }>('signalId', 'stock');
+
+  let realizedProfitLoss = closedOrders.reduce((sum, order) => {
+    // Quantity booked before the window was counted when it was booked
+    const bookedBefore = order.partialExits
+      .filter(exit => exit.exitAt < scope.since)
+      .reduce((total, exit) => total + exit.profitLoss, 0);
+    return sum + (order.profitLoss || 0) - bookedBefore;
+  }, 0);
+
+  let consecutiveLosses = 0;
+  for (const order of closedOrders) {
+    if ((order.profitLoss || 0) >= 0) {
+      break;
+    }
+    consecutiveLosses++;
+  }
+
+  const exposureByUnderlying: Record<string, number> = {};
+
+  for (const order of openOrders) {
+    const bookedExits = order.partialExits.filter(exit => exit.exitAt >= scope.since);
+    realizedProfitLoss += bookedExits.reduce((sum, exit) => sum + exit.profitLoss, 0);
+
+    // Pending market entries have no price until they fill
+    const bookedQuantity = order.partialExits.reduce((sum, exit) => sum + exit.quantity, 0);
+    const quantity = order.status === 'COMPLETE' ? order.filledQuantity - bookedQuantity : order.quantity;
+    const price = order.averagePrice || order.price || 0;
+    const underlying = order.signalId?.stock || order.tradingSymbol;
+
+    exposureByUnderlying[underlying] = (exposureByUnderlying[underlying] || 0) + price * quantity;
+  }
+
+  return {
+    realizedProfitLoss,
+    consecutiveLosses,
+    openPositions: openOrders.length,
+    exposureByUnderlying,
+  };
+};
+
+/**
+ * Find the loss rule a scope breaches
+ * @param capital Account capital the percent limit is relative to
+ */
+const findLossBreach = (limits: IRiskLimits, stats: RiskStats, capital: number): RiskBreach | null => {
+  const loss = -stats.realizedProfitLoss;
+
+  if (limits.maxDailyLoss > 0 && loss >= limits.maxDailyLoss) {
+    return { rule: 'MAX_DAILY_LOSS', message: `Daily loss ₹${loss.toFixed(2)} reached the limit of ₹${limits.maxDailyLoss}` };
+  }
+
+  if (limits.maxDailyLossPercent > 0 && capital > 0 && (loss / capital) * 100 >= limits.maxDailyLossPercent) {
+    return {
+      rule: 'MAX_DAILY_LOSS_PERCENT',
+      message: `Daily loss ₹${loss.toFixed(2)} is ${((loss / capital) * 100).toFixed(2)}% of the capital, limit ${limits.maxDailyLossPercent}%`,
+    };
+  }
+
+  if (limits.maxConsecutiveLosses > 0 && stats.consecutiveLosses >= limits.maxConsecutiveLosses) {
+    return { rule: 'MAX_CONSECUTIVE_LOSSES', message: `${stats.consecutiveLosses} losing trades in a row, limit ${limits.maxConsecutiveLosses}` };
+  }
+
+  return null;
+};
+
+/**
+ * Find the position or exposure limit a scope breaches
+ * @param order Underlying and premium of a new order, or omitted to check the current positions
+ */
+const findCapacityBreach = (
+  limits: IRiskLimits,
+  stats: RiskStats,
+  order?: { underlying: string; amount: number }
+): RiskBreach | null => {
+  const openPositions = stats.openPositions + (order ? 1 : 0);
+
+  if (limits.maxOpenPositions > 0 && openPositions > limits.maxOpenPositions) {
+    return { rule: 'MAX_OPEN_POSITIONS', message: `${openPositions} open positions exceed the limit of ${limits.maxOpenPositions}` };
+  }
+
+  if (limits.maxExposurePerUnderlying > 0) {
+    const exposures = order
+      ? [[order.underlying, (stats.exposureByUnderlying[order.underlying] || 0) + order.amount] as const]
+      : Object.entries(stats.exposureByUnderlying);
+
+    for (const [underlying, exposure] of exposures) {
+      if (exposure > limits.maxExposurePerUnderlying) {
+        return {
+          rule: 'MAX_EXPOSURE_PER_UNDERLYING',
+          message: `Exposure of ₹${exposure.toFixed(2)} in ${underlying} exceeds the limit of ₹${limits.maxExposurePerUnderlying}`,
+        };
+      }
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Capital of all live accounts, the global percent limit is relative to it
+ */
+const getLiveCapital = async (): Promise<number> => {
+  const result = await User.aggregate<{ capital: number }>([
+    { $match: { tradingMode: 'LIVE' } },
+    { $group: { _id: null, capital: { $sum: '$positionSizing.accountCapital' } } },
+  ]);
+
+  return result[0]?.capital || 0;
+};
+
+/**
+ * Close open positions after the breaker tripped
+ */
+const flattenPositions = async (filter: Record<string, unknown>): Promise<{ closed: number; total: number }> => {
+  const orders = await Order.find({
+    ...filter,
+    status: 'COMPLETE',
+    transactionType: 'BUY',
+    exitReason: { $exists: false },
+  });
+  let closed = 0;
+
+  for (const order of orders) {
+    const result = await OcoManager.closePosition(order, 'MANUAL_EXIT');
+
+    if (result.closed) {
+      closed++;
+    } else {
+      console.error(`Circuit breaker failed to close ${order.tradingSymbol} (order ${order.id}): ${result.message}`);
+    }
+  }
+
+  return { closed, total: orders.length };
+};
+
+/**
+ * Trip a user's breaker: disable auto-trading, optionally flatten and alert
+ * @returns False if the breaker was already tripped
+ */
+const tripUser = async (userId: string, rule: CircuitBreakerRule, reason: string): Promise<boolean> => {
+  // Only the first breach trips, later evaluations see the tripped state
+  const previous = await User.findOneAndUpdate(
+    { _id: userId, 'circuitBreaker.isTripped': { $ne: true } },
+    {
+      $set: {
+        isAutoTradingEnabled: false,
+        'circuitBreaker.isTripped': true,
+        'circuitBreaker.rule': rule,
+        'circuitBreaker.reason': reason,
+        'circuitBreaker.trippedAt': new Date(),
+      },
+    }
+  );
+
+  if (!previous) {
+    return false;
+  }
+
+  await User.updateOne({ _id: userId }, { $set: { 'circuitBreaker.autoTradingWasEnabled': previous.isAutoTradingEnabled } });
+
+  lastTrip = { scope: previous.username, rule, reason, trippedAt: new Date() };
+  console.warn(`[${previous.username}] Circuit breaker tripped (${rule}): ${reason}`);
+
+  let flattenMessage = '';
+  if (previous.riskLimits.flattenOnBreach) {
+    const { closed, total } = await flattenPositions({ userId, isPaper: previous.tradingMode === 'PAPER' });
+    flattenMessage = `\nPositions closed: ${closed}/${total}`;
+  }
+
+  await TelegramService.sendSystemAlert(
+    'error',
+    `Circuit breaker tripped for <b>${previous.username}</b>\nRule: ${rule}\n${reason}${flattenMessage}\n\nAuto-trading is disabled until an admin re-arms it.`
+  );
+
+  return true;
+};
+
+/**
+ * Trip the global kill switch: stop auto-trading of every account, optionally flatten live positions and alert
+ * @returns False if the kill switch was already tripped
+ */
+const tripGlobal = async (rule: CircuitBreakerRule, reason: string): Promise<boolean> => {
+  const previous = await RiskSettings.findOneAndUpdate(
+    { key: GLOBAL_KEY, 'circuitBreaker.isTripped': { $ne: true } },
+    {
+      $set: {
+        'circuitBreaker.isTripped': true,
+        'circuitBreaker.rule': rule,
+        'circuitBreaker.reason': reason,
+        'circuitBreaker.trippedAt': new Date(),
+      },
+    }
+  );
+
+  if (!previous) {
+    return false;
+  }
+
+  isGlobalTripped = true;
+  lastTrip = { scope: GLOBAL_KEY, rule, reason, trippedAt: new Date() };
+  console.warn(`Global circuit breaker tripped (${rule}): ${reason}`);
+
+  let flattenMessage = '';
+  if (previous.limits.flattenOnBreach) {
+    const { closed, total } = await flattenPositions({ isPaper: false });
+    flattenMessage = `\nLive positions closed: ${closed}/${total}`;
+  }
+
+  await TelegramService.sendSystemAlert(
+    'error',
+    `<b>Global</b> circuit breaker tripped\nRule: ${rule}\n${reason}${flattenMessage}\n\nAuto-trading is stopped for all accounts until an admin re-arms it.`
+  );
+
+  return true;
+};
+
+/**
+ * Check the circuit breaker before placing an order
+ * Loss rules trip the breaker, an order that would exceed a position or exposure limit is rejected
+ * @param user User placing the order
+ * @param order Underlying and premium of the order
+ * @returns Whether the order may be placed
+ */
+export const checkBeforeOrder = async (
+  user: HydratedDocument<IUser>,
+  order: { underlying: string; amount: number }
+): Promise<RiskCheckResult> => {
+  try {
+    const isPaper = user.tradingMode === 'PAPER';
+    const settings = await getGlobalRiskSettings();
+
+    // Paper accounts are not part of the global limits
+    if (!isPaper && settings.circuitBreaker.isTripped) {
+      return { allowed: false, rule: settings.circuitBreaker.rule, message: 'Global circuit breaker is tripped' };
+    }
+
+    if (user.circuitBreaker?.isTripped) {
+      return { allowed: false, rule: user.circuitBreaker.rule, message: `Circuit breaker is tripped: ${user.circuitBreaker.reason}` };
+    }
+
+    const stats = await getRiskStats({ userId: user.id, isPaper, since: getWindowStart(user.circuitBreaker?.rearmedAt) });
+
+    const lossBreach = findLossBreach(user.riskLimits, stats, user.positionSizing.accountCapital);
+    if (lossBreach) {
+      await tripUser(user.id, lossBreach.rule, lossBreach.message);
+      return { allowed: false, ...lossBreach };
+    }
+
+    const capacityBreach = findCapacityBreach(user.riskLimits, stats, order);
+    if (capacityBreach) {
+      return { allowed: false, ...capacityBreach };
+    }
+
+    if (!isPaper) {
+      const globalStats = await getRiskStats({ isPaper: false, since: getWindowStart(settings.circuitBreaker.rearmedAt) });
+
+      const globalLossBreach = findLossBreach(settings.limits, globalStats, await getLiveCapital());
+      if (globalLossBreach) {
+        await tripGlobal(globalLossBreach.rule, globalLossBreach.message);
+        return { allowed: false, rule: globalLossBreach.rule, message: `Global limit: ${globalLossBreach.message}` };
+      }
+
+      const globalCapacityBreach = findCapacityBreach(settings.limits, globalStats, order);
+      if (globalCapacityBreach) {
+        return { allowed: false, rule: globalCapacityBreach.rule, message: `Global limit: ${globalCapacityBreach.message}` };
+      }
+    }
+
+    return { allowed: true };
+  } catch (error) {
+    // Fail closed, an order is never placed unchecked
+    console.error(`Error checking risk limits for user ${user.username}:`, error);
+    return { allowed: false, message: 'Risk limits could not be checked' };
+  }
+};
+
+/**
+ * Evaluate the circuit breaker after a fill and trip it on any breach
+ * @param userId ID of the user whose order was filled
+ */
+export const evaluateAfterFill = async (userId: string): Promise<void> => {
+  try {
+    const user = await User.findById(userId);
+
+    if (!user) {
+      return;
+    }
+
+    const isPaper = user.tradingMode === 'PAPER';
+
+    if (!user.circuitBreaker?.isTripped) {
+      const stats = await getRiskStats({ userId, isPaper, since: getWindowStart(user.circuitBreaker?.rearmedAt) });
+      const breach = findLossBreach(user.riskLimits, stats, user.positionSizing.accountCapital)
+        || findCapacityBreach(user.riskLimits, stats);
+
+      if (breach) {
+        await tripUser(userId, breach.rule, breach.message);
+      }
+    }
+
+    if (isPaper) {
+      return;
+    }
+
+    const settings = await getGlobalRiskSettings();
+
+    if (!settings.circuitBreaker.isTripped) {
+      const stats = await getRiskStats({ isPaper: false, since: getWindowStart(settings.circuitBreaker.rearmedAt) });
+      const breach = findLossBreach(settings.limits, stats, await getLiveCapital())
+        || findCapacityBreach(settings.limits, stats);
+
+      if (breach) {
+        await tripGlobal(breach.rule, breach.message);
+      }
+    }
+  } catch (error) {
+    console.error(`Error evaluating risk limits for user ${userId}:`, error);
+  }
+};
+
+/**
+ * Check if the global kill switch is tripped
+ */
+export const isGlobalCircuitBreakerTripped = async (): Promise<boolean> => {
+  const settings = await getGlobalRiskSettings();
+  return settings.circuitBreaker.isTripped;
+};
+
+/**
+ * Trip a breaker by hand
+ * @param userId User to stop, or undefined for the global kill switch
+ * @param reason Reason shown in the alert
+ * @returns False if the breaker was already tripped
+ */
+export const tripCircuitBreaker = async (userId: string | undefined, reason: string): Promise<boolean> => {
+  if (userId) {
+    return tripUser(userId, 'MANUAL', reason);
+  }
+
+  await getGlobalRiskSettings();
+  return tripGlobal('MANUAL', reason);
+};
+
+/**
+ * Re-arm a tripped breaker, a user's auto-trading is restored to what it was when it tripped
+ * @param userId User to re-arm, or undefined for the global kill switch
+ * @param rearmedBy Username of the admin
+ * @returns False if the breaker was not tripped
+ */
+export const rearmCircuitBreaker = async (userId: string | undefined, rearmedBy: string): Promise<boolean> => {
+  const update = {
+    'circuitBreaker.isTripped': false,
+    'circuitBreaker.rearmedAt': new Date(),
+    'circuitBreaker.rearmedBy': rearmedBy,
+  };
+
+  if (!userId) {
+    const previous = await RiskSettings.findOneAndUpdate(
+      { key: GLOBAL_KEY, 'circuitBreaker.isTripped': true },
+      { $set: update }
+    );
+
+    if (!previous) {
+      return false;
+    }
+
+    isGlobalTripped = false;
+    await TelegramService.sendSystemAlert('info', `Global circuit breaker re-armed by ${rearmedBy}.`);
+    return true;
+  }
+
+  const previous = await User.findOneAndUpdate(
+    { _id: userId, 'circuitBreaker.isTripped': true },
+    { $set: update }
+  );
+
+  if (!previous) {
+    return false;
+  }
+
+  if (previous.circuitBreaker.autoTradingWasEnabled) {
+    await User.updateOne({ _id: userId }, { $set: { isAutoTradingEnabled: true } });
+  }
+
+  await TelegramService.sendSystemAlert('info', `Circuit breaker of <b>${previous.username}</b> re-armed by ${rearmedBy}.`);
+  return true;
+};
+
+/**
+ * Status of the circuit breaker
+ */
+export const getCircuitBreakerStatus = () => ({
+  isGlobalTripped,
+  lastTrip,
+});
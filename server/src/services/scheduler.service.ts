@@ -1,12 +1,20 @@
 import * as SignalGenerator from './signalGenerator.service';
 import * as OrderExecution from './orderExecution.service';
+import * as OcoManager from './ocoManager.service';
 import * as KiteService from './kite.service';
 import * as TelegramService from './telegram.service';
+import * as SquareOffService from './squareOff.service';
+import * as ReconciliationService from './reconciliation.service';
+import * as TickAggregator from './tickAggregator.service';
+import * as CandleStore from './candleStore.service';
+import * as TickRecorder from './tickRecorder.service';
 import { isMarketHours, isMarketOpeningTime, isMarketClosingTime } from '../utils/date.util';
+import { isVirtualClock, setClockInterval } from '../utils/clock.util';
 
 let signalGeneratorInterval: NodeJS.Timeout | null = null;
 let orderExecutionInterval: NodeJS.Timeout | null = null;
 let orderCheckInterval: NodeJS.Timeout | null = null;
+let reconciliationInterval: NodeJS.Timeout | null = null;
 let marketStatusCheckInterval: NodeJS.Timeout | null = null;
 
 /**
@@ -16,7 +24,7 @@ export const initializeSchedulers = () => {
   console.log('Initializing schedulers...');
 
   // Run market status check every 5 minutes
-  marketStatusCheckInterval = setInterval(marketStatusCheck, 5 * 60 * 1000);
+  marketStatusCheckInterval = setClockInterval(marketStatusCheck, 5 * 60 * 1000);
 
   // Initial check
   marketStatusCheck();
@@ -32,11 +40,14 @@ const marketStatusCheck = async () => {
     if (isMarketHours()) {
       console.log('Market is open. Starting schedulers...');
 
+      // A replayed session only generates signals, it never trades or reconciles with the broker
+      const isReplay = isVirtualClock();
+
       // Start signal generator scheduler if not running
       if (!signalGeneratorInterval) {
         console.log('Starting signal generator scheduler.');
         // Run signal generator every 5 minutes
-        signalGeneratorInterval = setInterval(
+        signalGeneratorInterval = setClockInterval(
           SignalGenerator.generateSignals,
           5 * 60 * 1000 // 5 minutes
         );
@@ -46,10 +57,10 @@ const marketStatusCheck = async () => {
       }
 
       // Start order execution scheduler if not running
-      if (!orderExecutionInterval) {
+      if (!orderExecutionInterval && !isReplay) {
         console.log('Starting order execution scheduler.');
         // Run order execution every 2 minutes
-        orderExecutionInterval = setInterval(
+        orderExecutionInterval = setClockInterval(
           OrderExecution.processPendingSignals,
           2 * 60 * 1000 // 2 minutes
         );
@@ -59,10 +70,14 @@ const marketStatusCheck = async () => {
       }
 
       // Start order check scheduler if not running
-      if (!orderCheckInterval) {
+      if (!orderCheckInterval && !isReplay) {
         console.log('Starting order check scheduler.');
+
+        // Exits are resolved as order updates and ticks arrive, the scheduled check is a fallback
+        await OcoManager.startOcoManager();
+
         // Check orders every 1 minute
-        orderCheckInterval = setInterval(
+        orderCheckInterval = setClockInterval(
           OrderExecution.checkCompletedOrders,
           1 * 60 * 1000 // 1 minute
         );
@@ -71,6 +86,19 @@ const marketStatusCheck = async () => {
         await OrderExecution.checkCompletedOrders();
       }
 
+      // Start reconciliation scheduler if not running
+      if (!reconciliationInterval && !isReplay) {
+        console.log('Starting reconciliation scheduler.');
+        // Reconcile orders and positions with the broker every 15 minutes
+        reconciliationInterval = setClockInterval(
+          ReconciliationService.runReconciliation,
+          15 * 60 * 1000 // 15 minutes
+        );
+
+        // Run initial reconciliation
+        await ReconciliationService.runReconciliation();
+      }
+
       // If it's market opening time, send a notification
       if (isMarketOpeningTime()) {
         await TelegramService.sendSystemAlert(
@@ -109,12 +137,33 @@ const marketStatusCheck = async () => {
         orderCheckInterval = null;
         console.log('Order check scheduler stopped.');
       }
+
+      // Stop reconciliation scheduler
+      if (reconciliationInterval) {
+        clearInterval(reconciliationInterval);
+        reconciliationInterval = null;
+        console.log('Reconciliation scheduler stopped.');
+      }
+
+      // Write the candles still aggregated in memory
+      await TickAggregator.stopTickAggregator();
+
+      // Drop candles past their retention once a day
+      await CandleStore.pruneCandles();
+
+      // The day's tick recording is complete
+      TickRecorder.closeRecording();
     }
   } catch (error) {
     console.error('Error in market status check:', error);
   }
 };
 
+/**
+ * Check if the schedulers have been initialized
+ */
+export const areSchedulersRunning = (): boolean => marketStatusCheckInterval !== null;
+
 /**
  * Stop all schedulers
  */
@@ -136,11 +185,18 @@ export const stopAllSchedulers = () => {
     orderCheckInterval = null;
   }
 
+  if (reconciliationInterval) {
+    clearInterval(reconciliationInterval);
+    reconciliationInterval = null;
+  }
+
   if (marketStatusCheckInterval) {
     clearInterval(marketStatusCheckInterval);
     marketStatusCheckInterval = null;
   }
 
+  TickAggregator.stopTickAggregator();
+
   console.log('All schedulers stopped successfully.');
 };
 
@@ -171,6 +227,38 @@ export const scheduleTokenRefresh = () => {
   }, timeToRefresh);
 };
 
+/**
+ * Run the intraday square-off at the configured time (SQUARE_OFF_TIME) on weekdays
+ */
+export const scheduleSquareOff = () => {
+  const { hours, minutes } = SquareOffService.getSquareOffTime();
+  const now = new Date();
+  const nextSquareOff = new Date(now);
+  nextSquareOff.setHours(hours, minutes, 0, 0);
+
+  // If it's past the square-off time, schedule for the next day
+  if (now.getTime() >= nextSquareOff.getTime()) {
+    nextSquareOff.setDate(nextSquareOff.getDate() + 1);
+  }
+
+  // Skip weekends
+  while (nextSquareOff.getDay() === 0 || nextSquareOff.getDay() === 6) {
+    nextSquareOff.setDate(nextSquareOff.getDate() + 1);
+  }
+
+  const timeToSquareOff = nextSquareOff.getTime() - now.getTime();
+
+  console.log(`Scheduling square-off for ${nextSquareOff.toLocaleString()}`);
+
+  // Schedule square-off
+  setTimeout(async () => {
+    await SquareOffService.squareOffPositions();
+
+    // Schedule next square-off
+    scheduleSquareOff();
+  }, timeToSquareOff);
+};
+
 /**
  * Refresh Kite token
  */
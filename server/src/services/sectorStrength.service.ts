@@ -0,0 +1,148 @@
+import MarketData, { type ICandleStick } from '../models/marketData.model';
+import type { MarketDataSnapshot } from '../filters/types';
+
+// NSE indices streamed over the WebSocket (Kite instrument tokens)
+export const BENCHMARK_INDEX = { symbol: 'NIFTY 50', instrumentToken: 256265 };
+
+export const SECTOR_INDICES: Record<string, { symbol: string; instrumentToken: number }> = {
+  BANKING: { symbol: 'NIFTY BANK', instrumentToken: 260105 },
+  IT: { symbol: 'NIFTY IT', instrumentToken: 259849 },
+  PHARMA: { symbol: 'NIFTY PHARMA', instrumentToken: 262409 },
+  AUTO: { symbol: 'NIFTY AUTO', instrumentToken: 263433 },
+  FMCG: { symbol: 'NIFTY FMCG', instrumentToken: 261897 },
+  METAL: { symbol: 'NIFTY METAL', instrumentToken: 263689 },
+  REALTY: { symbol: 'NIFTY REALTY', instrumentToken: 261129 },
+  ENERGY: { symbol: 'NIFTY ENERGY', instrumentToken: 261641 },
+  MEDIA: { symbol: 'NIFTY MEDIA', instrumentToken: 263945 },
+  PSU_BANK: { symbol: 'NIFTY PSU BANK', instrumentToken: 262921 },
+  FINANCIAL_SERVICES: { symbol: 'NIFTY FIN SERVICE', instrumentToken: 257801 },
+};
+
+// Instrument token to symbol for every index we subscribe to
+export const INDEX_TOKENS: Record<number, string> = [BENCHMARK_INDEX, ...Object.values(SECTOR_INDICES)]
+  .reduce((acc: Record<number, string>, index) => {
+    acc[index.instrumentToken] = index.symbol;
+    return acc;
+  }, {});
+
+export const DEFAULT_WINDOWS = [30, 60, 120]; // Minutes
+
+export interface SectorStrength {
+  sector: string;
+  index: string;
+  lastPrice: number;
+  dayChangePercent: number;
+  relativeStrength: Record<string, number>; // Window ("30m", "day") to outperformance vs the benchmark in %
+  score: number;
+  rank: number;
+}
+
+/**
+ * Percentage return over the last N minutes from 15-minute candles
+ * @param candles 15-minute candles
+ * @param lastPrice Current price
+ * @param minutes Window length in minutes
+ * @returns Return in percent or null if there are not enough candles
+ */
+export const calculateWindowReturn = (candles: ICandleStick[], lastPrice: number, minutes: number): number | null => {
+  const candlesBack = Math.max(Math.round(minutes / 15), 1);
+
+  if (candles.length < candlesBack) {
+    return null;
+  }
+
+  const baseCandle = candles[candles.length - candlesBack] as ICandleStick;
+
+  if (!baseCandle.open) {
+    return null;
+  }
+
+  return ((lastPrice - baseCandle.open) / baseCandle.open) * 100;
+};
+
+/**
+ * Percentage change from the previous close
+ */
+const calculateDayChange = (lastPrice: number, previousClose: number): number => {
+  return previousClose ? ((lastPrice - previousClose) / previousClose) * 100 : 0;
+};
+
+/**
+ * Rank sectors by relative strength of their index versus NIFTY 50
+ * @param windows Windows in minutes to measure relative strength over (optional)
+ * @param getMarketData Market data loader (optional, defaults to the live market data)
+ * @returns Sectors ranked from strongest to weakest
+ */
+export const getSectorRanking = async (
+  windows: number[] = DEFAULT_WINDOWS,
+  getMarketData: (symbol: string) => Promise<MarketDataSnapshot | null> = symbol => MarketData.findOne({ symbol })
+): Promise<SectorStrength[]> => {
+  try {
+    const symbols = [BENCHMARK_INDEX.symbol, ...Object.values(SECTOR_INDICES).map(index => index.symbol)];
+
+    const marketDataMap = new Map<string, MarketDataSnapshot>();
+    for (const symbol of symbols) {
+      const data = await getMarketData(symbol);
+
+      if (data) {
+        marketDataMap.set(symbol, data);
+      }
+    }
+
+    const benchmark = marketDataMap.get(BENCHMARK_INDEX.symbol);
+
+    if (!benchmark) {
+      console.log(`Market data not found for ${BENCHMARK_INDEX.symbol}. Sector ranking unavailable.`);
+      return [];
+    }
+
+    const benchmarkDayChange = calculateDayChange(benchmark.lastPrice, benchmark.ohlc?.close);
+    const sectors: SectorStrength[] = [];
+
+    for (const [sector, index] of Object.entries(SECTOR_INDICES)) {
+      const data = marketDataMap.get(index.symbol);
+
+      if (!data) {
+        continue;
+      }
+
+      const dayChangePercent = calculateDayChange(data.lastPrice, data.ohlc?.close);
+      const relativeStrength: Record<string, number> = {
+        day: Number((dayChangePercent - benchmarkDayChange).toFixed(2)),
+      };
+
+      for (const minutes of windows) {
+        const sectorReturn = calculateWindowReturn(data.fifteenMinuteCandlesticks, data.lastPrice, minutes);
+        const benchmarkReturn = calculateWindowReturn(benchmark.fifteenMinuteCandlesticks, benchmark.lastPrice, minutes);
+
+        if (sectorReturn !== null && benchmarkReturn !== null) {
+          relativeStrength[`${minutes}m`] = Number((sectorReturn - benchmarkReturn).toFixed(2));
+        }
+      }
+
+      // Equal weight for every window that could be measured
+      const values = Object.values(relativeStrength);
+      const score = values.reduce((sum, value) => sum + value, 0) / values.length;
+
+      sectors.push({
+        sector,
+        index: index.symbol,
+        lastPrice: data.lastPrice,
+        dayChangePercent: Number(dayChangePercent.toFixed(2)),
+        relativeStrength,
+        score: Number(score.toFixed(2)),
+        rank: 0,
+      });
+    }
+
+    sectors.sort((a, b) => b.score - a.score);
+    sectors.forEach((sector, index) => {
+      sector.rank = index + 1;
+    });
+
+    return sectors;
+  } catch (error) {
+    console.error('Error ranking sectors:', error);
+    return [];
+  }
+};
@@ -0,0 +1,167 @@
+import Order from '../models/order.model';
+import { getBrokerForOrder } from '../brokers';
+import * as OcoManager from './ocoManager.service';
+import * as TelegramService from './telegram.service';
+
+/**
+ * End-of-day square-off of intraday (MIS) positions.
+ * At the square-off time, unfilled entry orders are cancelled and every open
+ * position is closed at market with MARKET_CLOSE as the exit reason.
+ */
+
+export interface SquareOffResult {
+  tradingSymbol: string;
+  isPaper: boolean;
+  closed: boolean;
+  profitLoss?: number;
+  message: string;
+}
+
+export interface SquareOffSummary {
+  startedAt: Date;
+  completedAt: Date;
+  positions: SquareOffResult[];
+  cancelledEntries: number;
+  totalProfitLoss: number;
+}
+
+// Square-off time in HH:mm (server time), before the broker's own auto square-off
+const DEFAULT_SQUARE_OFF_TIME = '15:15';
+
+let isRunning = false;
+let lastSummary: SquareOffSummary | null = null;
+
+/**
+ * Configured square-off time
+ * @returns Hours and minutes of the square-off time
+ */
+export const getSquareOffTime = (): { hours: number; minutes: number } => {
+  const value = process.env.SQUARE_OFF_TIME || DEFAULT_SQUARE_OFF_TIME;
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value);
+  const hours = Number(match?.[1]);
+  const minutes = Number(match?.[2]);
+
+  if (!match || hours > 23 || minutes > 59) {
+    console.warn(`Invalid SQUARE_OFF_TIME "${value}", using ${DEFAULT_SQUARE_OFF_TIME}.`);
+    return { hours: 15, minutes: 15 };
+  }
+
+  return { hours, minutes };
+};
+
+/**
+ * Check if today's square-off time has passed
+ * @param date Date to check (optional, defaults to now)
+ * @returns True if no new intraday positions should be opened
+ */
+export const isPastSquareOffTime = (date: Date = new Date()): boolean => {
+  const { hours, minutes } = getSquareOffTime();
+  return date.getHours() > hours || (date.getHours() === hours && date.getMinutes() >= minutes);
+};
+
+/**
+ * Cancel entry orders that are still waiting to be filled
+ * @returns Number of cancelled orders
+ */
+const cancelOpenEntries = async (): Promise<number> => {
+  const orders = await Order.find({ status: 'OPEN', product: 'MIS', transactionType: 'BUY' });
+  let cancelled = 0;
+
+  for (const order of orders) {
+    const response = await getBrokerForOrder(order).cancelOrder(order.userId.toString(), order.kiteOrderId, order.variety);
+
+    if (!response) {
+      console.error(`Failed to cancel entry order ${order.kiteOrderId} at square-off.`);
+      continue;
+    }
+
+    order.status = 'CANCELLED';
+    order.cancelledQuantity = order.pendingQuantity;
+    order.pendingQuantity = 0;
+    await order.save();
+    cancelled++;
+  }
+
+  return cancelled;
+};
+
+/**
+ * Square off every open intraday position and send a summary
+ * @returns Square-off summary, or null if a square-off is already running
+ */
+export const squareOffPositions = async (): Promise<SquareOffSummary | null> => {
+  if (isRunning) {
+    console.log('Square-off already running.');
+    return null;
+  }
+  isRunning = true;
+
+  const startedAt = new Date();
+  const positions: SquareOffResult[] = [];
+  let cancelledEntries = 0;
+
+  try {
+    console.log('Squaring off intraday positions...');
+
+    cancelledEntries = await cancelOpenEntries();
+
+    const orders = await Order.find({
+      status: 'COMPLETE',
+      product: 'MIS',
+      transactionType: 'BUY',
+      exitReason: { $exists: false },
+    });
+
+    for (const order of orders) {
+      const result = await OcoManager.closePosition(order, 'MARKET_CLOSE');
+
+      positions.push({
+        tradingSymbol: order.tradingSymbol,
+        isPaper: order.isPaper,
+        closed: result.closed,
+        profitLoss: order.exitReason ? order.profitLoss : undefined,
+        message: result.message,
+      });
+    }
+  } catch (error) {
+    console.error('Error squaring off positions:', error);
+  } finally {
+    isRunning = false;
+  }
+
+  const summary: SquareOffSummary = {
+    startedAt,
+    completedAt: new Date(),
+    positions,
+    cancelledEntries,
+    totalProfitLoss: positions.reduce((sum, position) => sum + (position.profitLoss || 0), 0),
+  };
+  lastSummary = summary;
+
+  console.log(`Square-off complete: ${positions.filter(position => position.closed).length}/${positions.length} positions closed.`);
+
+  await TelegramService.sendSquareOffSummary(summary);
+
+  return summary;
+};
+
+/**
+ * Status of the square-off job
+ */
+export const getSquareOffStatus = () => {
+  const { hours, minutes } = getSquareOffTime();
+
+  return {
+    time: `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}`,
+    isRunning,
+    lastRun: lastSummary
+      ? {
+        completedAt: lastSummary.completedAt,
+        positions: lastSummary.positions.length,
+        closed: lastSummary.positions.filter(position => position.closed).length,
+        cancelledEntries: lastSummary.cancelledEntries,
+        totalProfitLoss: lastSummary.totalProfitLoss,
+      }
+      : null,
+  };
+};
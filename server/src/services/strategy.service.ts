@@ -0,0 +1,297 @@
+import StockUniverse from '../models/stockUniverse.model';
+import Strategy, { type IStrategy, type IStrategyLayer, type StrategyDirection } from '../models/strategy.model';
+import type { StrategyCandidate, StrategyContext, StrategyFilter } from '../filters/types';
+import * as CandleStore from './candleStore.service';
+import { getCurrentTime } from '../utils/clock.util';
+import marketTrendFilter from '../filters/marketTrend.filter';
+import sectorStrengthFilter from '../filters/sectorStrength.filter';
+import rsiFilter from '../filters/rsi.filter';
+import macdFilter from '../filters/macd.filter';
+import superTrendFilter from '../filters/superTrend.filter';
+import emaTrendFilter from '../filters/emaTrend.filter';
+import volumeSpikeFilter from '../filters/volumeSpike.filter';
+import priceActionFilter from '../filters/priceAction.filter';
+import timeWindowFilter from '../filters/timeWindow.filter';
+import atrRiskFilter from '../filters/atrRisk.filter';
+import openInterestFilter from '../filters/openInterest.filter';
+import optionGreeksFilter from '../filters/optionGreeks.filter';
+
+// Registry of all filters that can be used as strategy layers
+const filters: Record<string, StrategyFilter> = {};
+
+/**
+ * Register a filter so it can be referenced by name from a strategy
+ */
+export const registerFilter = (filter: StrategyFilter) => {
+  filters[filter.name] = filter;
+};
+
+for (const filter of [
+  marketTrendFilter,
+  sectorStrengthFilter,
+  rsiFilter,
+  macdFilter,
+  superTrendFilter,
+  emaTrendFilter,
+  volumeSpikeFilter,
+  priceActionFilter,
+  timeWindowFilter,
+  atrRiskFilter,
+  openInterestFilter,
+  optionGreeksFilter,
+]) {
+  registerFilter(filter);
+}
+
+/**
+ * Get a registered filter by name
+ */
+export const getFilter = (name: string): StrategyFilter | undefined => {
+  return filters[name];
+};
+
+/**
+ * List all registered filters with their default parameters
+ */
+export const listFilters = () => {
+  return Object.values(filters).map(filter => ({
+    name: filter.name,
+    description: filter.description,
+    defaultParams: filter.defaultParams,
+  }));
+};
+
+/**
+ * Build the layers of a built-in strategy, overriding params for some filters
+ */
+const buildDefaultLayers = (overrides: Record<string, IStrategyLayer['params']> = {}): IStrategyLayer[] => [
+  'marketTrend',
+  'sectorStrength',
+  'rsi',
+  'macd',
+  'superTrend',
+  'emaTrend',
+  'volumeSpike',
+  'priceAction',
+  'timeWindow',
+  'atrRisk',
+  'openInterest',
+  'optionGreeks',
+].map(filter => ({
+  filter,
+  enabled: true,
+  params: overrides[filter] || {},
+}));
+
+// Built-in strategies, created on first use
+const DEFAULT_STRATEGIES: Array<{
+  name: string;
+  description: string;
+  direction: StrategyDirection;
+  layers: IStrategyLayer[];
+}> = [
+  {
+    name: 'default',
+    description: 'Bullish market trend, strong sectors, momentum and breakout with ATR based risk (CE)',
+    direction: 'BULLISH',
+    layers: buildDefaultLayers(),
+  },
+  {
+    name: 'default-bearish',
+    description: 'Bearish market trend, weak momentum and previous day low breakdown with ATR based risk (PE)',
+    direction: 'BEARISH',
+    layers: buildDefaultLayers({ rsi: { min: 30, max: 50 } }),
+  },
+];
+
+/**
+ * Validate strategy layers against the filter registry
+ * @returns List of error messages, empty if the layers are valid
+ */
+export const validateLayers = (layers: unknown): string[] => {
+  const errors: string[] = [];
+
+  if (!Array.isArray(layers) || layers.length === 0) {
+    return ['Strategy must have at least one layer'];
+  }
+
+  // Layers come from the request body, every field is checked before use
+  for (const [index, layer] of (layers as Array<Partial<IStrategyLayer> | null>).entries()) {
+    if (!layer || typeof layer.filter !== 'string') {
+      errors.push(`Layer ${index + 1} must specify a filter`);
+      continue;
+    }
+
+    const filter = getFilter(layer.filter);
+
+    if (!filter) {
+      errors.push(`Layer ${index + 1} uses unknown filter "${layer.filter}"`);
+      continue;
+    }
+
+    if (layer.params !== undefined && (typeof layer.params !== 'object' || Array.isArray(layer.params))) {
+      errors.push(`Layer ${index + 1} params must be an object`);
+      continue;
+    }
+
+    const unknownParams = Object.keys(layer.params || {}).filter(key => !(key in filter.defaultParams));
+
+    if (unknownParams.length > 0) {
+      errors.push(`Layer ${index + 1} (${layer.filter}) has unknown params: ${unknownParams.join(', ')}`);
+    }
+  }
+
+  return errors;
+};
+
+/**
+ * Make sure the built-in strategies exist
+ */
+export const ensureDefaultStrategies = async (): Promise<void> => {
+  for (const defaultStrategy of DEFAULT_STRATEGIES) {
+    const existing = await Strategy.findOne({ name: defaultStrategy.name });
+
+    if (existing) {
+      continue;
+    }
+
+    const strategy = new Strategy({
+      ...defaultStrategy,
+      isActive: true,
+      isDefault: true,
+    });
+
+    await strategy.save();
+
+    console.log(`Default strategy ${defaultStrategy.name} created.`);
+  }
+};
+
+/**
+ * Get the strategies to run
+ * @param strategyName Run only this strategy (optional, defaults to all active strategies)
+ */
+export const getStrategiesToRun = async (strategyName?: string): Promise<IStrategy[]> => {
+  await ensureDefaultStrategies();
+
+  if (strategyName) {
+    const strategy = await Strategy.findOne({ name: strategyName });
+    return strategy ? [strategy] : [];
+  }
+
+  return await Strategy.find({ isActive: true }).sort({ createdAt: 1 });
+};
+
+/**
+ * Load the initial universe of candidates (active, non-banned F&O stocks with market data)
+ */
+const loadCandidates = async (): Promise<StrategyCandidate[]> => {
+  const stocks = await StockUniverse.find({
+    isActive: true,
+    inF1: true,
+    isBanned: false,
+  });
+
+  const stockSymbols = stocks.map(stock => stock.symbol);
+  const marketData = await CandleStore.getMarketDataModel().find({ symbol: { $in: stockSymbols } });
+
+  // The indicators need more 15-minute candles than the market data documents keep
+  const history = await CandleStore.getCandleSeries(stockSymbols, 15, CandleStore.INDICATOR_CANDLES);
+
+  // Create a map for faster lookups
+  const marketDataMap = new Map<string, (typeof marketData)[number]>();
+  for (const data of marketData) {
+    marketDataMap.set(data.symbol, data);
+  }
+
+  const candidates: StrategyCandidate[] = [];
+
+  for (const stock of stocks) {
+    const data = marketDataMap.get(stock.symbol);
+
+    if (!data) {
+      continue;
+    }
+
+    candidates.push({
+      ...stock.toJSON(),
+      marketData: CandleStore.withCandleHistory(data, history.get(stock.symbol) || []),
+      technicalIndicators: {},
+      priceAction: {},
+    });
+  }
+
+  return candidates;
+};
+
+/**
+ * Run a strategy's layers in order and return the candidates that passed all of them
+ */
+export const runStrategy = async (strategy: IStrategy): Promise<StrategyCandidate[]> => {
+  try {
+    const candidates = await loadCandidates();
+
+    if (candidates.length === 0) {
+      console.log(`[${strategy.name}] No active F&O stocks with market data found.`);
+      return [];
+    }
+
+    console.log(`[${strategy.name}] ${strategy.direction} initial universe: ${candidates.length} F&O stocks`);
+
+    return await runLayers(candidates, {
+      strategy,
+      direction: strategy.direction || 'BULLISH',
+      now: getCurrentTime(),
+      mode: 'LIVE',
+      getMarketData: CandleStore.getMarketDataWithHistory,
+    });
+  } catch (error) {
+    console.error(`Error running strategy ${strategy.name}:`, error);
+    return [];
+  }
+};
+
+/**
+ * Run the enabled layers of the context's strategy over a set of candidates
+ * (shared by live signal generation and the backtester)
+ */
+export const runLayers = async (
+  initialCandidates: StrategyCandidate[],
+  context: StrategyContext
+): Promise<StrategyCandidate[]> => {
+  const { strategy } = context;
+  let candidates = initialCandidates;
+
+  // Backtests run the layers for every bar, so only live runs log layer progress
+  const log = context.mode === 'LIVE' ? console.log : () => {};
+
+  try {
+    const layers = strategy.layers.filter(layer => layer.enabled);
+
+    for (const [index, layer] of layers.entries()) {
+      const filter = getFilter(layer.filter);
+
+      if (!filter) {
+        console.warn(`[${strategy.name}] Unknown filter "${layer.filter}". Strategy skipped.`);
+        return [];
+      }
+
+      const params = { ...filter.defaultParams, ...(layer.params || {}) };
+
+      candidates = await filter.run(candidates, params, context);
+
+      if (candidates.length === 0) {
+        log(`[${strategy.name}] No stocks passed layer ${index + 1} (${filter.name}).`);
+        return [];
+      }
+
+      log(`[${strategy.name}] Layer ${index + 1} (${filter.name}) passed: ${candidates.length} stocks`);
+    }
+
+    // Signals need entry, stop loss and target levels
+    return candidates.filter(candidate => !!candidate.riskManagement);
+  } catch (error) {
+    console.error(`Error running strategy ${strategy.name}:`, error);
+    return [];
+  }
+};
@@ -1,6 +1,8 @@
 import TelegramBot from 'node-telegram-bot-api';
 import type { ISignal } from '../models/signal.model';
+import type { SquareOffSummary } from './squareOff.service';
 import { formatIndianDate, formatTime } from '../utils/date.util';
+import { isVirtualClock } from '../utils/clock.util';
 
 let botInstance: TelegramBot | null = null;
 let channelId: string | null = null;
@@ -84,17 +86,36 @@ const handleMessage = async (msg: any) => {
   }
 };
 
+/**
+ * Bot and channel to send to, null when they are not set up or a replayed session is running
+ * @param content What is being sent, for the log
+ */
+const getChannel = (content: string): { bot: TelegramBot; chatId: string } | null => {
+  // Replayed sessions must not reach the channel
+  if (isVirtualClock()) {
+    return null;
+  }
+
+  if (!botInstance || !channelId) {
+    console.warn(`Telegram bot or channel ID not set. ${content} not sent.`);
+    return null;
+  }
+
+  return { bot: botInstance, chatId: channelId };
+};
+
 /**
  * Send a text message to the channel
  */
 export const sendMessage = async (message: string): Promise<boolean> => {
   try {
-    if (!botInstance || !channelId) {
-      console.warn('Telegram bot or channel ID not set. Message not sent.');
+    const channel = getChannel('Message');
+
+    if (!channel) {
       return false;
     }
 
-    await botInstance.sendMessage(channelId, message, { parse_mode: 'HTML' });
+    await channel.bot.sendMessage(channel.chatId, message, { parse_mode: 'HTML' });
     return true;
   } catch (error) {
     console.error('Error sending Telegram message:', error);
@@ -107,8 +128,9 @@ export const sendMessage = async (message: string): Promise<boolean> => {
  */
 export const sendSignal = async (signal: ISignal): Promise<boolean> => {
   try {
-    if (!botInstance || !channelId) {
-      console.warn('Telegram bot or channel ID not set. Signal not sent.');
+    const channel = getChannel('Signal');
+
+    if (!channel) {
       return false;
     }
 
@@ -120,10 +142,17 @@ export const sendSignal = async (signal: ISignal): Promise<boolean> => {
     message += `<b>Stock:</b> ${signal.stock}\n`;
     message += `<b>Option:</b> ${signal.option}\n`;
     message += `<b>CMP:</b> ₹${signal.currentMarketPrice.toFixed(2)}\n`;
-    message += `<b>Buy Above:</b> ₹${signal.entryPrice.toFixed(2)}\n`;
+    message += `<b>${signal.type === 'SELL' ? 'Sell Below' : 'Buy Above'}:</b> ₹${signal.entryPrice.toFixed(2)}\n`;
     message += `<b>Target:</b> ₹${signal.targetPrice.toFixed(2)}\n`;
     message += `<b>SL:</b> ₹${signal.stopLoss.toFixed(2)}\n`;
     message += `<b>R:R =</b> ${signal.riskRewardRatio}\n`;
+
+    if (signal.optionLevels) {
+      message += `<b>Option Buy Above:</b> ₹${signal.optionLevels.entryPrice.toFixed(2)}\n`;
+      message += `<b>Option Target:</b> ₹${signal.optionLevels.targetPrice.toFixed(2)}\n`;
+      message += `<b>Option SL:</b> ₹${signal.optionLevels.stopLoss.toFixed(2)}\n`;
+    }
+
     message += `<b>Signal Time:</b> ${date} ${time}\n\n`;
 
     // Include technical indicators if available
@@ -151,7 +180,7 @@ export const sendSignal = async (signal: ISignal): Promise<boolean> => {
     message += '\n<i>Trade at your own risk. Always use proper risk management.</i>';
 
     // Send message
-    await botInstance.sendMessage(channelId, message, { parse_mode: 'HTML' });
+    await channel.bot.sendMessage(channel.chatId, message, { parse_mode: 'HTML' });
 
     // Update signal as sent
     signal.sentToTelegram = true;
@@ -170,8 +199,9 @@ export const sendSignal = async (signal: ISignal): Promise<boolean> => {
  */
 export const sendOrderUpdate = async (signal: ISignal, isExecuted: boolean, message: string): Promise<boolean> => {
   try {
-    if (!botInstance || !channelId) {
-      console.warn('Telegram bot or channel ID not set. Order update not sent.');
+    const channel = getChannel('Order update');
+
+    if (!channel) {
       return false;
     }
 
@@ -183,7 +213,7 @@ export const sendOrderUpdate = async (signal: ISignal, isExecuted: boolean, mess
     updateMessage += message;
 
     // Send message
-    await botInstance.sendMessage(channelId, updateMessage, { parse_mode: 'HTML' });
+    await channel.bot.sendMessage(channel.chatId, updateMessage, { parse_mode: 'HTML' });
 
     return true;
   } catch (error) {
@@ -197,8 +227,9 @@ export const sendOrderUpdate = async (signal: ISignal, isExecuted: boolean, mess
  */
 export const sendPnLUpdate = async (signal: ISignal, exitReason: string): Promise<boolean> => {
   try {
-    if (!botInstance || !channelId) {
-      console.warn('Telegram bot or channel ID not set. P&L update not sent.');
+    const channel = getChannel('P&L update');
+
+    if (!channel) {
       return false;
     }
 
@@ -233,7 +264,7 @@ export const sendPnLUpdate = async (signal: ISignal, exitReason: string): Promis
     }
 
     // Send message
-    await botInstance.sendMessage(channelId, message, { parse_mode: 'HTML' });
+    await channel.bot.sendMessage(channel.chatId, message, { parse_mode: 'HTML' });
 
     return true;
   } catch (error) {
@@ -242,13 +273,58 @@ export const sendPnLUpdate = async (signal: ISignal, exitReason: string): Promis
   }
 };
 
+/**
+ * Send the end-of-day square-off summary to the channel
+ */
+export const sendSquareOffSummary = async (summary: SquareOffSummary): Promise<boolean> => {
+  try {
+    const channel = getChannel('Square-off summary');
+
+    if (!channel) {
+      return false;
+    }
+
+    const closed = summary.positions.filter(position => position.closed);
+    const failed = summary.positions.filter(position => !position.closed);
+    let message = '<b>🔔 END OF DAY SQUARE-OFF</b>\n\n';
+    message += `<b>Time:</b> ${formatTime(summary.completedAt)}\n`;
+    message += `<b>Positions Closed:</b> ${closed.length}/${summary.positions.length}\n`;
+    message += `<b>Entry Orders Cancelled:</b> ${summary.cancelledEntries}\n`;
+
+    for (const position of closed) {
+      const profitLoss = position.profitLoss || 0;
+      message += `\n${position.isPaper ? '[PAPER] ' : ''}${position.tradingSymbol}: ${profitLoss >= 0 ? '+' : '-'}₹${Math.abs(profitLoss).toFixed(2)}`;
+    }
+
+    if (closed.length > 0) {
+      message += '\n';
+    }
+
+    message += `\n<b>Square-off P&L:</b> ${summary.totalProfitLoss >= 0 ? '+' : '-'}₹${Math.abs(summary.totalProfitLoss).toFixed(2)}\n`;
+
+    if (failed.length > 0) {
+      message += '\n<b>⚠️ Not closed:</b>\n';
+      message += failed.map(position => `${position.tradingSymbol}: ${position.message}`).join('\n');
+    }
+
+    // Send message
+    await channel.bot.sendMessage(channel.chatId, message, { parse_mode: 'HTML' });
+
+    return true;
+  } catch (error) {
+    console.error('Error sending square-off summary to Telegram:', error);
+    return false;
+  }
+};
+
 /**
  * Send a system alert to the channel
  */
 export const sendSystemAlert = async (alertType: 'info' | 'warning' | 'error', message: string): Promise<boolean> => {
   try {
-    if (!botInstance || !channelId) {
-      console.warn('Telegram bot or channel ID not set. System alert not sent.');
+    const channel = getChannel('System alert');
+
+    if (!channel) {
       return false;
     }
 
@@ -266,7 +342,7 @@ export const sendSystemAlert = async (alertType: 'info' | 'warning' | 'error', m
     const alertMessage = `<b>${emoji} ${title}</b>\n\n${message}`;
 
     // Send message
-    await botInstance.sendMessage(channelId, alertMessage, { parse_mode: 'HTML' });
+    await channel.bot.sendMessage(channel.chatId, alertMessage, { parse_mode: 'HTML' });
 
     return true;
   } catch (error) {
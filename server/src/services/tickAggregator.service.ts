@@ -0,0 +1,536 @@
+import type { ICandleStick } from '../models/marketData.model';
+import StockUniverse from '../models/stockUniverse.model';
+import { combineCandles, createFlatCandle, getBucketStart, getMinuteStart, isBucketEnd } from '../utils/candle.util';
+import { getISTStartOfDay, isWithinSession } from '../utils/date.util';
+import { getCurrentTime } from '../utils/clock.util';
+import * as CandleStore from './candleStore.service';
+import { INDEX_TOKENS } from './sectorStrength.service';
+
+/**
+ * In-memory tick aggregation.
+ * Ticks only update per-instrument state in memory: the latest quote and the
+ * forming 1-minute candle. A timer closes finished candles, derives the 5 and
+ * 15-minute candles and writes every changed instrument to Mongo in one bulk
+ * write, so tick handling never waits on the database.
+ *
+ * Candles are bucketed by the exchange timestamp of each tick, not by when the
+ * server received it, and carry the volume traded within the minute. Minutes
+ * without trades inside the session get a flat candle at the last close.
+ */
+
+// Fields of a Kite WebSocket tick the aggregator reads
+export interface Tick {
+  instrument_token: number;
+  last_price: number;
+  last_trade_time?: Date | null;
+  exchange_timestamp?: Date | null;
+  volume_traded?: number; // Cumulative volume of the day
+  average_traded_price?: number;
+  day_high_price?: number;
+  day_low_price?: number;
+  open_price?: number;
+  change?: number;
+  ohlc?: { open?: number; high?: number; low?: number; close?: number };
+}
+
+interface MarketDataSnapshot {
+  instrumentToken: number;
+  lastPrice: number;
+  dayHigh: number;
+  dayLow: number;
+  openPrice: number;
+  volume: number;
+  averagePrice: number;
+  lastTradeTime: Date;
+  ohlc: { open: number; high: number; low: number; close: number };
+  change: number;
+  lastUpdated: Date;
+}
+
+interface InstrumentState {
+  token: number;
+  symbol: string;
+  snapshot: MarketDataSnapshot; // Market data fields of the latest tick
+  closePrice?: number; // Set when the market data document is created
+  currentCandle: ICandleStick | null;
+  recentCandles: ICandleStick[]; // Closed 1-minute candles the 5 and 15-minute candles are built from
+  lastCumulativeVolume: number | null; // Day volume of the previous tick, candle volume is the difference
+  pending: {
+    oneMinute: ICandleStick[];
+    fiveMinute: ICandleStick[];
+    fifteenMinute: ICandleStick[];
+  };
+  isDirty: boolean;
+}
+
+interface FlushStats {
+  at: Date;
+  durationMs: number;
+  instruments: number;
+  candles: number;
+}
+
+// Configuration
+const DEFAULT_FLUSH_INTERVAL_MS = 2000;
+const MAX_PENDING_CANDLES = 120; // Per instrument and interval, oldest are dropped beyond this
+const RECENT_CANDLES = 15;
+
+// Candles kept on the market data document
+const CANDLE_LIMITS = {
+  oneMinute: 60,
+  fiveMinute: 72,
+  fifteenMinute: 30,
+};
+
+const symbolsByToken = new Map<number, string>();
+const unknownTokens = new Set<number>();
+const instruments = new Map<number, InstrumentState>();
+
+let flushTimer: NodeJS.Timeout | null = null;
+let isFlushing = false;
+let isSymbolCacheLoaded = false;
+
+// Latest exchange time seen on any tick, candles close by this clock rather than the server's
+let marketClock: Date | null = null;
+
+// Backpressure metrics
+const metrics = {
+  ticksReceived: 0,
+  unknownTicks: 0,
+  droppedCandles: 0,
+  lateTicks: 0, // Ticks for a minute whose candle was already closed
+  filledCandles: 0, // Flat candles inserted for minutes without trades
+  skippedFlushes: 0, // Timer fired while the previous flush was still writing
+  flushErrors: 0,
+  maxFlushDurationMs: 0,
+  lastFlush: null as FlushStats | null,
+};
+
+/**
+ * Flush interval in milliseconds, configurable with TICK_FLUSH_INTERVAL_MS
+ */
+const getFlushIntervalMs = (): number => {
+  const value = Number(process.env.TICK_FLUSH_INTERVAL_MS);
+  return value > 0 ? value : DEFAULT_FLUSH_INTERVAL_MS;
+};
+
+/**
+ * Load the instrument token to symbol cache from the stock universe and the indices
+ */
+export const loadSymbolCache = async (): Promise<void> => {
+  try {
+    const stocks = await StockUniverse.find({ isActive: true }).select('symbol instrumentToken');
+
+    symbolsByToken.clear();
+    unknownTokens.clear();
+
+    for (const stock of stocks) {
+      symbolsByToken.set(stock.instrumentToken, stock.symbol);
+    }
+
+    for (const [token, symbol] of Object.entries(INDEX_TOKENS)) {
+      symbolsByToken.set(Number(token), symbol);
+    }
+
+    isSymbolCacheLoaded = true;
+    console.log(`Tick aggregator cached ${symbolsByToken.size} instrument symbols.`);
+  } catch (error) {
+    console.error('Error loading instrument symbols:', error);
+  }
+};
+
+/**
+ * Add a price to a candle
+ */
+const updateCandle = (candle: ICandleStick, price: number, volume: number): void => {
+  candle.high = Math.max(candle.high, price);
+  candle.low = Math.min(candle.low, price);
+  candle.close = price;
+  candle.volume += volume;
+};
+
+/**
+ * Exchange time of a tick, falling back to when it was received
+ */
+const getTickTime = (tick: Tick, receivedAt: Date): Date => {
+  const time = tick.exchange_timestamp || tick.last_trade_time;
+  return time ? new Date(time) : receivedAt;
+};
+
+/**
+ * Volume traded since the instrument's previous tick
+ */
+const takeVolumeDelta = (state: InstrumentState, cumulativeVolume: number | undefined): number => {
+  if (cumulativeVolume === undefined) {
+    return 0;
+  }
+
+  const previous = state.lastCumulativeVolume;
+  state.lastCumulativeVolume = cumulativeVolume;
+
+  // The first tick only sets the baseline, a lower day volume means a new trading day
+  if (previous === null) {
+    return 0;
+  }
+
+  return cumulativeVolume >= previous ? cumulativeVolume - previous : cumulativeVolume;
+};
+
+/**
+ * Queue a candle for the next flush, dropping the oldest when the database falls behind
+ */
+const queueCandle = (queue: ICandleStick[], candle: ICandleStick): void => {
+  queue.push(candle);
+
+  if (queue.length > MAX_PENDING_CANDLES) {
+    queue.shift();
+    metrics.droppedCandles++;
+  }
+};
+
+/**
+ * Record a closed 1-minute candle and complete the 5 and 15-minute candles it ends
+ */
+const completeMinute = (state: InstrumentState, candle: ICandleStick): void => {
+  state.recentCandles.push(candle);
+  if (state.recentCandles.length > RECENT_CANDLES) {
+    state.recentCandles.shift();
+  }
+  queueCandle(state.pending.oneMinute, candle);
+
+  for (const [interval, queue] of [[5, state.pending.fiveMinute], [15, state.pending.fifteenMinute]] as const) {
+    if (!isBucketEnd(candle.timestamp, interval)) {
+      continue;
+    }
+
+    const bucketStart = getBucketStart(candle.timestamp, interval);
+    const combined = combineCandles(state.recentCandles.filter(recent => recent.timestamp >= bucketStart), bucketStart);
+
+    if (combined) {
+      queueCandle(queue, combined);
+    }
+  }
+
+  state.isDirty = true;
+};
+
+/**
+ * Close the forming candle if it started before a minute and fill the quiet minutes up to it
+ * @param state Instrument state
+ * @param minuteStart Start of the minute the instrument moves to
+ */
+const advanceTo = (state: InstrumentState, minuteStart: Date): void => {
+  if (state.currentCandle && state.currentCandle.timestamp < minuteStart) {
+    completeMinute(state, state.currentCandle);
+    state.currentCandle = null;
+  }
+
+  const last = state.recentCandles[state.recentCandles.length - 1];
+
+  // Gaps are only filled within the session of the same day, not overnight
+  if (state.currentCandle || !last ||
+    getISTStartOfDay(last.timestamp).getTime() !== getISTStartOfDay(minuteStart).getTime()) {
+    return;
+  }
+
+  for (let time = last.timestamp.getTime() + 60 * 1000; time < minuteStart.getTime(); time += 60 * 1000) {
+    const timestamp = new Date(time);
+
+    if (isWithinSession(timestamp)) {
+      completeMinute(state, createFlatCandle(timestamp, last.close));
+      metrics.filledCandles++;
+    }
+  }
+};
+
+/**
+ * Apply a tick to its instrument's state
+ */
+const applyTick = (tick: Tick, symbol: string, receivedAt: Date): void => {
+  let state = instruments.get(tick.instrument_token);
+  const tickTime = getTickTime(tick, receivedAt);
+
+  if (!marketClock || tickTime > marketClock) {
+    marketClock = tickTime;
+  }
+
+  // Fields missing from a tick keep their last known value
+  const previous = state?.snapshot;
+  const snapshot: MarketDataSnapshot = {
+    instrumentToken: tick.instrument_token,
+    lastPrice: tick.last_price,
+    dayHigh: tick.day_high_price || previous?.dayHigh || tick.last_price,
+    dayLow: tick.day_low_price || previous?.dayLow || tick.last_price,
+    openPrice: tick.open_price || previous?.openPrice || tick.last_price,
+    volume: tick.volume_traded ?? previous?.volume ?? 0,
+    averagePrice: tick.average_traded_price || previous?.averagePrice || tick.last_price,
+    lastTradeTime: tick.last_trade_time ? new Date(tick.last_trade_time) : previous?.lastTradeTime || tickTime,
+    ohlc: {
+      open: tick.ohlc?.open || previous?.ohlc.open || tick.last_price,
+      high: tick.ohlc?.high || previous?.ohlc.high || tick.last_price,
+      low: tick.ohlc?.low || previous?.ohlc.low || tick.last_price,
+      close: tick.ohlc?.close || previous?.ohlc.close || tick.last_price,
+    },
+    change: tick.change || previous?.change || 0,
+    lastUpdated: receivedAt,
+  };
+
+  if (!state) {
+    state = {
+      token: tick.instrument_token,
+      symbol,
+      snapshot,
+      closePrice: tick.last_price,
+      currentCandle: null,
+      recentCandles: [],
+      lastCumulativeVolume: null,
+      pending: { oneMinute: [], fiveMinute: [], fifteenMinute: [] },
+      isDirty: true,
+    };
+    instruments.set(tick.instrument_token, state);
+  }
+
+  state.snapshot = snapshot;
+  state.isDirty = true;
+
+  const volume = takeVolumeDelta(state, tick.volume_traded);
+
+  // Pre-open and post-close trades update the quote but not the candles
+  if (!isWithinSession(tickTime)) {
+    return;
+  }
+
+  const minuteStart = getMinuteStart(tickTime);
+  const latest = state.currentCandle || state.recentCandles[state.recentCandles.length - 1];
+  const isLate = latest !== undefined &&
+    (state.currentCandle ? minuteStart < latest.timestamp : minuteStart <= latest.timestamp);
+
+  // A late tick for a closed minute only adds its volume to the forming candle
+  if (isLate) {
+    metrics.lateTicks++;
+    if (state.currentCandle) {
+      state.currentCandle.volume += volume;
+    }
+    return;
+  }
+
+  // A tick in a new minute closes the forming candle
+  advanceTo(state, minuteStart);
+
+  if (!state.currentCandle) {
+    state.currentCandle = {
+      timestamp: minuteStart,
+      open: tick.last_price,
+      high: tick.last_price,
+      low: tick.last_price,
+      close: tick.last_price,
+      volume,
+    };
+  } else {
+    updateCandle(state.currentCandle, tick.last_price, volume);
+  }
+};
+
+/**
+ * Aggregate a batch of WebSocket ticks in memory
+ * @param ticks Raw ticks
+ */
+export const ingestTicks = (ticks: Tick[]): void => {
+  const receivedAt = getCurrentTime();
+  metrics.ticksReceived += ticks.length;
+
+  for (const tick of ticks) {
+    const symbol = symbolsByToken.get(tick.instrument_token);
+
+    if (!symbol) {
+      // Instruments outside the stock universe (e.g. option contracts) are not stored
+      metrics.unknownTicks++;
+      unknownTokens.add(tick.instrument_token);
+      continue;
+    }
+
+    applyTick(tick, symbol, receivedAt);
+  }
+};
+
+/**
+ * Build the bulk update of an instrument and clear its pending changes
+ */
+const takeUpdate = (state: InstrumentState) => {
+  const push: Record<string, unknown> = {};
+  let candles = 0;
+
+  for (const [key, field] of [
+    ['oneMinute', 'oneMinuteCandlesticks'],
+    ['fiveMinute', 'fiveMinuteCandlesticks'],
+    ['fifteenMinute', 'fifteenMinuteCandlesticks'],
+  ] as const) {
+    const queue = state.pending[key];
+
+    if (queue.length > 0) {
+      push[field] = { $each: queue, $slice: -CANDLE_LIMITS[key] };
+      candles += queue.length;
+    }
+  }
+
+  const pending = state.pending;
+  state.pending = { oneMinute: [], fiveMinute: [], fifteenMinute: [] };
+  state.isDirty = false;
+
+  return {
+    pending,
+    candles,
+    operation: {
+      updateOne: {
+        filter: { symbol: state.symbol },
+        update: {
+          $set: state.snapshot,
+          $setOnInsert: { closePrice: state.closePrice },
+          ...(candles > 0 && { $push: push }),
+        },
+        upsert: true,
+      },
+    },
+  };
+};
+
+/**
+ * Close finished candles and write every changed instrument in one bulk write
+ * @param closeAll Also close the forming candles, when ticks stop at the end of the session
+ */
+export const flushCandles = async (closeAll = false): Promise<void> => {
+  if (isFlushing) {
+    metrics.skippedFlushes++;
+    return;
+  }
+  isFlushing = true;
+
+  const startedAt = Date.now();
+
+  // Quiet instruments close their candle on the timer rather than on their next tick
+  if (marketClock) {
+    const minuteStart = getMinuteStart(marketClock);
+
+    for (const state of instruments.values()) {
+      advanceTo(state, minuteStart);
+    }
+  }
+
+  if (closeAll) {
+    for (const state of instruments.values()) {
+      if (state.currentCandle) {
+        completeMinute(state, state.currentCandle);
+        state.currentCandle = null;
+      }
+    }
+  }
+
+  const dirty = [...instruments.values()].filter(state => state.isDirty);
+  const updates = dirty.map(state => ({ state, ...takeUpdate(state) }));
+
+  try {
+    // Candles already in the store are skipped, so a retried flush does not duplicate them
+    await CandleStore.saveCandles(updates.flatMap(({ state, pending }) => [
+      { symbol: state.symbol, interval: 1 as const, candles: pending.oneMinute },
+      { symbol: state.symbol, interval: 5 as const, candles: pending.fiveMinute },
+      { symbol: state.symbol, interval: 15 as const, candles: pending.fifteenMinute },
+    ]));
+
+    if (updates.length > 0) {
+      await CandleStore.getMarketDataModel().bulkWrite(updates.map(update => update.operation), { ordered: false });
+    }
+
+    const durationMs = Date.now() - startedAt;
+    metrics.maxFlushDurationMs = Math.max(metrics.maxFlushDurationMs, durationMs);
+    metrics.lastFlush = {
+      at: new Date(),
+      durationMs,
+      instruments: updates.length,
+      candles: updates.reduce((sum, update) => sum + update.candles, 0),
+    };
+  } catch (error) {
+    metrics.flushErrors++;
+    console.error('Error flushing candles:', error);
+
+    // Keep the candles for the next flush, ahead of those closed since
+    for (const { state, pending } of updates) {
+      for (const key of ['oneMinute', 'fiveMinute', 'fifteenMinute'] as const) {
+        const queue = [...pending[key], ...state.pending[key]];
+        metrics.droppedCandles += Math.max(queue.length - MAX_PENDING_CANDLES, 0);
+        state.pending[key] = queue.slice(-MAX_PENDING_CANDLES);
+      }
+      state.isDirty = true;
+    }
+  } finally {
+    isFlushing = false;
+  }
+};
+
+/**
+ * Start flushing aggregated ticks on a timer
+ */
+export const startTickAggregator = async (): Promise<void> => {
+  if (!isSymbolCacheLoaded) {
+    await loadSymbolCache();
+  }
+
+  if (flushTimer) {
+    return;
+  }
+
+  flushTimer = setInterval(() => flushCandles(), getFlushIntervalMs());
+  console.log(`Tick aggregator started (flush every ${getFlushIntervalMs()} ms).`);
+};
+
+/**
+ * Stop the flush timer and write what is still pending
+ */
+export const stopTickAggregator = async (): Promise<void> => {
+  if (flushTimer) {
+    clearInterval(flushTimer);
+    flushTimer = null;
+    console.log('Tick aggregator stopped.');
+  }
+
+  await flushCandles(true);
+};
+
+/**
+ * Write what is pending and forget the instruments' candles and market clock,
+ * so ticks of another session (e.g. a market replay) start from a clean state
+ */
+export const resetTickAggregator = async (): Promise<void> => {
+  await flushCandles(true);
+
+  instruments.clear();
+  marketClock = null;
+};
+
+/**
+ * Status and backpressure metrics of the tick aggregator
+ */
+export const getTickAggregatorStatus = () => {
+  let pendingCandles = 0;
+  let pendingInstruments = 0;
+
+  for (const state of instruments.values()) {
+    const candles = state.pending.oneMinute.length + state.pending.fiveMinute.length + state.pending.fifteenMinute.length;
+    pendingCandles += candles;
+    if (state.isDirty) {
+      pendingInstruments++;
+    }
+  }
+
+  return {
+    isRunning: flushTimer !== null,
+    isFlushing,
+    marketClock,
+    flushIntervalMs: getFlushIntervalMs(),
+    cachedSymbols: symbolsByToken.size,
+    instruments: instruments.size,
+    unknownInstruments: unknownTokens.size,
+    pendingInstruments,
+    pendingCandles,
+    ...metrics,
+  };
+};
@@ -0,0 +1,146 @@
+import { createWriteStream, existsSync, mkdirSync, readdirSync, statSync, type WriteStream } from 'node:fs';
+import path from 'node:path';
+import { formatISTTimestamp } from '../utils/date.util';
+import { isVirtualClock } from '../utils/clock.util';
+
+/**
+ * Optional recording of the raw WebSocket tick stream.
+ * With TICK_RECORDING=true every tick batch is appended to one file per IST
+ * trading day (TICK_RECORDING_DIR/ticks-YYYY-MM-DD.ndjson), one JSON line per
+ * batch with the time it was received, so a session can be replayed later.
+ */
+
+// One line of a recording
+export interface RecordedBatch {
+  t: number; // Epoch milliseconds the batch was received
+  ticks: unknown[];
+}
+
+export interface Recording {
+  date: string; // IST trading day, YYYY-MM-DD
+  file: string;
+  sizeBytes: number;
+}
+
+const DEFAULT_RECORDING_DIR = 'recordings';
+const RECORDING_FILE_PATTERN = /^ticks-(\d{4}-\d{2}-\d{2})\.ndjson$/;
+
+let stream: WriteStream | null = null;
+let streamDate: string | null = null;
+
+const metrics = {
+  batches: 0,
+  ticks: 0,
+  writeErrors: 0,
+  lastRecordedAt: null as Date | null,
+};
+
+/**
+ * Whether ticks are recorded, configurable with TICK_RECORDING
+ */
+export const isTickRecordingEnabled = (): boolean => process.env.TICK_RECORDING === 'true';
+
+/**
+ * Directory of the recordings, configurable with TICK_RECORDING_DIR
+ */
+export const getRecordingDir = (): string => path.resolve(process.env.TICK_RECORDING_DIR || DEFAULT_RECORDING_DIR);
+
+/**
+ * Path of the recording of an IST trading day
+ * @param date Trading day, YYYY-MM-DD
+ */
+export const getRecordingPath = (date: string): string => path.join(getRecordingDir(), `ticks-${date}.ndjson`);
+
+/**
+ * Close the file being recorded to
+ */
+export const closeRecording = (): void => {
+  if (stream) {
+    stream.end();
+    stream = null;
+    streamDate = null;
+  }
+};
+
+/**
+ * Stream of the current day's recording, a new file is started each day
+ */
+const getStream = (receivedAt: Date): WriteStream => {
+  const date = formatISTTimestamp(receivedAt).slice(0, 10);
+
+  if (stream && streamDate === date) {
+    return stream;
+  }
+
+  closeRecording();
+  mkdirSync(getRecordingDir(), { recursive: true });
+
+  const file = getRecordingPath(date);
+  stream = createWriteStream(file, { flags: 'a' });
+  streamDate = date;
+
+  stream.on('error', error => {
+    metrics.writeErrors++;
+    console.error(`Error writing tick recording ${file}:`, error);
+    closeRecording();
+  });
+
+  console.log(`Recording ticks to ${file}`);
+  return stream;
+};
+
+/**
+ * Append a batch of raw ticks to the day's recording, if recording is enabled
+ * @param ticks Raw ticks as received from the WebSocket
+ */
+export const recordTicks = (ticks: unknown[]): void => {
+  // Replayed ticks are already recorded
+  if (!isTickRecordingEnabled() || isVirtualClock() || ticks.length === 0) {
+    return;
+  }
+
+  try {
+    const receivedAt = new Date();
+    const batch: RecordedBatch = { t: receivedAt.getTime(), ticks };
+
+    getStream(receivedAt).write(`${JSON.stringify(batch)}\n`);
+
+    metrics.batches++;
+    metrics.ticks += ticks.length;
+    metrics.lastRecordedAt = receivedAt;
+  } catch (error) {
+    metrics.writeErrors++;
+    console.error('Error recording ticks:', error);
+  }
+};
+
+/**
+ * List the recorded trading days, newest first
+ */
+export const listRecordings = (): Recording[] => {
+  const dir = getRecordingDir();
+
+  if (!existsSync(dir)) {
+    return [];
+  }
+
+  return readdirSync(dir)
+    .map(file => ({ file, match: file.match(RECORDING_FILE_PATTERN) }))
+    .filter(({ match }) => match?.[1])
+    .map(({ file, match }) => ({
+      date: match?.[1] || '',
+      file,
+      sizeBytes: statSync(path.join(dir, file)).size,
+    }))
+    .sort((a, b) => b.date.localeCompare(a.date));
+};
+
+/**
+ * Status of the tick recorder
+ */
+export const getTickRecorderStatus = () => ({
+  isEnabled: isTickRecordingEnabled(),
+  directory: getRecordingDir(),
+  currentFile: streamDate ? getRecordingPath(streamDate) : null,
+  ...metrics,
+});
@@ -0,0 +1,83 @@
+import { describe, expect, test } from 'bun:test';
+import type { ICandleStick } from '../models/marketData.model';
+import { aggregateCandles, createFlatCandle, fillCandleGaps, getBucketStart, isBucketEnd } from './candle.util';
+
+const ist = (time: string, day = '2025-01-06'): Date => new Date(`${day}T${time}:00+05:30`);
+
+const candle = (time: string, price: number, volume = 100, day?: string): ICandleStick => ({
+  timestamp: ist(time, day),
+  open: price,
+  high: price + 2,
+  low: price - 1,
+  close: price + 1,
+  volume,
+});
+
+describe('getBucketStart', () => {
+  test('aligns buckets to the 9:15 session open', () => {
+    expect(getBucketStart(ist('09:15'), 15)).toEqual(ist('09:15'));
+    expect(getBucketStart(ist('09:29'), 15)).toEqual(ist('09:15'));
+    expect(getBucketStart(ist('09:30'), 15)).toEqual(ist('09:30'));
+    expect(getBucketStart(ist('10:14'), 60)).toEqual(ist('09:15'));
+    expect(getBucketStart(ist('10:15'), 60)).toEqual(ist('10:15'));
+    expect(getBucketStart(ist('09:20'), 3)).toEqual(ist('09:18'));
+  });
+
+  test('does not depend on the seconds within the minute', () => {
+    expect(getBucketStart(new Date(ist('09:44').getTime() + 59 * 1000), 15)).toEqual(ist('09:30'));
+  });
+});
+
+describe('isBucketEnd', () => {
+  test('ends a bucket on its last minute', () => {
+    expect(isBucketEnd(ist('09:29'), 15)).toBe(true);
+    expect(isBucketEnd(ist('09:28'), 15)).toBe(false);
+    expect(isBucketEnd(ist('09:19'), 5)).toBe(true);
+  });
+
+  test('cuts the last bucket of the session short at the close', () => {
+    // The 15:15 hourly candle only runs for 15 minutes
+    expect(isBucketEnd(ist('15:28'), 60)).toBe(false);
+    expect(isBucketEnd(ist('15:29'), 60)).toBe(true);
+  });
+});
+
+describe('aggregateCandles', () => {
+  test('combines the 1-minute candles of each bucket', () => {
+    const candles = [candle('09:15', 100), candle('09:16', 104), candle('09:17', 98), candle('09:18', 101, 50)];
+
+    expect(aggregateCandles(candles, 3)).toEqual([
+      { timestamp: ist('09:15'), open: 100, high: 106, low: 97, close: 99, volume: 300 },
+      { timestamp: ist('09:18'), open: 101, high: 103, low: 100, close: 102, volume: 50 },
+    ]);
+  });
+
+  test('starts a new bucket on a new day', () => {
+    const candles = [candle('15:29', 100), candle('09:15', 110, 100, '2025-01-07')];
+    const aggregated = aggregateCandles(candles, 60);
+
+    expect(aggregated.map(bucket => bucket.timestamp)).toEqual([ist('15:15'), ist('09:15', '2025-01-07')]);
+  });
+
+  test('returns 1-minute candles as they are', () => {
+    const candles = [candle('09:15', 100)];
+
+    expect(aggregateCandles(candles, 1)).toBe(candles);
+  });
+});
+
+describe('fillCandleGaps', () => {
+  test('fills quiet minutes with flat candles at the previous close', () => {
+    const filled = fillCandleGaps([candle('09:15', 100), candle('09:18', 105)]);
+
+    expect(filled.map(bucket => bucket.timestamp)).toEqual([ist('09:15'), ist('09:16'), ist('09:17'), ist('09:18')]);
+    expect(filled[1]).toEqual(createFlatCandle(ist('09:16'), 101));
+    expect(filled[2]?.volume).toBe(0);
+  });
+
+  test('does not fill across days', () => {
+    const filled = fillCandleGaps([candle('15:29', 100), candle('09:15', 105, 100, '2025-01-07')]);
+
+    expect(filled).toHaveLength(2);
+  });
+});
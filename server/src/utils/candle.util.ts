@@ -0,0 +1,179 @@
+import type { ICandleStick } from '../models/marketData.model';
+import { getISTMinuteOfDay, getISTStartOfDay, SESSION_CLOSE_MINUTE, SESSION_OPEN_MINUTE } from './date.util';
+
+// Candle construction from the 1-minute series. Buckets are aligned to the
+// 9:15 IST session open, e.g. 15-minute candles start at 9:15, 9:30, 9:45.
+
+export const SUPPORTED_INTERVALS = [1, 3, 5, 15, 30, 60] as const;
+
+export type CandleInterval = (typeof SUPPORTED_INTERVALS)[number];
+
+// Kite interval names of the supported intervals
+export const KITE_INTERVAL_MINUTES: Record<string, CandleInterval> = {
+  minute: 1,
+  '3minute': 3,
+  '5minute': 5,
+  '15minute': 15,
+  '30minute': 30,
+  '60minute': 60,
+};
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Check if a number of minutes is a supported candle interval
+ * @param value Interval in minutes
+ * @returns Boolean indicating if candles can be built for the interval
+ */
+export const isSupportedInterval = (value: number): value is CandleInterval => {
+  return (SUPPORTED_INTERVALS as readonly number[]).includes(value);
+};
+
+/**
+ * Get the start of the minute of a date
+ * @param date Date to round down
+ * @returns Date at the start of its minute
+ */
+export const getMinuteStart = (date: Date): Date => {
+  return new Date(Math.floor(date.getTime() / MINUTE_MS) * MINUTE_MS);
+};
+
+/**
+ * Get the start of the candle a date falls in
+ * @param date Date within the candle
+ * @param intervalMinutes Candle interval in minutes
+ * @returns Start of the candle, aligned to the session open
+ */
+export const getBucketStart = (date: Date, intervalMinutes: number): Date => {
+  const minuteOfDay = getISTMinuteOfDay(date);
+  const bucketMinute = SESSION_OPEN_MINUTE +
+    Math.floor((minuteOfDay - SESSION_OPEN_MINUTE) / intervalMinutes) * intervalMinutes;
+
+  return new Date(getISTStartOfDay(date).getTime() + bucketMinute * MINUTE_MS);
+};
+
+/**
+ * Check if a 1-minute candle is the last of its higher interval candle
+ * @param timestamp Start of the 1-minute candle
+ * @param intervalMinutes Higher candle interval in minutes
+ * @returns Boolean indicating if the higher interval candle is complete after this minute
+ */
+export const isBucketEnd = (timestamp: Date, intervalMinutes: number): boolean => {
+  const nextMinute = new Date(timestamp.getTime() + MINUTE_MS);
+
+  // The last candle of the session is cut short at the close
+  if (getISTMinuteOfDay(nextMinute) >= SESSION_CLOSE_MINUTE) {
+    return true;
+  }
+
+  return getBucketStart(nextMinute, intervalMinutes).getTime() !== getBucketStart(timestamp, intervalMinutes).getTime();
+};
+
+/**
+ * Create a candle for a minute without trades
+ * @param timestamp Start of the minute
+ * @param price Last traded price before the minute
+ * @returns Flat candle with no volume
+ */
+export const createFlatCandle = (timestamp: Date, price: number): ICandleStick => ({
+  timestamp,
+  open: price,
+  high: price,
+  low: price,
+  close: price,
+  volume: 0,
+});
+
+/**
+ * Combine consecutive candles into one candle
+ * @param candles Candles in time order
+ * @param timestamp Start of the combined candle
+ * @returns Combined candle or null if there are no candles
+ */
+export const combineCandles = (candles: ICandleStick[], timestamp: Date): ICandleStick | null => {
+  const first = candles[0];
+  const last = candles[candles.length - 1];
+
+  if (!first || !last) {
+    return null;
+  }
+
+  return {
+    timestamp,
+    open: first.open,
+    high: Math.max(...candles.map(candle => candle.high)),
+    low: Math.min(...candles.map(candle => candle.low)),
+    close: last.close,
+    volume: candles.reduce((sum, candle) => sum + candle.volume, 0),
+  };
+};
+
+/**
+ * Insert flat candles for quiet minutes within the session
+ * @param candles 1-minute candles in time order
+ * @returns 1-minute candles without gaps inside each trading day
+ */
+export const fillCandleGaps = (candles: ICandleStick[]): ICandleStick[] => {
+  const filled: ICandleStick[] = [];
+
+  for (const candle of candles) {
+    const previous = filled[filled.length - 1];
+
+    if (previous && getISTStartOfDay(previous.timestamp).getTime() === getISTStartOfDay(candle.timestamp).getTime()) {
+      for (
+        let time = previous.timestamp.getTime() + MINUTE_MS;
+        time < candle.timestamp.getTime();
+        time += MINUTE_MS
+      ) {
+        const minuteOfDay = getISTMinuteOfDay(new Date(time));
+        if (minuteOfDay >= SESSION_OPEN_MINUTE && minuteOfDay < SESSION_CLOSE_MINUTE) {
+          filled.push(createFlatCandle(new Date(time), previous.close));
+        }
+      }
+    }
+
+    filled.push(candle);
+  }
+
+  return filled;
+};
+
+/**
+ * Aggregate 1-minute candles into candles of a higher interval
+ * @param candles 1-minute candles in time order
+ * @param intervalMinutes Candle interval in minutes
+ * @returns Candles of the interval, the last one may still be forming
+ */
+export const aggregateCandles = (candles: ICandleStick[], intervalMinutes: number): ICandleStick[] => {
+  if (intervalMinutes <= 1) {
+    return candles;
+  }
+
+  const aggregated: ICandleStick[] = [];
+  let bucket: ICandleStick[] = [];
+  let bucketStart: Date | null = null;
+
+  for (const candle of candles) {
+    const start = getBucketStart(new Date(candle.timestamp), intervalMinutes);
+
+    if (bucketStart && start.getTime() !== bucketStart.getTime()) {
+      const combined = combineCandles(bucket, bucketStart);
+      if (combined) {
+        aggregated.push(combined);
+      }
+      bucket = [];
+    }
+
+    bucketStart = start;
+    bucket.push(candle);
+  }
+
+  if (bucketStart) {
+    const combined = combineCandles(bucket, bucketStart);
+    if (combined) {
+      aggregated.push(combined);
+    }
+  }
+
+  return aggregated;
+};
@@ -0,0 +1,85 @@
+import { describe, expect, test } from 'bun:test';
+import type { ICandleStick } from '../models/marketData.model';
+import { formatCandleCSV, fromColumnarCandles, parseCandleCSV, parseCandleTimestamp, toColumnarCandles, validateCandles } from './candleFile.util';
+
+const candles: ICandleStick[] = [
+  { timestamp: new Date('2025-01-06T09:15:00+05:30'), open: 100, high: 102.5, low: 99, close: 101, volume: 1200 },
+  { timestamp: new Date('2025-01-06T09:30:00+05:30'), open: 101, high: 104, low: 100.25, close: 103.75, volume: 800 },
+  { timestamp: new Date('2025-01-07T09:15:00+05:30'), open: 104, high: 105, low: 103, close: 104.5, volume: 0 },
+];
+
+describe('parseCandleTimestamp', () => {
+  test('reads date times without an offset as IST', () => {
+    expect(parseCandleTimestamp('2025-01-06 09:15:00')).toEqual(new Date('2025-01-06T09:15:00+05:30'));
+    expect(parseCandleTimestamp('2025-01-06T03:45:00', 0)).toEqual(new Date('2025-01-06T03:45:00Z'));
+  });
+
+  test('reads epoch seconds and milliseconds', () => {
+    expect(parseCandleTimestamp('1736135100')).toEqual(new Date('2025-01-06T09:15:00+05:30'));
+    expect(parseCandleTimestamp('1736135100000')).toEqual(new Date('2025-01-06T09:15:00+05:30'));
+  });
+
+  test('rejects text that is not a timestamp', () => {
+    expect(parseCandleTimestamp('yesterday')).toBeNull();
+  });
+});
+
+describe('CSV candle files', () => {
+  test('round-trip through formatting and parsing', () => {
+    expect(parseCandleCSV(formatCandleCSV(candles))).toEqual({ candles, rows: [2, 3, 4], invalidRows: [], errors: [] });
+  });
+
+  test('report the lines that cannot be read', () => {
+    const parsed = parseCandleCSV('date,open,high,low,close\n2025-01-06 09:15:00,100,102,99,101\nbad,row,,,\n');
+
+    expect(parsed.candles).toHaveLength(1);
+    expect(parsed.candles[0]?.volume).toBe(0);
+    expect(parsed.rows).toEqual([2]);
+    expect(parsed.invalidRows).toEqual([3]);
+    expect(parsed.errors).toEqual(['Line 3: bad,row,,,']);
+  });
+
+  test('require the price columns', () => {
+    expect(parseCandleCSV('timestamp,open,close\n').errors).toEqual(['Header is missing the high, low column(s)']);
+  });
+});
+
+describe('columnar candle files', () => {
+  test('round-trip through JSON', () => {
+    const file = JSON.parse(JSON.stringify(toColumnarCandles('NIFTY 50', 15, candles)));
+
+    expect(file.timestamps).toEqual([0, 900, 85500]);
+    expect(fromColumnarCandles(file)).toEqual({ symbol: 'NIFTY 50', interval: 15, candles, rows: [1, 2, 3], invalidRows: [], errors: [] });
+  });
+
+  test('reject columns of different lengths', () => {
+    const file = { ...toColumnarCandles('NIFTY 50', 15, candles), volume: [0] };
+
+    expect(fromColumnarCandles(file).errors).toEqual(['Columns are missing or of different lengths']);
+  });
+});
+
+describe('validateCandles', () => {
+  test('drops invalid candles, keeps the last duplicate and reports gaps within a day', () => {
+    const late = { ...candles[1] as ICandleStick, timestamp: new Date('2025-01-06T10:15:00+05:30') };
+    const duplicate = { ...candles[0] as ICandleStick, close: 100 };
+    const misaligned = { ...candles[0] as ICandleStick, timestamp: new Date('2025-01-06T09:20:00+05:30') };
+
+    const validation = validateCandles([late, ...candles, duplicate, misaligned], 15);
+
+    expect(validation.candles.map(candle => candle.timestamp)).toEqual([
+      new Date('2025-01-06T09:15:00+05:30'),
+      new Date('2025-01-06T09:30:00+05:30'),
+      new Date('2025-01-06T10:15:00+05:30'),
+      new Date('2025-01-07T09:15:00+05:30'),
+    ]);
+    expect(validation.candles[0]?.close).toBe(100);
+    expect(validation.invalidIndexes).toEqual([5]);
+    expect(validation.duplicates).toBe(1);
+    expect(validation.errors).toEqual(['2025-01-06T09:20:00+05:30: not the start of a 15-minute candle']);
+    expect(validation.gaps).toEqual([
+      { from: new Date('2025-01-06T09:45:00+05:30'), to: new Date('2025-01-06T10:00:00+05:30'), missing: 2 },
+    ]);
+    expect(validation.missingCandles).toBe(2);
+  });
+});
@@ -0,0 +1,302 @@
+import type { ICandleStick } from '../models/marketData.model';
+import { getBucketStart } from './candle.util';
+import { formatISTTimestamp, getISTStartOfDay, IST_OFFSET_MINUTES, isWithinSession } from './date.util';
+
+// Reading, writing and validating OHLCV candle files.
+// CSV has a "timestamp,open,high,low,close,volume" header. The columnar format
+// is JSON with one array per field and timestamps stored as seconds since the
+// previous candle, which keeps a year of 15-minute candles small.
+
+export const COLUMNAR_FORMAT = 'ohlcv-columnar';
+
+export interface ColumnarCandles {
+  format: typeof COLUMNAR_FORMAT;
+  version: 1;
+  symbol: string;
+  interval: number; // Minutes
+  start: number; // Epoch seconds of the first candle
+  timestamps: number[]; // Seconds since the previous candle, 0 for the first
+  open: number[];
+  high: number[];
+  low: number[];
+  close: number[];
+  volume: number[];
+}
+
+export interface ParsedCandles {
+  candles: ICandleStick[];
+  rows: number[]; // File row of each candle (CSV line or columnar position)
+  invalidRows: number[]; // File rows that could not be read
+  errors: string[];
+}
+
+export interface CandleGap {
+  from: Date; // First missing candle
+  to: Date; // Last missing candle
+  missing: number;
+}
+
+export interface CandleValidation {
+  candles: ICandleStick[]; // Valid candles, oldest first and one per timestamp
+  invalidIndexes: number[]; // Positions of the dropped candles in the input
+  duplicates: number;
+  errors: string[];
+  gaps: CandleGap[];
+  missingCandles: number;
+}
+
+const TIMESTAMP_COLUMNS = ['timestamp', 'date', 'datetime', 'time'];
+const MAX_REPORTED_GAPS = 100;
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Parse a candle timestamp into a UTC date
+ * Accepts epoch seconds or milliseconds and ISO 8601 date times. Date times without
+ * an offset are in the given offset, IST unless told otherwise.
+ * @param value Timestamp text
+ * @param utcOffsetMinutes Offset of date times without one (optional)
+ * @returns Date or null if the value is not a timestamp
+ */
+export const parseCandleTimestamp = (value: string, utcOffsetMinutes = IST_OFFSET_MINUTES): Date | null => {
+  const text = value.trim().replace(/^"|"$/g, '');
+
+  if (/^\d+$/.test(text)) {
+    const epoch = Number(text);
+    return new Date(epoch < 1e11 ? epoch * 1000 : epoch);
+  }
+
+  const match = text.match(/^(\d{4})-(\d{2})-(\d{2})[T ](\d{2}):(\d{2})(?::(\d{2}))?(?:\.\d+)?\s*(Z|[+-]\d{2}:?\d{2})?$/i);
+
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month, day, hours, minutes, seconds, zone] = match;
+  let offset = utcOffsetMinutes;
+
+  if (zone) {
+    const sign = zone.startsWith('-') ? -1 : 1;
+    const digits = zone.replace(/[^\d]/g, '');
+    offset = zone.toUpperCase() === 'Z' ? 0 : sign * (Number(digits.slice(0, 2)) * 60 + Number(digits.slice(2)));
+  }
+
+  const time = Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes), Number(seconds || 0));
+  return Number.isNaN(time) ? null : new Date(time - offset * MINUTE_MS);
+};
+
+/**
+ * Parse candles from CSV text with a header row
+ * @param csv CSV text
+ * @param utcOffsetMinutes Offset of timestamps without one (optional)
+ * @returns Parsed candles and the lines that could not be read
+ */
+export const parseCandleCSV = (csv: string, utcOffsetMinutes = IST_OFFSET_MINUTES): ParsedCandles => {
+  const lines = csv.split(/\r?\n/).filter(line => line.trim() !== '');
+  const header = (lines[0] || '').split(',').map(column => column.trim().replace(/^"|"$/g, '').toLowerCase());
+  const columns = {
+    timestamp: header.findIndex(column => TIMESTAMP_COLUMNS.includes(column)),
+    open: header.indexOf('open'),
+    high: header.indexOf('high'),
+    low: header.indexOf('low'),
+    close: header.indexOf('close'),
+    volume: header.indexOf('volume'),
+  };
+
+  const missing = Object.entries(columns)
+    .filter(([name, index]) => index === -1 && name !== 'volume')
+    .map(([name]) => name);
+
+  if (missing.length > 0) {
+    return { candles: [], rows: [], invalidRows: [], errors: [`Header is missing the ${missing.join(', ')} column(s)`] };
+  }
+
+  const candles: ICandleStick[] = [];
+  const rows: number[] = [];
+  const invalidRows: number[] = [];
+  const errors: string[] = [];
+
+  // Skip the header
+  for (const [index, line] of lines.slice(1).entries()) {
+    const values = line.split(',');
+    const timestamp = parseCandleTimestamp(values[columns.timestamp] || '', utcOffsetMinutes);
+    const [open, high, low, close] = [columns.open, columns.high, columns.low, columns.close]
+      .map(column => Number(values[column]));
+
+    if (!timestamp || [open, high, low, close].some(price => price === undefined || Number.isNaN(price))) {
+      invalidRows.push(index + 2);
+      errors.push(`Line ${index + 2}: ${line}`);
+      continue;
+    }
+
+    candles.push({
+      timestamp,
+      open: open as number,
+      high: high as number,
+      low: low as number,
+      close: close as number,
+      volume: columns.volume === -1 ? 0 : Number(values[columns.volume]) || 0,
+    });
+    rows.push(index + 2);
+  }
+
+  return { candles, rows, invalidRows, errors };
+};
+
+/**
+ * Write candles as CSV with IST timestamps
+ * @param candles Candles, oldest first
+ * @returns CSV text
+ */
+export const formatCandleCSV = (candles: ICandleStick[]): string => {
+  const rows = candles.map(candle =>
+    [formatISTTimestamp(candle.timestamp), candle.open, candle.high, candle.low, candle.close, candle.volume].join(',')
+  );
+
+  return `${['timestamp,open,high,low,close,volume', ...rows].join('\n')}\n`;
+};
+
+/**
+ * Convert candles to the columnar format
+ * @param symbol Stock or index symbol
+ * @param interval Candle interval in minutes
+ * @param candles Candles, oldest first
+ */
+export const toColumnarCandles = (symbol: string, interval: number, candles: ICandleStick[]): ColumnarCandles => {
+  const seconds = candles.map(candle => Math.round(candle.timestamp.getTime() / 1000));
+
+  return {
+    format: COLUMNAR_FORMAT,
+    version: 1,
+    symbol,
+    interval,
+    start: seconds[0] || 0,
+    timestamps: seconds.map((second, index) => (index === 0 ? 0 : second - (seconds[index - 1] || 0))),
+    open: candles.map(candle => candle.open),
+    high: candles.map(candle => candle.high),
+    low: candles.map(candle => candle.low),
+    close: candles.map(candle => candle.close),
+    volume: candles.map(candle => candle.volume),
+  };
+};
+
+/**
+ * Read candles from the columnar format
+ * @param data Parsed JSON of a columnar file
+ * @returns Candles with the file's symbol and interval, or the reason the file cannot be read
+ */
+export const fromColumnarCandles = (data: unknown): ParsedCandles & { symbol?: string; interval?: number } => {
+  const file = data as Partial<ColumnarCandles> | null;
+
+  if (!file || file.format !== COLUMNAR_FORMAT || file.version !== 1) {
+    return { candles: [], rows: [], invalidRows: [], errors: [`Not an ${COLUMNAR_FORMAT} version 1 file`] };
+  }
+
+  const fields = [file.timestamps, file.open, file.high, file.low, file.close, file.volume];
+  const length = file.timestamps?.length;
+
+  if (typeof file.start !== 'number' || fields.some(field => !Array.isArray(field) || field.length !== length)) {
+    return { candles: [], rows: [], invalidRows: [], errors: ['Columns are missing or of different lengths'] };
+  }
+
+  const candles: ICandleStick[] = [];
+  let seconds = file.start;
+
+  for (const [index, delta] of (file.timestamps || []).entries()) {
+    seconds += delta;
+    candles.push({
+      timestamp: new Date(seconds * 1000),
+      open: file.open?.[index] ?? Number.NaN,
+      high: file.high?.[index] ?? Number.NaN,
+      low: file.low?.[index] ?? Number.NaN,
+      close: file.close?.[index] ?? Number.NaN,
+      volume: file.volume?.[index] ?? 0,
+    });
+  }
+
+  return { candles, rows: candles.map((_, index) => index + 1), invalidRows: [], errors: [], symbol: file.symbol, interval: file.interval };
+};
+
+/**
+ * Reason a candle cannot be stored, if any
+ */
+const getCandleError = (candle: ICandleStick, interval: number): string | null => {
+  const prices = [candle.open, candle.high, candle.low, candle.close];
+
+  if (prices.some(price => !Number.isFinite(price) || price <= 0)) {
+    return 'prices must be positive numbers';
+  }
+
+  if (candle.high < Math.max(candle.open, candle.close, candle.low) || candle.low > Math.min(candle.open, candle.close)) {
+    return 'high and low do not contain open and close';
+  }
+
+  if (!Number.isFinite(candle.volume) || candle.volume < 0) {
+    return 'volume must not be negative';
+  }
+
+  if (!isWithinSession(candle.timestamp)) {
+    return 'outside the trading session';
+  }
+
+  if (getBucketStart(candle.timestamp, interval).getTime() !== candle.timestamp.getTime()) {
+    return `not the start of a ${interval}-minute candle`;
+  }
+
+  return null;
+};
+
+/**
+ * Validate candles before they are stored
+ * Invalid candles are dropped, duplicates keep the last candle of a timestamp and
+ * missing candles within a trading day are reported as gaps.
+ * @param candles Candles in any order
+ * @param interval Candle interval in minutes
+ */
+export const validateCandles = (candles: ICandleStick[], interval: number): CandleValidation => {
+  const errors: string[] = [];
+  const invalidIndexes: number[] = [];
+  const byTimestamp = new Map<number, ICandleStick>();
+  let duplicates = 0;
+
+  for (const [index, candle] of candles.entries()) {
+    const error = getCandleError(candle, interval);
+
+    if (error) {
+      invalidIndexes.push(index);
+      errors.push(`${Number.isNaN(candle.timestamp.getTime()) ? 'Invalid date' : formatISTTimestamp(candle.timestamp)}: ${error}`);
+      continue;
+    }
+
+    if (byTimestamp.has(candle.timestamp.getTime())) {
+      duplicates++;
+    }
+    byTimestamp.set(candle.timestamp.getTime(), candle);
+  }
+
+  const valid = [...byTimestamp.values()].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  const gaps: CandleGap[] = [];
+  let missingCandles = 0;
+
+  for (const [index, candle] of valid.entries()) {
+    const previous = valid[index - 1];
+
+    if (!previous || getISTStartOfDay(previous.timestamp).getTime() !== getISTStartOfDay(candle.timestamp).getTime()) {
+      continue;
+    }
+
+    const missing = Math.round((candle.timestamp.getTime() - previous.timestamp.getTime()) / (interval * MINUTE_MS)) - 1;
+
+    if (missing > 0) {
+      missingCandles += missing;
+      if (gaps.length < MAX_REPORTED_GAPS) {
+        gaps.push({
+          from: new Date(previous.timestamp.getTime() + interval * MINUTE_MS),
+          to: new Date(candle.timestamp.getTime() - interval * MINUTE_MS),
+          missing,
+        });
+      }
+    }
+  }
+
+  return { candles: valid, invalidIndexes, duplicates, errors, gaps, missingCandles };
+};
@@ -0,0 +1,70 @@
+/**
+ * Clock of the trading system.
+ * It is the wall clock, except during a market replay, when a virtual clock runs
+ * from the recorded session's start at the replay speed. Market hours checks,
+ * schedulers and the signal generator read the time from here.
+ */
+
+interface VirtualClock {
+  start: number; // Virtual time when the clock started
+  startedAt: number; // Wall clock time when the clock started
+  speed: number;
+}
+
+let virtualClock: VirtualClock | null = null;
+
+/**
+ * Get the current time of the system, virtual during a market replay
+ * @returns Current date
+ */
+export const getCurrentTime = (): Date => {
+  if (!virtualClock) {
+    return new Date();
+  }
+
+  return new Date(virtualClock.start + (Date.now() - virtualClock.startedAt) * virtualClock.speed);
+};
+
+/**
+ * Start a virtual clock
+ * @param start Time the clock starts at
+ * @param speed Virtual milliseconds per wall clock millisecond (optional)
+ */
+export const startVirtualClock = (start: Date, speed = 1): void => {
+  virtualClock = { start: start.getTime(), startedAt: Date.now(), speed };
+};
+
+/**
+ * Return to the wall clock
+ */
+export const stopVirtualClock = (): void => {
+  virtualClock = null;
+};
+
+/**
+ * Check if a virtual clock is running
+ * @returns Boolean indicating if the time is virtual
+ */
+export const isVirtualClock = (): boolean => virtualClock !== null;
+
+/**
+ * Run a callback repeatedly every interval of system time
+ * @param callback Function to run
+ * @param intervalMs Interval in milliseconds of system time
+ * @returns Timer handle for clearInterval
+ */
+export const setClockInterval = (callback: () => void, intervalMs: number): NodeJS.Timeout => {
+  return setInterval(callback, intervalMs / (virtualClock?.speed || 1));
+};
+
+/**
+ * Wait until the system time reaches a date
+ * @param date Time to wait for
+ */
+export const waitUntil = async (date: Date): Promise<void> => {
+  const remainingMs = (date.getTime() - getCurrentTime().getTime()) / (virtualClock?.speed || 1);
+
+  if (remainingMs > 0) {
+    await new Promise(resolve => setTimeout(resolve, remainingMs));
+  }
+};
@@ -2,12 +2,14 @@
  * Date and time utility functions for the trading system
  */
 
+import { getCurrentTime } from './clock.util';
+
 /**
  * Check if the current time is within market hours (9:15 AM to 3:30 PM IST)
  * @returns Boolean indicating if it's market hours
  */
 export const isMarketHours = (): boolean => {
-  const now = new Date();
+  const now = getCurrentTime();
   const day = now.getDay();
   const hour = now.getHours();
   const minute = now.getMinutes();
@@ -31,7 +33,7 @@ export const isMarketHours = (): boolean => {
  * @returns Boolean indicating if it's market opening time
  */
 export const isMarketOpeningTime = (toleranceMinutes = 5): boolean => {
-  const now = new Date();
+  const now = getCurrentTime();
   const day = now.getDay();
   const hour = now.getHours();
   const minute = now.getMinutes();
@@ -50,7 +52,7 @@ export const isMarketOpeningTime = (toleranceMinutes = 5): boolean => {
  * @returns Boolean indicating if it's market closing time
  */
 export const isMarketClosingTime = (): boolean => {
-  const now = new Date();
+  const now = getCurrentTime();
   const day = now.getDay();
   const hour = now.getHours();
   const minute = now.getMinutes();
@@ -223,3 +225,50 @@ export const getMonthKey = (date: Date): string => {
 
   return `MONTH-${year}-${month.toString().padStart(2, '0')}`;
 };
+
+// India Standard Time is UTC+05:30 all year
+export const IST_OFFSET_MINUTES = 330;
+
+// Trading session in minutes since midnight IST (9:15 AM to 3:30 PM)
+export const SESSION_OPEN_MINUTE = 9 * 60 + 15;
+export const SESSION_CLOSE_MINUTE = 15 * 60 + 30;
+
+/**
+ * Get the start of the IST day of a date, independent of the server time zone
+ * @param date Date to get the IST day of
+ * @returns Date of midnight IST
+ */
+export const getISTStartOfDay = (date: Date): Date => {
+  const offsetMs = IST_OFFSET_MINUTES * 60 * 1000;
+  const dayMs = 24 * 60 * 60 * 1000;
+  return new Date(Math.floor((date.getTime() + offsetMs) / dayMs) * dayMs - offsetMs);
+};
+
+/**
+ * Get the minutes since midnight IST of a date, independent of the server time zone
+ * @param date Date to get the minute of
+ * @returns Minute of the IST day (0-1439)
+ */
+export const getISTMinuteOfDay = (date: Date): number => {
+  return Math.floor((date.getTime() - getISTStartOfDay(date).getTime()) / (60 * 1000));
+};
+
+/**
+ * Check if a date falls within the trading session (9:15 AM to 3:30 PM IST)
+ * @param date Date to check
+ * @returns Boolean indicating if the date is within the session
+ */
+export const isWithinSession = (date: Date): boolean => {
+  const minute = getISTMinuteOfDay(date);
+  return minute >= SESSION_OPEN_MINUTE && minute < SESSION_CLOSE_MINUTE;
+};
+
+/**
+ * Format a date as an ISO 8601 timestamp in IST (YYYY-MM-DDTHH:MM:SS+05:30)
+ * @param date Date to format
+ * @returns Timestamp string with the IST offset
+ */
+export const formatISTTimestamp = (date: Date): string => {
+  const ist = new Date(date.getTime() + IST_OFFSET_MINUTES * 60 * 1000);
+  return `${ist.toISOString().slice(0, 19)}+05:30`;
+};
@@ -0,0 +1,197 @@
+// Black-Scholes pricing for European options on the underlying's spot price
+
+export type OptionType = 'CE' | 'PE';
+
+export const DEFAULT_VOLATILITY = 0.25; // Used when no implied volatility is available
+export const DEFAULT_RISK_FREE_RATE = 0.065; // Annualised, close to Indian T-bill yields
+
+const DAYS_IN_YEAR = 365;
+
+/**
+ * Standard normal cumulative distribution function
+ * @param x Value
+ * @returns Probability that a standard normal variable is below x
+ */
+export const normalCdf = (x: number): number => {
+  // Abramowitz and Stegun approximation (7.1.26)
+  const t = 1 / (1 + 0.3275911 * Math.abs(x) / Math.SQRT2);
+  const erf = 1 - (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t *
+    Math.exp(-(x * x) / 2);
+
+  return x >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+};
+
+/**
+ * Time to expiry in years
+ * @param expiry Expiry date (contracts expire at 15:30 IST)
+ * @param now Current time (optional)
+ * @returns Years to expiry, never below one minute
+ */
+export const getTimeToExpiry = (expiry: Date, now: Date = new Date()): number => {
+  const expiryTime = new Date(expiry);
+  expiryTime.setHours(15, 30, 0, 0);
+
+  const minutes = Math.max((expiryTime.getTime() - now.getTime()) / 60000, 1);
+  return minutes / (DAYS_IN_YEAR * 24 * 60);
+};
+
+/**
+ * Calculate d1 and d2 of the Black-Scholes formula
+ */
+const calculateD1D2 = (spot: number, strike: number, time: number, volatility: number, rate: number) => {
+  const d1 = (Math.log(spot / strike) + (rate + (volatility * volatility) / 2) * time) / (volatility * Math.sqrt(time));
+  const d2 = d1 - volatility * Math.sqrt(time);
+
+  return { d1, d2 };
+};
+
+/**
+ * Calculate the theoretical option price
+ * @param spot Underlying price
+ * @param strike Strike price
+ * @param time Time to expiry in years
+ * @param volatility Annualised volatility (0.2 = 20%)
+ * @param optionType CE or PE
+ * @param rate Risk-free rate (optional)
+ * @returns Option price
+ */
+export const calculateOptionPrice = (
+  spot: number,
+  strike: number,
+  time: number,
+  volatility: number,
+  optionType: OptionType,
+  rate = DEFAULT_RISK_FREE_RATE
+): number => {
+  const { d1, d2 } = calculateD1D2(spot, strike, time, volatility, rate);
+  const discountedStrike = strike * Math.exp(-rate * time);
+
+  if (optionType === 'CE') {
+    return spot * normalCdf(d1) - discountedStrike * normalCdf(d2);
+  }
+
+  return discountedStrike * normalCdf(-d2) - spot * normalCdf(-d1);
+};
+
+/**
+ * Calculate the option delta
+ * @param spot Underlying price
+ * @param strike Strike price
+ * @param time Time to expiry in years
+ * @param volatility Annualised volatility (0.2 = 20%)
+ * @param optionType CE or PE
+ * @param rate Risk-free rate (optional)
+ * @returns Delta (0 to 1 for calls, -1 to 0 for puts)
+ */
+export const calculateDelta = (
+  spot: number,
+  strike: number,
+  time: number,
+  volatility: number,
+  optionType: OptionType,
+  rate = DEFAULT_RISK_FREE_RATE
+): number => {
+  const { d1 } = calculateD1D2(spot, strike, time, volatility, rate);
+
+  return optionType === 'CE' ? normalCdf(d1) : normalCdf(d1) - 1;
+};
+
+/**
+ * Standard normal probability density function
+ */
+const normalPdf = (x: number): number => {
+  return Math.exp(-(x * x) / 2) / Math.sqrt(2 * Math.PI);
+};
+
+export interface OptionGreeks {
+  delta: number;
+  gamma: number;
+  theta: number; // Premium lost per calendar day
+  vega: number; // Premium change for a 1% change in volatility
+}
+
+/**
+ * Calculate the option Greeks
+ * @param spot Underlying price
+ * @param strike Strike price
+ * @param time Time to expiry in years
+ * @param volatility Annualised volatility (0.2 = 20%)
+ * @param optionType CE or PE
+ * @param rate Risk-free rate (optional)
+ * @returns Delta, gamma, theta and vega
+ */
+export const calculateGreeks = (
+  spot: number,
+  strike: number,
+  time: number,
+  volatility: number,
+  optionType: OptionType,
+  rate = DEFAULT_RISK_FREE_RATE
+): OptionGreeks => {
+  const { d1, d2 } = calculateD1D2(spot, strike, time, volatility, rate);
+  const discountedStrike = strike * Math.exp(-rate * time);
+  const sqrtTime = Math.sqrt(time);
+
+  const gamma = normalPdf(d1) / (spot * volatility * sqrtTime);
+  const vega = spot * normalPdf(d1) * sqrtTime / 100;
+
+  const decay = -(spot * normalPdf(d1) * volatility) / (2 * sqrtTime);
+  const annualTheta = optionType === 'CE'
+    ? decay - rate * discountedStrike * normalCdf(d2)
+    : decay + rate * discountedStrike * normalCdf(-d2);
+
+  return {
+    delta: calculateDelta(spot, strike, time, volatility, optionType, rate),
+    gamma,
+    theta: annualTheta / DAYS_IN_YEAR,
+    vega,
+  };
+};
+
+/**
+ * Calculate the implied volatility from an option's market price
+ * @param price Option market price
+ * @param spot Underlying price
+ * @param strike Strike price
+ * @param time Time to expiry in years
+ * @param optionType CE or PE
+ * @param rate Risk-free rate (optional)
+ * @returns Annualised implied volatility or null if the price is outside the no-arbitrage bounds
+ */
+export const calculateImpliedVolatility = (
+  price: number,
+  spot: number,
+  strike: number,
+  time: number,
+  optionType: OptionType,
+  rate = DEFAULT_RISK_FREE_RATE
+): number | null => {
+  const intrinsic = optionType === 'CE'
+    ? Math.max(spot - strike * Math.exp(-rate * time), 0)
+    : Math.max(strike * Math.exp(-rate * time) - spot, 0);
+
+  if (price <= intrinsic || price >= (optionType === 'CE' ? spot : strike)) {
+    return null;
+  }
+
+  // Bisection is slower than Newton-Raphson but never diverges for deep ITM/OTM strikes
+  let low = 0.001;
+  let high = 5;
+
+  for (let i = 0; i < 100; i++) {
+    const mid = (low + high) / 2;
+    const diff = calculateOptionPrice(spot, strike, time, mid, optionType, rate) - price;
+
+    if (Math.abs(diff) < 0.0001) {
+      return mid;
+    }
+
+    if (diff > 0) {
+      high = mid;
+    } else {
+      low = mid;
+    }
+  }
+
+  return (low + high) / 2;
+};
@@ -0,0 +1,141 @@
+import { useState } from 'react';
+import { FiEdit2, FiLogOut } from 'react-icons/fi';
+import axios from 'axios';
+import { ordersAPI } from '../../services/api.service';
+import type { ExitLevels } from '../../types';
+
+interface PositionExitControlsProps {
+  orderId: string;
+  stopLoss?: number;
+  target?: number;
+  onUpdated?: () => void;
+}
+
+// Exit an open position at market or change its stop loss and target
+const PositionExitControls = ({ orderId, stopLoss, target, onUpdated }: PositionExitControlsProps) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [levels, setLevels] = useState({ stopLoss: stopLoss?.toString() || '', target: target?.toString() || '' });
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const getErrorMessage = (err: unknown, fallback: string) => {
+    return axios.isAxiosError(err) ? err.response?.data?.message || fallback : fallback;
+  };
+
+  const handleExit = async () => {
+    if (!window.confirm('Exit this position at market price?')) {
+      return;
+    }
+
+    setIsSubmitting(true);
+    setMessage(null);
+
+    try {
+      const response = await ordersAPI.exitPosition(orderId);
+      setMessage({ type: 'success', text: response.data.message });
+      onUpdated?.();
+    } catch (err) {
+      setMessage({ type: 'error', text: getErrorMessage(err, 'Failed to exit position') });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSave = async () => {
+    const changes: ExitLevels = {};
+
+    // Only send the levels that changed
+    if (levels.stopLoss && Number(levels.stopLoss) !== stopLoss) {
+      changes.stopLoss = Number(levels.stopLoss);
+    }
+    if (levels.target && Number(levels.target) !== target) {
+      changes.target = Number(levels.target);
+    }
+
+    if (changes.stopLoss === undefined && changes.target === undefined) {
+      setIsEditing(false);
+      return;
+    }
+
+    setIsSubmitting(true);
+    setMessage(null);
+
+    try {
+      const response = await ordersAPI.modifyExits(orderId, changes);
+      setMessage({ type: 'success', text: response.data.message });
+      setIsEditing(false);
+      onUpdated?.();
+    } catch (err) {
+      setMessage({ type: 'error', text: getErrorMessage(err, 'Failed to update exits') });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {isEditing ? (
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            type="number"
+            step="0.05"
+            min="0"
+            className="w-24 px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500"
+            placeholder="Stop loss"
+            value={levels.stopLoss}
+            onChange={(e) => setLevels({ ...levels, stopLoss: e.target.value })}
+          />
+          <input
+            type="number"
+            step="0.05"
+            min="0"
+            className="w-24 px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500"
+            placeholder="Target"
+            value={levels.target}
+            onChange={(e) => setLevels({ ...levels, target: e.target.value })}
+          />
+          <button
+            type="button"
+            className="px-3 py-1 border border-transparent text-xs font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+            onClick={handleSave}
+            disabled={isSubmitting}
+          >
+            Save
+          </button>
+          <button
+            type="button"
+            className="px-3 py-1 border border-gray-300 text-xs font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+            onClick={() => setIsEditing(false)}
+            disabled={isSubmitting}
+          >
+            Cancel
+          </button>
+        </div>
+      ) : (
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            className="inline-flex items-center px-3 py-1 border border-gray-300 text-xs font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+            onClick={() => setIsEditing(true)}
+            disabled={isSubmitting}
+          >
+            <FiEdit2 className="mr-1 h-3 w-3" /> SL / Target
+          </button>
+          <button
+            type="button"
+            className="inline-flex items-center px-3 py-1 border border-transparent text-xs font-medium rounded-md text-white bg-red-600 hover:bg-red-700 disabled:opacity-50"
+            onClick={handleExit}
+            disabled={isSubmitting}
+          >
+            <FiLogOut className="mr-1 h-3 w-3" /> Exit
+          </button>
+        </div>
+      )}
+      {message && (
+        <p className={`text-xs ${message.type === 'success' ? 'text-green-600' : 'text-red-600'}`}>{message.text}</p>
+      )}
+    </div>
+  );
+};
+
+export default PositionExitControls;
@@ -14,6 +14,33 @@ interface User {
   isAutoTradingEnabled?: boolean;
   maxTradesPerDay?: number;
   maxCapitalPerTrade?: number;
+  maxLots?: number;
+  positionSizing?: {
+    mode: 'FIXED_CAPITAL' | 'FIXED_RISK' | 'PERCENT_RISK' | 'KELLY';
+    accountCapital: number;
+    riskAmount: number;
+    riskPercent: number;
+    kellyFraction: number;
+  };
+  tradingMode?: 'LIVE' | 'PAPER';
+  paperTrading?: {
+    slippagePercent: number;
+    latencyMs: number;
+  };
+  riskLimits?: {
+    maxDailyLoss: number;
+    maxDailyLossPercent: number;
+    maxConsecutiveLosses: number;
+    maxOpenPositions: number;
+    maxExposurePerUnderlying: number;
+    flattenOnBreach: boolean;
+  };
+  circuitBreaker?: {
+    isTripped: boolean;
+    rule?: string;
+    reason?: string;
+    trippedAt?: string;
+  };
 }
 
 // Define Authentication Context
@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
 import { FiServer, FiDatabase, FiWifi, FiCpu, FiAlertCircle, FiCheckCircle, FiRefreshCw } from 'react-icons/fi';
 import { adminAPI } from '../../services/api.service';
+import type { CircuitBreakerOverview, ReconciliationReport } from '../../types';
 import toast from 'react-hot-toast';
 
 interface SystemStatus {
@@ -39,10 +40,34 @@ const SystemStatusPage = () => {
   const [systemStatus, setSystemStatus] = useState<SystemStatus>(defaultStatus);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [reconciliation, setReconciliation] = useState<ReconciliationReport | null>(null);
+  const [isReconciling, setIsReconciling] = useState(false);
+  const [circuitBreaker, setCircuitBreaker] = useState<CircuitBreakerOverview | null>(null);
+
+  const fetchReconciliation = async () => {
+    try {
+      const response = await adminAPI.getReconciliation();
+      setReconciliation(response.data.report);
+      setIsReconciling(response.data.isRunning);
+    } catch (err) {
+      console.error('Error fetching reconciliation report:', err);
+    }
+  };
+
+  const fetchCircuitBreaker = async () => {
+    try {
+      const response = await adminAPI.getCircuitBreaker();
+      setCircuitBreaker(response.data);
+    } catch (err) {
+      console.error('Error fetching circuit breaker:', err);
+    }
+  };
 
   const fetchSystemStatus = async () => {
     setIsLoading(true);
     setError(null);
+    fetchReconciliation();
+    fetchCircuitBreaker();
 
     try {
       // In a real implementation, this would call the backend API
@@ -77,6 +102,50 @@ const SystemStatusPage = () => {
     }
   };
 
+  const runReconciliation = async () => {
+    setIsReconciling(true);
+
+    try {
+      toast.loading('Reconciling with broker...');
+      const response = await adminAPI.runReconciliation();
+
+      toast.dismiss();
+      toast.success(response.data.message);
+      setReconciliation(response.data.report);
+    } catch (err) {
+      toast.dismiss();
+      toast.error('Failed to reconcile with broker');
+    } finally {
+      setIsReconciling(false);
+    }
+  };
+
+  const tripGlobalCircuitBreaker = async () => {
+    const reason = window.prompt('Reason for stopping auto-trading of all accounts:');
+
+    if (!reason) {
+      return;
+    }
+
+    try {
+      const response = await adminAPI.tripCircuitBreaker(reason);
+      toast.success(response.data.message);
+      fetchCircuitBreaker();
+    } catch (err) {
+      toast.error('Failed to trip circuit breaker');
+    }
+  };
+
+  const rearmCircuitBreaker = async (userId?: string) => {
+    try {
+      const response = await adminAPI.rearmCircuitBreaker(userId);
+      toast.success(response.data.message);
+      fetchCircuitBreaker();
+    } catch (err) {
+      toast.error('Failed to re-arm circuit breaker');
+    }
+  };
+
   const refreshMarketData = async () => {
     try {
       toast.loading('Refreshing market data...');
@@ -314,6 +383,140 @@ const SystemStatusPage = () => {
             </div>
           </div>
 
+          <div className="bg-white shadow overflow-hidden sm:rounded-lg">
+            <div className="px-4 py-5 sm:p-6">
+              <div className="flex justify-between items-center">
+                <div>
+                  <h3 className="text-lg leading-6 font-medium text-gray-900">Broker Reconciliation</h3>
+                  <p className="mt-1 max-w-2xl text-sm text-gray-500">
+                    {reconciliation
+                      ? `Last run ${new Date(reconciliation.completedAt).toLocaleString()} · ${reconciliation.users} users · ${reconciliation.discrepancies.length} discrepancies, ${reconciliation.repaired} repaired`
+                      : 'Orders and positions have not been reconciled yet'}
+                  </p>
+                </div>
+                <button
+                  onClick={runReconciliation}
+                  disabled={isReconciling}
+                  className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+                >
+                  <FiRefreshCw className={`mr-2 -ml-1 h-4 w-4 ${isReconciling ? 'animate-spin' : ''}`} />
+                  Reconcile Now
+                </button>
+              </div>
+
+              {reconciliation?.errors.map((reconciliationError) => (
+                <p key={reconciliationError} className="mt-3 text-sm text-red-600">{reconciliationError}</p>
+              ))}
+
+              {reconciliation && reconciliation.discrepancies.length > 0 && (
+                <div className="mt-5 overflow-x-auto border-t border-gray-200">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">User</th>
+                        <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Symbol</th>
+                        <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Type</th>
+                        <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">System / Broker</th>
+                        <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Details</th>
+                        <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {reconciliation.discrepancies.map((discrepancy, idx) => (
+                        <tr key={`${discrepancy.type}-${discrepancy.userId}-${discrepancy.tradingSymbol}-${idx}`}>
+                          <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">{discrepancy.username}</td>
+                          <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">{discrepancy.tradingSymbol}</td>
+                          <td className="px-4 py-3 whitespace-nowrap text-xs font-mono text-gray-600">{discrepancy.type}</td>
+                          <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">
+                            {discrepancy.system !== undefined || discrepancy.broker !== undefined
+                              ? `${discrepancy.system ?? '-'} / ${discrepancy.broker ?? '-'}`
+                              : '-'}
+                          </td>
+                          <td className="px-4 py-3 text-sm text-gray-500">{discrepancy.message}</td>
+                          <td className="px-4 py-3 whitespace-nowrap">
+                            <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+                              discrepancy.repaired ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'
+                            }`}>
+                              {discrepancy.repaired ? 'REPAIRED' : 'NEEDS ATTENTION'}
+                            </span>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          </div>
+
+          <div className="bg-white shadow overflow-hidden sm:rounded-lg">
+            <div className="px-4 py-5 sm:p-6">
+              <div className="flex justify-between items-center">
+                <div>
+                  <h3 className="text-lg leading-6 font-medium text-gray-900">Circuit Breaker</h3>
+                  <p className={`mt-1 max-w-2xl text-sm ${circuitBreaker?.circuitBreaker.isTripped ? 'text-red-600' : 'text-gray-500'}`}>
+                    {circuitBreaker?.circuitBreaker.isTripped
+                      ? `Global kill switch tripped: ${circuitBreaker.circuitBreaker.reason}`
+                      : 'Global kill switch is armed'}
+                  </p>
+                </div>
+                {circuitBreaker?.circuitBreaker.isTripped ? (
+                  <button
+                    onClick={() => rearmCircuitBreaker()}
+                    className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+                  >
+                    Re-arm
+                  </button>
+                ) : (
+                  <button
+                    onClick={tripGlobalCircuitBreaker}
+                    className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-red-600 hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500"
+                  >
+                    Stop Auto-Trading
+                  </button>
+                )}
+              </div>
+
+              {circuitBreaker && circuitBreaker.trippedUsers.length > 0 && (
+                <div className="mt-5 overflow-x-auto border-t border-gray-200">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">User</th>
+                        <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Rule</th>
+                        <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Reason</th>
+                        <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Tripped At</th>
+                        <th scope="col" className="px-4 py-3" />
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {circuitBreaker.trippedUsers.map((trippedUser) => (
+                        <tr key={trippedUser._id}>
+                          <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">
+                            {trippedUser.username}{trippedUser.tradingMode === 'PAPER' ? ' (paper)' : ''}
+                          </td>
+                          <td className="px-4 py-3 whitespace-nowrap text-xs font-mono text-gray-600">{trippedUser.circuitBreaker.rule}</td>
+                          <td className="px-4 py-3 text-sm text-gray-500">{trippedUser.circuitBreaker.reason}</td>
+                          <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">
+                            {trippedUser.circuitBreaker.trippedAt ? new Date(trippedUser.circuitBreaker.trippedAt).toLocaleString() : '-'}
+                          </td>
+                          <td className="px-4 py-3 whitespace-nowrap text-right">
+                            <button
+                              onClick={() => rearmCircuitBreaker(trippedUser._id)}
+                              className="px-3 py-1 border border-gray-300 text-xs font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+                            >
+                              Re-arm
+                            </button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          </div>
+
           <div className="bg-white shadow overflow-hidden sm:rounded-lg">
             <div className="px-4 py-5 sm:p-6">
               <h3 className="text-lg leading-6 font-medium text-gray-900">System Load</h3>
@@ -5,6 +5,8 @@ import {
   BarChart, Bar, PieChart, Pie, Cell, Legend
 } from 'recharts';
 import axios from 'axios';
+import { ordersAPI } from '../../services/api.service';
+import type { ExecutionQualityReport } from '../../types';
 
 // Sample analytics data
 const samplePerformanceData = [
@@ -58,6 +60,7 @@ const AnalyticsPage = () => {
   const [monthlyPerformance, setMonthlyPerformance] = useState(sampleMonthlyPerformance);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [executionQuality, setExecutionQuality] = useState<ExecutionQualityReport | null>(null);
   const [stats, setStats] = useState({
     totalProfit: 19500,
     winRate: 63,
@@ -98,6 +101,24 @@ const AnalyticsPage = () => {
     fetchAnalyticsData();
   }, [timeframe]);
 
+  useEffect(() => {
+    const fetchExecutionQuality = async () => {
+      const days: Record<string, number> = { week: 7, month: 30, year: 365 };
+      const from = days[timeframe]
+        ? new Date(Date.now() - days[timeframe] * 24 * 60 * 60 * 1000).toISOString()
+        : undefined;
+
+      try {
+        const response = await ordersAPI.getExecutionQuality(from);
+        setExecutionQuality(response.data);
+      } catch (err) {
+        console.error('Error fetching execution quality:', err);
+      }
+    };
+
+    fetchExecutionQuality();
+  }, [timeframe]);
+
   const formatCurrency = (value: number) => {
     return new Intl.NumberFormat('en-IN', {
       style: 'currency',
@@ -113,6 +134,7 @@ const AnalyticsPage = () => {
   // Chart tooltip formatters
   const profitTooltipFormatter = (value: number) => [formatCurrency(value), 'Profit/Loss'];
   const percentTooltipFormatter = (value: number) => [`${value}%`, 'Value'];
+  const slippageTooltipFormatter = (value: number, name: string) => [`₹${value.toFixed(2)} per unit`, name];
 
   return (
     <div className="space-y-6">
@@ -462,6 +484,107 @@ const AnalyticsPage = () => {
         </div>
       </div>
 
+      {/* Execution Quality */}
+      <div className="bg-white overflow-hidden shadow rounded-lg">
+        <div className="px-4 py-5 sm:px-6 border-b border-gray-200">
+          <h3 className="text-lg leading-6 font-medium text-gray-900">Execution Quality</h3>
+          <p className="mt-1 text-sm text-gray-500">
+            Fill price against the quote when the order was sent, and stop loss fills against their trigger. Positive slippage is a cost.
+          </p>
+        </div>
+        <div className="px-4 py-5 sm:p-6 space-y-6">
+          {!executionQuality || executionQuality.summary.trades === 0 ? (
+            <p className="text-sm text-gray-500">No filled orders with execution data yet.</p>
+          ) : (
+            <>
+              <div className="grid grid-cols-1 gap-5 sm:grid-cols-2 lg:grid-cols-4">
+                <div>
+                  <h4 className="text-sm font-medium text-gray-500">Entry Slippage</h4>
+                  <p className="mt-1 text-2xl font-semibold text-gray-900">
+                    {executionQuality.summary.avgSlippagePercent.toFixed(2)}%
+                  </p>
+                  <p className="text-xs text-gray-500">{formatCurrency(executionQuality.summary.slippageCost)} over {executionQuality.summary.trades} trades</p>
+                </div>
+                <div>
+                  <h4 className="text-sm font-medium text-gray-500">Stop Loss Slippage</h4>
+                  <p className="mt-1 text-2xl font-semibold text-gray-900">
+                    ₹{executionQuality.summary.avgStopLossSlippage.toFixed(2)}
+                  </p>
+                  <p className="text-xs text-gray-500">{formatCurrency(executionQuality.summary.stopLossSlippageCost)} over {executionQuality.summary.stopLossExits} exits</p>
+                </div>
+                <div>
+                  <h4 className="text-sm font-medium text-gray-500">Signal to Fill</h4>
+                  <p className="mt-1 text-2xl font-semibold text-gray-900">
+                    {(executionQuality.summary.avgLatencyMs / 1000).toFixed(1)}s
+                  </p>
+                </div>
+                <div>
+                  <h4 className="text-sm font-medium text-gray-500">By Order Type</h4>
+                  {executionQuality.byOrderType.map((group) => (
+                    <p key={group.key} className="mt-1 text-sm text-gray-900">
+                      {group.key}: {group.avgSlippagePercent.toFixed(2)}% ({group.trades})
+                    </p>
+                  ))}
+                </div>
+              </div>
+
+              <div className="h-80">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart
+                    data={executionQuality.byTimeOfDay}
+                    margin={{
+                      top: 5,
+                      right: 30,
+                      left: 20,
+                      bottom: 5,
+                    }}
+                  >
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="key" />
+                    <YAxis />
+                    <Tooltip formatter={slippageTooltipFormatter} />
+                    <Legend />
+                    <Bar dataKey="avgSlippage" name="Entry slippage" fill="#6366F1" />
+                    <Bar dataKey="avgStopLossSlippage" name="Stop loss slippage" fill="#F87171" />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Symbol</th>
+                      <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Trades</th>
+                      <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Entry Slippage</th>
+                      <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Slippage Cost</th>
+                      <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">vs Signal Price</th>
+                      <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Signal to Fill</th>
+                      <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">SL Slippage</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {executionQuality.bySymbol.map((group) => (
+                      <tr key={group.key}>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm font-medium text-gray-900">{group.key}</td>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">{group.trades}</td>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">{group.avgSlippagePercent.toFixed(2)}%</td>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">{formatCurrency(group.slippageCost)}</td>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">₹{group.avgDecisionSlippage.toFixed(2)}</td>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">{(group.avgLatencyMs / 1000).toFixed(1)}s</td>
+                        <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">
+                          {group.stopLossExits > 0 ? `₹${group.avgStopLossSlippage.toFixed(2)} (${group.stopLossExits})` : '-'}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+
       {/* Additional Stats */}
       <div className="bg-white overflow-hidden shadow rounded-lg">
         <div className="px-4 py-5 sm:px-6 border-b border-gray-200">
@@ -2,6 +2,8 @@ import { useState, useEffect } from 'react';
 import axios from 'axios';
 import { FiTrendingUp, FiTrendingDown, FiAlertCircle, FiCheck, FiBarChart2 } from 'react-icons/fi';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { marketDataAPI } from '../../services/api.service';
+import type { SectorStrength } from '../../types';
 
 // Sample data for chart
 const sampleData = [
@@ -29,6 +31,20 @@ const DashboardPage = () => {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [timeframe, setTimeframe] = useState('month');
+  const [sectors, setSectors] = useState<SectorStrength[]>([]);
+
+  useEffect(() => {
+    const fetchSectorStrength = async () => {
+      try {
+        const response = await marketDataAPI.getSectorStrength();
+        setSectors(response.data.sectors);
+      } catch (err) {
+        console.error('Failed to load sector strength', err);
+      }
+    };
+
+    fetchSectorStrength();
+  }, []);
 
   useEffect(() => {
     const fetchDashboardData = async () => {
@@ -279,6 +295,37 @@ const DashboardPage = () => {
         </div>
       </div>
 
+      {/* Sector Strength Section */}
+      <div className="bg-white overflow-hidden shadow rounded-lg">
+        <div className="px-4 py-5 sm:px-6 border-b border-gray-200">
+          <h3 className="text-lg leading-6 font-medium text-gray-900">Sector Strength vs NIFTY 50</h3>
+        </div>
+        <div className="px-4 py-5 sm:p-6">
+          {sectors.length === 0 ? (
+            <p className="text-sm text-gray-500">Sector data not available yet.</p>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {sectors.map((sector) => (
+                <li key={sector.sector} className="py-2 flex items-center justify-between">
+                  <div className="text-sm">
+                    <span className="font-medium text-gray-900">#{sector.rank} {sector.sector}</span>
+                    <span className="ml-2 text-gray-500">{sector.index}</span>
+                  </div>
+                  <div className="text-sm space-x-4">
+                    <span className={sector.dayChangePercent >= 0 ? 'text-green-600' : 'text-red-600'}>
+                      {sector.dayChangePercent.toFixed(2)}%
+                    </span>
+                    <span className={`font-medium ${sector.score >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                      RS {sector.score > 0 ? '+' : ''}{sector.score.toFixed(2)}
+                    </span>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+
       {/* Recent Signals Section */}
       <div className="bg-white overflow-hidden shadow rounded-lg">
         <div className="px-4 py-5 sm:px-6 border-b border-gray-200">
@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
 import { FiSearch, FiFilter, FiAlertCircle, FiArrowUp, FiArrowDown, FiCheckCircle, FiClock, FiX } from 'react-icons/fi';
 import axios from 'axios';
+import PositionExitControls from '../../components/orders/PositionExitControls';
 
 // Sample orders data
 const sampleOrders = [
@@ -15,7 +16,10 @@ const sampleOrders = [
     executionTime: '2023-07-18T09:35:02Z',
     signalId: '1',
     pnl: 485.0,
-    pnlPercentage: 8.02
+    pnlPercentage: 8.02,
+    stopLoss: 105.25,
+    target: 145.0,
+    isOpen: true
   },
   {
     id: '2',
@@ -41,7 +45,10 @@ const sampleOrders = [
     executionTime: '2023-07-18T11:05:01Z',
     signalId: '3',
     pnl: 315.0,
-    pnlPercentage: 23.2
+    pnlPercentage: 23.2,
+    stopLoss: 38.5,
+    target: 60.0,
+    isOpen: false
   },
   {
     id: '4',
@@ -331,6 +338,12 @@ const OrdersPage = () => {
                 >
                   Status
                 </th>
+                <th
+                  scope="col"
+                  className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                >
+                  Actions
+                </th>
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
@@ -360,11 +373,14 @@ const OrdersPage = () => {
                       <td className="px-6 py-4 whitespace-nowrap">
                         <div className="h-4 bg-gray-200 rounded w-20" />
                       </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="h-4 bg-gray-200 rounded w-24" />
+                      </td>
                     </tr>
                   ))
               ) : orders.length === 0 ? (
                 <tr>
-                  <td colSpan={7} className="px-6 py-10 text-center text-sm text-gray-500">
+                  <td colSpan={8} className="px-6 py-10 text-center text-sm text-gray-500">
                     No orders found with the current filters
                   </td>
                 </tr>
@@ -407,6 +423,13 @@ const OrdersPage = () => {
                     <td className="px-6 py-4 whitespace-nowrap">
                       {getStatusBadge(order.status)}
                     </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      {order.status === 'EXECUTED' && order.isOpen ? (
+                        <PositionExitControls orderId={order.id} stopLoss={order.stopLoss} target={order.target} />
+                      ) : (
+                        <span className="text-sm text-gray-400">-</span>
+                      )}
+                    </td>
                   </tr>
                 ))
               )}
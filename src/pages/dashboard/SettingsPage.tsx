@@ -1,7 +1,7 @@
 import { useState, useEffect } from 'react';
 import { useAuth } from '../../contexts/AuthContext';
 import { toast } from 'react-hot-toast';
-import { User, type ProfileUpdateData } from '../../types';
+import { User, type PositionSizingMode, type ProfileUpdateData, type TradingMode } from '../../types';
 import axios from 'axios';
 
 // Form data interface that matches expected fields in settings
@@ -17,6 +17,21 @@ interface FormData {
   isAutoTradingEnabled: boolean;
   maxTradesPerDay: number;
   maxCapitalPerTrade: number;
+  maxLots: number;
+  sizingMode: PositionSizingMode;
+  accountCapital: number;
+  riskAmount: number;
+  riskPercent: number;
+  kellyFraction: number;
+  tradingMode: TradingMode;
+  slippagePercent: number;
+  latencyMs: number;
+  maxDailyLoss: number;
+  maxDailyLossPercent: number;
+  maxConsecutiveLosses: number;
+  maxOpenPositions: number;
+  maxExposurePerUnderlying: number;
+  flattenOnBreach: boolean;
   preferredSegments: string[];
   riskLevel: string;
 }
@@ -35,6 +50,21 @@ const SettingsPage = () => {
     isAutoTradingEnabled: false,
     maxTradesPerDay: 3,
     maxCapitalPerTrade: 5000,
+    maxLots: 1,
+    sizingMode: 'FIXED_CAPITAL',
+    accountCapital: 100000,
+    riskAmount: 1000,
+    riskPercent: 1,
+    kellyFraction: 0.5,
+    tradingMode: 'LIVE',
+    slippagePercent: 0.1,
+    latencyMs: 500,
+    maxDailyLoss: 0,
+    maxDailyLossPercent: 3,
+    maxConsecutiveLosses: 3,
+    maxOpenPositions: 0,
+    maxExposurePerUnderlying: 0,
+    flattenOnBreach: false,
     preferredSegments: ['FO', 'NIFTY', 'BANKNIFTY'],
     riskLevel: 'medium'
   });
@@ -52,6 +82,21 @@ const SettingsPage = () => {
         isAutoTradingEnabled: user.isAutoTradingEnabled || false,
         maxTradesPerDay: user.maxTradesPerDay || 3,
         maxCapitalPerTrade: user.maxCapitalPerTrade || 5000,
+        maxLots: user.maxLots || 1,
+        sizingMode: user.positionSizing?.mode || 'FIXED_CAPITAL',
+        accountCapital: user.positionSizing?.accountCapital ?? 100000,
+        riskAmount: user.positionSizing?.riskAmount ?? 1000,
+        riskPercent: user.positionSizing?.riskPercent ?? 1,
+        kellyFraction: user.positionSizing?.kellyFraction ?? 0.5,
+        tradingMode: user.tradingMode || 'LIVE',
+        slippagePercent: user.paperTrading?.slippagePercent ?? 0.1,
+        latencyMs: user.paperTrading?.latencyMs ?? 500,
+        maxDailyLoss: user.riskLimits?.maxDailyLoss ?? 0,
+        maxDailyLossPercent: user.riskLimits?.maxDailyLossPercent ?? 3,
+        maxConsecutiveLosses: user.riskLimits?.maxConsecutiveLosses ?? 3,
+        maxOpenPositions: user.riskLimits?.maxOpenPositions ?? 0,
+        maxExposurePerUnderlying: user.riskLimits?.maxExposurePerUnderlying ?? 0,
+        flattenOnBreach: user.riskLimits?.flattenOnBreach ?? false,
       }));
     }
   }, [user]);
@@ -104,6 +149,27 @@ const SettingsPage = () => {
         email: formData.email,
         maxTradesPerDay: formData.maxTradesPerDay,
         maxCapitalPerTrade: formData.maxCapitalPerTrade,
+        maxLots: Number(formData.maxLots),
+        positionSizing: {
+          mode: formData.sizingMode,
+          accountCapital: Number(formData.accountCapital),
+          riskAmount: Number(formData.riskAmount),
+          riskPercent: Number(formData.riskPercent),
+          kellyFraction: Number(formData.kellyFraction),
+        },
+        tradingMode: formData.tradingMode,
+        paperTrading: {
+          slippagePercent: Number(formData.slippagePercent),
+          latencyMs: Number(formData.latencyMs),
+        },
+        riskLimits: {
+          maxDailyLoss: Number(formData.maxDailyLoss),
+          maxDailyLossPercent: Number(formData.maxDailyLossPercent),
+          maxConsecutiveLosses: Number(formData.maxConsecutiveLosses),
+          maxOpenPositions: Number(formData.maxOpenPositions),
+          maxExposurePerUnderlying: Number(formData.maxExposurePerUnderlying),
+          flattenOnBreach: formData.flattenOnBreach,
+        },
       };
 
       // Update profile
@@ -269,6 +335,164 @@ const SettingsPage = () => {
               </div>
             </div>
 
+            <div className="grid grid-cols-1 gap-6 sm:grid-cols-3">
+              <div>
+                <label htmlFor="tradingMode" className="block text-sm font-medium text-gray-700">
+                  Trading Mode
+                </label>
+                <select
+                  name="tradingMode"
+                  id="tradingMode"
+                  value={formData.tradingMode}
+                  onChange={handleSelectChange}
+                  className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2 focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                >
+                  <option value="LIVE">Live (Zerodha)</option>
+                  <option value="PAPER">Paper Trading</option>
+                </select>
+              </div>
+              <div>
+                <label htmlFor="slippagePercent" className="block text-sm font-medium text-gray-700">
+                  Paper Slippage (%)
+                </label>
+                <input
+                  type="number"
+                  name="slippagePercent"
+                  id="slippagePercent"
+                  min="0"
+                  max="5"
+                  step="0.05"
+                  value={formData.slippagePercent}
+                  onChange={handleInputChange}
+                  disabled={formData.tradingMode !== 'PAPER'}
+                  className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2 focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm disabled:bg-gray-100"
+                />
+              </div>
+              <div>
+                <label htmlFor="latencyMs" className="block text-sm font-medium text-gray-700">
+                  Paper Fill Latency (ms)
+                </label>
+                <input
+                  type="number"
+                  name="latencyMs"
+                  id="latencyMs"
+                  min="0"
+                  max="60000"
+                  step="100"
+                  value={formData.latencyMs}
+                  onChange={handleInputChange}
+                  disabled={formData.tradingMode !== 'PAPER'}
+                  className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2 focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm disabled:bg-gray-100"
+                />
+              </div>
+            </div>
+            <p className="text-xs text-gray-500">
+              Paper trading simulates fills against live prices without sending orders to Zerodha. Paper P&amp;L is tracked separately.
+            </p>
+
+            <div className="grid grid-cols-1 gap-6 sm:grid-cols-3">
+              <div>
+                <label htmlFor="sizingMode" className="block text-sm font-medium text-gray-700">
+                  Position Sizing
+                </label>
+                <select
+                  name="sizingMode"
+                  id="sizingMode"
+                  value={formData.sizingMode}
+                  onChange={handleSelectChange}
+                  className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2 focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                >
+                  <option value="FIXED_CAPITAL">Fixed Capital</option>
+                  <option value="FIXED_RISK">Fixed Risk (₹)</option>
+                  <option value="PERCENT_RISK">Risk % of Account</option>
+                  <option value="KELLY">Kelly Fraction</option>
+                </select>
+              </div>
+              <div>
+                <label htmlFor="maxLots" className="block text-sm font-medium text-gray-700">
+                  Maximum Lots Per Trade
+                </label>
+                <input
+                  type="number"
+                  name="maxLots"
+                  id="maxLots"
+                  min="1"
+                  value={formData.maxLots}
+                  onChange={handleInputChange}
+                  className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2 focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                />
+              </div>
+              <div>
+                <label htmlFor="accountCapital" className="block text-sm font-medium text-gray-700">
+                  Account Capital (₹)
+                </label>
+                <input
+                  type="number"
+                  name="accountCapital"
+                  id="accountCapital"
+                  min="0"
+                  step="1000"
+                  value={formData.accountCapital}
+                  onChange={handleInputChange}
+                  disabled={formData.sizingMode !== 'PERCENT_RISK' && formData.sizingMode !== 'KELLY'}
+                  className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2 focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm disabled:bg-gray-100"
+                />
+              </div>
+              <div>
+                <label htmlFor="riskAmount" className="block text-sm font-medium text-gray-700">
+                  Risk Per Trade (₹)
+                </label>
+                <input
+                  type="number"
+                  name="riskAmount"
+                  id="riskAmount"
+                  min="0"
+                  step="100"
+                  value={formData.riskAmount}
+                  onChange={handleInputChange}
+                  disabled={formData.sizingMode !== 'FIXED_RISK'}
+                  className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2 focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm disabled:bg-gray-100"
+                />
+              </div>
+              <div>
+                <label htmlFor="riskPercent" className="block text-sm font-medium text-gray-700">
+                  Risk Per Trade (%)
+                </label>
+                <input
+                  type="number"
+                  name="riskPercent"
+                  id="riskPercent"
+                  min="0"
+                  max="10"
+                  step="0.1"
+                  value={formData.riskPercent}
+                  onChange={handleInputChange}
+                  disabled={formData.sizingMode !== 'PERCENT_RISK'}
+                  className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2 focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm disabled:bg-gray-100"
+                />
+              </div>
+              <div>
+                <label htmlFor="kellyFraction" className="block text-sm font-medium text-gray-700">
+                  Kelly Fraction
+                </label>
+                <input
+                  type="number"
+                  name="kellyFraction"
+                  id="kellyFraction"
+                  min="0"
+                  max="1"
+                  step="0.05"
+                  value={formData.kellyFraction}
+                  onChange={handleInputChange}
+                  disabled={formData.sizingMode !== 'KELLY'}
+                  className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2 focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm disabled:bg-gray-100"
+                />
+              </div>
+            </div>
+            <p className="text-xs text-gray-500">
+              Orders are always placed in whole lots. Risk is measured from the entry to the stop loss, and every mode is capped by the maximum capital and lots per trade. Kelly sizing falls back to fixed capital until 20 trades have closed.
+            </p>
+
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
                 Risk Level
@@ -331,6 +555,113 @@ const SettingsPage = () => {
               </div>
             </div>
 
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Circuit Breaker
+              </label>
+              {user?.circuitBreaker?.isTripped && (
+                <div className="mb-4 rounded-md bg-red-50 p-4">
+                  <div className="text-sm text-red-700">
+                    Circuit breaker tripped: {user.circuitBreaker.reason}. Auto-trading stays off until an admin re-arms it.
+                  </div>
+                </div>
+              )}
+              <div className="grid grid-cols-1 gap-6 sm:grid-cols-3">
+              <div>
+                <label htmlFor="maxDailyLoss" className="block text-sm font-medium text-gray-700">
+                  Max Daily Loss (₹)
+                </label>
+                <input
+                  type="number"
+                  name="maxDailyLoss"
+                  id="maxDailyLoss"
+                  min="0"
+                  step="500"
+                  value={formData.maxDailyLoss}
+                  onChange={handleInputChange}
+                  className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2 focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                />
+              </div>
+              <div>
+                <label htmlFor="maxDailyLossPercent" className="block text-sm font-medium text-gray-700">
+                  Max Daily Loss (% of capital)
+                </label>
+                <input
+                  type="number"
+                  name="maxDailyLossPercent"
+                  id="maxDailyLossPercent"
+                  min="0"
+                  max="100"
+                  step="0.5"
+                  value={formData.maxDailyLossPercent}
+                  onChange={handleInputChange}
+                  className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2 focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                />
+              </div>
+              <div>
+                <label htmlFor="maxConsecutiveLosses" className="block text-sm font-medium text-gray-700">
+                  Max Consecutive Losses
+                </label>
+                <input
+                  type="number"
+                  name="maxConsecutiveLosses"
+                  id="maxConsecutiveLosses"
+                  min="0"
+                  step="1"
+                  value={formData.maxConsecutiveLosses}
+                  onChange={handleInputChange}
+                  className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2 focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                />
+              </div>
+              <div>
+                <label htmlFor="maxOpenPositions" className="block text-sm font-medium text-gray-700">
+                  Max Open Positions
+                </label>
+                <input
+                  type="number"
+                  name="maxOpenPositions"
+                  id="maxOpenPositions"
+                  min="0"
+                  step="1"
+                  value={formData.maxOpenPositions}
+                  onChange={handleInputChange}
+                  className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2 focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                />
+              </div>
+              <div>
+                <label htmlFor="maxExposurePerUnderlying" className="block text-sm font-medium text-gray-700">
+                  Max Exposure per Underlying (₹)
+                </label>
+                <input
+                  type="number"
+                  name="maxExposurePerUnderlying"
+                  id="maxExposurePerUnderlying"
+                  min="0"
+                  step="1000"
+                  value={formData.maxExposurePerUnderlying}
+                  onChange={handleInputChange}
+                  className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2 focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                />
+              </div>
+              </div>
+              <div className="mt-4 flex items-center">
+                <input
+                  type="checkbox"
+                  name="flattenOnBreach"
+                  id="flattenOnBreach"
+                  checked={formData.flattenOnBreach}
+                  onChange={handleInputChange}
+                  className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+                />
+                <label htmlFor="flattenOnBreach" className="ml-2 block text-sm text-gray-900">
+                  Exit open positions when the circuit breaker trips
+                </label>
+              </div>
+              <p className="mt-1 text-xs text-gray-500">
+                A breach stops auto-trading for the rest of the day until an admin re-arms it. Set a limit to 0 to disable it.
+              </p>
+            </div>
+
             <div>
               <div className="flex items-center">
                 <input
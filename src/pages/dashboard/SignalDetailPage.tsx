@@ -1,9 +1,10 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { FiArrowLeft, FiAlertCircle, FiArrowUp, FiArrowDown, FiCheckCircle, FiClock, FiTrendingUp, FiTrendingDown } from 'react-icons/fi';
-import { signalsAPI } from '../../services/api.service';
-import type { Signal } from '../../types';
+import { signalsAPI, ordersAPI } from '../../services/api.service';
+import type { Signal, Order } from '../../types';
 import axios from 'axios';
+import PositionExitControls from '../../components/orders/PositionExitControls';
 
 // Sample signal data
 const sampleSignals = [
@@ -151,6 +152,25 @@ const SignalDetailPage = () => {
   const [signal, setSignal] = useState<Signal | SampleSignal | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [openPositions, setOpenPositions] = useState<Order[]>([]);
+
+  // The user's filled orders for this signal that have not exited yet
+  const fetchOpenPositions = useCallback(async () => {
+    if (!id) {
+      return;
+    }
+
+    try {
+      const response = await ordersAPI.getSignalOrders(id);
+      setOpenPositions(response.data.orders.filter(order => order.status === 'COMPLETE' && !order.exitReason));
+    } catch {
+      setOpenPositions([]);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    fetchOpenPositions();
+  }, [fetchOpenPositions]);
 
   useEffect(() => {
     const fetchSignalDetails = async () => {
@@ -474,6 +494,43 @@ const SignalDetailPage = () => {
         </div>
       </div>
 
+      {/* Open Positions */}
+      {openPositions.length > 0 && (
+        <div className="bg-white shadow overflow-hidden rounded-lg">
+          <div className="px-4 py-5 sm:px-6">
+            <h3 className="text-lg leading-6 font-medium text-gray-900">Your Position</h3>
+          </div>
+          <div className="border-t border-gray-200 divide-y divide-gray-200">
+            {openPositions.map((order) => {
+              const stopLoss = order.stopLossOrder?.triggerPrice ?? order.ocoTrigger?.stopLoss;
+              const target = order.targetOrder?.price ?? order.ocoTrigger?.target;
+              const orderId = order._id || order.id;
+
+              return (
+                <div key={orderId} className="px-4 py-5 sm:px-6 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+                  <div className="text-sm text-gray-700">
+                    <p className="font-medium text-gray-900">
+                      {order.tradingSymbol} {order.isPaper && <span className="text-xs text-gray-500">(Paper)</span>}
+                    </p>
+                    <p>
+                      {order.filledQuantity} @ {formatPrice(order.averagePrice || 0)}
+                      {stopLoss !== undefined && <> · SL {formatPrice(stopLoss)}</>}
+                      {target !== undefined && <> · Target {formatPrice(target)}</>}
+                    </p>
+                  </div>
+                  <PositionExitControls
+                    orderId={orderId}
+                    stopLoss={stopLoss}
+                    target={target}
+                    onUpdated={fetchOpenPositions}
+                  />
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
       {/* P&L Analysis */}
       <div className="bg-white shadow overflow-hidden rounded-lg">
         <div className="px-4 py-5 sm:px-6">
@@ -8,9 +8,16 @@ import {
   ChangePasswordData,
   type Signal,
   type Order,
+  type ExitLevels,
+  type ExecutionQualityReport,
   type MarketData,
   type HistoricalData,
+  type OptionChain,
+  type SectorStrength,
   type SystemStatus,
+  type ReconciliationReport,
+  type RiskLimits,
+  type CircuitBreakerOverview,
   type ApiResponse,
   type PaginatedResponse
 } from '../types';
@@ -71,6 +78,11 @@ export const ordersAPI = {
   getOrderById: (id: string) => api.get<ApiResponse<Order>>(`/orders/${id}`),
   executeOrder: (signalId: string) => api.post<ApiResponse<Order>>('/orders/execute', { signalId }),
   cancelOrder: (orderId: string) => api.post<ApiResponse<{ success: boolean }>>('/orders/cancel', { orderId }),
+  getSignalOrders: (signalId: string) => api.get<{ orders: Order[] }>(`/orders?signalId=${signalId}`),
+  exitPosition: (orderId: string) => api.post<{ message: string }>(`/orders/${orderId}/exit`),
+  modifyExits: (orderId: string, levels: ExitLevels) => api.patch<{ message: string }>(`/orders/${orderId}/exits`, levels),
+  getExecutionQuality: (from?: string) =>
+    api.get<ExecutionQualityReport>('/orders/execution-quality', { params: { from } }),
 };
 
 // Market Data API
@@ -81,6 +93,9 @@ export const marketDataAPI = {
   getTopGainers: () => api.get<ApiResponse<MarketData[]>>('/market-data/top-gainers'),
   getTopLosers: () => api.get<ApiResponse<MarketData[]>>('/market-data/top-losers'),
   getMarketStatus: () => api.get<ApiResponse<{ isOpen: boolean; nextOpenTime?: string }>>('/market-data/status'),
+  getOptionChain: (symbol: string, strikes = 10) =>
+    api.get<{ optionChain: OptionChain }>(`/market-data/option-chain/${symbol}?strikes=${strikes}`),
+  getSectorStrength: () => api.get<{ sectors: SectorStrength[]; timestamp: string }>('/market-data/sector-strength'),
 };
 
 // Admin API
@@ -93,6 +108,15 @@ export const adminAPI = {
   getSystemStatus: () => api.get<ApiResponse<SystemStatus>>('/admin/system-status'),
   refreshMarketData: () => api.post<ApiResponse<{ success: boolean }>>('/admin/refresh-market-data'),
   getAnalytics: (period = '1m') => api.get<ApiResponse<{ analytics: any }>>(`/admin/analytics?period=${period}`),
+  getReconciliation: () =>
+    api.get<{ isRunning: boolean; report: ReconciliationReport | null }>('/admin/reconciliation'),
+  runReconciliation: () => api.post<{ message: string; report: ReconciliationReport }>('/admin/reconciliation'),
+  getCircuitBreaker: () => api.get<CircuitBreakerOverview>('/admin/circuit-breaker'),
+  updateRiskLimits: (limits: Partial<RiskLimits>) =>
+    api.put<{ message: string; limits: RiskLimits }>('/admin/circuit-breaker', { limits }),
+  tripCircuitBreaker: (reason: string, userId?: string) =>
+    api.post<{ message: string }>('/admin/circuit-breaker/trip', { userId, reason }),
+  rearmCircuitBreaker: (userId?: string) => api.post<{ message: string }>('/admin/circuit-breaker/rearm', { userId }),
 };
 
 export default api;
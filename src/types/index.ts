@@ -9,6 +9,89 @@ export interface User {
   isAutoTradingEnabled?: boolean;
   maxTradesPerDay?: number;
   maxCapitalPerTrade?: number;
+  maxLots?: number;
+  positionSizing?: PositionSizingSettings;
+  broker?: 'KITE' | 'MOCK';
+  tradingMode?: TradingMode;
+  paperTrading?: PaperTradingSettings;
+  riskLimits?: RiskLimits;
+  circuitBreaker?: CircuitBreakerState;
+}
+
+export type TradingMode = 'LIVE' | 'PAPER';
+
+export interface PaperTradingSettings {
+  slippagePercent: number;
+  latencyMs: number;
+}
+
+export type PositionSizingMode = 'FIXED_CAPITAL' | 'FIXED_RISK' | 'PERCENT_RISK' | 'KELLY';
+
+export interface PositionSizingSettings {
+  mode: PositionSizingMode;
+  accountCapital: number;
+  riskAmount: number;
+  riskPercent: number;
+  kellyFraction: number;
+}
+
+// A limit of 0 disables the rule
+export interface RiskLimits {
+  maxDailyLoss: number;
+  maxDailyLossPercent: number;
+  maxConsecutiveLosses: number;
+  maxOpenPositions: number;
+  maxExposurePerUnderlying: number;
+  flattenOnBreach: boolean;
+}
+
+export type CircuitBreakerRule =
+  | 'MAX_DAILY_LOSS'
+  | 'MAX_DAILY_LOSS_PERCENT'
+  | 'MAX_CONSECUTIVE_LOSSES'
+  | 'MAX_OPEN_POSITIONS'
+  | 'MAX_EXPOSURE_PER_UNDERLYING'
+  | 'MANUAL';
+
+export interface CircuitBreakerState {
+  isTripped: boolean;
+  rule?: CircuitBreakerRule;
+  reason?: string;
+  trippedAt?: string;
+  rearmedAt?: string;
+  rearmedBy?: string;
+}
+
+export interface CircuitBreakerOverview {
+  limits: RiskLimits;
+  circuitBreaker: CircuitBreakerState;
+  trippedUsers: Array<{
+    _id: string;
+    username: string;
+    tradingMode: TradingMode;
+    circuitBreaker: CircuitBreakerState;
+  }>;
+}
+
+// Execution quality, prices per unit, positive slippage is a cost
+export interface ExecutionQualityStats {
+  key: string;
+  trades: number;
+  avgSlippage: number;
+  avgSlippagePercent: number;
+  slippageCost: number;
+  avgDecisionSlippage: number;
+  avgLatencyMs: number;
+  stopLossExits: number;
+  avgStopLossSlippage: number;
+  stopLossSlippageCost: number;
+}
+
+export interface ExecutionQualityReport {
+  summary: ExecutionQualityStats;
+  bySymbol: ExecutionQualityStats[];
+  byTimeOfDay: ExecutionQualityStats[];
+  byOrderType: ExecutionQualityStats[];
 }
 
 // Auth Types
@@ -28,6 +111,12 @@ export interface ProfileUpdateData {
   email?: string;
   maxTradesPerDay?: number;
   maxCapitalPerTrade?: number;
+  maxLots?: number;
+  positionSizing?: PositionSizingSettings;
+  broker?: 'KITE' | 'MOCK';
+  tradingMode?: TradingMode;
+  paperTrading?: PaperTradingSettings;
+  riskLimits?: RiskLimits;
 }
 
 export interface ChangePasswordData {
@@ -46,10 +135,27 @@ export interface Signal {
   type: 'BUY' | 'SELL';
   stock: string;
   option: string;
+  optionContract?: {
+    tradingSymbol: string;
+    exchange: string;
+    instrumentToken: number;
+    strike: number;
+    expiry: string;
+    optionType: 'CE' | 'PE';
+    lotSize: number;
+  };
   currentMarketPrice: number;
   entryPrice: number;
   targetPrice: number;
   stopLoss: number;
+  optionLevels?: {
+    entryPrice: number;
+    stopLoss: number;
+    targetPrice: number;
+    delta: number;
+    source: 'QUOTE' | 'MODEL';
+  };
+  optionGreeks?: OptionGreeks;
   riskRewardRatio: string;
   generatedAt: string;
   sentToTelegram: boolean;
@@ -101,13 +207,14 @@ export interface SignalStats {
 // Order Types
 export interface Order {
   id: string;
+  _id?: string;
   userId: string;
   signalId: string;
   type: 'BUY' | 'SELL';
   symbol: string;
   quantity: number;
   price: number;
-  status: 'PENDING' | 'EXECUTED' | 'REJECTED' | 'CANCELLED';
+  status: 'PENDING' | 'EXECUTED' | 'REJECTED' | 'CANCELLED' | 'OPEN' | 'COMPLETE';
   orderId?: string;
   brokerOrderId?: string;
   transactionType: string;
@@ -121,7 +228,31 @@ export interface Order {
   cancelledAt?: string;
   rejectedAt?: string;
   rejectionReason?: string;
+  isPaper?: boolean;
   profitLoss?: number;
+  tradingSymbol?: string;
+  filledQuantity?: number;
+  averagePrice?: number;
+  exitPrice?: number;
+  exitReason?: 'TARGET_HIT' | 'SL_HIT' | 'MANUAL_EXIT' | 'MARKET_CLOSE';
+  stopLossOrder?: OrderExitLeg & { triggerPrice: number };
+  targetOrder?: OrderExitLeg & { price: number };
+  ocoTrigger?: {
+    triggerId: string;
+    stopLoss: number;
+    target: number;
+    status: string;
+  };
+}
+
+export interface OrderExitLeg {
+  orderId: string;
+  status: string;
+}
+
+export interface ExitLevels {
+  stopLoss?: number;
+  target?: number;
 }
 
 // Market Data Types
@@ -155,6 +286,46 @@ export interface CandleStick {
   volume: number;
 }
 
+export interface OptionGreeks {
+  impliedVolatility: number;
+  delta: number;
+  gamma: number;
+  theta: number;
+  vega: number;
+}
+
+export interface OptionChainQuote extends Partial<OptionGreeks> {
+  tradingSymbol: string;
+  lastPrice: number;
+  volume: number;
+  openInterest: number;
+  premium?: number;
+  thetaDecayPercent?: number;
+}
+
+export interface OptionChain {
+  symbol: string;
+  spotPrice: number;
+  expiry: string;
+  atmStrike: number;
+  atmImpliedVolatility: number | null;
+  chain: Array<{
+    strike: number;
+    CE?: OptionChainQuote;
+    PE?: OptionChainQuote;
+  }>;
+}
+
+export interface SectorStrength {
+  sector: string;
+  index: string;
+  lastPrice: number;
+  dayChangePercent: number;
+  relativeStrength: Record<string, number>;
+  score: number;
+  rank: number;
+}
+
 export interface HistoricalData {
   symbol: string;
   interval: string;
@@ -201,6 +372,38 @@ export interface SystemStatus {
   };
 }
 
+// Broker Reconciliation Types
+export type DiscrepancyType =
+  | 'ORDER_STATUS'
+  | 'ORDER_NOT_AT_BROKER'
+  | 'EXIT_NOT_SYNCED'
+  | 'UNPROTECTED_POSITION'
+  | 'UNKNOWN_ORDER'
+  | 'POSITION_MISMATCH'
+  | 'ORPHANED_POSITION';
+
+export interface Discrepancy {
+  type: DiscrepancyType;
+  userId: string;
+  username: string;
+  tradingSymbol: string;
+  orderId?: string;
+  brokerOrderId?: string;
+  system?: string | number;
+  broker?: string | number;
+  repaired: boolean;
+  message: string;
+}
+
+export interface ReconciliationReport {
+  startedAt: string;
+  completedAt: string;
+  users: number;
+  discrepancies: Discrepancy[];
+  repaired: number;
+  errors: string[];
+}
+
 // Pagination Types
 export interface PaginatedResponse<T> {
   data: T[];